@@ -0,0 +1,119 @@
+import {
+  classifySubjectDomain,
+  estimateGradeLevel,
+  HarvestedDocument,
+  HarvestImporter,
+  inferContentType,
+} from './harvest-import';
+
+function document(overrides: Partial<HarvestedDocument> = {}): HarvestedDocument {
+  return {
+    itemId: 'item-1',
+    originalPath: '/library/Year 5/maths/fractions.md',
+    filename: 'fractions.md',
+    extension: 'md',
+    mimeType: 'text/markdown',
+    size: 120,
+    modified: new Date('2024-01-01T00:00:00Z'),
+    textContent: 'Fractions split a number into equal parts. Halves and quarters are fractions.',
+    metadata: { title: 'Fractions', tags: [] },
+    ...overrides,
+  };
+}
+
+describe('classifySubjectDomain', () => {
+  it('weighs the title and path above the text', () => {
+    const classification = classifySubjectDomain(document());
+
+    expect(classification.domain).toBe('mathematics');
+    expect(classification.confidence).toBe(1);
+  });
+
+  it('counts program source and other languages', () => {
+    expect(classifySubjectDomain(document({
+      originalPath: '/library/misc/loops.py',
+      extension: 'py',
+      textContent: undefined,
+      metadata: { tags: [] },
+    })).domain).toBe('technology');
+
+    expect(classifySubjectDomain(document({
+      originalPath: '/library/misc/cuento.txt',
+      textContent: undefined,
+      metadata: { tags: [], language: 'es' },
+    })).domain).toBe('foreign_language');
+  });
+
+  it('defaults to language_arts without evidence', () => {
+    expect(classifySubjectDomain(document({
+      originalPath: '/library/misc/notes.txt',
+      textContent: undefined,
+      metadata: { tags: [] },
+    }))).toEqual({ domain: 'language_arts', confidence: 0, scores: {} });
+  });
+});
+
+describe('estimateGradeLevel', () => {
+  it('prefers a grade named in the path', () => {
+    expect(estimateGradeLevel(document())).toMatchObject({ gradeLevel: 4, source: 'path' });
+    expect(estimateGradeLevel(document({ originalPath: '/library/KS3/history.md' })))
+      .toMatchObject({ gradeLevel: 7, source: 'path' });
+  });
+
+  it('falls back to the default grade', () => {
+    expect(estimateGradeLevel(
+      document({ originalPath: '/library/notes.md', textContent: undefined }),
+      { defaultGradeLevel: 3 }
+    )).toEqual({ gradeLevel: 3, difficulty: 0.25, source: 'default' });
+  });
+});
+
+describe('inferContentType', () => {
+  it('reads the mime type, then the title', () => {
+    expect(inferContentType(document({ mimeType: 'video/mp4' }))).toBe('video');
+    expect(inferContentType(document({ filename: 'fractions-quiz.md' }))).toBe('assessment');
+    expect(inferContentType(document())).toBe('reading');
+  });
+});
+
+describe('HarvestImporter', () => {
+  const restricted = document({
+    itemId: 'item-2',
+    tierRestriction: 4,
+    roleRestriction: ['counsellor', 'headmaster'],
+  });
+
+  it('drafts items and places each away from the last', () => {
+    const importer = new HarvestImporter();
+    const [first, second] = importer.createDrafts([document(), document({ itemId: 'item-3' })]);
+
+    expect(first).toMatchObject({
+      status: 'draft',
+      sourceItemId: 'item-1',
+      content: {
+        id: 'harvested_item-1',
+        title: 'Fractions',
+        metadata: { domain: 'mathematics', gradeLevel: 4, version: 0 },
+      },
+    });
+    expect(first.content.metadata.tags).toEqual(['harvested', 'draft']);
+    expect(second.content.coordinate).not.toEqual(first.content.coordinate);
+  });
+
+  it('skips restricted items unless asked to include them', () => {
+    expect(new HarvestImporter().createDrafts([restricted, document()])).toHaveLength(1);
+  });
+
+  it('carries the restrictions of included items over to their drafts', () => {
+    const draft = new HarvestImporter({ includeRestricted: true }).createDraft(restricted);
+
+    expect(draft?.tierRestriction).toBe(4);
+    expect(draft?.roleRestriction).toEqual(['counsellor', 'headmaster']);
+    expect(draft?.roleRestriction).not.toBe(restricted.roleRestriction);
+    expect(draft?.reviewNotes).toContain('Source item is restricted by tier or role');
+
+    const open = new HarvestImporter({ includeRestricted: true }).createDraft(document());
+    expect(open).not.toHaveProperty('tierRestriction');
+    expect(open).not.toHaveProperty('roleRestriction');
+  });
+});
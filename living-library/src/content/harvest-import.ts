@@ -0,0 +1,482 @@
+/**
+ * Harvest Import
+ *
+ * Turns files found by the harvester into draft library content:
+ * classifies each item into a subject domain, estimates its grade level
+ * and difficulty, and places it near its domain's constellation.
+ * Drafts are not published; a teacher reviews them first.
+ */
+
+import { AstronomicalCoordinate } from '../personas/persona-spec';
+import { SubjectDomain, SUBJECT_DOMAINS } from '../personas/teacher';
+import { ContentBlock, ContentType, EducationalContent } from './content-types';
+import { CoordinateGenerator } from './knowledge-graph';
+
+/**
+ * Harvested item as produced by the file harvester
+ * Only the fields the import reads; a harvester `HarvestedItem` fits.
+ */
+export interface HarvestedDocument {
+  itemId: string;
+  originalPath: string;
+  filename: string;
+  extension: string;
+  mimeType: string;
+  size: number;                      // bytes
+  modified: Date;
+  textContent?: string;
+  summary?: string;
+  metadata: {
+    title?: string;
+    description?: string;
+    tags: string[];
+    keywords?: string[];
+    language?: string;               // ISO 639-1 code
+    duration?: number;               // seconds, for audio and video
+    [key: string]: any;
+  };
+  tierRestriction?: number;
+  roleRestriction?: string[];
+}
+
+/**
+ * Subject domain classification of one item
+ */
+export interface DomainClassification {
+  domain: SubjectDomain;
+  confidence: number;                // 0-1, share of the evidence for the domain
+  scores: Partial<Record<SubjectDomain, number>>;
+}
+
+/**
+ * Grade level estimate of one item
+ */
+export interface GradeEstimate {
+  gradeLevel: number;                // 0-12 (K-12)
+  difficulty: number;                // 0-1
+  readingLevel?: number;             // Flesch-Kincaid grade of the text
+  source: 'path' | 'text' | 'default';
+}
+
+/**
+ * Draft library content awaiting teacher review
+ */
+export interface ContentDraft {
+  content: EducationalContent;
+  status: 'draft';
+  sourceItemId: string;
+  sourcePath: string;
+  classification: DomainClassification;
+  grade: GradeEstimate;
+  reviewNotes: string[];             // What the reviewer should check
+  tierRestriction?: number;          // Lowest tier allowed to see the source item
+  roleRestriction?: string[];        // Roles allowed to see the source item
+}
+
+/**
+ * Harvest import options
+ */
+export interface HarvestImportOptions {
+  libraryLanguage?: string;          // Other languages count towards foreign_language (default 'en')
+  defaultGradeLevel?: number;        // When nothing hints at a grade (default 6)
+  minConfidence?: number;            // Below this the domain is flagged for review (default 0.4)
+  includeRestricted?: boolean;       // Import tier/role restricted items (default false)
+}
+
+/**
+ * Words that point to each subject domain
+ */
+export const DOMAIN_KEYWORDS: Record<SubjectDomain, string[]> = {
+  mathematics: [
+    'math', 'maths', 'mathematics', 'algebra', 'geometry', 'arithmetic', 'calculus',
+    'equation', 'fraction', 'fractions', 'decimal', 'multiplication', 'division',
+    'addition', 'subtraction', 'number', 'numbers', 'counting', 'triangle', 'angle',
+    'angles', 'polynomial', 'probability', 'statistics', 'graph', 'theorem', 'integer',
+  ],
+  science: [
+    'science', 'biology', 'chemistry', 'physics', 'experiment', 'hypothesis', 'cell',
+    'cells', 'energy', 'atom', 'atoms', 'molecule', 'photosynthesis', 'ecosystem',
+    'organism', 'evolution', 'gravity', 'force', 'electricity', 'magnet', 'planet',
+    'solar', 'species', 'chemical', 'reaction', 'laboratory', 'lab',
+  ],
+  language_arts: [
+    'reading', 'writing', 'grammar', 'spelling', 'vocabulary', 'poem', 'poetry',
+    'novel', 'story', 'stories', 'essay', 'literature', 'author', 'character',
+    'narrative', 'phonics', 'sentence', 'paragraph', 'punctuation', 'literacy',
+    'fiction', 'shakespeare', 'metaphor', 'comprehension',
+  ],
+  social_studies: [
+    'civics', 'government', 'citizenship', 'community', 'economics', 'economy',
+    'democracy', 'election', 'constitution', 'rights', 'law', 'society', 'culture',
+    'cultures', 'social', 'money', 'trade', 'vote', 'voting',
+  ],
+  history: [
+    'history', 'historical', 'war', 'revolution', 'empire', 'ancient', 'medieval',
+    'century', 'civilization', 'civilisation', 'dynasty', 'colonial', 'kingdom',
+    'pharaoh', 'roman', 'romans', 'victorian', 'timeline', 'treaty', 'archaeology',
+  ],
+  geography: [
+    'geography', 'map', 'maps', 'continent', 'continents', 'country', 'countries',
+    'river', 'rivers', 'mountain', 'mountains', 'climate', 'weather', 'ocean',
+    'oceans', 'latitude', 'longitude', 'population', 'volcano', 'earthquake', 'atlas',
+  ],
+  arts: [
+    'art', 'arts', 'painting', 'drawing', 'sculpture', 'colour', 'color', 'artist',
+    'design', 'craft', 'sketch', 'portrait', 'canvas', 'gallery', 'theatre',
+    'theater', 'drama', 'dance', 'photography',
+  ],
+  music: [
+    'music', 'song', 'songs', 'melody', 'rhythm', 'instrument', 'instruments',
+    'piano', 'guitar', 'violin', 'choir', 'orchestra', 'composer', 'chord',
+    'chords', 'notation', 'tempo', 'singing', 'lyrics',
+  ],
+  physical_education: [
+    'sport', 'sports', 'exercise', 'fitness', 'football', 'soccer', 'basketball',
+    'athletics', 'gymnastics', 'swimming', 'health', 'nutrition', 'team', 'game',
+    'games', 'running', 'stretching', 'pe',
+  ],
+  technology: [
+    'technology', 'computer', 'computers', 'computing', 'programming', 'coding',
+    'code', 'algorithm', 'software', 'internet', 'robot', 'robotics', 'data',
+    'python', 'javascript', 'scratch', 'network', 'digital', 'function', 'variable',
+  ],
+  foreign_language: [
+    'french', 'spanish', 'german', 'italian', 'mandarin', 'chinese', 'japanese',
+    'latin', 'translation', 'translate', 'conjugation', 'verbs', 'pronunciation',
+    'esl', 'mfl', 'bilingual',
+  ],
+};
+
+// Extensions of program source, which counts towards technology
+const CODE_EXTENSIONS = new Set([
+  'js', 'ts', 'py', 'java', 'c', 'cpp', 'cs', 'go', 'rb', 'rs', 'php', 'swift',
+  'kt', 'sb3', 'ipynb',
+]);
+
+const TITLE_WEIGHT = 3;              // Title, tags and path words count this many times
+const WORDS_PER_MINUTE = 150;        // Reading speed used for durations
+const DEFAULT_DURATION = 15;         // minutes, when nothing better is known
+
+/**
+ * Classify an item into the subject domain with the most keyword evidence
+ */
+export function classifySubjectDomain(
+  item: HarvestedDocument,
+  options: HarvestImportOptions = {}
+): DomainClassification {
+  const scores: Partial<Record<SubjectDomain, number>> = {};
+  const add = (domain: SubjectDomain, score: number) => {
+    scores[domain] = (scores[domain] || 0) + score;
+  };
+
+  const prominent = words([
+    item.metadata.title || '',
+    item.originalPath,
+    ...item.metadata.tags,
+    ...(item.metadata.keywords || []),
+  ].join(' '));
+  const body = words([item.metadata.description, item.summary, item.textContent]
+    .filter(Boolean)
+    .join(' '));
+
+  for (const domain of SUBJECT_DOMAINS) {
+    const keywords = new Set(DOMAIN_KEYWORDS[domain]);
+    const prominentHits = prominent.filter((word) => keywords.has(word)).length;
+    const bodyHits = body.filter((word) => keywords.has(word)).length;
+    // Body hits per thousand words, so long documents do not swamp the title
+    const bodyScore = body.length ? Math.min(10, (bodyHits / body.length) * 1000 / 5) : 0;
+    const score = prominentHits * TITLE_WEIGHT + bodyScore;
+    if (score > 0) add(domain, score);
+  }
+
+  if (CODE_EXTENSIONS.has(item.extension.toLowerCase())) add('technology', TITLE_WEIGHT);
+  if (item.mimeType.startsWith('audio/')) add('music', 1);
+
+  const libraryLanguage = options.libraryLanguage || 'en';
+  if (item.metadata.language && item.metadata.language !== libraryLanguage) {
+    add('foreign_language', TITLE_WEIGHT);
+  }
+
+  const ranked = (Object.entries(scores) as [SubjectDomain, number][])
+    .sort((a, b) => b[1] - a[1]);
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+
+  if (!ranked.length) {
+    return { domain: 'language_arts', confidence: 0, scores };
+  }
+
+  return {
+    domain: ranked[0][0],
+    confidence: round(ranked[0][1] / total),
+    scores,
+  };
+}
+
+/**
+ * Estimate grade level and difficulty
+ * A grade named in the path or title ("Grade 3", "Year 7", "KS2",
+ * "kindergarten") wins; otherwise the Flesch-Kincaid grade of the text.
+ */
+export function estimateGradeLevel(
+  item: HarvestedDocument,
+  options: HarvestImportOptions = {}
+): GradeEstimate {
+  const readingLevel = item.textContent ? fleschKincaidGrade(item.textContent) : undefined;
+  const named = namedGradeLevel(`${item.originalPath} ${item.metadata.title || ''}`);
+
+  if (named !== undefined) {
+    // Text harder than its grade is more difficult for that grade
+    const relative = readingLevel !== undefined ? (readingLevel - named) / 6 : 0;
+    return {
+      gradeLevel: named,
+      difficulty: round(clamp(0.5 + relative, 0, 1)),
+      readingLevel,
+      source: 'path',
+    };
+  }
+
+  if (readingLevel !== undefined) {
+    const gradeLevel = Math.round(clamp(readingLevel, 0, 12));
+    return {
+      gradeLevel,
+      difficulty: round(clamp(readingLevel / 12, 0, 1)),
+      readingLevel,
+      source: 'text',
+    };
+  }
+
+  const gradeLevel = options.defaultGradeLevel ?? 6;
+  return { gradeLevel, difficulty: round(gradeLevel / 12), source: 'default' };
+}
+
+/**
+ * Content type from the item's mime type, refined by its title
+ */
+export function inferContentType(item: HarvestedDocument): ContentType {
+  const mime = item.mimeType.toLowerCase();
+  if (mime.startsWith('video/')) return 'video';
+  if (mime.startsWith('audio/') || mime.startsWith('image/')) return 'exploration';
+  if (mime.includes('presentation') || mime.includes('powerpoint')) return 'lesson';
+  if (mime.includes('spreadsheet') || mime.includes('excel')) return 'activity';
+  if (CODE_EXTENSIONS.has(item.extension.toLowerCase())) return 'interactive';
+
+  const name = `${item.metadata.title || ''} ${item.filename}`.toLowerCase();
+  if (/\b(quiz|test|exam|assessment)\b/.test(name)) return 'assessment';
+  if (/\b(worksheet|exercises?|practice)\b/.test(name)) return 'activity';
+  if (/\bproject\b/.test(name)) return 'project';
+  if (/\blesson\b/.test(name)) return 'lesson';
+  return 'reading';
+}
+
+/**
+ * Converts harvested items into draft EducationalContent
+ * Keeps placement state so drafts in one domain spiral out from its centre.
+ */
+export class HarvestImporter {
+  private coordinates = new CoordinateGenerator();
+  private domainCounts: Map<SubjectDomain, number> = new Map();
+
+  constructor(private options: HarvestImportOptions = {}) {}
+
+  /**
+   * Draft content for one item, or undefined when it may not be imported
+   */
+  createDraft(item: HarvestedDocument): ContentDraft | undefined {
+    const restricted = item.tierRestriction !== undefined || !!item.roleRestriction?.length;
+    if (restricted && !this.options.includeRestricted) return undefined;
+
+    const classification = classifySubjectDomain(item, this.options);
+    const grade = estimateGradeLevel(item, this.options);
+    const type = inferContentType(item);
+    const reviewNotes: string[] = [];
+
+    if (classification.confidence < (this.options.minConfidence ?? 0.4)) {
+      reviewNotes.push(
+        classification.confidence === 0
+          ? 'No subject evidence found; domain defaulted to language_arts'
+          : `Subject domain uncertain (confidence ${classification.confidence})`
+      );
+    }
+    if (grade.source === 'default') {
+      reviewNotes.push(`No grade level evidence; defaulted to grade ${grade.gradeLevel}`);
+    }
+    if (!item.textContent && type !== 'video' && type !== 'exploration') {
+      reviewNotes.push('No text could be extracted');
+    }
+    if (restricted) {
+      reviewNotes.push('Source item is restricted by tier or role');
+    }
+
+    const content: EducationalContent = {
+      id: `harvested_${item.itemId}`,
+      type,
+      coordinate: this.place(classification.domain, grade.gradeLevel),
+      title: item.metadata.title || item.filename.replace(/\.[^.]+$/, ''),
+      description: item.metadata.description || item.summary || excerpt(item.textContent),
+      metadata: {
+        gradeLevel: grade.gradeLevel,
+        domain: classification.domain,
+        duration: estimateDuration(item),
+        difficulty: grade.difficulty,
+        accessibility: {
+          closedCaptions: false,
+          audioDescription: false,
+          textToSpeech: !!item.textContent,
+          adjustableFontSize: !!item.textContent,
+          highContrast: false,
+          screenReaderOptimized: false,
+          alternativeFormats: [],
+        },
+        tags: [...new Set([...item.metadata.tags, 'harvested', 'draft'])],
+        language: item.metadata.language || this.options.libraryLanguage || 'en',
+        lastUpdated: new Date(item.modified),
+        version: 0,                    // Unpublished until reviewed
+      },
+      adaptiveVersions: [
+        { gradeLevel: grade.gradeLevel, content: contentBlocks(item, type) },
+      ],
+      prerequisites: [],
+      relatedContent: [],
+      nextSteps: [],
+    };
+
+    const draft: ContentDraft = {
+      content,
+      status: 'draft',
+      sourceItemId: item.itemId,
+      sourcePath: item.originalPath,
+      classification,
+      grade,
+      reviewNotes,
+    };
+    if (restricted) {
+      // Carried over so gating can keep enforcing them once published
+      draft.tierRestriction = item.tierRestriction;
+      draft.roleRestriction = item.roleRestriction && [...item.roleRestriction];
+    }
+    return draft;
+  }
+
+  /**
+   * Drafts for a batch of items, skipping those that may not be imported
+   */
+  createDrafts(items: HarvestedDocument[]): ContentDraft[] {
+    return items
+      .map((item) => this.createDraft(item))
+      .filter((draft): draft is ContentDraft => draft !== undefined);
+  }
+
+  /**
+   * Next free position around the domain's constellation
+   */
+  private place(domain: SubjectDomain, gradeLevel: number): AstronomicalCoordinate {
+    const index = this.domainCounts.get(domain) || 0;
+    this.domainCounts.set(domain, index + 1);
+    return this.coordinates.generateCoordinate(domain, gradeLevel, index);
+  }
+}
+
+/**
+ * Flesch-Kincaid grade level of a text
+ */
+export function fleschKincaidGrade(text: string): number | undefined {
+  const sample = text.substring(0, 20000);
+  const wordList = sample.match(/[A-Za-z]+(?:'[A-Za-z]+)?/g) || [];
+  if (wordList.length < 30) return undefined;
+
+  const sentences = Math.max(1, (sample.match(/[.!?]+(\s|$)/g) || []).length);
+  const syllables = wordList.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (wordList.length / sentences)
+    + 11.8 * (syllables / wordList.length)
+    - 15.59;
+  return round(clamp(grade, 0, 18), 1);
+}
+
+/**
+ * Approximate English syllable count: vowel groups, minus a silent final e
+ */
+function countSyllables(word: string): number {
+  const lower = word.toLowerCase();
+  const groups = (lower.match(/[aeiouy]+/g) || []).length;
+  const silentE = /[^aeiouy]e$/.test(lower) && !/le$/.test(lower) && groups > 1 ? 1 : 0;
+  return Math.max(1, groups - silentE);
+}
+
+/**
+ * Grade named in a path or title
+ */
+function namedGradeLevel(text: string): number | undefined {
+  const lower = text.toLowerCase();
+  if (/\b(kindergarten|reception|pre-?k)\b/.test(lower)) return 0;
+
+  const grade = lower.match(/\b(?:grade|gr)[\s_-]?(\d{1,2})\b/) || lower.match(/\b(\d{1,2})(?:st|nd|rd|th)[\s_-]grade\b/);
+  if (grade && Number(grade[1]) <= 12) return Number(grade[1]);
+
+  // UK years run one ahead of US grades
+  const year = lower.match(/\b(?:year|yr)[\s_-]?(\d{1,2})\b/);
+  if (year && Number(year[1]) >= 1 && Number(year[1]) <= 13) return Number(year[1]) - 1;
+
+  // UK key stages, by their middle year
+  const stage = lower.match(/\bks[\s_-]?([1-4])\b/);
+  if (stage) return [1, 4, 7, 9][Number(stage[1]) - 1];
+
+  return undefined;
+}
+
+/**
+ * Minutes to work through an item
+ */
+function estimateDuration(item: HarvestedDocument): number {
+  if (typeof item.metadata.duration === 'number' && item.metadata.duration > 0) {
+    return Math.max(1, Math.round(item.metadata.duration / 60));
+  }
+  const wordCount = (item.textContent?.match(/\S+/g) || []).length;
+  return wordCount ? Math.max(5, Math.round(wordCount / WORDS_PER_MINUTE)) : DEFAULT_DURATION;
+}
+
+/**
+ * Content blocks that present an item
+ * Media is referenced by its original path rather than copied.
+ */
+function contentBlocks(item: HarvestedDocument, type: ContentType): ContentBlock[] {
+  const mime = item.mimeType.toLowerCase();
+  const source = { sourcePath: item.originalPath, mimeType: item.mimeType };
+  const blocks: ContentBlock[] = [];
+
+  if (mime.startsWith('video/')) blocks.push({ type: 'video', content: item.originalPath, metadata: source });
+  else if (mime.startsWith('audio/')) blocks.push({ type: 'audio', content: item.originalPath, metadata: source });
+  else if (mime.startsWith('image/')) blocks.push({ type: 'image', content: item.originalPath, metadata: source });
+
+  if (item.textContent) {
+    blocks.push({
+      type: type === 'interactive' ? 'code' : 'text',
+      content: item.textContent,
+      metadata: source,
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Opening of a text, shortened for a description
+ */
+function excerpt(text: string | undefined): string {
+  const clean = (text || '').replace(/\s+/g, ' ').trim();
+  return clean.length > 200 ? `${clean.substring(0, 197)}...` : clean;
+}
+
+/**
+ * Lowercase words
+ */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+/g) || [];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
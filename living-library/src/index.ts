@@ -19,6 +19,7 @@ export * from './personas/student';
 export * from './content/content-types';
 export * from './content/curriculum';
 export * from './content/knowledge-graph';
+export * from './content/harvest-import';
 
 // Gatekeeper Integration
 export * from './gatekeeper/library-policies';
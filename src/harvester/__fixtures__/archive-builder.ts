@@ -0,0 +1,122 @@
+/**
+ * Archive Builder - Small ZIP and tar archives for tests
+ *
+ * Writes one local header and central directory record per file, deflated
+ * unless stored is asked for. CRCs are left at zero, since the reader
+ * does not check them; sizes can be overridden to fake a lying header.
+ * Tar archives are ustar, with a pax header for names over 100 bytes.
+ */
+
+import * as zlib from "zlib";
+
+/**
+ * File to put in an archive
+ */
+export interface ArchiveFile {
+  name: string;
+  content: string | Buffer;
+  stored?: boolean; // Method 0 instead of deflate
+  declaredSize?: number; // Uncompressed size written to the headers
+}
+
+/**
+ * Build a ZIP archive
+ */
+export function zipArchive(files: (ArchiveFile | [string, string])[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of files) {
+    const file = Array.isArray(entry)
+      ? { name: entry[0], content: entry[1] }
+      : entry;
+    const name = Buffer.from(file.name, "utf8");
+    const content = Buffer.from(file.content);
+    const data = file.stored ? content : zlib.deflateRawSync(content);
+    const size = file.declaredSize ?? content.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x800, 6); // UTF-8 names
+    local.writeUInt16LE(file.stored ? 0 : 8, 8);
+    local.writeUInt16LE(0x21, 12); // 1980-01-01
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(file.stored ? 0 : 8, 10);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * Build a tar archive; type "5" makes a directory
+ */
+export function tarArchive(
+  files: (
+    { name: string; content: string | Buffer; type?: string } | [string, string]
+  )[],
+): Buffer {
+  const blocks: Buffer[] = [];
+
+  const entry = (name: string, type: string, body: Buffer) => {
+    const header = Buffer.alloc(512);
+    header.write(name.substring(0, 100), 0, "utf8");
+    header.write("0000644\0", 100, "latin1");
+    header.write(
+      `${body.length.toString(8).padStart(11, "0")}\0`,
+      124,
+      "latin1",
+    );
+    header.write("14000000000\0", 136, "latin1"); // 2021-01-14 08:25:36 UTC
+    header.write("        ", 148, "latin1");
+    header.write(type, 156, "latin1");
+    header.write("ustar\0" + "00", 257, "latin1");
+    let sum = 0;
+    for (const byte of header) sum += byte;
+    header.write(`${sum.toString(8).padStart(6, "0")}\0 `, 148, "latin1");
+
+    const padding = Buffer.alloc((512 - (body.length % 512)) % 512);
+    blocks.push(header, body, padding);
+  };
+
+  for (const item of files) {
+    const file = Array.isArray(item)
+      ? { name: item[0], content: item[1] }
+      : item;
+    if (Buffer.byteLength(file.name) > 100) {
+      const record = ` path=${file.name}\n`;
+      let length = Buffer.byteLength(record);
+      length += String(length + String(length).length).length;
+      entry("PaxHeader", "x", Buffer.from(`${length}${record}`));
+    }
+    entry(file.name, file.type ?? "0", Buffer.from(file.content));
+  }
+
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
@@ -0,0 +1,97 @@
+import * as zlib from "zlib";
+import { tarArchive, zipArchive } from "./__fixtures__/archive-builder";
+import { containerPath, expandArchive, readTar } from "./archives";
+
+function listed(data: Buffer, filename: string, limits = {}) {
+  const { members, skipped } = expandArchive(data, filename, limits);
+  return {
+    members: members.map((member) => [member.path, member.read().toString()]),
+    skipped,
+  };
+}
+
+describe("readTar", () => {
+  it("reads regular files with ustar and pax names", () => {
+    const long = `${"units/".repeat(20)}plan.md`;
+    const entries = readTar(
+      tarArchive([
+        { name: "week1", content: "", type: "5" },
+        ["week1/intro.md", "# Intro\n"],
+        [long, "# Plan\n"],
+      ]),
+    );
+
+    expect(entries.map(({ name, data }) => [name, data.toString()])).toEqual([
+      ["week1/intro.md", "# Intro\n"],
+      [long, "# Plan\n"],
+    ]);
+    expect(entries[0].modified).toEqual(new Date(0o14000000000 * 1000));
+  });
+
+  it("rejects a header with a bad checksum", () => {
+    const tar = tarArchive([["intro.md", "# Intro\n"]]);
+    tar[0] ^= 1;
+
+    expect(() => readTar(tar)).toThrow("Corrupt tar header");
+  });
+});
+
+describe("expandArchive", () => {
+  it("opens archives nested in tgz and zip archives", () => {
+    const inner = zipArchive([["answers.md", "# Answers\n"]]);
+    const tgz = zlib.gzipSync(
+      tarArchive([
+        ["intro.md", "# Intro\n"],
+        { name: "pack.zip", content: inner },
+      ]),
+    );
+
+    expect(listed(tgz, "week1.tar.gz")).toEqual({
+      members: [
+        ["intro.md", "# Intro\n"],
+        ["pack.zip!/answers.md", "# Answers\n"],
+      ],
+      skipped: [],
+    });
+    expect(containerPath("/share/week1.tar.gz!/pack.zip!/answers.md")).toBe(
+      "/share/week1.tar.gz",
+    );
+  });
+
+  it("skips unsafe, oversized and too deeply nested members", () => {
+    const innermost = zipArchive([["deep.md", "# Deep\n"]]);
+    const zip = zipArchive([
+      ["../escape.md", "# Escape\n"],
+      ["big.md", "x".repeat(300)],
+      ["notes.md", "# Notes\n"],
+      { name: "nested.zip", content: innermost, stored: true },
+    ]);
+
+    expect(listed(zip, "pack.zip", { maxEntrySize: 200, maxDepth: 1 })).toEqual(
+      {
+        members: [["notes.md", "# Notes\n"]],
+        skipped: [
+          { path: "../escape.md", reason: "Unsafe path" },
+          { path: "big.md", reason: "Larger than 200 bytes" },
+          { path: "nested.zip", reason: "Archives nested deeper than 1" },
+        ],
+      },
+    );
+  });
+
+  it("stops listing past the member limit", () => {
+    const tar = tarArchive([
+      ["a.md", "A"],
+      ["b.md", "B"],
+      ["c.md", "C"],
+    ]);
+
+    expect(listed(tar, "pack.tar", { maxEntries: 2 })).toEqual({
+      members: [
+        ["a.md", "A"],
+        ["b.md", "B"],
+      ],
+      skipped: [{ path: "c.md", reason: "More than 2 members" }],
+    });
+  });
+});
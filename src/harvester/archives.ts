@@ -0,0 +1,397 @@
+/**
+ * Archives - Members of zip, tar and gzipped tar archives
+ *
+ * Archives found by a source are opened and their members harvested as
+ * items of their own, at paths such as "pack.zip!/week1/intro.md".
+ * Archives inside archives are opened too, down to a depth limit.
+ *
+ * Limits on member count, member size, unpacked total and compression
+ * ratio keep a zip bomb from exhausting memory: sizes are checked against
+ * the headers before anything is inflated, and inflation stops at the
+ * declared size, so a header that lies fails instead of expanding.
+ */
+
+import * as zlib from "zlib";
+import { InflateBudget } from "./inflate";
+import { readZip } from "./zip";
+
+/**
+ * Archive limits, per archive found by a source (nested ones included)
+ */
+export interface ArchiveLimits {
+  maxDepth?: number; // Levels of nested archives opened (default 3)
+  maxEntries?: number; // Members (default 10000)
+  maxEntrySize?: number; // bytes per member (default 256 MB)
+  maxTotalSize?: number; // bytes unpacked in all (default 1 GB)
+  maxRatio?: number; // Unpacked to packed size, for members over 1 MB (default 100)
+}
+
+/**
+ * File inside an archive
+ */
+export interface ArchiveMember {
+  path: string; // Inside the outermost archive, nested ones joined by "!/"
+  size: number; // bytes
+  modified: Date;
+  read(): Buffer;
+}
+
+/**
+ * Members of an archive and the ones left out, with the reason
+ */
+export interface ArchiveListing {
+  members: ArchiveMember[];
+  skipped: { path: string; reason: string }[];
+}
+
+export type ArchiveFormat = "zip" | "tar" | "tgz";
+
+export const ARCHIVE_SEPARATOR = "!/";
+
+const DEFAULT_LIMITS: Required<ArchiveLimits> = {
+  maxDepth: 3,
+  maxEntries: 10_000,
+  maxEntrySize: 256 * 1024 * 1024,
+  maxTotalSize: 1024 * 1024 * 1024,
+  maxRatio: 100,
+};
+
+const RATIO_MIN_SIZE = 1024 * 1024; // Small members may compress as well as they like
+const TAR_BLOCK = 512;
+
+/**
+ * Archive format from a file name
+ */
+export function archiveFormat(filename: string): ArchiveFormat | undefined {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith(".zip")) return "zip";
+  if (lower.endsWith(".tar")) return "tar";
+  if (lower.endsWith(".tgz") || lower.endsWith(".tar.gz")) return "tgz";
+  return undefined;
+}
+
+/**
+ * Path of the file holding an item: the outermost archive for members
+ */
+export function containerPath(itemPath: string): string {
+  const separator = itemPath.indexOf(ARCHIVE_SEPARATOR);
+  return separator < 0 ? itemPath : itemPath.substring(0, separator);
+}
+
+/**
+ * List the members of an archive, opening nested archives
+ * Throws when the archive itself is corrupt or unpacks beyond the limits;
+ * members that break a limit are skipped.
+ */
+export function expandArchive(
+  data: Buffer,
+  filename: string,
+  limits: ArchiveLimits = {},
+): ArchiveListing {
+  const format = archiveFormat(filename);
+  if (!format) throw new Error(`Not an archive: ${filename}`);
+
+  const listing: ArchiveListing = { members: [], skipped: [] };
+  const budget = {
+    limits: { ...DEFAULT_LIMITS, ...limits },
+    entries: 0,
+    bytes: 0,
+  };
+  expandInto(listing, data, format, "", 1, budget);
+  return listing;
+}
+
+interface Budget {
+  limits: Required<ArchiveLimits>;
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Raw member as a format reader lists it
+ */
+interface RawMember {
+  name: string;
+  size: number; // Declared size
+  packedSize: number;
+  modified: Date;
+  read(): Buffer;
+}
+
+/**
+ * Add an archive's members to a listing
+ */
+function expandInto(
+  listing: ArchiveListing,
+  data: Buffer,
+  format: ArchiveFormat,
+  prefix: string,
+  depth: number,
+  budget: Budget,
+): void {
+  const { limits } = budget;
+  const raw =
+    format === "zip"
+      ? zipMembers(data, limits)
+      : tarMembers(data, format, limits);
+
+  for (const member of raw) {
+    const name = safeName(member.name);
+    const memberPath = prefix + (name ?? member.name);
+
+    if (name === undefined) {
+      listing.skipped.push({ path: memberPath, reason: "Unsafe path" });
+      continue;
+    }
+    if (++budget.entries > limits.maxEntries) {
+      listing.skipped.push({
+        path: memberPath,
+        reason: `More than ${limits.maxEntries} members`,
+      });
+      return;
+    }
+    if (member.size > limits.maxEntrySize) {
+      listing.skipped.push({
+        path: memberPath,
+        reason: `Larger than ${limits.maxEntrySize} bytes`,
+      });
+      continue;
+    }
+    if (
+      member.size > RATIO_MIN_SIZE &&
+      member.size > member.packedSize * limits.maxRatio
+    ) {
+      listing.skipped.push({
+        path: memberPath,
+        reason: `Compression ratio above ${limits.maxRatio}`,
+      });
+      continue;
+    }
+    if (budget.bytes + member.size > limits.maxTotalSize) {
+      listing.skipped.push({
+        path: memberPath,
+        reason: `Archive unpacks to more than ${limits.maxTotalSize} bytes`,
+      });
+      continue;
+    }
+    budget.bytes += member.size;
+
+    const nested = archiveFormat(name);
+    if (nested && depth < limits.maxDepth) {
+      try {
+        expandInto(
+          listing,
+          member.read(),
+          nested,
+          memberPath + ARCHIVE_SEPARATOR,
+          depth + 1,
+          budget,
+        );
+      } catch (error) {
+        listing.skipped.push({
+          path: memberPath,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+      continue;
+    }
+    if (nested) {
+      listing.skipped.push({
+        path: memberPath,
+        reason: `Archives nested deeper than ${limits.maxDepth}`,
+      });
+      continue;
+    }
+
+    listing.members.push({
+      path: memberPath,
+      size: member.size,
+      modified: member.modified,
+      read: member.read,
+    });
+  }
+}
+
+/**
+ * Files of a ZIP archive
+ */
+function zipMembers(
+  data: Buffer,
+  limits: Required<ArchiveLimits>,
+): RawMember[] {
+  return readZip(data, new InflateBudget(limits.maxTotalSize))
+    .filter((entry) => !entry.isDirectory)
+    .map((entry) => ({
+      name: entry.name,
+      size: entry.size,
+      packedSize: entry.compressedSize,
+      modified: entry.modified,
+      read: entry.read,
+    }));
+}
+
+/**
+ * Files of a tar archive, gunzipped first for tgz
+ */
+function tarMembers(
+  data: Buffer,
+  format: ArchiveFormat,
+  limits: Required<ArchiveLimits>,
+): RawMember[] {
+  let tar = data;
+  if (format === "tgz") {
+    // A gzip stream carries no trustworthy size, so cap the output
+    const maxOutputLength = Math.min(
+      limits.maxTotalSize,
+      Math.max(data.length * limits.maxRatio, RATIO_MIN_SIZE),
+    );
+    try {
+      tar = zlib.gunzipSync(data, { maxOutputLength });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+        throw new Error(
+          `Archive unpacks to more than ${maxOutputLength} bytes`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Members of a gzipped tar share the stream's ratio
+  const ratio = format === "tgz" ? data.length / Math.max(1, tar.length) : 1;
+
+  return readTar(tar).map((entry) => ({
+    ...entry,
+    packedSize: Math.ceil(entry.size * ratio),
+    read: () => entry.data,
+  }));
+}
+
+/**
+ * Regular files of a tar archive (ustar, pax and GNU long names)
+ */
+export function readTar(
+  data: Buffer,
+): { name: string; size: number; modified: Date; data: Buffer }[] {
+  const entries: {
+    name: string;
+    size: number;
+    modified: Date;
+    data: Buffer;
+  }[] = [];
+  let pax: Record<string, string> = {};
+  let longName: string | undefined;
+
+  for (let offset = 0; offset + TAR_BLOCK <= data.length;) {
+    const header = data.subarray(offset, offset + TAR_BLOCK);
+    if (header.every((byte) => byte === 0)) break; // End of archive
+
+    if (!validChecksum(header)) {
+      throw new Error("Corrupt tar header");
+    }
+
+    const type = String.fromCharCode(header[156] || 0x30);
+    const declared = Number(pax.size ?? tarNumber(header, 124, 12));
+    const start = offset + TAR_BLOCK;
+    const body = data.subarray(start, start + declared);
+    if (body.length < declared) throw new Error("Truncated tar archive");
+    offset = start + Math.ceil(declared / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === "x") {
+      pax = parsePax(body);
+      continue;
+    }
+    if (type === "L") {
+      longName = cString(body, 0, body.length);
+      continue;
+    }
+    if (type === "g") continue; // Global pax header
+
+    const ustar = header.toString("latin1", 257, 262) === "ustar";
+    const prefix = ustar ? cString(header, 345, 155) : "";
+    const shortName = cString(header, 0, 100);
+    const name =
+      pax.path ?? longName ?? (prefix ? `${prefix}/${shortName}` : shortName);
+    const mtime = Number(pax.mtime ?? tarNumber(header, 136, 12));
+    pax = {};
+    longName = undefined;
+
+    // Regular files only: no directories, links or devices
+    if (type !== "0" && type !== "7") continue;
+
+    entries.push({
+      name,
+      size: declared,
+      modified: new Date(mtime * 1000),
+      data: body,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Header checksum: the byte sum with the checksum field read as spaces
+ */
+function validChecksum(header: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === tarNumber(header, 148, 8);
+}
+
+/**
+ * Octal number field, or base-256 when the high bit is set
+ */
+function tarNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset] & 0x80) {
+    let value = header[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + header[offset + i];
+    }
+    return value;
+  }
+  const text = cString(header, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function cString(data: Buffer, offset: number, length: number): string {
+  const field = data.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString("utf8", 0, end < 0 ? field.length : end);
+}
+
+/**
+ * Pax extended header records ("<length> <key>=<value>\n")
+ */
+function parsePax(body: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < body.length) {
+    const space = body.indexOf(0x20, offset);
+    if (space < 0) break;
+    const length = parseInt(body.toString("latin1", offset, space), 10);
+    if (!length) break;
+
+    const record = body.toString("utf8", space + 1, offset + length - 1);
+    const equals = record.indexOf("=");
+    if (equals > 0) {
+      records[record.substring(0, equals)] = record.substring(equals + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Member name as a relative "/" path; undefined if it climbs out of the
+ * archive
+ */
+function safeName(name: string): string | undefined {
+  const parts = name
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((part) => part && part !== ".");
+  if (!parts.length || parts.includes("..")) return undefined;
+  return parts.join("/");
+}
@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import { hashBytes } from "../utils/crypto";
+import { LocalBlobStore, resolveStorageMode } from "./blob-store";
+import type { HarvestedItem, HarvestSource } from "./file-harvester";
+
+const CONTENT = Buffer.from("Halves and quarters.\n");
+const HASH = hashBytes(CONTENT);
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-blob-test-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("LocalBlobStore", () => {
+  it("stores content once under its hash", async () => {
+    const store = new LocalBlobStore(dir);
+
+    const first = await store.put(HASH, CONTENT);
+    const second = await store.put(HASH, () => Readable.from([CONTENT]));
+
+    expect(first).toEqual({
+      hash: HASH,
+      location: path.join(dir, HASH.substring(0, 2), HASH),
+      size: CONTENT.length,
+      deduplicated: false,
+    });
+    expect(second).toMatchObject({
+      location: first.location,
+      deduplicated: true,
+    });
+    expect(await store.read(HASH)).toEqual(CONTENT);
+    expect(await store.verify(HASH)).toBe(true);
+  });
+
+  it("rejects content that does not match its hash and leaves nothing behind", async () => {
+    const store = new LocalBlobStore(dir);
+
+    await expect(
+      store.put(HASH, () => Readable.from([Buffer.from("Thirds.\n")])),
+    ).rejects.toThrow(`Checksum mismatch for blob ${HASH}`);
+    expect(await store.has(HASH)).toBe(false);
+    expect(fs.readdirSync(path.join(dir, HASH.substring(0, 2)))).toEqual([]);
+    await expect(store.put("../escape", CONTENT)).rejects.toThrow(
+      "Not a SHA-256 blob name",
+    );
+  });
+
+  it("fails verification of a corrupted blob", async () => {
+    const store = new LocalBlobStore(dir);
+    const { location } = await store.put(HASH, CONTENT);
+    fs.writeFileSync(location, "Tampered.\n");
+
+    expect(await store.verify(HASH)).toBe(false);
+  });
+});
+
+describe("resolveStorageMode", () => {
+  const source = { sourceId: "notes" } as HarvestSource;
+  const item = { size: 100 } as HarvestedItem;
+
+  it("prefers the policy, then the source, then the default", () => {
+    expect(resolveStorageMode({}, source, item)).toBe("pocket");
+    expect(
+      resolveStorageMode({ defaultMode: "integrated" }, source, item),
+    ).toBe("integrated");
+    expect(
+      resolveStorageMode(
+        { defaultMode: "integrated" },
+        { ...source, storageMode: "pocket" },
+        item,
+      ),
+    ).toBe("pocket");
+    expect(
+      resolveStorageMode(
+        { defaultMode: "pocket", policy: () => "integrated" },
+        { ...source, storageMode: "pocket" },
+        item,
+      ),
+    ).toBe("integrated");
+  });
+
+  it("keeps items over the size limit in pocket mode", () => {
+    expect(
+      resolveStorageMode(
+        { defaultMode: "integrated", maxSize: 99 },
+        source,
+        item,
+      ),
+    ).toBe("pocket");
+  });
+});
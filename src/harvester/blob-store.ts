@@ -0,0 +1,254 @@
+/**
+ * Blob Store - Content-addressed storage for "integrated" items
+ *
+ * Integrated items have their bytes copied out of the source, so they
+ * outlive the share they were harvested from. Blobs are named by the
+ * SHA-256 of their content: identical files are stored once, and every
+ * copy is checked against the hash it was stored under.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { hashBytes, hashStream } from "../utils/crypto";
+import type { CloudProviderAdapter } from "../storage/cloud-providers";
+import type { HarvestedItem, HarvestSource } from "./file-harvester";
+
+/**
+ * Stored blob
+ */
+export interface StoredBlob {
+  hash: string; // SHA-256 of the content
+  location: string; // Local path or remote path of the blob
+  size: number; // bytes
+  deduplicated: boolean; // Already stored, nothing was written
+}
+
+/**
+ * Blob content: bytes, or a stream opened only if the blob is missing
+ */
+export type BlobContent = Buffer | (() => NodeJS.ReadableStream);
+
+/**
+ * Content-addressed blob store
+ */
+export interface BlobStore {
+  /**
+   * Store content under its hash; fails if the content does not match it
+   */
+  put(hash: string, content: BlobContent): Promise<StoredBlob>;
+
+  has(hash: string): Promise<boolean>;
+
+  read(hash: string): Promise<Buffer>;
+
+  /**
+   * Re-hash a stored blob and compare it with its name
+   */
+  verify(hash: string): Promise<boolean>;
+}
+
+/**
+ * Blobs in a local directory, fanned out by the first two hash characters
+ */
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly directory: string) {}
+
+  async put(hash: string, content: BlobContent): Promise<StoredBlob> {
+    const blobPath = this.blobPath(hash);
+    const existing = await fs.promises.stat(blobPath).catch(() => undefined);
+    if (existing) {
+      return {
+        hash,
+        location: blobPath,
+        size: existing.size,
+        deduplicated: true,
+      };
+    }
+
+    await fs.promises.mkdir(path.dirname(blobPath), { recursive: true });
+    const tempPath = `${blobPath}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+    try {
+      const { size } = await spool(hash, content, tempPath);
+      await fs.promises.rename(tempPath, blobPath);
+      return { hash, location: blobPath, size, deduplicated: false };
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return fs.existsSync(this.blobPath(hash));
+  }
+
+  async read(hash: string): Promise<Buffer> {
+    return fs.promises.readFile(this.blobPath(hash));
+  }
+
+  async verify(hash: string): Promise<boolean> {
+    if (!(await this.has(hash))) return false;
+    return (
+      (await hashStream(fs.createReadStream(this.blobPath(hash)))) === hash
+    );
+  }
+
+  private blobPath(hash: string): string {
+    checkHash(hash);
+    return path.join(this.directory, hash.substring(0, 2), hash);
+  }
+}
+
+/**
+ * Blobs kept through a cloud provider adapter
+ * Content is spooled to a temporary file, as adapters upload from disk.
+ */
+export class AdapterBlobStore implements BlobStore {
+  constructor(
+    private readonly adapter: CloudProviderAdapter,
+    private readonly prefix = "blobs",
+  ) {}
+
+  async put(hash: string, content: BlobContent): Promise<StoredBlob> {
+    const remotePath = this.remotePath(hash);
+    if (await this.adapter.exists(remotePath)) {
+      const { size } = await this.adapter.getMetadata(remotePath);
+      return { hash, location: remotePath, size, deduplicated: true };
+    }
+
+    const tempPath = tempFile();
+    try {
+      const { size } = await spool(hash, content, tempPath);
+      const result = await this.adapter.upload(tempPath, remotePath);
+      if (!result.success || result.size !== size) {
+        throw new Error(`Upload of blob ${hash} to ${remotePath} failed`);
+      }
+      return { hash, location: remotePath, size, deduplicated: false };
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  has(hash: string): Promise<boolean> {
+    return this.adapter.exists(this.remotePath(hash));
+  }
+
+  async read(hash: string): Promise<Buffer> {
+    const tempPath = tempFile();
+    try {
+      await this.adapter.download(this.remotePath(hash), tempPath);
+      return await fs.promises.readFile(tempPath);
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  async verify(hash: string): Promise<boolean> {
+    if (!(await this.has(hash))) return false;
+    return hashBytes(await this.read(hash)) === hash;
+  }
+
+  private remotePath(hash: string): string {
+    checkHash(hash);
+    const prefix = this.prefix.replace(/\/+$/, "");
+    return `${prefix ? `${prefix}/` : ""}${hash.substring(0, 2)}/${hash}`;
+  }
+}
+
+/**
+ * Write content to a file, failing if it does not hash to the expected value
+ */
+async function spool(
+  hash: string,
+  content: BlobContent,
+  filePath: string,
+): Promise<{ size: number }> {
+  const digest = crypto.createHash("sha256");
+  let size = 0;
+
+  if (Buffer.isBuffer(content)) {
+    digest.update(content);
+    size = content.length;
+    await fs.promises.writeFile(filePath, content);
+  } else {
+    const hashing = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        digest.update(chunk);
+        size += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    await pipeline(content(), hashing, fs.createWriteStream(filePath));
+  }
+
+  const actual = digest.digest("hex");
+  if (actual !== hash) {
+    throw new Error(
+      `Checksum mismatch for blob ${hash}: content hashes to ${actual}`,
+    );
+  }
+  return { size };
+}
+
+function tempFile(): string {
+  return path.join(
+    os.tmpdir(),
+    `blob-${process.pid}-${crypto.randomBytes(8).toString("hex")}.tmp`,
+  );
+}
+
+function checkHash(hash: string): void {
+  if (!/^[0-9a-f]{64}$/.test(hash)) {
+    throw new Error(`Not a SHA-256 blob name: ${hash}`);
+  }
+}
+
+/**
+ * Integrated storage configuration
+ * A source's own storageMode wins over defaultMode; a policy function,
+ * when given, decides per item and may defer by returning undefined.
+ */
+export interface BlobStorageConfig {
+  directory?: string; // Local blob directory
+  adapter?: CloudProviderAdapter; // Cloud storage instead of a directory
+  prefix?: string; // Remote path prefix for adapter blobs (default "blobs")
+  defaultMode?: StorageMode; // default "pocket"
+  maxSize?: number; // bytes; larger items stay pocket
+  policy?: (
+    source: HarvestSource,
+    item: HarvestedItem,
+  ) => StorageMode | undefined;
+}
+
+export type StorageMode = HarvestedItem["storageMode"];
+
+/**
+ * Blob store for a storage configuration
+ */
+export function createBlobStore(config: BlobStorageConfig): BlobStore {
+  if (config.adapter)
+    return new AdapterBlobStore(config.adapter, config.prefix);
+  if (config.directory) return new LocalBlobStore(config.directory);
+  throw new Error("Integrated storage needs a directory or an adapter");
+}
+
+/**
+ * Storage mode of an item from its source under a configuration
+ */
+export function resolveStorageMode(
+  config: BlobStorageConfig,
+  source: HarvestSource,
+  item: HarvestedItem,
+): StorageMode {
+  const mode =
+    config.policy?.(source, item) ??
+    source.storageMode ??
+    config.defaultMode ??
+    "pocket";
+  if (mode === "integrated" && config.maxSize && item.size > config.maxSize) {
+    return "pocket";
+  }
+  return mode;
+}
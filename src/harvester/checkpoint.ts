@@ -0,0 +1,68 @@
+/**
+ * Harvest Checkpoints - Where an interrupted harvest left off
+ *
+ * A checkpoint records which sources are finished and, for the source in
+ * progress, the last entry that was completed. It is written next to the
+ * index (after the index itself is flushed), so a harvest stopped by
+ * stop(), a crash or a reboot can continue instead of starting over.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { HarvestProgress } from "./file-harvester";
+
+/**
+ * Checkpoint
+ */
+export interface HarvestCheckpoint {
+  harvesterId: string;
+  runId: string; // Matches the index's seen-in-run stamps
+  startTime: string; // ISO timestamp
+
+  completedSources: string[]; // Source IDs
+  sourceId?: string; // Source in progress
+  cursor?: string; // Path of its last completed entry
+
+  stats: HarvestProgress["stats"];
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Checkpoint file
+ */
+export class CheckpointStore {
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the checkpoint, if a harvest was interrupted
+   */
+  async load(): Promise<HarvestCheckpoint | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Write the checkpoint, replacing the file atomically
+   */
+  async save(checkpoint: HarvestCheckpoint): Promise<void> {
+    await fs.promises.mkdir(path.dirname(path.resolve(this.filePath)), {
+      recursive: true,
+    });
+
+    checkpoint.updatedAt = new Date().toISOString();
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(checkpoint));
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Remove the checkpoint once a harvest completes
+   */
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.filePath, { force: true });
+  }
+}
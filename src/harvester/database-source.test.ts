@@ -0,0 +1,179 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  buildSelect,
+  DatabaseDriver,
+  DatabaseRow,
+  renderRow,
+} from "./database-source";
+import { FileHarvester, HarvesterConfig } from "./file-harvester";
+
+let dir: string;
+let index: string;
+let tables: Record<string, DatabaseRow[]>;
+let refuseConnections: boolean;
+let failingTable: string | undefined;
+
+// Reads whole tables, filtered by the watermark parameter if one is bound
+const driver: DatabaseDriver = {
+  name: "in-memory",
+  async connect() {
+    if (refuseConnections) throw new Error("Connection refused");
+    return {
+      async query(sql: string, params: unknown[] = []) {
+        const table = /FROM "([^"]+)"/.exec(sql)?.[1] || "";
+        if (table === failingTable) throw new Error(`no such table: ${table}`);
+        const column = /WHERE "([^"]+)" > \?/.exec(sql)?.[1];
+        return (tables[table] || []).filter(
+          (row) => !column || (row[column] as number) > (params[0] as number),
+        );
+      },
+      async close() {},
+    };
+  },
+};
+
+function harvesterFor(options: Record<string, any> = {}): FileHarvester {
+  const config: HarvesterConfig = {
+    harvesterId: "db-test",
+    name: "database test",
+    sources: [
+      {
+        sourceId: "school-db",
+        sourceType: "database",
+        path: "memory://school",
+        options: { driver, tables: ["lessons", "staff"], ...options },
+      },
+    ],
+    processors: [
+      {
+        processorId: "rows",
+        name: "Rows",
+        fileTypes: ["txt", "row"],
+        extract: { text: true, metadata: true },
+        coordinateStrategy: "hash",
+      },
+    ],
+    indexDestination: index,
+    options: { recursive: true, followSymlinks: false, ignoreHidden: true },
+    autoTagging: {
+      enabled: false,
+      extractFromFilename: false,
+      extractFromPath: false,
+      extractFromContent: false,
+      useMetadata: false,
+    },
+  };
+  return new FileHarvester(config);
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-db-test-"));
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  index = path.join(dir, `index-${Math.random()}.jsonl`);
+  refuseConnections = false;
+  failingTable = undefined;
+  tables = {
+    lessons: [
+      { id: 1, title: "Fractions", body: "Halves and quarters" },
+      { id: 2, title: "Cells", body: "The unit of life" },
+    ],
+    staff: [{ id: 7, name: "Ada" }],
+  };
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("database-source helpers", () => {
+  it("selects above a watermark in watermark order", () => {
+    expect(
+      buildSelect({ name: "l", table: "lessons", watermarkColumn: "id" }, 4),
+    ).toEqual({
+      sql: 'SELECT * FROM "lessons" WHERE "id" > ? ORDER BY "id"',
+      params: [4],
+    });
+    expect(buildSelect({ name: "q", sql: "SELECT 1 AS id" }).sql).toBe(
+      'SELECT * FROM (SELECT 1 AS id) AS harvest_rows ORDER BY "id"',
+    );
+  });
+
+  it("renders rows as column lines or through a template", () => {
+    const row = { id: 1, title: "Fractions", body: "Halves" };
+
+    expect(renderRow(row)).toBe("id: 1\ntitle: Fractions\nbody: Halves");
+    expect(renderRow(row, "{{ title }}\n\n{{body}}")).toBe(
+      "Fractions\n\nHalves",
+    );
+  });
+});
+
+describe("FileHarvester database source", () => {
+  it("harvests one item per row", async () => {
+    const items = await harvesterFor().harvest();
+
+    expect(items.map((item) => item.originalPath).sort()).toEqual([
+      "memory://school#lessons/1",
+      "memory://school#lessons/2",
+      "memory://school#staff/7",
+    ]);
+    expect(
+      items.find((item) => item.filename === "1.row")?.textContent,
+    ).toContain("title: Fractions");
+  });
+
+  it("keeps every row when the database cannot be reached", async () => {
+    await harvesterFor().harvest();
+    refuseConnections = true;
+
+    const harvester = harvesterFor();
+    await harvester.harvest();
+
+    expect(harvester.getProgress().stats.filesDeleted).toBe(0);
+    expect(harvester.getProgress().errors).toEqual([
+      expect.objectContaining({
+        file: "memory://school",
+        error: "Connection refused",
+      }),
+    ]);
+  });
+
+  it("keeps the rows of a failed query and tombstones deleted rows", async () => {
+    await harvesterFor().harvest();
+    failingTable = "staff";
+    tables.lessons.pop();
+
+    const harvester = harvesterFor();
+    const items = await harvester.harvest();
+
+    expect(items.map((item) => item.originalPath).sort()).toEqual([
+      "memory://school#lessons/1",
+      "memory://school#staff/7",
+    ]);
+    expect(harvester.getProgress().stats.filesDeleted).toBe(1);
+  });
+
+  it("reads only rows above the watermark on later runs", async () => {
+    const options = {
+      tables: [{ name: "lessons", table: "lessons", watermarkColumn: "id" }],
+    };
+    await harvesterFor(options).harvest();
+    tables.lessons.push({ id: 3, title: "Forces", body: "Push and pull" });
+
+    const harvester = harvesterFor(options);
+    const items = await harvester.harvest();
+
+    expect(items).toHaveLength(3);
+    expect(harvester.getProgress().stats).toMatchObject({
+      filesScanned: 1,
+      filesAdded: 1,
+      filesDeleted: 0,
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Database Source - Table and query rows as harvestable documents
+ *
+ * Databases are reached through a small driver interface. SQLite works
+ * out of the box through the sqlite3 command-line shell, which must be
+ * installed and on the PATH (version 3.33 or later, for -json output);
+ * Postgres, MySQL and others plug in by registering a driver that wraps
+ * their client.
+ */
+
+import { execFile } from "child_process";
+import * as path from "path";
+
+/**
+ * A result row, keyed by column name
+ */
+export type DatabaseRow = Record<string, unknown>;
+
+/**
+ * Open connection
+ */
+export interface DatabaseConnection {
+  // "?" placeholders are bound to params in order
+  query(sql: string, params?: unknown[]): Promise<DatabaseRow[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Database driver
+ */
+export interface DatabaseDriver {
+  name: string;
+
+  connect(
+    location: string,
+    credentials?: { accessKey?: string; secretKey?: string; token?: string },
+  ): Promise<DatabaseConnection>;
+}
+
+/**
+ * Table or query to harvest, one item per row
+ */
+export interface DatabaseQuery {
+  name: string; // Used in item paths
+  table?: string; // Harvest a whole table...
+  sql?: string; // ...or the rows of a query
+
+  idColumn?: string; // Stable row identity (default 'id')
+  titleColumn?: string;
+  modifiedColumn?: string;
+  textTemplate?: string; // e.g. '{{title}}\n\n{{body}}'; default: "column: value" lines
+  extension?: string; // Processor file type (default 'row')
+
+  // Only rows above the highest value already harvested are read
+  watermarkColumn?: string;
+}
+
+const DRIVERS = new Map<string, DatabaseDriver>();
+
+/**
+ * Register a driver (replacing any with the same name)
+ */
+export function registerDatabaseDriver(driver: DatabaseDriver): void {
+  DRIVERS.set(driver.name, driver);
+}
+
+/**
+ * Pick a driver by name, or from the location's URL scheme
+ * ('postgres://...', 'mysql://...'); plain paths are SQLite files.
+ */
+export function resolveDatabaseDriver(
+  location: string,
+  name?: string,
+): DatabaseDriver {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(location)?.[1].toLowerCase();
+  const driverName =
+    name || (scheme === "postgresql" ? "postgres" : scheme) || "sqlite";
+
+  const driver = DRIVERS.get(driverName);
+  if (!driver) {
+    throw new Error(`No database driver registered for: ${driverName}`);
+  }
+  return driver;
+}
+
+/**
+ * Location safe to record in item paths (passwords removed)
+ */
+export function displayLocation(location: string): string {
+  try {
+    const url = new URL(location);
+    if (!url.password) return location;
+    url.password = "";
+    return url.toString();
+  } catch {
+    return location;
+  }
+}
+
+/**
+ * Build the SELECT for a table or query, above a watermark if given
+ */
+export function buildSelect(
+  query: DatabaseQuery,
+  watermark?: unknown,
+): { sql: string; params: unknown[] } {
+  const from = query.table
+    ? quoteIdentifier(query.table)
+    : `(${query.sql}) AS harvest_rows`;
+  const order = quoteIdentifier(
+    query.watermarkColumn || query.idColumn || "id",
+  );
+
+  if (query.watermarkColumn && watermark !== undefined) {
+    return {
+      sql: `SELECT * FROM ${from} WHERE ${order} > ? ORDER BY ${order}`,
+      params: [watermark],
+    };
+  }
+  return { sql: `SELECT * FROM ${from} ORDER BY ${order}`, params: [] };
+}
+
+/**
+ * Render a row as text
+ */
+export function renderRow(row: DatabaseRow, template?: string): string {
+  if (template) {
+    return template.replace(/\{\{\s*([^}\s]+)\s*\}\}/g, (_, column) =>
+      formatValue(row[column]),
+    );
+  }
+  return Object.entries(row)
+    .map(([column, value]) => `${column}: ${formatValue(value)}`)
+    .join("\n");
+}
+
+/**
+ * Order watermark values (numbers numerically, anything else as text)
+ */
+export function compareWatermarks(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const [x, y] = [String(a), String(b)];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/**
+ * Column value as text
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Double-quoted SQL identifier (schema.table is quoted per part)
+ */
+function quoteIdentifier(name: string): string {
+  return name
+    .split(".")
+    .map((part) => `"${part.replace(/"/g, '""')}"`)
+    .join(".");
+}
+
+/**
+ * SQL literal for a bound parameter
+ * Text goes in as hex, so no value can end the literal early.
+ */
+function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return "NULL";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Cannot bind ${value}`);
+    return String(value);
+  }
+  if (typeof value === "bigint") return String(value);
+  if (typeof value === "boolean") return value ? "1" : "0";
+  if (Buffer.isBuffer(value)) return `X'${value.toString("hex")}'`;
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `CAST(X'${Buffer.from(text, "utf8").toString("hex")}' AS TEXT)`;
+}
+
+/**
+ * Substitute "?" placeholders outside quoted strings, identifiers and
+ * comments
+ */
+function bindParameters(sql: string, params: unknown[]): string {
+  const closing: Record<string, string> = {
+    "'": "'",
+    '"': '"',
+    "`": "`",
+    "[": "]",
+    "--": "\n",
+    "/*": "*/",
+  };
+  let result = "";
+  let next = 0;
+
+  for (let i = 0; i < sql.length;) {
+    const two = sql.substring(i, i + 2);
+    const opening = closing[two] ? two : closing[sql[i]] ? sql[i] : undefined;
+
+    if (opening) {
+      const end = sql.indexOf(closing[opening], i + opening.length);
+      const stop = end < 0 ? sql.length : end + closing[opening].length;
+      result += sql.substring(i, stop);
+      i = stop;
+    } else if (sql[i] === "?") {
+      if (next >= params.length) throw new Error("Missing SQL parameter");
+      result += sqlLiteral(params[next++]);
+      i++;
+    } else {
+      result += sql[i++];
+    }
+  }
+
+  if (next < params.length) throw new Error("Unused SQL parameter");
+  return result;
+}
+
+/**
+ * SQLite through the sqlite3 shell (read-only)
+ */
+class SqliteConnection implements DatabaseConnection {
+  constructor(private readonly databasePath: string) {}
+
+  query(sql: string, params: unknown[] = []): Promise<DatabaseRow[]> {
+    return new Promise((resolve, reject) => {
+      // Throwing here rejects the promise
+      const statement = bindParameters(sql, params);
+      execFile(
+        "sqlite3",
+        ["-readonly", "-bail", "-json", this.databasePath, statement],
+        { maxBuffer: 256 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if ((error as NodeJS.ErrnoException | null)?.code === "ENOENT") {
+            reject(
+              new Error(
+                "The sqlite3 command-line shell is not installed (or not on the PATH)",
+              ),
+            );
+            return;
+          }
+          if (error) {
+            reject(new Error(stderr.trim() || error.message));
+            return;
+          }
+
+          // No output at all for an empty result
+          try {
+            resolve(stdout.trim() ? JSON.parse(stdout) : []);
+          } catch {
+            reject(new Error("Unreadable sqlite3 output (needs 3.33+)"));
+          }
+        },
+      );
+    });
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Built-in SQLite driver
+ * Locations are file paths or 'sqlite:' URLs ('sqlite:///abs/path.db').
+ */
+export const sqliteDriver: DatabaseDriver = {
+  name: "sqlite",
+
+  async connect(location) {
+    const file = location.replace(/^sqlite:(\/\/)?/i, "");
+    return new SqliteConnection(path.resolve(file));
+  },
+};
+
+registerDatabaseDriver(sqliteDriver);
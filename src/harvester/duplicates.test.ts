@@ -0,0 +1,81 @@
+import { findDuplicateGroups, hammingDistance, simhash } from "./duplicates";
+import type { HarvestedItem } from "./file-harvester";
+
+const LESSON =
+  "Photosynthesis lets green plants turn sunlight, water and carbon " +
+  "dioxide into sugar and oxygen inside the chloroplasts of their leaves. " +
+  "The sugar feeds the plant as it grows, and the oxygen escapes through " +
+  "tiny pores called stomata on the underside of each leaf. Without light " +
+  "the process stops, which is why plants kept in a dark cupboard turn " +
+  "yellow and weak after a few days, however much water they are given.";
+
+function item(
+  originalPath: string,
+  text: string,
+  created = "2024-01-01",
+): HarvestedItem {
+  return {
+    originalPath,
+    size: text.length,
+    created: new Date(created),
+    textContent: text,
+    metadata: { contentHash: `hash-of-${text}`, simhash: simhash(text) },
+  } as unknown as HarvestedItem;
+}
+
+describe("simhash", () => {
+  it("fingerprints the words, not their case or punctuation", () => {
+    const original = simhash(LESSON) as string;
+    const reformatted = simhash(
+      LESSON.toUpperCase().replace(/[,.]/g, " ;"),
+    ) as string;
+    const edited = simhash(LESSON.replace("a few days", "a week")) as string;
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(reformatted).toBe(original);
+    expect(hammingDistance(original, edited)).toBeGreaterThan(0);
+    expect(simhash("Too short to fingerprint")).toBeUndefined();
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits across both halves", () => {
+    expect(hammingDistance("0000000000000000", "8000000000000001")).toBe(2);
+    expect(hammingDistance("ffffffffffffffff", "ffffffffffffffff")).toBe(0);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("keeps the oldest item as canonical and tells exact from near", () => {
+    const original = item("/b/lesson.md", LESSON, "2023-09-01");
+    const copy = item("/a/lesson-copy.md", LESSON);
+    const near = item("/a/lesson-edited.md", LESSON);
+    near.metadata.contentHash = "edited";
+    near.metadata.simhash = "0000000000000000";
+    original.metadata.simhash = "0000000000000003";
+    copy.metadata.simhash = "0000000000000003";
+
+    const [group, ...rest] = findDuplicateGroups([copy, near, original], 3);
+
+    expect(rest).toEqual([]);
+    expect(group.canonical).toBe(original);
+    expect(
+      group.duplicates.map(({ item: duplicate, kind }) => [
+        duplicate.originalPath,
+        kind,
+      ]),
+    ).toEqual([
+      ["/a/lesson-copy.md", "exact"],
+      ["/a/lesson-edited.md", "near"],
+    ]);
+    expect(findDuplicateGroups([copy, near, original], 0)).toEqual([
+      expect.objectContaining({ duplicates: [expect.anything()] }),
+    ]);
+  });
+
+  it("never groups empty files", () => {
+    expect(findDuplicateGroups([item("/a", ""), item("/b", "")], 3)).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Duplicate Detection - Exact and near-duplicate grouping
+ *
+ * Exact duplicates share a content hash. Near duplicates have SimHash
+ * fingerprints (over word 3-shingles) within a small Hamming distance.
+ * Each group keeps one canonical item, the oldest one (a file over a link
+ * to it).
+ */
+
+import type { HarvestedItem } from "./file-harvester";
+import { fnv1a, tokenize } from "./text-analysis";
+
+const SHINGLE_SIZE = 3;
+const MIN_SHINGLES = 8; // Too little text to fingerprint reliably
+const BANDS = 4; // 4 x 16-bit bands; distance <= 3 always shares a band
+
+/**
+ * Duplicate group
+ */
+export interface DuplicateGroup {
+  canonical: HarvestedItem;
+  duplicates: { item: HarvestedItem; kind: "exact" | "near" }[];
+}
+
+/**
+ * 64-bit SimHash of a text as 16 hex characters
+ */
+export function simhash(text: string): string | undefined {
+  const tokens = tokenize(text);
+  if (tokens.length < SHINGLE_SIZE + MIN_SHINGLES - 1) return undefined;
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const shingle = tokens.slice(i, i + SHINGLE_SIZE).join(" ");
+    const halves = [fnv1a(shingle, 0), fnv1a(shingle, 0x9e3779b9)];
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5] >>> (bit & 31)) & 1;
+      weights[bit] += set ? 1 : -1;
+    }
+  }
+
+  let high = 0;
+  let low = 0;
+  for (let bit = 0; bit < 32; bit++) {
+    if (weights[bit] > 0) low |= 1 << bit;
+    if (weights[bit + 32] > 0) high |= 1 << bit;
+  }
+  return (
+    (high >>> 0).toString(16).padStart(8, "0") +
+    (low >>> 0).toString(16).padStart(8, "0")
+  );
+}
+
+/**
+ * Hamming distance between two hex fingerprints
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let x =
+      parseInt(a.substring(i, i + 8), 16) ^ parseInt(b.substring(i, i + 8), 16);
+    while (x) {
+      x &= x - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Group exact and near duplicates
+ * Items need metadata.contentHash; metadata.simhash enables near matching.
+ */
+export function findDuplicateGroups(
+  items: HarvestedItem[],
+  maxDistance: number,
+): DuplicateGroup[] {
+  // Union-find over item positions
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const union = (a: number, b: number) => {
+    parent[find(b)] = find(a);
+  };
+
+  // Exact: same content hash (empty files are never duplicates)
+  const byHash = new Map<string, number>();
+  items.forEach((item, i) => {
+    const hash = item.metadata.contentHash;
+    if (!hash || item.size === 0) return;
+    const first = byHash.get(hash);
+    if (first === undefined) {
+      byHash.set(hash, i);
+    } else {
+      union(first, i);
+    }
+  });
+
+  // Near: candidates share a band, then compare full fingerprints
+  if (maxDistance > 0) {
+    const bands = new Map<string, number[]>();
+    items.forEach((item, i) => {
+      const fingerprint: string | undefined = item.metadata.simhash;
+      if (!fingerprint) return;
+      for (let band = 0; band < BANDS; band++) {
+        const key = `${band}:${fingerprint.substring(band * 4, band * 4 + 4)}`;
+        const bucket = bands.get(key) || [];
+        for (const other of bucket) {
+          if (
+            find(other) !== find(i) &&
+            hammingDistance(items[other].metadata.simhash, fingerprint) <=
+              maxDistance
+          ) {
+            union(other, i);
+          }
+        }
+        bucket.push(i);
+        bands.set(key, bucket);
+      }
+    });
+  }
+
+  // Collect components with more than one member
+  const components = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    const root = find(i);
+    components.set(root, [...(components.get(root) || []), i]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  for (const members of components.values()) {
+    if (members.length < 2) continue;
+
+    const sorted = members
+      .map((i) => items[i])
+      .sort(
+        (a, b) =>
+          a.created.getTime() - b.created.getTime() ||
+          Number(!!a.linkTarget) - Number(!!b.linkTarget) ||
+          a.originalPath.localeCompare(b.originalPath),
+      );
+    const canonical = sorted[0];
+    const canonicalHash = canonical.metadata.contentHash;
+
+    groups.push({
+      canonical,
+      duplicates: sorted.slice(1).map((item) => ({
+        item,
+        kind: item.metadata.contentHash === canonicalHash ? "exact" : "near",
+      })),
+    });
+  }
+
+  return groups;
+}
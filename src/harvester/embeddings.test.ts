@@ -0,0 +1,66 @@
+import {
+  cosineSimilarity,
+  HashingEmbeddingModel,
+  projectEmbedding,
+} from "./embeddings";
+
+const model = new HashingEmbeddingModel();
+const FRACTIONS = "Fractions split a whole into equal parts, like halves.";
+const DECIMALS = "Fractions and decimals both split a whole into equal parts.";
+const VOLCANOES = "Volcanoes erupt when magma rises through the crust.";
+
+const ranges = {
+  raRange: [0, 24] as [number, number],
+  decRange: [-90, 90] as [number, number],
+  altRange: [0, 100] as [number, number],
+};
+
+describe("HashingEmbeddingModel", () => {
+  it("gives the same unit vector for the same text", () => {
+    const vector = model.embed(FRACTIONS);
+
+    expect(vector).toHaveLength(256);
+    expect(new HashingEmbeddingModel().embed(FRACTIONS)).toEqual(vector);
+    expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 5);
+  });
+
+  it("places texts sharing vocabulary closer together", () => {
+    const [fractions, decimals, volcanoes] = [
+      FRACTIONS,
+      DECIMALS,
+      VOLCANOES,
+    ].map((text) => model.embed(text));
+
+    expect(cosineSimilarity(fractions, decimals)).toBeGreaterThan(
+      cosineSimilarity(fractions, volcanoes) + 0.3,
+    );
+  });
+
+  it("embeds text without content words as the zero vector", () => {
+    expect(model.embed("the and of").every((v) => v === 0)).toBe(true);
+    expect(cosineSimilarity(model.embed(""), model.embed(FRACTIONS))).toBe(0);
+  });
+});
+
+describe("projectEmbedding", () => {
+  it("maps into the ranges, keeping similar embeddings near", () => {
+    const distance = (a: string, b: string) => {
+      const [p, q] = [a, b].map((text) =>
+        projectEmbedding(model.embed(text), ranges),
+      );
+      return Math.hypot(p.ra - q.ra, p.dec - q.dec, p.alt - q.alt);
+    };
+    const coordinate = projectEmbedding(model.embed(FRACTIONS), ranges);
+
+    expect(coordinate.ra).toBeGreaterThanOrEqual(0);
+    expect(coordinate.ra).toBeLessThanOrEqual(24);
+    expect(coordinate.dec).toBeGreaterThanOrEqual(-90);
+    expect(coordinate.dec).toBeLessThanOrEqual(90);
+    expect(projectEmbedding(model.embed(FRACTIONS), ranges)).toEqual(
+      coordinate,
+    );
+    expect(distance(FRACTIONS, DECIMALS)).toBeLessThan(
+      distance(FRACTIONS, VOLCANOES),
+    );
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Embeddings - Offline text embeddings for the "semantic" strategy
+ *
+ * The built-in model is a hashed bag of words and bigrams (a sparse random
+ * projection of TF vectors), so it needs no corpus, no network and gives
+ * the same vector for the same text on every run. Documents sharing
+ * vocabulary get similar vectors, and projectEmbedding keeps similar
+ * vectors at nearby coordinates.
+ */
+
+import { contentTokens, fnv1a } from "./text-analysis";
+
+/**
+ * Embedding model
+ */
+export interface EmbeddingModel {
+  name: string;
+  dimensions: number;
+
+  embed(text: string): number[];
+}
+
+/**
+ * Coordinate ranges (from ContentProcessor.semanticConfig)
+ */
+export interface EmbeddingProjectionRanges {
+  raRange: [number, number];
+  decRange: [number, number];
+  altRange: [number, number];
+}
+
+export const LOCAL_EMBEDDING_MODEL = "local-hashing";
+
+/**
+ * Hashed TF embedding model
+ */
+export class HashingEmbeddingModel implements EmbeddingModel {
+  readonly name = LOCAL_EMBEDDING_MODEL;
+
+  constructor(
+    readonly dimensions = 256,
+    private readonly bucketsPerFeature = 3,
+  ) {}
+
+  embed(text: string): number[] {
+    const tokens = contentTokens(text);
+    const counts = new Map<string, number>();
+
+    for (let i = 0; i < tokens.length; i++) {
+      counts.set(tokens[i], (counts.get(tokens[i]) || 0) + 1);
+      if (i + 1 < tokens.length) {
+        const bigram = `${tokens[i]} ${tokens[i + 1]}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 0.5);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const weight = 1 + Math.log(count + 1);
+      for (let k = 0; k < this.bucketsPerFeature; k++) {
+        const hash = fnv1a(feature, k);
+        const sign = hash & 1 ? 1 : -1;
+        vector[(hash >>> 1) % this.dimensions] += sign * weight;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return vector.map((v) =>
+      norm > 0 ? Math.round((v / norm) * 1e6) / 1e6 : 0,
+    );
+  }
+}
+
+/**
+ * Cosine similarity
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const projectionCache = new Map<number, number[][]>();
+
+/**
+ * Three fixed random unit directions for a dimensionality
+ */
+function projectionAxes(dimensions: number): number[][] {
+  const cached = projectionCache.get(dimensions);
+  if (cached) return cached;
+
+  // mulberry32, seeded so every run uses the same axes
+  let state = 0x5eed ^ dimensions;
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const gaussian = () =>
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+  const axes = [0, 1, 2].map(() => {
+    const axis = Array.from({ length: dimensions }, gaussian);
+    const norm = Math.sqrt(axis.reduce((sum, v) => sum + v * v, 0));
+    return axis.map((v) => v / norm);
+  });
+
+  projectionCache.set(dimensions, axes);
+  return axes;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Project an embedding into coordinate ranges
+ *
+ * Each coordinate is the embedding's component along a fixed random axis.
+ * For unit vectors that component is roughly N(0, 1/d), so the normal CDF
+ * spreads documents evenly over each range. The mapping is continuous:
+ * similar embeddings land at nearby coordinates.
+ */
+export function projectEmbedding(
+  embedding: number[],
+  ranges: EmbeddingProjectionRanges,
+): { ra: number; dec: number; alt: number } {
+  const dimensions = embedding.length;
+  const scale = Math.sqrt(dimensions);
+
+  const [ra, dec, alt] = projectionAxes(dimensions).map((axis, index) => {
+    const component = axis.reduce((sum, v, i) => sum + v * embedding[i], 0);
+    const fraction = normalCdf(component * scale);
+    const [min, max] = [ranges.raRange, ranges.decRange, ranges.altRange][
+      index
+    ];
+    return min + fraction * (max - min);
+  });
+
+  return { ra, dec, alt };
+}
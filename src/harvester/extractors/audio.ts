@@ -0,0 +1,351 @@
+/**
+ * Audio Extractor - ID3 tags of MP3 files
+ *
+ * Reads ID3v2.2-2.4 tags at the start of the file, falling back to the
+ * ID3v1 trailer. Unsynchronised lyrics become the item's text.
+ */
+
+import type { ExtractedDocument, TextExtractor } from "./index";
+
+// ID3v1 genre numbers (also referenced as "(n)" in v2 content types)
+const GENRES = [
+  "Blues",
+  "Classic Rock",
+  "Country",
+  "Dance",
+  "Disco",
+  "Funk",
+  "Grunge",
+  "Hip-Hop",
+  "Jazz",
+  "Metal",
+  "New Age",
+  "Oldies",
+  "Other",
+  "Pop",
+  "R&B",
+  "Rap",
+  "Reggae",
+  "Rock",
+  "Techno",
+  "Industrial",
+  "Alternative",
+  "Ska",
+  "Death Metal",
+  "Pranks",
+  "Soundtrack",
+  "Euro-Techno",
+  "Ambient",
+  "Trip-Hop",
+  "Vocal",
+  "Jazz+Funk",
+  "Fusion",
+  "Trance",
+  "Classical",
+  "Instrumental",
+  "Acid",
+  "House",
+  "Game",
+  "Sound Clip",
+  "Gospel",
+  "Noise",
+  "Alternative Rock",
+  "Bass",
+  "Soul",
+  "Punk",
+  "Space",
+  "Meditative",
+  "Instrumental Pop",
+  "Instrumental Rock",
+  "Ethnic",
+  "Gothic",
+  "Darkwave",
+  "Techno-Industrial",
+  "Electronic",
+  "Pop-Folk",
+  "Eurodance",
+  "Dream",
+  "Southern Rock",
+  "Comedy",
+  "Cult",
+  "Gangsta",
+  "Top 40",
+  "Christian Rap",
+  "Pop/Funk",
+  "Jungle",
+  "Native American",
+  "Cabaret",
+  "New Wave",
+  "Psychedelic",
+  "Rave",
+  "Showtunes",
+  "Trailer",
+  "Lo-Fi",
+  "Tribal",
+  "Acid Punk",
+  "Acid Jazz",
+  "Polka",
+  "Retro",
+  "Musical",
+  "Rock & Roll",
+  "Hard Rock",
+];
+
+// ID3v2.2 three-character frame IDs and their v2.3/2.4 equivalents
+const V22_FRAMES: Record<string, string> = {
+  TT2: "TIT2",
+  TP1: "TPE1",
+  TAL: "TALB",
+  TYE: "TYER",
+  TCO: "TCON",
+  TRK: "TRCK",
+  COM: "COMM",
+  ULT: "USLT",
+};
+
+/**
+ * Tag frames
+ */
+interface Id3Tag {
+  frames: Map<string, string>; // Text frames, and COMM/USLT contents
+}
+
+/**
+ * Parse an ID3v2 tag at the start of the data
+ */
+export function readId3v2(data: Buffer): Id3Tag | undefined {
+  if (data.length < 10 || data.toString("latin1", 0, 3) !== "ID3") {
+    return undefined;
+  }
+
+  const version = data[3];
+  const flags = data[5];
+  const size = syncsafe(data, 6);
+  let tag = data.subarray(10, Math.min(data.length, 10 + size));
+
+  // Whole-tag unsynchronisation (v2.2/2.3; v2.4 flags it per frame)
+  if (flags & 0x80 && version < 4) tag = resynchronise(tag);
+
+  let offset = 0;
+  if (flags & 0x40 && version >= 3) {
+    // Extended header: v2.3 size excludes itself, v2.4 includes it
+    offset = version === 3 ? tag.readUInt32BE(0) + 4 : syncsafe(tag, 0);
+  }
+
+  const frames = new Map<string, string>();
+  const headerSize = version === 2 ? 6 : 10;
+
+  while (offset + headerSize <= tag.length) {
+    const rawId = tag.toString(
+      "latin1",
+      offset,
+      offset + (version === 2 ? 3 : 4),
+    );
+    if (!/^[A-Z0-9]+$/.test(rawId)) break; // Padding
+
+    const frameSize =
+      version === 2
+        ? tag.readUIntBE(offset + 3, 3)
+        : version === 4
+          ? syncsafe(tag, offset + 4)
+          : tag.readUInt32BE(offset + 4);
+    const frameFlags = version === 2 ? 0 : tag.readUInt16BE(offset + 8);
+    let body = tag.subarray(
+      offset + headerSize,
+      offset + headerSize + frameSize,
+    );
+    offset += headerSize + frameSize;
+
+    const id = version === 2 ? V22_FRAMES[rawId] || rawId : rawId;
+    if (frames.has(id)) continue;
+
+    // Compressed or encrypted frames are skipped
+    if (version === 3 && frameFlags & 0x00c0) continue;
+    if (version === 4 && frameFlags & 0x000c) continue;
+    if (version === 4 && frameFlags & 0x0002) body = resynchronise(body);
+    if (version === 4 && frameFlags & 0x0001) body = body.subarray(4);
+
+    if (id[0] === "T" && id !== "TXXX") {
+      const text = decodeText(body.subarray(1), body[0]);
+      if (text) frames.set(id, text);
+    } else if (id === "COMM" || id === "USLT") {
+      // Encoding, language, description, text
+      const encoding = body[0];
+      const rest = body.subarray(4);
+      const end = terminator(rest, encoding);
+      const text = decodeText(rest.subarray(end), encoding);
+      if (text) frames.set(id, text);
+    }
+  }
+
+  return { frames };
+}
+
+/**
+ * Parse an ID3v1 trailer at the end of the data
+ */
+export function readId3v1(data: Buffer): Id3Tag | undefined {
+  if (data.length < 128) return undefined;
+  const tag = data.subarray(data.length - 128);
+  if (tag.toString("latin1", 0, 3) !== "TAG") return undefined;
+
+  const field = (start: number, length: number) =>
+    tag
+      .toString("latin1", start, start + length)
+      .replace(/\0[\s\S]*$/, "")
+      .trim();
+
+  const frames = new Map<string, string>();
+  const set = (id: string, value: string) => value && frames.set(id, value);
+  set("TIT2", field(3, 30));
+  set("TPE1", field(33, 30));
+  set("TALB", field(63, 30));
+  set("TYER", field(93, 4));
+  set("COMM", field(97, tag[125] === 0 ? 28 : 30));
+  if (tag[125] === 0 && tag[126]) set("TRCK", String(tag[126])); // v1.1
+  if (GENRES[tag[127]]) set("TCON", GENRES[tag[127]]);
+
+  return { frames };
+}
+
+/**
+ * Document properties from ID3 frames
+ */
+function id3Metadata(
+  frames: Map<string, string>,
+): ExtractedDocument["metadata"] {
+  const metadata: ExtractedDocument["metadata"] = {};
+  const set = (key: string, value: string | undefined) => {
+    if (value) metadata[key] = value.split("\0").join(", ");
+  };
+
+  set("title", frames.get("TIT2"));
+  set("author", frames.get("TPE1"));
+  set("album", frames.get("TALB"));
+  set("albumArtist", frames.get("TPE2"));
+  set("composer", frames.get("TCOM"));
+  set("track", frames.get("TRCK"));
+  set("description", frames.get("COMM"));
+
+  const year = (frames.get("TDRC") || frames.get("TYER"))?.match(/\d{4}/);
+  if (year) metadata.year = Number(year[0]);
+
+  const genres = (frames.get("TCON") || "")
+    .split("\0")
+    .map((genre) =>
+      genre.replace(
+        /^\((\d+)\)(.*)$/,
+        (_, number: string, name: string) =>
+          name.trim() || GENRES[Number(number)] || "",
+      ),
+    )
+    .map((genre) =>
+      /^\d+$/.test(genre) ? GENRES[Number(genre)] || "" : genre.trim(),
+    )
+    .filter(Boolean);
+  if (genres.length) {
+    metadata.genre = genres[0];
+    metadata.keywords = genres;
+  }
+
+  return metadata;
+}
+
+/**
+ * Decode an ID3 text field; multiple v2.4 values are joined with NULs
+ */
+function decodeText(bytes: Buffer, encoding: number): string {
+  let text: string;
+  switch (encoding) {
+    case 1: // UTF-16 with BOM
+      text =
+        bytes[0] === 0xfe && bytes[1] === 0xff
+          ? utf16be(bytes.subarray(2))
+          : bytes.toString(
+              "utf16le",
+              bytes[0] === 0xff && bytes[1] === 0xfe ? 2 : 0,
+            );
+      break;
+    case 2: // UTF-16BE
+      text = utf16be(bytes);
+      break;
+    case 3:
+      text = bytes.toString("utf8");
+      break;
+    default:
+      text = bytes.toString("latin1");
+  }
+  return text
+    .replace(/\0+$/, "")
+    .replace(/\0\uFEFF?/g, "\0")
+    .trim();
+}
+
+function utf16be(bytes: Buffer): string {
+  const swapped = Buffer.from(bytes.subarray(0, bytes.length & ~1));
+  return swapped.swap16().toString("utf16le");
+}
+
+/**
+ * Offset just past a NUL-terminated string in the given encoding
+ */
+function terminator(bytes: Buffer, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = 0; i + (wide ? 1 : 0) < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) {
+      return i + (wide ? 2 : 1);
+    }
+  }
+  return bytes.length;
+}
+
+/**
+ * 28-bit integer stored in four 7-bit bytes
+ */
+function syncsafe(data: Buffer, offset: number): number {
+  return (
+    ((data[offset] & 0x7f) << 21) |
+    ((data[offset + 1] & 0x7f) << 14) |
+    ((data[offset + 2] & 0x7f) << 7) |
+    (data[offset + 3] & 0x7f)
+  );
+}
+
+/**
+ * Undo unsynchronisation (0xFF 0x00 -> 0xFF)
+ */
+function resynchronise(data: Buffer): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    bytes.push(data[i]);
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return Buffer.from(bytes);
+}
+
+export const audioExtractor: TextExtractor = {
+  name: "audio",
+  extensions: ["mp3"],
+  mimeTypes: ["audio/mpeg"],
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    let v2: Id3Tag | undefined;
+    try {
+      v2 = readId3v2(data);
+    } catch {
+      // Damaged ID3v2 tag, use the ID3v1 trailer alone
+    }
+    const v1 = readId3v1(data);
+
+    // ID3v2 wins, ID3v1 fills in what it lacks
+    const frames = new Map([
+      ...(v1?.frames || new Map<string, string>()),
+      ...(v2?.frames || new Map<string, string>()),
+    ]);
+
+    return {
+      text: frames.get("USLT") || "",
+      metadata: id3Metadata(frames),
+    };
+  },
+};
@@ -0,0 +1,60 @@
+import { analyzeCode, codeExtractor, identifierWords } from "./code";
+
+const SOURCE = `/**
+ * Network helpers for the timetable sync.
+ */
+import { setTimeout } from "timers/promises";
+import type { Lesson } from "./lessons";
+
+const API_KEY = "sk_live_0123456789abcdefABCD";
+
+/** Retry a request, doubling the wait each time */
+export async function retryWithBackoff(attempts: number): Promise<void> {
+  // Give up after the last attempt
+  await setTimeout(100 * 2 ** attempts);
+}
+
+export class TimetableClient {}
+`;
+
+describe("identifierWords", () => {
+  it("splits camel, Pascal and screaming case", () => {
+    expect(identifierWords("retryWithBackoff")).toBe("retry with backoff");
+    expect(identifierWords("HTTPServerError")).toBe("http server error");
+    expect(identifierWords("MAX_RETRIES")).toBe("max retries");
+  });
+});
+
+describe("analyzeCode", () => {
+  it("finds the module doc, symbols and imports", () => {
+    const analysis = analyzeCode(SOURCE, "ts");
+
+    expect(analysis.language).toBe("typescript");
+    expect(analysis.moduleDoc).toBe("Network helpers for the timetable sync.");
+    expect(analysis.imports).toEqual(["timers/promises", "./lessons"]);
+    expect(analysis.symbols).toContainEqual(
+      expect.objectContaining({
+        name: "retryWithBackoff",
+        kind: "function",
+        doc: "Retry a request, doubling the wait each time",
+      }),
+    );
+  });
+});
+
+describe("codeExtractor", () => {
+  it("keeps the source as text and digests it as the summary", async () => {
+    const document = await codeExtractor.extract(Buffer.from(SOURCE), "ts");
+
+    expect(document.text).toBe(SOURCE);
+    expect(document.summary).toContain(
+      "retryWithBackoff (retry with backoff). Retry a request",
+    );
+    expect(document.summary).toContain("Give up after the last attempt");
+    expect(document.summary).not.toContain("sk_live_");
+    expect(document.metadata).toMatchObject({
+      programmingLanguage: "typescript",
+      exports: expect.arrayContaining(["retryWithBackoff", "TimetableClient"]),
+    });
+  });
+});
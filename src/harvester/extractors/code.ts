@@ -0,0 +1,415 @@
+/**
+ * Code Extractor - Symbols, doc comments and imports of source files
+ *
+ * Declarations are found line by line with per-language patterns rather
+ * than a parser, which covers conventionally formatted code. The text is
+ * the source itself, so literals and bodies stay searchable and scanned
+ * for secrets. The summary is a readable digest (doc comments, comments
+ * and symbol names split into words), so "retry logic" finds
+ * retryWithBackoff and the comment above it.
+ */
+
+import type { ExtractedDocument, TextExtractor } from "./index";
+
+/**
+ * Declared symbol
+ */
+export interface CodeSymbol {
+  name: string;
+  kind: string; // "function", "class", "interface", "type", ...
+  line: number; // 1-based
+  doc?: string; // Doc comment, without comment markers
+}
+
+type ProgrammingLanguage =
+  | "typescript"
+  | "javascript"
+  | "python"
+  | "java"
+  | "kotlin"
+  | "csharp"
+  | "go"
+  | "rust";
+
+const LANGUAGES: Record<string, ProgrammingLanguage> = {
+  ts: "typescript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  java: "java",
+  kt: "kotlin",
+  kts: "kotlin",
+  cs: "csharp",
+  go: "go",
+  rs: "rust",
+};
+
+/**
+ * Declaration patterns, capturing the symbol's name and kind keyword
+ * (members without a keyword are methods)
+ */
+const DECLARATIONS: Record<ProgrammingLanguage, RegExp[]> = {
+  typescript: [
+    /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?<kind>function\*?|class|interface|type|enum|const|let|var|namespace)\s+(?<name>\w+)/,
+  ],
+  javascript: [
+    /^export\s+(?:default\s+)?(?:async\s+)?(?<kind>function\*?|class|const|let|var)\s+(?<name>\w+)/,
+    /^(?:module\.)?exports\.(?<name>\w+)\s*=\s*(?<kind>function|class)?/,
+  ],
+  python: [/^(?:async\s+)?(?<kind>def|class)\s+(?<name>[A-Za-z]\w*)/],
+  java: [
+    /^\s*public\s+(?:(?:static|final|abstract|sealed|synchronized)\s+)*(?<kind>class|interface|enum|record|@interface)\s+(?<name>\w+)/,
+    /^\s+public\s+(?:(?:static|final|abstract|synchronized|default)\s+)*(?:<[^>]+>\s+)?[\w<>[\],.? ]+\s+(?<name>\w+)\s*\(/,
+  ],
+  kotlin: [
+    /^(?:(?:public|data|sealed|abstract|open|inline|value|enum|suspend)\s+)*(?<kind>class|interface|object|fun|val|var|typealias)\s+(?:<[^>]+>\s+)?(?:\w+\.)?(?<name>\w+)/,
+  ],
+  csharp: [
+    /^\s*public\s+(?:(?:static|sealed|abstract|partial|readonly)\s+)*(?<kind>class|interface|enum|struct|record|delegate)\s+(?<name>\w+)/,
+    /^\s+public\s+(?:(?:static|virtual|override|abstract|async|sealed)\s+)*[\w<>[\],.? ]+\s+(?<name>\w+)\s*\(/,
+  ],
+  go: [
+    /^(?<kind>func)\s+(?:\([^)]*\)\s*)?(?<name>[A-Z]\w*)/,
+    /^(?<kind>type|const|var)\s+(?<name>[A-Z]\w*)/,
+  ],
+  rust: [
+    /^\s*pub(?:\([\w:]+\))?\s+(?:async\s+)?(?:unsafe\s+)?(?<kind>fn|struct|enum|trait|type|mod|const|static)\s+(?<name>\w+)/,
+  ],
+};
+
+const KIND_NAMES: Record<string, string> = {
+  def: "function",
+  fn: "function",
+  fun: "function",
+  func: "function",
+  "function*": "function",
+  "@interface": "annotation",
+  let: "variable",
+  var: "variable",
+  val: "constant",
+  const: "constant",
+  static: "constant",
+  mod: "module",
+  typealias: "type",
+};
+
+/**
+ * Analyse source code
+ */
+export function analyzeCode(
+  source: string,
+  extension: string,
+): {
+  language: ProgrammingLanguage;
+  symbols: CodeSymbol[];
+  imports: string[];
+  packageName?: string;
+  moduleDoc?: string;
+  comments: string[];
+} {
+  const language = LANGUAGES[extension] || "javascript";
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const symbols: CodeSymbol[] = [];
+  const comments: string[] = [];
+  let pendingDoc: string[] = [];
+  let moduleDoc: string | undefined;
+
+  // Doc comments wait for the declaration they describe and are kept as
+  // plain comments when none follows
+  const flush = () => {
+    const text = pendingDoc.join("\n").trim();
+    if (text && text !== moduleDoc) comments.push(text);
+    pendingDoc = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // Block comments, JSDoc/Javadoc among them
+    if (trimmed.startsWith("/*") && language !== "python") {
+      const block: string[] = [];
+      let j = i;
+      for (; j < lines.length; j++) {
+        block.push(lines[j]);
+        if (lines[j].includes("*/")) break;
+      }
+      const text = stripBlockComment(block.join("\n"));
+      i = j;
+      if (moduleDoc === undefined && !symbols.length && !comments.length) {
+        moduleDoc = text || undefined;
+      }
+      flush();
+      pendingDoc = [text];
+      continue;
+    }
+
+    // Line comments: "#" in Python, "//" elsewhere, where "//!" documents
+    // the module
+    const lineComment =
+      language === "python"
+        ? trimmed.match(/^(#)(?!!)\s?(.*)$/)
+        : trimmed.match(/^(\/\/[/!]?)\s?(.*)$/);
+    if (lineComment) {
+      if (lineComment[1] === "//!") {
+        moduleDoc = [moduleDoc, lineComment[2]].filter(Boolean).join("\n");
+      } else {
+        pendingDoc.push(lineComment[2]);
+      }
+      continue;
+    }
+
+    // Python module and symbol docstrings
+    if (language === "python" && /^[rubf]*("""|''')/i.test(trimmed)) {
+      const { text, end } = docstring(lines, i);
+      const previous = symbols[symbols.length - 1];
+      if (!symbols.length && moduleDoc === undefined) {
+        moduleDoc = text;
+      } else if (previous && previous.line === lastCodeLine(lines, i) + 1) {
+        previous.doc = [previous.doc, text].filter(Boolean).join("\n");
+      } else {
+        comments.push(text);
+      }
+      i = end;
+      continue;
+    }
+
+    if (!trimmed) {
+      // Go and Python docs sit directly above their declaration
+      if (language === "go" || language === "python") flush();
+      continue;
+    }
+    if (/^[@[]/.test(trimmed)) continue; // Decorators and attributes
+
+    // A comment above the package clause documents the package
+    if (/^(?:package|namespace)\s/.test(trimmed) && moduleDoc === undefined) {
+      moduleDoc = pendingDoc.join("\n").trim() || undefined;
+      pendingDoc = [];
+      continue;
+    }
+
+    const symbol = matchDeclaration(line, language);
+    if (symbol) {
+      const doc = pendingDoc.join("\n").trim();
+      symbols.push({ ...symbol, line: i + 1, ...(doc ? { doc } : {}) });
+      pendingDoc = [];
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  // A leading doc block that documents the first symbol is not the
+  // module's
+  if (moduleDoc && symbols[0]?.doc === moduleDoc) moduleDoc = undefined;
+
+  return {
+    language,
+    symbols,
+    imports: findImports(source, language),
+    packageName: findPackage(source, language),
+    moduleDoc,
+    comments: comments.filter(Boolean),
+  };
+}
+
+/**
+ * Symbol declared on a line, if any
+ */
+function matchDeclaration(
+  line: string,
+  language: ProgrammingLanguage,
+): Omit<CodeSymbol, "line"> | undefined {
+  for (const pattern of DECLARATIONS[language]) {
+    const match = line.match(pattern);
+    if (!match) continue;
+
+    const { name, kind } = match.groups as { name: string; kind?: string };
+    if (language === "python" && name.startsWith("_")) continue;
+
+    const keyword = kind || "method";
+    return { name, kind: KIND_NAMES[keyword] || keyword };
+  }
+  return undefined;
+}
+
+/**
+ * Imported modules, in order of first appearance
+ */
+function findImports(source: string, language: ProgrammingLanguage): string[] {
+  const patterns: Record<ProgrammingLanguage, RegExp[]> = {
+    typescript: [
+      /^\s*(?:import|export)\s[^'"]*?from\s+['"]([^'"]+)['"]/gm,
+      /^\s*import\s+['"]([^'"]+)['"]/gm,
+      /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g,
+      /\bimport\(\s*['"]([^'"]+)['"]\s*\)/g,
+    ],
+    javascript: [],
+    python: [/^\s*from\s+([\w.]+)\s+import\b/gm, /^\s*import\s+([\w., ]+)/gm],
+    java: [/^\s*import\s+(?:static\s+)?([\w.]+?)(?:\.\*)?\s*;/gm],
+    kotlin: [/^\s*import\s+([\w.]+)/gm],
+    csharp: [/^\s*using\s+(?:static\s+)?([\w.]+)\s*;/gm],
+    go: [/^import\s+(?:\w+\s+)?"([^"]+)"/gm],
+    rust: [/^\s*(?:pub\s+)?use\s+([\w:]+)/gm, /^\s*extern\s+crate\s+(\w+)/gm],
+  };
+  patterns.javascript = patterns.typescript;
+
+  const found: { index: number; names: string[] }[] = [];
+  for (const pattern of patterns[language]) {
+    for (const match of source.matchAll(pattern)) {
+      found.push({ index: match.index ?? 0, names: match[1].split(",") });
+    }
+  }
+
+  // Go import blocks list one quoted path per line
+  if (language === "go") {
+    for (const block of source.matchAll(/^import\s*\(([\s\S]*?)^\)/gm)) {
+      found.push({
+        index: block.index ?? 0,
+        names: [...block[1].matchAll(/"([^"]+)"/g)].map((path) => path[1]),
+      });
+    }
+  }
+
+  const imports: string[] = [];
+  for (const { names } of found.sort((a, b) => a.index - b.index)) {
+    for (const name of names) {
+      const module = name.trim().split(/\s+as\s+/)[0];
+      if (module && !imports.includes(module)) imports.push(module);
+    }
+  }
+  return imports;
+}
+
+/**
+ * Declared package or namespace
+ */
+function findPackage(
+  source: string,
+  language: ProgrammingLanguage,
+): string | undefined {
+  const pattern: Partial<Record<ProgrammingLanguage, RegExp>> = {
+    java: /^\s*package\s+([\w.]+)\s*;/m,
+    kotlin: /^\s*package\s+([\w.]+)/m,
+    go: /^\s*package\s+(\w+)/m,
+    csharp: /^\s*namespace\s+([\w.]+)/m,
+  };
+  return pattern[language]?.exec(source)?.[1];
+}
+
+/**
+ * Text of a Python docstring starting on a line, and the line it ends on
+ */
+function docstring(
+  lines: string[],
+  start: number,
+): { text: string; end: number } {
+  const first = lines[start].trim().replace(/^[rubf]*/i, "");
+  const quote = first.substring(0, 3);
+  const rest = first.substring(3);
+
+  if (rest.includes(quote)) {
+    return { text: rest.substring(0, rest.indexOf(quote)).trim(), end: start };
+  }
+  const body = [rest];
+  let end = start + 1;
+  for (; end < lines.length; end++) {
+    const index = lines[end].indexOf(quote);
+    if (index >= 0) {
+      body.push(lines[end].substring(0, index));
+      break;
+    }
+    body.push(lines[end]);
+  }
+  return { text: dedent(body).trim(), end };
+}
+
+/**
+ * Line number (0-based) of the last non-blank line before a line
+ */
+function lastCodeLine(lines: string[], before: number): number {
+  for (let i = before - 1; i >= 0; i--) {
+    if (lines[i].trim()) return i;
+  }
+  return -1;
+}
+
+/**
+ * Comment text without /*, * and *\/ markers
+ */
+function stripBlockComment(comment: string): string {
+  return comment
+    .replace(/^\s*\/\*+/, "")
+    .replace(/\*+\/\s*$/, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\*\s?/, "").trimEnd())
+    .join("\n")
+    .trim();
+}
+
+function dedent(lines: string[]): string {
+  const indents = lines
+    .filter((line) => line.trim())
+    .map((line) => line.length - line.trimStart().length);
+  const indent = indents.length ? Math.min(...indents) : 0;
+  return lines.map((line) => line.substring(indent)).join("\n");
+}
+
+/**
+ * Words of an identifier ("retryWithBackoff", "MAX_RETRIES")
+ */
+export function identifierWords(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .replace(/[_$]+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+export const codeExtractor: TextExtractor = {
+  name: "code",
+  extensions: Object.keys(LANGUAGES),
+  mimeTypes: ["application/typescript", "application/javascript"],
+
+  async extract(data: Buffer, extension: string): Promise<ExtractedDocument> {
+    const source = data.toString("utf8");
+    const analysis = analyzeCode(source, extension);
+    const { symbols } = analysis;
+
+    // Names are spelled out as words too, and followed by their doc
+    const digest = [
+      analysis.moduleDoc,
+      ...symbols.map((symbol) => {
+        const words = identifierWords(symbol.name);
+        const name =
+          words === symbol.name.toLowerCase()
+            ? symbol.name
+            : `${symbol.name} (${words})`;
+        return `${name}.` + (symbol.doc ? ` ${symbol.doc}` : "");
+      }),
+      ...analysis.comments,
+    ].filter(Boolean);
+
+    return {
+      text: source,
+      summary: digest.join("\n\n"),
+      metadata: {
+        description: analysis.moduleDoc
+          ?.split(/\n\s*\n/)[0]
+          .replace(/\s+/g, " "),
+        programmingLanguage: analysis.language,
+        package: analysis.packageName,
+        symbols,
+        exports: symbols.map((symbol) => symbol.name),
+        imports: analysis.imports,
+        keywords: [analysis.language],
+      },
+    };
+  },
+};
@@ -0,0 +1,55 @@
+import { frontMatterMetadata, parseFrontMatter } from "./frontmatter";
+
+afterEach(() => {
+  delete (Object.prototype as any).polluted;
+});
+
+describe("parseFrontMatter", () => {
+  it("maps YAML fields onto document properties", () => {
+    const parsed = parseFrontMatter(
+      "---\ntitle: Fractions\ntags: [maths, year-5]\nauthor:\n  - Ada\n---\nBody\n",
+    );
+
+    expect(parsed?.body).toBe("Body\n");
+    expect(frontMatterMetadata(parsed!.data)).toMatchObject({
+      title: "Fractions",
+      author: "Ada",
+      keywords: ["maths", "year-5"],
+    });
+  });
+
+  it("reads nested TOML tables", () => {
+    const parsed = parseFrontMatter(
+      '+++\ntitle = "Cells"\n[params.review]\nowner = "science"\n+++\n',
+    );
+
+    expect(parsed?.data).toEqual({
+      title: "Cells",
+      params: { review: { owner: "science" } },
+    });
+  });
+
+  it("keeps TOML tables and keys away from Object.prototype", () => {
+    const parsed = parseFrontMatter(
+      "+++\n" +
+        "[__proto__]\npolluted = true\n" +
+        "[constructor.prototype]\npolluted = true\n" +
+        "[toString]\npolluted = true\n" +
+        "a.__proto__.polluted = true\n" +
+        "+++\n",
+    );
+
+    expect(({} as any).polluted).toBeUndefined();
+    expect(parsed?.data).toEqual({ toString: { polluted: true } });
+  });
+
+  it("drops YAML keys that would replace a prototype", () => {
+    const parsed = parseFrontMatter(
+      "---\n__proto__:\n  title: Injected\nconstructor: x\ntitle: Real\n---\n",
+    );
+
+    expect(parsed?.data).toEqual({ title: "Real" });
+    expect(Object.getPrototypeOf(parsed?.data)).toBe(Object.prototype);
+    expect(frontMatterMetadata(parsed!.data).title).toBe("Real");
+  });
+});
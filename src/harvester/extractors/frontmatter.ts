@@ -0,0 +1,359 @@
+/**
+ * Front-matter Extractor - Markdown with YAML or TOML front-matter
+ *
+ * "---" fences YAML and "+++" fences TOML. Both parsers cover the subset
+ * used by static site generators and note-taking tools (scalars, lists,
+ * nested tables), not the full specifications.
+ */
+
+import type { ExtractedDocument, TextExtractor } from "./index";
+
+type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue };
+
+type FrontMatterTable = { [key: string]: FrontMatterValue };
+
+// Keys that reach Object.prototype through a plain object; never stored
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Split a document into its front-matter data and body
+ */
+export function parseFrontMatter(
+  text: string,
+): { data: FrontMatterTable; body: string } | undefined {
+  const match = text
+    .replace(/^\uFEFF/, "")
+    .match(/^(---|\+\+\+)[ \t]*\r?\n([\s\S]*?)\r?\n\1[ \t]*(?:\r?\n|$)/);
+  if (!match) return undefined;
+
+  const body = text.replace(/^\uFEFF/, "").substring(match[0].length);
+  const data = match[1] === "---" ? parseYaml(match[2]) : parseToml(match[2]);
+  return { data, body };
+}
+
+/**
+ * Map front-matter fields onto document properties
+ * Every field is also kept as-is under `frontMatter`.
+ */
+export function frontMatterMetadata(
+  data: FrontMatterTable,
+): ExtractedDocument["metadata"] {
+  const metadata: ExtractedDocument["metadata"] = { frontMatter: data };
+  const text = (value: FrontMatterValue | undefined): string | undefined =>
+    typeof value === "string" || typeof value === "number"
+      ? String(value)
+      : undefined;
+  const list = (value: FrontMatterValue | undefined): string[] =>
+    Array.isArray(value)
+      ? value.flatMap((element) => list(element))
+      : text(value)
+        ? [text(value) as string]
+        : [];
+
+  metadata.title = text(data.title);
+  metadata.description = text(data.description) || text(data.summary);
+
+  const authors = [...list(data.author), ...list(data.authors)];
+  if (authors.length) metadata.author = authors.join(", ");
+
+  const keywords = [
+    ...list(data.tags),
+    ...list(data.keywords),
+    ...list(data.categories),
+  ];
+  if (keywords.length) metadata.keywords = [...new Set(keywords)];
+
+  metadata.language = text(data.lang) || text(data.language);
+  metadata.created = parseDate(data.date);
+  metadata.modified =
+    parseDate(data.lastmod) ||
+    parseDate(data.updated) ||
+    parseDate(data.modified);
+
+  return metadata;
+}
+
+/**
+ * Date from a front-matter value
+ */
+function parseDate(value: FrontMatterValue | undefined): Date | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse the YAML subset: maps, block and flow lists, quoted and block
+ * scalars
+ */
+function parseYaml(source: string): FrontMatterTable {
+  const lines = source
+    .split(/\r?\n/)
+    .map((line) => ({
+      indent: line.length - line.trimStart().length,
+      content: line.trim(),
+    }))
+    .filter((line) => line.content && !line.content.startsWith("#"));
+
+  let position = 0;
+
+  const parseBlock = (indent: number): FrontMatterValue => {
+    if (lines[position]?.content.startsWith("- ")) {
+      const items: FrontMatterValue[] = [];
+      while (
+        position < lines.length &&
+        lines[position].indent === indent &&
+        (lines[position].content === "-" ||
+          lines[position].content.startsWith("- "))
+      ) {
+        const rest = lines[position].content.substring(1).trim();
+        position++;
+        if (rest) {
+          items.push(yamlScalar(rest));
+        } else if (lines[position]?.indent > indent) {
+          items.push(parseBlock(lines[position].indent));
+        } else {
+          items.push(null);
+        }
+      }
+      return items;
+    }
+
+    const table: FrontMatterTable = {};
+    while (position < lines.length && lines[position].indent === indent) {
+      const { content } = lines[position];
+      const match = content.match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/);
+      position++;
+      if (!match) continue;
+
+      const key = match[1].replace(/^["']|["']$/g, "");
+      const rest = match[2]?.trim() ?? "";
+      const next = lines[position];
+
+      if (rest === "|" || rest === ">" || /^[|>][+-]$/.test(rest)) {
+        // Block scalar: the following, more indented lines
+        const block: string[] = [];
+        while (position < lines.length && lines[position].indent > indent) {
+          block.push(lines[position++].content);
+        }
+        setKey(table, key, block.join(rest.startsWith("|") ? "\n" : " "));
+      } else if (rest) {
+        setKey(table, key, yamlScalar(rest));
+      } else if (
+        next &&
+        (next.indent > indent ||
+          (next.indent === indent && next.content.startsWith("- ")))
+      ) {
+        setKey(table, key, parseBlock(next.indent));
+      } else {
+        setKey(table, key, null);
+      }
+    }
+    return table;
+  };
+
+  const root = lines.length ? parseBlock(lines[0].indent) : {};
+  return root && typeof root === "object" && !Array.isArray(root) ? root : {};
+}
+
+/**
+ * YAML scalar or flow list
+ */
+function yamlScalar(text: string): FrontMatterValue {
+  if (text.startsWith('"')) {
+    const match = text.match(/^"((?:[^"\\]|\\.)*)"/);
+    if (match) return JSON.parse(`"${match[1]}"`);
+  }
+  if (text.startsWith("'")) {
+    const match = text.match(/^'((?:[^']|'')*)'/);
+    if (match) return match[1].replace(/''/g, "'");
+  }
+  if (text.startsWith("[") && text.endsWith("]")) {
+    return splitFlow(text.slice(1, -1)).map(yamlScalar);
+  }
+
+  const plain = text.replace(/\s+#.*$/, "");
+  if (/^(true|yes|on)$/i.test(plain)) return true;
+  if (/^(false|no|off)$/i.test(plain)) return false;
+  if (/^(null|~)$/i.test(plain)) return null;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(plain)) return Number(plain);
+  return plain;
+}
+
+/**
+ * Parse the TOML subset: key/value pairs, dotted keys, tables, arrays
+ */
+function parseToml(source: string): FrontMatterTable {
+  const root: FrontMatterTable = {};
+  let table: FrontMatterTable | undefined = root; // undefined under an unsafe header
+  const lines = source.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+    if (header) {
+      table = tomlTable(root, splitKey(header[1]));
+      continue;
+    }
+
+    const equals = line.indexOf("=");
+    if (equals < 0) continue;
+
+    // Arrays may continue over several lines
+    let value = line.substring(equals + 1).trim();
+    while (
+      value.startsWith("[") &&
+      !bracketsBalance(value) &&
+      i + 1 < lines.length
+    ) {
+      value += " " + lines[++i].trim();
+    }
+
+    const keys = splitKey(line.substring(0, equals));
+    const target = table && tomlTable(table, keys.slice(0, -1));
+    if (target) setKey(target, keys[keys.length - 1], tomlValue(value));
+  }
+
+  return root;
+}
+
+/**
+ * Nested table for a dotted key, created as needed
+ * Undefined when a key is unsafe; only own properties are walked into.
+ */
+function tomlTable(
+  root: FrontMatterTable,
+  keys: string[],
+): FrontMatterTable | undefined {
+  if (keys.some((key) => UNSAFE_KEYS.has(key))) return undefined;
+
+  let table = root;
+  for (const key of keys) {
+    const next = Object.hasOwn(table, key) ? table[key] : undefined;
+    if (!next || typeof next !== "object" || Array.isArray(next)) {
+      table[key] = {};
+    }
+    table = table[key] as FrontMatterTable;
+  }
+  return table;
+}
+
+/**
+ * Store a parsed value, dropping unsafe keys
+ */
+function setKey(
+  table: FrontMatterTable,
+  key: string | undefined,
+  value: FrontMatterValue,
+): void {
+  if (key !== undefined && !UNSAFE_KEYS.has(key)) table[key] = value;
+}
+
+/**
+ * TOML value
+ */
+function tomlValue(text: string): FrontMatterValue {
+  if (text.startsWith('"')) {
+    const match = text.match(/^"((?:[^"\\]|\\.)*)"/);
+    if (match) return JSON.parse(`"${match[1]}"`);
+  }
+  if (text.startsWith("'")) {
+    const match = text.match(/^'([^']*)'/);
+    if (match) return match[1];
+  }
+  if (text.startsWith("[")) {
+    const inner = text.replace(/\s+#.*$/, "").replace(/^\[|\]$/g, "");
+    return splitFlow(inner).map(tomlValue);
+  }
+
+  const plain = text.replace(/\s+#.*$/, "");
+  if (plain === "true") return true;
+  if (plain === "false") return false;
+  if (/^[-+]?\d[\d_]*(\.\d+)?(e[-+]?\d+)?$/i.test(plain)) {
+    return Number(plain.replace(/_/g, ""));
+  }
+  return plain; // Dates and times stay as text
+}
+
+/**
+ * Split a dotted key ('a."b.c".d')
+ */
+function splitKey(text: string): string[] {
+  return (text.match(/"[^"]*"|'[^']*'|[^.\s]+/g) || []).map((part) =>
+    part.replace(/^["']|["']$/g, ""),
+  );
+}
+
+/**
+ * Split flow/array contents on top-level commas
+ */
+function splitFlow(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = "";
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === "}") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+/**
+ * Whether every "[" outside strings is closed
+ */
+function bracketsBalance(text: string): boolean {
+  let depth = 0;
+  let quote: string | undefined;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+export const markdownExtractor: TextExtractor = {
+  name: "markdown",
+  extensions: ["md", "markdown", "mdx"],
+  mimeTypes: ["text/markdown"],
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    const text = data.toString("utf8");
+    const frontMatter = parseFrontMatter(text);
+    if (!frontMatter) return { text, metadata: {} };
+
+    return {
+      text: frontMatter.body,
+      metadata: frontMatterMetadata(frontMatter.data),
+    };
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * HTML Extractor - HTML to readable text
+ */
+
+import type { ExtractedDocument, TextExtractor } from "./index";
+import { decodeEntities, normalizeWhitespace, stripTags } from "./markup";
+
+const BLOCK_ELEMENTS =
+  "address|article|aside|blockquote|caption|dd|div|dl|dt|fieldset|figcaption|figure|footer|form|h[1-6]|header|hr|main|nav|ol|p|pre|section|table|tbody|tfoot|thead|tr|ul";
+
+/**
+ * Convert HTML markup to plain text
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<(script|style|noscript|template|svg|head)\b[^>]*>[\s\S]*?<\/\1\s*>/gi,
+      "",
+    )
+    .replace(/\s+/g, " ") // Source line breaks are not text breaks
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<(td|th)\b[^>]*>/gi, "\t")
+    .replace(new RegExp(`</?(?:${BLOCK_ELEMENTS})\\b[^>]*>`, "gi"), "\n");
+
+  return normalizeWhitespace(decodeEntities(stripTags(text)));
+}
+
+/**
+ * Read <title>, <meta name=...> properties and the document language
+ */
+export function htmlMetadata(html: string): ExtractedDocument["metadata"] {
+  const metadata: ExtractedDocument["metadata"] = {};
+
+  const root = html.match(/<html\b[^>]*>/i);
+  const lang = root && attribute(root[0], "lang");
+  if (lang) metadata.language = lang;
+
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+  if (title) {
+    metadata.title = normalizeWhitespace(decodeEntities(stripTags(title[1])));
+  }
+
+  for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+    const name =
+      attribute(tag, "name") ||
+      attribute(tag, "property") ||
+      attribute(tag, "http-equiv");
+    const content = attribute(tag, "content");
+    if (!name || content === undefined) continue;
+
+    switch (name.toLowerCase()) {
+      case "author":
+      case "article:author":
+      case "dc.creator":
+        metadata.author ??= content;
+        break;
+      case "description":
+      case "og:description":
+      case "dc.description":
+        metadata.description ??= content;
+        break;
+      case "og:title":
+      case "dc.title":
+        metadata.title ||= content;
+        break;
+      case "content-language":
+      case "dc.language":
+        metadata.language ??= content;
+        break;
+      case "article:published_time":
+      case "dc.date":
+        metadata.created ??= validDate(content);
+        break;
+      case "article:modified_time":
+        metadata.modified ??= validDate(content);
+        break;
+      case "article:tag":
+        metadata.keywords = [...(metadata.keywords || []), content];
+        break;
+      case "keywords":
+        metadata.keywords = [
+          ...(metadata.keywords || []),
+          ...content
+            .split(",")
+            .map((keyword) => keyword.trim())
+            .filter(Boolean),
+        ];
+        break;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Date from a meta tag value
+ */
+function validDate(text: string): Date | undefined {
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Read a tag attribute value
+ */
+export function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"),
+  );
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3]);
+}
+
+export const htmlExtractor: TextExtractor = {
+  name: "html",
+  extensions: ["html", "htm", "xhtml"],
+  mimeTypes: ["text/html", "application/xhtml+xml"],
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    const html = data.toString("utf8");
+    return { text: htmlToText(html), metadata: htmlMetadata(html) };
+  },
+};
@@ -0,0 +1,138 @@
+import { exifMetadata, imageExtractor, xmpMetadata } from "./image";
+
+// [tag, type, value]: ASCII text, SHORTs, LONGs or RATIONAL pairs
+type Field = [number, 2 | 3 | 4 | 5, string | number[]];
+
+/**
+ * Little-endian TIFF with IFD0 and a GPS IFD, values after both
+ */
+function tiff(ifd0: Field[], gps: Field[]): Buffer {
+  const ifdSize = (fields: Field[]) => 2 + fields.length * 12 + 4;
+  const gpsOffset = 8 + ifdSize([...ifd0, [0x8825, 4, [0]]]);
+  const directories = [[...ifd0, [0x8825, 4, [gpsOffset]] as Field], gps];
+
+  const data: Buffer[] = [];
+  let dataOffset = gpsOffset + ifdSize(gps);
+  const out = [Buffer.from("II*\0\x08\0\0\0", "latin1")];
+
+  for (const fields of directories) {
+    const ifd = Buffer.alloc(ifdSize(fields));
+    ifd.writeUInt16LE(fields.length, 0);
+    fields.forEach(([tag, type, value], i) => {
+      let bytes: Buffer;
+      let count: number;
+      if (type === 2) {
+        bytes = Buffer.from(`${value}\0`, "latin1");
+        count = bytes.length;
+      } else {
+        const numbers = value as number[];
+        const width = type === 3 ? 2 : 4;
+        bytes = Buffer.alloc(numbers.length * width);
+        numbers.forEach((n, j) =>
+          width === 2
+            ? bytes.writeUInt16LE(n, j * 2)
+            : bytes.writeUInt32LE(n, j * 4),
+        );
+        count = type === 5 ? numbers.length / 2 : numbers.length;
+      }
+
+      const entry = 2 + i * 12;
+      ifd.writeUInt16LE(tag, entry);
+      ifd.writeUInt16LE(type, entry + 2);
+      ifd.writeUInt32LE(count, entry + 4);
+      if (bytes.length <= 4) {
+        bytes.copy(ifd, entry + 8);
+      } else {
+        ifd.writeUInt32LE(dataOffset, entry + 8);
+        data.push(bytes);
+        dataOffset += bytes.length;
+      }
+    });
+    out.push(ifd);
+  }
+
+  return Buffer.concat([...out, ...data]);
+}
+
+// A JPEG holding only APP1 segments
+function jpeg(...segments: Buffer[]): Buffer {
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    ...segments.map((segment) => {
+      const header = Buffer.from([0xff, 0xe1, 0, 0]);
+      header.writeUInt16BE(segment.length + 2, 2);
+      return Buffer.concat([header, segment]);
+    }),
+    Buffer.from([0xff, 0xd9]),
+  ]);
+}
+
+const EXIF = tiff(
+  [
+    [0x010e, 2, "Pond dipping, Year 4"],
+    [0x010f, 2, "Canon"],
+    [0x0110, 2, "EOS 250D"],
+    [0x0112, 3, [6]],
+    [0x0132, 2, "2024:03:01 09:30:00"],
+  ],
+  [
+    [1, 2, "N"],
+    [2, 5, [51, 1, 30, 1, 0, 1]],
+    [3, 2, "W"],
+    [4, 5, [0, 1, 7, 1, 30, 1]],
+  ],
+);
+
+const XMP = `<x:xmpmeta><rdf:RDF><rdf:Description xmp:ModifyDate="2024-03-02T10:00:00Z">
+  <dc:title><rdf:Alt><rdf:li xml:lang="x-default">Pond life</rdf:li></rdf:Alt></dc:title>
+  <dc:creator><rdf:Seq><rdf:li>Ada</rdf:li><rdf:li>Grace</rdf:li></rdf:Seq></dc:creator>
+  <dc:subject><rdf:Bag><rdf:li>science</rdf:li><rdf:li>habitats</rdf:li></rdf:Bag></dc:subject>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+describe("exifMetadata", () => {
+  it("reads IFD0 properties and the GPS position", () => {
+    expect(exifMetadata(EXIF)).toEqual({
+      description: "Pond dipping, Year 4",
+      camera: "Canon EOS 250D",
+      orientation: 6,
+      modified: new Date(2024, 2, 1, 9, 30, 0),
+      gps: { latitude: 51.5, longitude: -0.125 },
+    });
+  });
+});
+
+describe("xmpMetadata", () => {
+  it("reads Dublin Core lists and XMP dates", () => {
+    expect(xmpMetadata(XMP)).toEqual({
+      title: "Pond life",
+      author: "Ada, Grace",
+      keywords: ["science", "habitats"],
+      modified: new Date("2024-03-02T10:00:00Z"),
+    });
+  });
+});
+
+describe("imageExtractor", () => {
+  it("merges the EXIF and XMP segments of a JPEG", async () => {
+    const document = await imageExtractor.extract(
+      jpeg(
+        Buffer.concat([Buffer.from("Exif\0\0", "latin1"), EXIF]),
+        Buffer.from(`http://ns.adobe.com/xap/1.0/\0${XMP}`),
+      ),
+      "jpg",
+    );
+
+    expect(document.text).toBe("");
+    expect(document.metadata).toMatchObject({
+      title: "Pond life",
+      camera: "Canon EOS 250D",
+      gps: { latitude: 51.5, longitude: -0.125 },
+    });
+  });
+
+  it("rejects other formats", async () => {
+    await expect(
+      imageExtractor.extract(Buffer.from("GIF89a"), "gif"),
+    ).rejects.toThrow("Unrecognized image format");
+  });
+});
@@ -0,0 +1,517 @@
+/**
+ * Image Extractor - EXIF and XMP properties of JPEG, PNG, WebP and TIFF
+ *
+ * Images have no text; the extractor only reports their properties
+ * (dimensions, camera, capture time, GPS position, XMP title/creator/
+ * subject).
+ */
+
+import * as zlib from "zlib";
+import { InflateBudget } from "../inflate";
+import type { ExtractedDocument, TextExtractor } from "./index";
+import { decodeEntities, elementText, stripTags } from "./markup";
+
+type Metadata = ExtractedDocument["metadata"];
+
+// TIFF field types: byte size of one value
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+type TiffValue = number | number[] | string | Buffer;
+
+/**
+ * Reader for one TIFF structure (a TIFF file or an EXIF block)
+ */
+class TiffReader {
+  private readonly little: boolean;
+
+  constructor(private readonly data: Buffer) {
+    const order = data.toString("latin1", 0, 2);
+    if (order !== "II" && order !== "MM") throw new Error("Not TIFF data");
+    this.little = order === "II";
+  }
+
+  /**
+   * Entries of the first IFD
+   */
+  firstIfd(): Map<number, TiffValue> {
+    return this.readIfd(this.uint32(4));
+  }
+
+  /**
+   * Entries of the IFD at an offset
+   */
+  readIfd(offset: number): Map<number, TiffValue> {
+    const entries = new Map<number, TiffValue>();
+    if (offset < 8 || offset + 2 > this.data.length) return entries;
+
+    const count = this.uint16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.data.length) break;
+
+      const tag = this.uint16(entry);
+      const value = this.readValue(entry);
+      if (value !== undefined) entries.set(tag, value);
+    }
+    return entries;
+  }
+
+  private readValue(entry: number): TiffValue | undefined {
+    const type = this.uint16(entry + 2);
+    const count = this.uint32(entry + 4);
+    const size = TYPE_SIZES[type];
+    if (!size || count > 65536) return undefined;
+
+    const length = size * count;
+    const start = length <= 4 ? entry + 8 : this.uint32(entry + 8);
+    if (start + length > this.data.length) return undefined;
+
+    if (type === 2) {
+      return this.data
+        .toString("latin1", start, start + length)
+        .replace(/\0[\s\S]*$/, "")
+        .trim();
+    }
+    if (type === 1 || type === 7) {
+      return this.data.subarray(start, start + length);
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const at = start + i * size;
+      switch (type) {
+        case 3:
+          values.push(this.uint16(at));
+          break;
+        case 4:
+          values.push(this.uint32(at));
+          break;
+        case 9:
+          values.push(this.int32(at));
+          break;
+        case 5:
+        case 10: {
+          const read = type === 5 ? this.uint32 : this.int32;
+          const denominator = read.call(this, at + 4);
+          values.push(denominator ? read.call(this, at) / denominator : 0);
+          break;
+        }
+      }
+    }
+    return count === 1 ? values[0] : values;
+  }
+
+  private uint16(offset: number): number {
+    return this.little
+      ? this.data.readUInt16LE(offset)
+      : this.data.readUInt16BE(offset);
+  }
+
+  private uint32(offset: number): number {
+    return this.little
+      ? this.data.readUInt32LE(offset)
+      : this.data.readUInt32BE(offset);
+  }
+
+  private int32(offset: number): number {
+    return this.little
+      ? this.data.readInt32LE(offset)
+      : this.data.readInt32BE(offset);
+  }
+}
+
+/**
+ * Properties from a TIFF structure's IFD0, EXIF and GPS directories
+ */
+export function exifMetadata(data: Buffer): Metadata {
+  const reader = new TiffReader(data);
+  const ifd0 = reader.firstIfd();
+  const exif = reader.readIfd(numberValue(ifd0.get(0x8769)) ?? 0);
+  const gps = reader.readIfd(numberValue(ifd0.get(0x8825)) ?? 0);
+  const metadata: Metadata = {};
+
+  metadata.title = windowsText(ifd0.get(0x9c9b));
+  metadata.description =
+    stringValue(ifd0.get(0x010e)) || windowsText(ifd0.get(0x9c9c));
+  metadata.author =
+    stringValue(ifd0.get(0x013b)) || windowsText(ifd0.get(0x9c9d));
+  metadata.copyright = stringValue(ifd0.get(0x8298));
+
+  const keywords = windowsText(ifd0.get(0x9c9e));
+  if (keywords) {
+    metadata.keywords = keywords
+      .split(";")
+      .map((keyword) => keyword.trim())
+      .filter(Boolean);
+  }
+
+  const camera = [stringValue(ifd0.get(0x010f)), stringValue(ifd0.get(0x0110))]
+    .filter(Boolean)
+    .join(" ");
+  if (camera) metadata.camera = camera;
+  metadata.software = stringValue(ifd0.get(0x0131));
+  metadata.orientation = numberValue(ifd0.get(0x0112));
+
+  metadata.width =
+    numberValue(exif.get(0xa002)) ?? numberValue(ifd0.get(0x0100));
+  metadata.height =
+    numberValue(exif.get(0xa003)) ?? numberValue(ifd0.get(0x0101));
+
+  metadata.created = exifDate(exif.get(0x9003)) || exifDate(exif.get(0x9004));
+  metadata.modified = exifDate(ifd0.get(0x0132));
+
+  const latitude = gpsCoordinate(gps.get(2), gps.get(1));
+  const longitude = gpsCoordinate(gps.get(4), gps.get(3));
+  if (latitude !== undefined && longitude !== undefined) {
+    metadata.gps = { latitude, longitude };
+  }
+
+  return withoutUndefined(metadata);
+}
+
+/**
+ * Properties from an XMP packet (Dublin Core and XMP basic schemas)
+ */
+export function xmpMetadata(xml: string): Metadata {
+  const metadata: Metadata = {};
+
+  metadata.title = xmpValues(xml, "dc:title")[0];
+  metadata.description = xmpValues(xml, "dc:description")[0];
+  const creators = xmpValues(xml, "dc:creator");
+  if (creators.length) metadata.author = creators.join(", ");
+  const subjects = xmpValues(xml, "dc:subject");
+  if (subjects.length) metadata.keywords = subjects;
+  metadata.copyright = xmpValues(xml, "dc:rights")[0];
+
+  metadata.created = validDate(
+    xmpValues(xml, "photoshop:DateCreated")[0] ||
+      xmpValues(xml, "xmp:CreateDate")[0],
+  );
+  metadata.modified = validDate(xmpValues(xml, "xmp:ModifyDate")[0]);
+
+  return withoutUndefined(metadata);
+}
+
+/**
+ * Values of an XMP property: rdf:li items, element text or attribute
+ */
+function xmpValues(xml: string, name: string): string[] {
+  const element = xml.match(
+    new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`),
+  );
+  if (element) {
+    const items = [
+      ...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g),
+    ]
+      .map((item) => decodeEntities(stripTags(item[1])).trim())
+      .filter(Boolean);
+    if (items.length) return items;
+
+    const text = elementText(element[0], name.split(":")[1]);
+    return text ? [text] : [];
+  }
+
+  const attribute = xml.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`));
+  return attribute ? [decodeEntities(attribute[1]).trim()] : [];
+}
+
+/**
+ * Read a JPEG's segments up to the image data
+ */
+function jpegMetadata(data: Buffer): Metadata {
+  const found: Metadata[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xd9 || marker === 0xda) break; // End, or start of scan
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && segment.toString("latin1", 0, 6) === EXIF_HEADER) {
+      found.push(safely(() => exifMetadata(segment.subarray(6))));
+    } else if (
+      marker === 0xe1 &&
+      segment.toString("latin1", 0, XMP_HEADER.length) === XMP_HEADER
+    ) {
+      const xmp = segment.subarray(XMP_HEADER.length).toString("utf8");
+      found.push(safely(() => xmpMetadata(xmp)));
+    } else if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc &&
+      segment.length >= 5
+    ) {
+      // Start of frame: precision, height, width
+      found.push({
+        height: segment.readUInt16BE(1),
+        width: segment.readUInt16BE(3),
+      });
+    }
+
+    offset += 2 + length;
+  }
+
+  return mergeMetadata(found);
+}
+
+/**
+ * Read a PNG's header, eXIf and text chunks
+ */
+function pngMetadata(data: Buffer): Metadata {
+  const found: Metadata[] = [];
+  const text: Metadata = {};
+  const budget = new InflateBudget();
+  let offset = 8;
+
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (type === "IEND") break;
+
+    if (type === "IHDR" && chunk.length >= 8) {
+      found.push({
+        width: chunk.readUInt32BE(0),
+        height: chunk.readUInt32BE(4),
+      });
+    } else if (type === "eXIf") {
+      found.push(safely(() => exifMetadata(chunk)));
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      let entry: { keyword: string; text: string } | undefined;
+      try {
+        entry = pngText(type, chunk, budget);
+      } catch {
+        // Corrupt compressed text, skip the chunk
+      }
+      if (entry?.keyword === "XML:com.adobe.xmp") {
+        found.push(xmpMetadata(entry.text));
+      } else if (entry) {
+        switch (entry.keyword) {
+          case "Title":
+            text.title = entry.text;
+            break;
+          case "Author":
+            text.author = entry.text;
+            break;
+          case "Description":
+          case "Comment":
+            text.description ??= entry.text;
+            break;
+          case "Copyright":
+            text.copyright = entry.text;
+            break;
+          case "Creation Time":
+            text.created = validDate(entry.text);
+            break;
+        }
+      }
+    }
+
+    offset += 12 + length;
+  }
+
+  // XMP and EXIF take precedence over plain text chunks
+  return mergeMetadata([...found, withoutUndefined(text)]);
+}
+
+/**
+ * Keyword and text of a PNG text chunk
+ */
+function pngText(
+  type: string,
+  chunk: Buffer,
+  budget: InflateBudget,
+): { keyword: string; text: string } | undefined {
+  const separator = chunk.indexOf(0);
+  if (separator < 0) return undefined;
+  const keyword = chunk.toString("latin1", 0, separator);
+
+  if (type === "tEXt") {
+    return { keyword, text: chunk.toString("latin1", separator + 1) };
+  }
+  if (type === "zTXt") {
+    const compressed = chunk.subarray(separator + 2);
+    const bytes = budget.inflate((maxOutputLength) =>
+      zlib.inflateSync(compressed, { maxOutputLength }),
+    );
+    return { keyword, text: bytes.toString("latin1") };
+  }
+
+  // iTXt: compression flag and method, language tag, translated keyword
+  const compressed = chunk[separator + 1] === 1;
+  const language = chunk.indexOf(0, separator + 3);
+  const translated = language < 0 ? -1 : chunk.indexOf(0, language + 1);
+  if (translated < 0) return undefined;
+
+  const body = chunk.subarray(translated + 1);
+  const bytes = compressed
+    ? budget.inflate((maxOutputLength) =>
+        zlib.inflateSync(body, { maxOutputLength }),
+      )
+    : body;
+  return { keyword, text: bytes.toString("utf8") };
+}
+
+/**
+ * Read a WebP's extended header, EXIF and XMP chunks
+ */
+function webpMetadata(data: Buffer): Metadata {
+  const found: Metadata[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const type = data.toString("latin1", offset, offset + 4);
+    const length = data.readUInt32LE(offset + 4);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === "VP8X" && chunk.length >= 10) {
+      found.push({
+        width: chunk.readUIntLE(4, 3) + 1,
+        height: chunk.readUIntLE(7, 3) + 1,
+      });
+    } else if (type === "EXIF") {
+      const exif =
+        chunk.toString("latin1", 0, 6) === EXIF_HEADER
+          ? chunk.subarray(6)
+          : chunk;
+      found.push(safely(() => exifMetadata(exif)));
+    } else if (type === "XMP ") {
+      found.push(xmpMetadata(chunk.toString("utf8")));
+    }
+
+    offset += 8 + length + (length % 2); // Chunks are padded to even sizes
+  }
+
+  return mergeMetadata(found);
+}
+
+/**
+ * Properties of one embedded block; a damaged block yields none
+ */
+function safely(read: () => Metadata): Metadata {
+  try {
+    return read();
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Combine properties, earlier sources winning
+ */
+function mergeMetadata(found: Metadata[]): Metadata {
+  const metadata: Metadata = {};
+  for (const properties of found) {
+    for (const [key, value] of Object.entries(properties)) {
+      if (value !== undefined && metadata[key] === undefined) {
+        metadata[key] = value;
+      }
+    }
+  }
+  return metadata;
+}
+
+function withoutUndefined(metadata: Metadata): Metadata {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined),
+  );
+}
+
+function numberValue(value: TiffValue | undefined): number | undefined {
+  if (typeof value === "number") return value;
+  return Array.isArray(value) ? value[0] : undefined;
+}
+
+function stringValue(value: TiffValue | undefined): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Windows "XP" tags: UTF-16LE in a BYTE array
+ */
+function windowsText(value: TiffValue | undefined): string | undefined {
+  if (!Buffer.isBuffer(value)) return undefined;
+  const text = value
+    .toString("utf16le", 0, value.length - (value.length % 2))
+    .replace(/\0+$/, "")
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * EXIF "YYYY:MM:DD HH:MM:SS" date (camera local time)
+ */
+function exifDate(value: TiffValue | undefined): Date | undefined {
+  const match = stringValue(value)?.match(
+    /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/,
+  );
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  return validDate(`${year}-${month}-${day}T${hour}:${minute}:${second}`);
+}
+
+function validDate(text: string | undefined): Date | undefined {
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Signed decimal degrees from degrees/minutes/seconds and a reference
+ */
+function gpsCoordinate(
+  value: TiffValue | undefined,
+  reference: TiffValue | undefined,
+): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  const negative = reference === "S" || reference === "W";
+  return Math.round((negative ? -degrees : degrees) * 1e6) / 1e6;
+}
+
+export const imageExtractor: TextExtractor = {
+  name: "image",
+  extensions: ["jpg", "jpeg", "png", "webp", "tif", "tiff"],
+  mimeTypes: ["image/jpeg", "image/png", "image/webp", "image/tiff"],
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    let metadata: Metadata = {};
+
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      metadata = jpegMetadata(data);
+    } else if (data.toString("latin1", 1, 4) === "PNG") {
+      metadata = pngMetadata(data);
+    } else if (
+      data.toString("latin1", 0, 4) === "RIFF" &&
+      data.toString("latin1", 8, 12) === "WEBP"
+    ) {
+      metadata = webpMetadata(data);
+    } else if (/^(II\*\0|MM\0\*)$/.test(data.toString("latin1", 0, 4))) {
+      metadata = exifMetadata(data);
+    } else {
+      throw new Error("Unrecognized image format");
+    }
+
+    return { text: "", metadata };
+  },
+};
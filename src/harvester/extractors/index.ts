@@ -0,0 +1,98 @@
+/**
+ * Text Extractors - Pluggable document-to-text conversion
+ *
+ * The harvester looks up an extractor by file extension (or MIME type)
+ * before falling back to reading the file as UTF-8 text. Extractors for
+ * media report properties only, with empty text.
+ */
+
+import { audioExtractor } from "./audio";
+import { codeExtractor } from "./code";
+import { markdownExtractor } from "./frontmatter";
+import { htmlExtractor } from "./html";
+import { imageExtractor } from "./image";
+import { odfExtractor } from "./odf";
+import { ooxmlExtractor } from "./ooxml";
+import { pdfExtractor } from "./pdf";
+import { rtfExtractor } from "./rtf";
+
+/**
+ * Extraction result
+ */
+export interface ExtractedDocument {
+  text: string;
+  summary?: string; // Used instead of a summary of the text
+
+  // Document properties
+  metadata: {
+    title?: string;
+    author?: string;
+    description?: string;
+    keywords?: string[];
+    created?: Date;
+    modified?: Date;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Text extractor
+ */
+export interface TextExtractor {
+  name: string;
+  extensions: string[]; // Lowercase, without the dot
+  mimeTypes?: string[];
+
+  extract(data: Buffer, extension: string): Promise<ExtractedDocument>;
+}
+
+/**
+ * Extractor registry
+ * Later registrations take precedence, so built-ins can be overridden.
+ */
+export class ExtractorRegistry {
+  private extractors: TextExtractor[] = [];
+
+  constructor(extractors: TextExtractor[] = []) {
+    extractors.forEach((extractor) => this.register(extractor));
+  }
+
+  register(extractor: TextExtractor): void {
+    this.extractors.unshift(extractor);
+  }
+
+  find(extension: string, mimeType?: string): TextExtractor | undefined {
+    return (
+      this.extractors.find((e) => e.extensions.includes(extension)) ||
+      (mimeType
+        ? this.extractors.find((e) => e.mimeTypes?.includes(mimeType))
+        : undefined)
+    );
+  }
+
+  list(): TextExtractor[] {
+    return [...this.extractors];
+  }
+}
+
+/**
+ * Built-in extractors
+ */
+export const DEFAULT_EXTRACTORS: TextExtractor[] = [
+  pdfExtractor,
+  ooxmlExtractor,
+  odfExtractor,
+  rtfExtractor,
+  htmlExtractor,
+  markdownExtractor,
+  imageExtractor,
+  audioExtractor,
+  codeExtractor,
+];
+
+/**
+ * Registry with the built-in extractors
+ */
+export function createDefaultExtractors(): ExtractorRegistry {
+  return new ExtractorRegistry(DEFAULT_EXTRACTORS);
+}
@@ -0,0 +1,106 @@
+/**
+ * Markup helpers shared by the XML- and HTML-based extractors
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  deg: "°",
+  middot: "·",
+  bull: "•",
+  hellip: "…",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  euro: "€",
+  pound: "£",
+  times: "×",
+  divide: "÷",
+  agrave: "à",
+  aacute: "á",
+  acirc: "â",
+  auml: "ä",
+  ccedil: "ç",
+  egrave: "è",
+  eacute: "é",
+  ecirc: "ê",
+  euml: "ë",
+  iacute: "í",
+  iuml: "ï",
+  ntilde: "ñ",
+  oacute: "ó",
+  ocirc: "ô",
+  ouml: "ö",
+  uacute: "ú",
+  uuml: "ü",
+  szlig: "ß",
+};
+
+/**
+ * Decode character references and common named entities
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1] === "x" || entity[1] === "X"
+            ? parseInt(entity.substring(2), 16)
+            : parseInt(entity.substring(1), 10);
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    },
+  );
+}
+
+/**
+ * Remove tags, keeping text
+ */
+export function stripTags(markup: string): string {
+  return markup.replace(/<[^>]*>/g, "");
+}
+
+/**
+ * Text of the first element with a local name (any namespace prefix)
+ */
+export function elementText(
+  xml: string,
+  localName: string,
+): string | undefined {
+  const pattern = new RegExp(
+    `<(?:[\\w.-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w.-]+:)?${localName}>`,
+  );
+  const match = xml.match(pattern);
+  if (!match) return undefined;
+
+  const text = decodeEntities(stripTags(match[1])).trim();
+  return text || undefined;
+}
+
+/**
+ * Collapse runs of blank space while keeping tabs and paragraph breaks
+ */
+export function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \f\v\u00a0]+/g, " ")
+    .replace(/[ \t]*\n[ \t]*/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
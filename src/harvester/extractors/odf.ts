@@ -0,0 +1,86 @@
+/**
+ * ODF Extractor - OpenDocument text, spreadsheets and presentations
+ */
+
+import { readZip, readZipText } from "../zip";
+import type { ExtractedDocument, TextExtractor } from "./index";
+import {
+  decodeEntities,
+  elementText,
+  normalizeWhitespace,
+  stripTags,
+} from "./markup";
+
+/**
+ * Body text from content.xml
+ */
+function contentText(xml: string): string {
+  const body = xml.match(/<office:body>([\s\S]*)<\/office:body>/)?.[1] || xml;
+
+  const text = body
+    .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_, count: string) =>
+      " ".repeat(parseInt(count, 10)),
+    )
+    .replace(/<text:s\s*\/>/g, " ")
+    .replace(/<text:tab\s*\/>/g, "\t")
+    .replace(/<text:line-break\s*\/>/g, "\n")
+    .replace(/<\/table:table-cell>/g, "\t")
+    .replace(/<\/(text:p|text:h|table:table-row|draw:page)>/g, "\n")
+    .replace(/<table:table\s[^>]*table:name="([^"]*)"[^>]*>/g, "\n$1\n");
+
+  return decodeEntities(stripTags(text));
+}
+
+/**
+ * Document properties from meta.xml
+ */
+function metaProperties(
+  xml: string | undefined,
+): ExtractedDocument["metadata"] {
+  if (!xml) return {};
+
+  const metadata: ExtractedDocument["metadata"] = {
+    title: elementText(xml, "title"),
+    author: elementText(xml, "initial-creator") || elementText(xml, "creator"),
+    description: elementText(xml, "description") || elementText(xml, "subject"),
+  };
+
+  const keywords = [
+    ...xml.matchAll(/<meta:keyword>([\s\S]*?)<\/meta:keyword>/g),
+  ]
+    .map((match) => decodeEntities(match[1]).trim())
+    .filter(Boolean);
+  if (keywords.length) {
+    metadata.keywords = keywords;
+  }
+
+  const created = elementText(xml, "creation-date");
+  const modified = elementText(xml, "date");
+  if (created) metadata.created = new Date(created);
+  if (modified) metadata.modified = new Date(modified);
+
+  return metadata;
+}
+
+export const odfExtractor: TextExtractor = {
+  name: "odf",
+  extensions: ["odt", "ods", "odp", "odg"],
+  mimeTypes: [
+    "application/vnd.oasis.opendocument.text",
+    "application/vnd.oasis.opendocument.spreadsheet",
+    "application/vnd.oasis.opendocument.presentation",
+  ],
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    const entries = readZip(data);
+    const content = readZipText(entries, "content.xml");
+    if (content === undefined) {
+      throw new Error("OpenDocument has no content.xml");
+    }
+
+    return {
+      text: normalizeWhitespace(contentText(content)),
+      metadata: metaProperties(readZipText(entries, "meta.xml")),
+    };
+  },
+};
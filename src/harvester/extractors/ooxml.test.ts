@@ -0,0 +1,77 @@
+import { zipArchive } from "../__fixtures__/archive-builder";
+import { ooxmlExtractor } from "./ooxml";
+
+const CORE = `<?xml version="1.0"?>
+<cp:coreProperties xmlns:cp="x" xmlns:dc="y" xmlns:dcterms="z">
+  <dc:title>Fractions &amp; Decimals</dc:title>
+  <dc:creator>Ada Lovelace</dc:creator>
+  <cp:keywords>maths, year 5; fractions</cp:keywords>
+  <dcterms:modified>2024-03-01T09:00:00Z</dcterms:modified>
+</cp:coreProperties>`;
+
+describe("ooxmlExtractor", () => {
+  it("reads Word paragraphs, tabs and breaks with the core properties", async () => {
+    const docx = zipArchive([
+      [
+        "word/document.xml",
+        "<w:document><w:body>" +
+          "<w:p><w:pPr><w:tabs><w:tab w:val='left'/></w:tabs></w:pPr>" +
+          "<w:r><w:t>Halves</w:t><w:tab/><w:t xml:space='preserve'>and quarters</w:t></w:r></w:p>" +
+          "<w:p><w:r><w:t>Line one</w:t><w:br/><w:t>line two</w:t></w:r></w:p>" +
+          "</w:body></w:document>",
+      ],
+      ["word/footnotes.xml", "<w:p><w:r><w:t>See page 4.</w:t></w:r></w:p>"],
+      ["docProps/core.xml", CORE],
+    ]);
+
+    const document = await ooxmlExtractor.extract(docx, "docx");
+
+    expect(document.text).toBe(
+      "Halves\tand quarters\nLine one\nline two\n\nSee page 4.",
+    );
+    expect(document.metadata).toMatchObject({
+      title: "Fractions & Decimals",
+      author: "Ada Lovelace",
+      keywords: ["maths", "year 5", "fractions"],
+      modified: new Date("2024-03-01T09:00:00Z"),
+    });
+  });
+
+  it("reads worksheets as tab-separated rows", async () => {
+    const xlsx = zipArchive([
+      [
+        "xl/workbook.xml",
+        '<workbook><sheets><sheet name="Marks" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      ],
+      [
+        "xl/_rels/workbook.xml.rels",
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      ],
+      [
+        "xl/sharedStrings.xml",
+        "<sst><si><t>Pupil</t></si><si><t>Passed</t></si></sst>",
+      ],
+      [
+        "xl/worksheets/sheet1.xml",
+        '<worksheet><sheetData><row><c t="s"><v>0</v></c><c t="s"><v>1</v></c></row>' +
+          '<row><c t="inlineStr"><is><t>Ada</t></is></c><c t="b"><v>1</v></c></row>' +
+          "<row><c/></row></sheetData></worksheet>",
+      ],
+    ]);
+
+    const document = await ooxmlExtractor.extract(xlsx, "xlsx");
+
+    expect(document.text).toBe("Marks\nPupil\tPassed\nAda\tTRUE");
+  });
+
+  it("reads slides in presentation order", async () => {
+    const pptx = zipArchive([
+      ["ppt/slides/slide10.xml", "<a:p><a:r><a:t>Last</a:t></a:r></a:p>"],
+      ["ppt/slides/slide2.xml", "<a:p><a:r><a:t>First</a:t></a:r></a:p>"],
+    ]);
+
+    expect((await ooxmlExtractor.extract(pptx, "pptx")).text).toBe(
+      "First\n\nLast",
+    );
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * OOXML Extractor - Word, Excel and PowerPoint (docx/xlsx/pptx)
+ */
+
+import { readZip, readZipText, ZipEntry } from "../zip";
+import type { ExtractedDocument, TextExtractor } from "./index";
+import {
+  decodeEntities,
+  elementText,
+  normalizeWhitespace,
+  stripTags,
+} from "./markup";
+
+/**
+ * Paragraph text from WordprocessingML or DrawingML
+ * Keeps only text runs, with tabs, breaks and paragraph ends.
+ */
+function runText(xml: string, prefix: "w" | "a"): string {
+  const token = new RegExp(
+    `<${prefix}:t(?:\\s[^>]*)?>([\\s\\S]*?)</${prefix}:t>|<${prefix}:t\\s*/>|<${prefix}:(tab|br)\\b[^>]*/>|</${prefix}:p>`,
+    "g",
+  );
+
+  // Tab stop definitions are not tabs
+  const body = xml.replace(
+    new RegExp(`<${prefix}:tabs>[\\s\\S]*?</${prefix}:tabs>`, "g"),
+    "",
+  );
+
+  let text = "";
+  for (const match of body.matchAll(token)) {
+    if (match[1] !== undefined) {
+      text += decodeEntities(match[1]);
+    } else if (match[2] === "tab") {
+      text += "\t";
+    } else if (match[2] === "br" || match[0].startsWith("</")) {
+      text += "\n";
+    }
+  }
+  return text;
+}
+
+/**
+ * Word document body, footnotes and endnotes
+ */
+function wordText(entries: ZipEntry[]): string {
+  return ["word/document.xml", "word/footnotes.xml", "word/endnotes.xml"]
+    .map((name) => readZipText(entries, name))
+    .filter((xml): xml is string => xml !== undefined)
+    .map((xml) => runText(xml, "w"))
+    .join("\n\n");
+}
+
+/**
+ * Slides in presentation order
+ */
+function presentationText(entries: ZipEntry[]): string {
+  return entries
+    .filter((entry) => /^ppt\/slides\/slide\d+\.xml$/.test(entry.name))
+    .sort((a, b) => slideNumber(a.name) - slideNumber(b.name))
+    .map((entry) => runText(entry.read().toString("utf8"), "a"))
+    .join("\n\n");
+}
+
+function slideNumber(name: string): number {
+  return parseInt(name.replace(/\D/g, ""), 10);
+}
+
+/**
+ * Worksheets as tab-separated rows, one section per sheet
+ */
+function workbookText(entries: ZipEntry[]): string {
+  const sharedStrings: string[] = [];
+  const sharedXml = readZipText(entries, "xl/sharedStrings.xml") || "";
+  for (const item of sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+    const parts = [...item[1].matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)];
+    sharedStrings.push(parts.map((part) => decodeEntities(part[1])).join(""));
+  }
+
+  // Sheet names and their parts, via the workbook relationships
+  const targets = new Map<string, string>();
+  const relsXml = readZipText(entries, "xl/_rels/workbook.xml.rels") || "";
+  for (const rel of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = rel[0].match(/\bId="([^"]*)"/);
+    const target = rel[0].match(/\bTarget="([^"]*)"/);
+    if (id && target) {
+      targets.set(id[1], target[1].replace(/^\/?(xl\/)?/, "xl/"));
+    }
+  }
+
+  const sections: string[] = [];
+  const workbookXml = readZipText(entries, "xl/workbook.xml") || "";
+  for (const sheet of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = sheet[0].match(/\bname="([^"]*)"/);
+    const relId = sheet[0].match(/\br:id="([^"]*)"/);
+    const part = relId ? targets.get(relId[1]) : undefined;
+    const xml = part ? readZipText(entries, part) : undefined;
+    if (!xml) continue;
+
+    const rows: string[] = [];
+    for (const row of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+      const cells: string[] = [];
+      for (const cell of row[1].matchAll(
+        /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+      )) {
+        cells.push(cellValue(cell[1], cell[2] || "", sharedStrings));
+      }
+      if (cells.some(Boolean)) {
+        rows.push(cells.join("\t"));
+      }
+    }
+
+    sections.push(
+      `${name ? decodeEntities(name[1]) : "Sheet"}\n${rows.join("\n")}`,
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Display value of a worksheet cell
+ */
+function cellValue(
+  attributes: string,
+  body: string,
+  sharedStrings: string[],
+): string {
+  const type = attributes.match(/\bt="([^"]*)"/)?.[1];
+  const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+  switch (type) {
+    case "s":
+      return value !== undefined
+        ? sharedStrings[parseInt(value, 10)] || ""
+        : "";
+    case "inlineStr":
+      return decodeEntities(stripTags(body));
+    case "b":
+      return value === "1" ? "TRUE" : "FALSE";
+    default:
+      return value !== undefined ? decodeEntities(value) : "";
+  }
+}
+
+/**
+ * Core document properties (docProps/core.xml)
+ */
+export function ooxmlProperties(
+  entries: ZipEntry[],
+): ExtractedDocument["metadata"] {
+  const xml = readZipText(entries, "docProps/core.xml");
+  if (!xml) return {};
+
+  const metadata: ExtractedDocument["metadata"] = {
+    title: elementText(xml, "title"),
+    author: elementText(xml, "creator"),
+    description: elementText(xml, "description") || elementText(xml, "subject"),
+  };
+
+  const keywords = elementText(xml, "keywords");
+  if (keywords) {
+    metadata.keywords = keywords
+      .split(/[,;]/)
+      .map((keyword) => keyword.trim())
+      .filter(Boolean);
+  }
+
+  const created = elementText(xml, "created");
+  const modified = elementText(xml, "modified");
+  if (created) metadata.created = new Date(created);
+  if (modified) metadata.modified = new Date(modified);
+
+  return metadata;
+}
+
+export const ooxmlExtractor: TextExtractor = {
+  name: "ooxml",
+  extensions: ["docx", "docm", "xlsx", "xlsm", "pptx", "pptm"],
+  mimeTypes: [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ],
+
+  async extract(data: Buffer, extension: string): Promise<ExtractedDocument> {
+    const entries = readZip(data);
+
+    let text: string;
+    if (extension.startsWith("xls")) {
+      text = workbookText(entries);
+    } else if (extension.startsWith("ppt")) {
+      text = presentationText(entries);
+    } else {
+      text = wordText(entries);
+    }
+
+    return {
+      text: normalizeWhitespace(text),
+      metadata: ooxmlProperties(entries),
+    };
+  },
+};
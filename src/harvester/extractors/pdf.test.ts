@@ -0,0 +1,83 @@
+import * as zlib from "zlib";
+import { pdfExtractor } from "./pdf";
+
+// A PDF from numbered objects (streams given as [dictionary, data])
+function pdf(objects: (string | [string, Buffer])[], trailer: string): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n")];
+  objects.forEach((object, i) => {
+    parts.push(Buffer.from(`${i + 1} 0 obj\n`));
+    if (typeof object === "string") {
+      parts.push(Buffer.from(`${object}\nendobj\n`));
+    } else {
+      const [dictionary, data] = object;
+      parts.push(
+        Buffer.from(
+          `${dictionary.replace(/>>$/, ` /Length ${data.length}>>`)}\nstream\n`,
+        ),
+        data,
+        Buffer.from("\nendstream\nendobj\n"),
+      );
+    }
+  });
+  parts.push(Buffer.from(`trailer\n${trailer}\n%%EOF\n`));
+  return Buffer.concat(parts);
+}
+
+const CMAP = `/CIDInit /ProcSet findresource begin
+begincmap
+1 begincodespacerange <0000> <FFFF> endcodespacerange
+2 beginbfchar
+<0001> <00C9>
+<0002> <0074>
+endbfchar
+endcmap`;
+
+describe("pdfExtractor", () => {
+  it("reads the pages' text and the document info", async () => {
+    const document = await pdfExtractor.extract(
+      pdf(
+        [
+          "<</Type /Catalog /Pages 2 0 R>>",
+          "<</Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources <</Font <</F1 5 0 R /F2 6 0 R>>>>>>",
+          "<</Type /Page /Parent 2 0 R /Contents 7 0 R>>",
+          "<</Type /Page /Parent 2 0 R /Contents 8 0 R>>",
+          "<</Type /Font /Subtype /Type1 /BaseFont /Helvetica>>",
+          "<</Type /Font /Subtype /Type0 /ToUnicode 9 0 R>>",
+          [
+            "<</Filter /FlateDecode>>",
+            zlib.deflateSync(
+              "BT /F1 12 Tf 72 720 Td (Fractions) Tj 0 -14 Td [(Halves)-300(and)-300(quarters)] TJ ET",
+            ),
+          ],
+          ["<<>>", Buffer.from("BT /F2 12 Tf <00010002000100020001> Tj ET")],
+          ["<<>>", Buffer.from(CMAP)],
+          "<</Title (Year 5 \\(draft\\)) /Author <FEFF004100640061> /Keywords (maths, fractions)>>",
+        ],
+        "<</Root 1 0 R /Info 10 0 R>>",
+      ),
+      "pdf",
+    );
+
+    expect(document.text).toBe("Fractions\nHalves and quarters\n\nÉtÉtÉ");
+    expect(document.metadata).toMatchObject({
+      title: "Year 5 (draft)",
+      author: "Ada",
+      keywords: ["maths", "fractions"],
+    });
+  });
+
+  it("rejects encrypted and non-PDF files", async () => {
+    await expect(
+      pdfExtractor.extract(
+        pdf(
+          ["<</Type /Catalog>>", "<</Filter /Standard>>"],
+          "<</Root 1 0 R /Encrypt 2 0 R>>",
+        ),
+        "pdf",
+      ),
+    ).rejects.toThrow("Encrypted PDFs are not supported");
+    await expect(
+      pdfExtractor.extract(Buffer.from("<html></html>"), "pdf"),
+    ).rejects.toThrow("Not a PDF file");
+  });
+});
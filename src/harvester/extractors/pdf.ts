@@ -0,0 +1,834 @@
+/**
+ * PDF Extractor - Text and document info from PDF files
+ *
+ * Walks the page tree, decodes content streams and interprets the text
+ * operators. Fonts with a ToUnicode CMap are mapped through it; simple
+ * fonts without one are read as Latin-1. Encrypted PDFs are rejected.
+ */
+
+import * as zlib from "zlib";
+import { InflateBudget } from "../inflate";
+import type { ExtractedDocument, TextExtractor } from "./index";
+import { normalizeWhitespace } from "./markup";
+
+/**
+ * PDF name object (/Name)
+ */
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+/**
+ * Indirect reference (N G R)
+ */
+class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number,
+  ) {}
+}
+
+/**
+ * Stream object: dictionary plus raw (still encoded) bytes
+ */
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly raw: Buffer,
+  ) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | string // Raw string bytes (latin1)
+  | PdfName
+  | PdfRef
+  | PdfStream
+  | PdfValue[]
+  | PdfDict;
+
+/**
+ * Lexical token
+ */
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "name"; value: string }
+  | { type: "keyword"; value: string }
+  | { type: "delimiter"; value: string }
+  | { type: "eof" };
+
+const WHITESPACE = "\0\t\n\f\r ";
+const DELIMITERS = "()<>[]{}/%";
+
+/**
+ * Tokenizer over a latin1 string (one char per byte)
+ */
+class Lexer {
+  constructor(
+    readonly src: string,
+    public pos = 0,
+  ) {}
+
+  next(): Token {
+    this.skipWhitespace();
+    if (this.pos >= this.src.length) return { type: "eof" };
+
+    const char = this.src[this.pos];
+
+    if (char === "(") return { type: "string", value: this.literalString() };
+    if (char === "<") {
+      if (this.src[this.pos + 1] === "<") {
+        this.pos += 2;
+        return { type: "delimiter", value: "<<" };
+      }
+      return { type: "string", value: this.hexString() };
+    }
+    if (char === ">" && this.src[this.pos + 1] === ">") {
+      this.pos += 2;
+      return { type: "delimiter", value: ">>" };
+    }
+    if ("[]{}".includes(char)) {
+      this.pos++;
+      return { type: "delimiter", value: char };
+    }
+    if (char === "/") {
+      this.pos++;
+      return {
+        type: "name",
+        value: this.regular().replace(/#([0-9a-f]{2})/gi, (_, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16)),
+        ),
+      };
+    }
+
+    const word = this.regular();
+    if (!word) {
+      this.pos++; // Stray delimiter such as ")"
+      return this.next();
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: "number", value: parseFloat(word) };
+    }
+    return { type: "keyword", value: word };
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos];
+      if (WHITESPACE.includes(char)) {
+        this.pos++;
+      } else if (char === "%") {
+        while (
+          this.pos < this.src.length &&
+          this.src[this.pos] !== "\n" &&
+          this.src[this.pos] !== "\r"
+        ) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private regular(): string {
+    const start = this.pos;
+    while (
+      this.pos < this.src.length &&
+      !WHITESPACE.includes(this.src[this.pos]) &&
+      !DELIMITERS.includes(this.src[this.pos])
+    ) {
+      this.pos++;
+    }
+    return this.src.substring(start, this.pos);
+  }
+
+  private literalString(): string {
+    let depth = 0;
+    let out = "";
+    this.pos++; // "("
+
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos++];
+
+      if (char === "\\") {
+        const next = this.src[this.pos++];
+        const escapes: Record<string, string> = {
+          n: "\n",
+          r: "\r",
+          t: "\t",
+          b: "\b",
+          f: "\f",
+        };
+        if (next in escapes) {
+          out += escapes[next];
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(this.src[this.pos])) {
+            octal += this.src[this.pos++];
+          }
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === "\r") {
+          if (this.src[this.pos] === "\n") this.pos++;
+        } else if (next !== "\n") {
+          out += next;
+        }
+      } else if (char === "(") {
+        depth++;
+        out += char;
+      } else if (char === ")") {
+        if (depth === 0) break;
+        depth--;
+        out += char;
+      } else {
+        out += char;
+      }
+    }
+
+    return out;
+  }
+
+  private hexString(): string {
+    const end = this.src.indexOf(">", this.pos);
+    let hex = this.src
+      .substring(this.pos + 1, end === -1 ? this.src.length : end)
+      .replace(/[^0-9a-f]/gi, "");
+    this.pos = end === -1 ? this.src.length : end + 1;
+    if (hex.length % 2) hex += "0";
+    return Buffer.from(hex, "hex").toString("latin1");
+  }
+}
+
+/**
+ * Parse a value, reading ahead for "N G R" references
+ */
+function parseValue(lexer: Lexer, token = lexer.next()): PdfValue {
+  switch (token.type) {
+    case "number": {
+      const save = lexer.pos;
+      const gen = lexer.next();
+      if (gen.type === "number") {
+        const r = lexer.next();
+        if (r.type === "keyword" && r.value === "R") {
+          return new PdfRef(token.value, gen.value);
+        }
+      }
+      lexer.pos = save;
+      return token.value;
+    }
+    case "string":
+      return token.value;
+    case "name":
+      return new PdfName(token.value);
+    case "keyword":
+      if (token.value === "true") return true;
+      if (token.value === "false") return false;
+      return null;
+    case "delimiter":
+      if (token.value === "[") {
+        const array: PdfValue[] = [];
+        for (let t = lexer.next(); t.type !== "eof"; t = lexer.next()) {
+          if (t.type === "delimiter" && t.value === "]") break;
+          array.push(parseValue(lexer, t));
+        }
+        return array;
+      }
+      if (token.value === "<<") {
+        const dict: PdfDict = new Map();
+        for (let t = lexer.next(); t.type !== "eof"; t = lexer.next()) {
+          if (t.type === "delimiter" && t.value === ">>") break;
+          if (t.type === "name") {
+            dict.set(t.value, parseValue(lexer));
+          }
+        }
+        return dict;
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parsed PDF document
+ */
+class PdfDocument {
+  private objects = new Map<number, PdfValue>();
+  private decoded = new Map<PdfStream, Buffer | undefined>();
+  private budget = new InflateBudget(); // Shared by every stream
+
+  constructor(private readonly src: string) {
+    this.parseObjects();
+    this.parseObjectStreams();
+  }
+
+  /**
+   * Scan for "N G obj" definitions; later definitions (updates) win
+   */
+  private parseObjects(): void {
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(this.src))) {
+      const lexer = new Lexer(this.src, header.lastIndex);
+      let value = parseValue(lexer);
+
+      const save = lexer.pos;
+      const next = lexer.next();
+      if (
+        next.type === "keyword" &&
+        next.value === "stream" &&
+        value instanceof Map
+      ) {
+        let start = lexer.pos;
+        if (this.src[start] === "\r") start++;
+        if (this.src[start] === "\n") start++;
+
+        const length = value.get("Length");
+        let end =
+          typeof length === "number" &&
+          this.src
+            .substring(start + length, start + length + 20)
+            .includes("endstream")
+            ? start + length
+            : this.src.indexOf("endstream", start);
+        if (end === -1) end = this.src.length;
+
+        value = new PdfStream(
+          value,
+          Buffer.from(this.src.substring(start, end), "latin1"),
+        );
+        header.lastIndex = end;
+      } else {
+        lexer.pos = save;
+        header.lastIndex = Math.max(header.lastIndex, lexer.pos);
+      }
+
+      this.objects.set(parseInt(match[1], 10), value);
+    }
+  }
+
+  /**
+   * Unpack compressed object streams (PDF 1.5+)
+   */
+  private parseObjectStreams(): void {
+    for (const value of [...this.objects.values()]) {
+      if (!(value instanceof PdfStream)) continue;
+      if (nameOf(value.dict.get("Type")) !== "ObjStm") continue;
+
+      const data = this.decode(value);
+      if (!data) continue;
+
+      const content = data.toString("latin1");
+      const count = Number(value.dict.get("N")) || 0;
+      const first = Number(value.dict.get("First")) || 0;
+      const lexer = new Lexer(content);
+
+      const offsets: [number, number][] = [];
+      for (let i = 0; i < count; i++) {
+        const num = lexer.next();
+        const offset = lexer.next();
+        if (num.type !== "number" || offset.type !== "number") break;
+        offsets.push([num.value, offset.value]);
+      }
+
+      for (const [num, offset] of offsets) {
+        if (this.objects.has(num)) continue;
+        this.objects.set(num, parseValue(new Lexer(content, first + offset)));
+      }
+    }
+  }
+
+  /**
+   * Follow references
+   */
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef && depth < 32) {
+      return this.resolve(this.objects.get(value.num), depth + 1);
+    }
+    return value;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    if (resolved instanceof PdfStream) return resolved.dict;
+    return resolved instanceof Map ? resolved : undefined;
+  }
+
+  /**
+   * Decode a stream through its filters (undefined if unsupported)
+   */
+  decode(stream: PdfStream): Buffer | undefined {
+    if (this.decoded.has(stream)) return this.decoded.get(stream);
+
+    const filterValue = this.resolve(stream.dict.get("Filter"));
+    const filters = (
+      Array.isArray(filterValue)
+        ? filterValue
+        : filterValue
+          ? [filterValue]
+          : []
+    ).map((filter) => nameOf(this.resolve(filter)));
+
+    let data: Buffer | undefined = stream.raw;
+    for (const filter of filters) {
+      if (!data) break;
+      data = decodeFilter(filter, data, this.budget);
+    }
+
+    this.decoded.set(stream, data);
+    return data;
+  }
+
+  /**
+   * Trailer entry, from a classic trailer or an xref stream dictionary
+   */
+  trailerRef(key: string): PdfRef | undefined {
+    const pattern = new RegExp(`/${key}\\s+(\\d+)\\s+(\\d+)\\s+R`, "g");
+    let last: RegExpExecArray | undefined;
+    for (const match of this.src.matchAll(pattern)) {
+      last = match as RegExpExecArray;
+    }
+    return last
+      ? new PdfRef(parseInt(last[1], 10), parseInt(last[2], 10))
+      : undefined;
+  }
+
+  /**
+   * Pages in document order, with inherited resources
+   */
+  pages(): { page: PdfDict; resources?: PdfDict }[] {
+    const pages: { page: PdfDict; resources?: PdfDict }[] = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfDict | undefined, resources?: PdfDict) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+
+      const own = this.dict(node.get("Resources")) || resources;
+      const kids = this.resolve(node.get("Kids"));
+
+      if (Array.isArray(kids)) {
+        kids.forEach((kid) => walk(this.dict(kid), own));
+      } else if (nameOf(node.get("Type")) !== "Pages") {
+        pages.push({ page: node, resources: own });
+      }
+    };
+
+    const root = this.dict(this.trailerRef("Root"));
+    walk(this.dict(root?.get("Pages")));
+
+    // Damaged page tree: fall back to every page object in file order
+    if (!pages.length) {
+      for (const value of this.objects.values()) {
+        const dict = value instanceof Map ? value : undefined;
+        if (dict && nameOf(dict.get("Type")) === "Page") {
+          pages.push({
+            page: dict,
+            resources: this.dict(dict.get("Resources")),
+          });
+        }
+      }
+    }
+
+    return pages;
+  }
+}
+
+/**
+ * Apply one stream filter
+ */
+function decodeFilter(
+  filter: string | undefined,
+  data: Buffer,
+  budget: InflateBudget,
+): Buffer | undefined {
+  switch (filter) {
+    case "FlateDecode":
+    case "Fl":
+      try {
+        return budget.inflate((maxOutputLength) =>
+          zlib.inflateSync(data, { maxOutputLength }),
+        );
+      } catch {
+        // Many writers truncate the zlib trailer
+        try {
+          return budget.inflate((maxOutputLength) =>
+            zlib.inflateSync(data, {
+              finishFlush: zlib.constants.Z_SYNC_FLUSH,
+              maxOutputLength,
+            }),
+          );
+        } catch {
+          return undefined;
+        }
+      }
+    case "ASCIIHexDecode":
+    case "AHx": {
+      let hex = data.toString("latin1").replace(/>.*$/s, "");
+      hex = hex.replace(/[^0-9a-f]/gi, "");
+      if (hex.length % 2) hex += "0";
+      return Buffer.from(hex, "hex");
+    }
+    case "ASCII85Decode":
+    case "A85":
+      return decodeAscii85(data.toString("latin1"));
+    default:
+      return undefined; // Image and other binary filters carry no text
+  }
+}
+
+/**
+ * ASCII base-85 decoding
+ */
+function decodeAscii85(input: string): Buffer {
+  const text = input
+    .replace(/^<~/, "")
+    .replace(/~>.*$/s, "")
+    .replace(/\s/g, "");
+  const out: number[] = [];
+  let group: number[] = [];
+
+  const flush = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 85 + (i < group.length ? group[i] : 84);
+    }
+    const bytes = [
+      (value >>> 24) & 0xff,
+      (value >>> 16) & 0xff,
+      (value >>> 8) & 0xff,
+      value & 0xff,
+    ];
+    out.push(...bytes.slice(0, count));
+    group = [];
+  };
+
+  for (const char of text) {
+    if (char === "z" && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 1) flush(group.length - 1);
+
+  return Buffer.from(out);
+}
+
+function nameOf(value: PdfValue | undefined): string | undefined {
+  return value instanceof PdfName ? value.name : undefined;
+}
+
+/**
+ * Decode a PDF text string (UTF-16BE with BOM, else PDFDocEncoding ~ Latin-1)
+ */
+function textString(value: PdfValue | undefined): string | undefined {
+  if (typeof value !== "string") return undefined;
+
+  let text: string;
+  if (value.startsWith("\xfe\xff")) {
+    text = utf16be(Buffer.from(value.substring(2), "latin1"));
+  } else if (value.startsWith("\xef\xbb\xbf")) {
+    text = Buffer.from(value.substring(3), "latin1").toString("utf8");
+  } else {
+    text = value;
+  }
+  return text.replace(/\0/g, "").trim() || undefined;
+}
+
+function utf16be(bytes: Buffer): string {
+  const swapped = Buffer.from(bytes.subarray(0, bytes.length & ~1));
+  swapped.swap16();
+  return swapped.toString("utf16le");
+}
+
+/**
+ * Character code to Unicode mapping from a ToUnicode CMap
+ */
+interface FontMap {
+  codeBytes: number;
+  map?: Map<number, string>;
+}
+
+function parseToUnicode(cmap: string): FontMap {
+  const lexer = new Lexer(cmap);
+  const map = new Map<number, string>();
+  let codeBytes = 1;
+  const operands: (string | string[])[] = []; // Hex strings, or bfrange arrays
+
+  const code = (value: string | string[] | undefined) =>
+    typeof value === "string"
+      ? Buffer.from(value, "latin1").reduce((n, b) => n * 256 + b, 0)
+      : 0;
+  const unicode = (value: string) => utf16be(Buffer.from(value, "latin1"));
+
+  for (let token = lexer.next(); token.type !== "eof"; token = lexer.next()) {
+    if (token.type === "string") {
+      operands.push(token.value);
+      continue;
+    }
+    if (token.type === "delimiter" && token.value === "[") {
+      const array: string[] = [];
+      for (let t = lexer.next(); t.type !== "eof"; t = lexer.next()) {
+        if (t.type === "delimiter" && t.value === "]") break;
+        if (t.type === "string") array.push(t.value);
+      }
+      operands.push(array);
+      continue;
+    }
+    if (token.type !== "keyword") continue;
+
+    if (token.value === "endcodespacerange") {
+      const first = operands[0];
+      if (typeof first === "string") codeBytes = first.length || 1;
+    } else if (token.value === "endbfchar") {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const target = operands[i + 1];
+        if (typeof target === "string") {
+          map.set(code(operands[i]), unicode(target));
+        }
+      }
+    } else if (token.value === "endbfrange") {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const low = code(operands[i]);
+        const high = code(operands[i + 1]);
+        const target = operands[i + 2];
+
+        if (typeof target === "string") {
+          // Consecutive codes map to consecutive last characters
+          const base = unicode(target);
+          const prefix = base.slice(0, -1);
+          const last = base.charCodeAt(base.length - 1);
+          for (let c = low; c <= high && c - low < 65536; c++) {
+            map.set(c, prefix + String.fromCharCode(last + c - low));
+          }
+        } else {
+          target.forEach((value, index) =>
+            map.set(low + index, unicode(value)),
+          );
+        }
+      }
+    }
+
+    if (token.value.startsWith("end") || token.value.startsWith("begin")) {
+      operands.length = 0;
+    }
+  }
+
+  return { codeBytes, map };
+}
+
+/**
+ * Extracts text from page content streams
+ */
+class TextCollector {
+  private text = "";
+  private fontCache = new Map<PdfDict, FontMap>();
+
+  constructor(private readonly doc: PdfDocument) {}
+
+  page(page: PdfDict, resources?: PdfDict): string {
+    this.text = "";
+    const contents = this.doc.resolve(page.get("Contents"));
+    const streams = Array.isArray(contents) ? contents : [contents];
+
+    const source = streams
+      .map((value) => this.doc.resolve(value))
+      .filter((value): value is PdfStream => value instanceof PdfStream)
+      .map((stream) => this.doc.decode(stream)?.toString("latin1") || "")
+      .join("\n");
+
+    this.run(source, resources, 0);
+    return this.text;
+  }
+
+  private run(source: string, resources: PdfDict | undefined, depth: number) {
+    const lexer = new Lexer(source);
+    const fonts = this.doc.dict(resources?.get("Font"));
+    const xobjects = this.doc.dict(resources?.get("XObject"));
+    let font: FontMap = { codeBytes: 1 };
+    let lastY: number | undefined;
+    const operands: PdfValue[] = [];
+
+    for (let token = lexer.next(); token.type !== "eof"; token = lexer.next()) {
+      if (
+        token.type !== "keyword" ||
+        token.value === "true" ||
+        token.value === "false" ||
+        token.value === "null"
+      ) {
+        operands.push(parseValue(lexer, token));
+        continue;
+      }
+
+      const op = token.value;
+      switch (op) {
+        case "Tf": {
+          const name = nameOf(operands[0]);
+          const fontDict = name ? this.doc.dict(fonts?.get(name)) : undefined;
+          font = fontDict ? this.fontMap(fontDict) : { codeBytes: 1 };
+          break;
+        }
+        case "Tj":
+          this.write(operands[0], font);
+          break;
+        case "'":
+          this.newline();
+          this.write(operands[0], font);
+          break;
+        case '"':
+          this.newline();
+          this.write(operands[2], font);
+          break;
+        case "TJ":
+          if (Array.isArray(operands[0])) {
+            for (const part of operands[0]) {
+              if (typeof part === "number") {
+                if (part < -200) this.space();
+              } else {
+                this.write(part, font);
+              }
+            }
+          }
+          break;
+        case "Td":
+        case "TD":
+          if (Number(operands[1]) !== 0) {
+            this.newline();
+          } else if (Number(operands[0]) > 0) {
+            this.space();
+          }
+          break;
+        case "T*":
+          this.newline();
+          break;
+        case "Tm": {
+          const y = Number(operands[5]);
+          if (lastY !== undefined && y !== lastY) this.newline();
+          lastY = y;
+          break;
+        }
+        case "ET":
+          this.space();
+          break;
+        case "Do": {
+          const name = nameOf(operands[0]);
+          const form = name ? this.doc.resolve(xobjects?.get(name)) : undefined;
+          if (
+            form instanceof PdfStream &&
+            nameOf(form.dict.get("Subtype")) === "Form" &&
+            depth < 8
+          ) {
+            const data = this.doc.decode(form);
+            if (data) {
+              this.run(
+                data.toString("latin1"),
+                this.doc.dict(form.dict.get("Resources")) || resources,
+                depth + 1,
+              );
+            }
+          }
+          break;
+        }
+        case "BI": {
+          // Inline image: skip binary data up to "EI"
+          const end = source.indexOf("EI", source.indexOf("ID", lexer.pos));
+          lexer.pos = end === -1 ? source.length : end + 2;
+          break;
+        }
+      }
+
+      operands.length = 0;
+    }
+  }
+
+  private fontMap(fontDict: PdfDict): FontMap {
+    const cached = this.fontCache.get(fontDict);
+    if (cached) return cached;
+
+    let font: FontMap = {
+      codeBytes: nameOf(fontDict.get("Subtype")) === "Type0" ? 2 : 1,
+    };
+    const toUnicode = this.doc.resolve(fontDict.get("ToUnicode"));
+    if (toUnicode instanceof PdfStream) {
+      const data = this.doc.decode(toUnicode);
+      if (data) font = parseToUnicode(data.toString("latin1"));
+    }
+
+    this.fontCache.set(fontDict, font);
+    return font;
+  }
+
+  private write(value: PdfValue | undefined, font: FontMap): void {
+    if (typeof value !== "string") return;
+
+    if (!font.map) {
+      // Without a map only single-byte fonts are readable
+      if (font.codeBytes === 1) this.text += value;
+      return;
+    }
+
+    for (let i = 0; i + font.codeBytes <= value.length; i += font.codeBytes) {
+      let code = 0;
+      for (let b = 0; b < font.codeBytes; b++) {
+        code = code * 256 + value.charCodeAt(i + b);
+      }
+      this.text += font.map.get(code) ?? "";
+    }
+  }
+
+  private space(): void {
+    if (this.text && !/\s$/.test(this.text)) this.text += " ";
+  }
+
+  private newline(): void {
+    if (this.text && !this.text.endsWith("\n")) this.text += "\n";
+  }
+}
+
+export const pdfExtractor: TextExtractor = {
+  name: "pdf",
+  extensions: ["pdf"],
+  mimeTypes: ["application/pdf"],
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    const src = data.toString("latin1");
+    if (!src.startsWith("%PDF-")) {
+      throw new Error("Not a PDF file");
+    }
+
+    const doc = new PdfDocument(src);
+    if (doc.trailerRef("Encrypt")) {
+      throw new Error("Encrypted PDFs are not supported");
+    }
+
+    const collector = new TextCollector(doc);
+    const text = doc
+      .pages()
+      .map(({ page, resources }) => collector.page(page, resources))
+      .join("\n\n");
+
+    const info = doc.dict(doc.trailerRef("Info"));
+    const metadata: ExtractedDocument["metadata"] = {
+      title: textString(doc.resolve(info?.get("Title"))),
+      author: textString(doc.resolve(info?.get("Author"))),
+      description: textString(doc.resolve(info?.get("Subject"))),
+    };
+    const keywords = textString(doc.resolve(info?.get("Keywords")));
+    if (keywords) {
+      metadata.keywords = keywords
+        .split(/[,;]/)
+        .map((keyword) => keyword.trim())
+        .filter(Boolean);
+    }
+
+    return { text: normalizeWhitespace(text), metadata };
+  },
+};
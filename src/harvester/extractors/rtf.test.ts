@@ -0,0 +1,25 @@
+import { rtfExtractor } from "./rtf";
+
+const RTF = String.raw`{\rtf1\ansi\ansicpg1252\deff0
+{\fonttbl{\f0 Times New Roman;}}
+{\info{\title Caf\'e9 maths}{\author Ada}{\keywords fractions, decimals}}
+{\*\generator Writer}
+\pard\b Fractions\b0\par
+Halves\tab and quarters \u8212? see page\~4\'85\par
+}`;
+
+describe("rtfExtractor", () => {
+  it("reads the body text and the info group", async () => {
+    const document = await rtfExtractor.extract(
+      Buffer.from(RTF, "latin1"),
+      "rtf",
+    );
+
+    expect(document.text).toBe("Fractions\nHalves\tand quarters — see page 4…");
+    expect(document.metadata).toMatchObject({
+      title: "Café maths",
+      author: "Ada",
+      keywords: ["fractions", "decimals"],
+    });
+  });
+});
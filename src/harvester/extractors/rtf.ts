@@ -0,0 +1,191 @@
+/**
+ * RTF Extractor - Rich Text Format to plain text
+ */
+
+import type { ExtractedDocument, TextExtractor } from "./index";
+import { normalizeWhitespace } from "./markup";
+
+/**
+ * Destinations whose text is not document body
+ */
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "filetbl",
+  "generator",
+  "info",
+  "pict",
+  "object",
+  "fldinst",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+  "xmlnstbl",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+]);
+
+/**
+ * \info fields captured as document properties
+ */
+const INFO_FIELDS = new Set([
+  "title",
+  "author",
+  "subject",
+  "doccomm",
+  "keywords",
+]);
+
+const SYMBOLS: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n\n",
+  page: "\n\n",
+  row: "\n",
+  cell: "\t",
+  tab: "\t",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+};
+
+// Windows-1252 differs from Latin-1 in 0x80-0x9F
+const CP1252 = "€�‚ƒ„…†‡ˆ‰Š‹Œ�Ž��‘’“”•–—˜™š›œ�žŸ";
+
+interface GroupState {
+  skip: boolean;
+  field?: string; // \info field being captured
+  unicodeSkip: number; // \ucN
+}
+
+/**
+ * Parse RTF into body text and \info properties
+ */
+export function parseRtf(rtf: string): {
+  text: string;
+  fields: Record<string, string>;
+} {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let text = "";
+  let pendingSkip = 0; // Fallback characters after \uN
+  const fields: Record<string, string> = {};
+
+  const emit = (chars: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (state.field) {
+      fields[state.field] = (fields[state.field] || "") + chars;
+    } else if (!state.skip) {
+      text += chars;
+    }
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      stack.push(state);
+      state = { ...state };
+      pendingSkip = 0;
+    } else if (char === "}") {
+      state = stack.pop() || state;
+      pendingSkip = 0;
+    } else if (char === "\\") {
+      const next = rtf[i + 1];
+
+      if (next === undefined) break;
+
+      if (/[a-z]/i.test(next)) {
+        const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.substring(i + 1, i + 40));
+        if (!match) continue;
+        i += match[0].length;
+
+        const word = match[1];
+        const param =
+          match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+
+        if (SKIPPED_DESTINATIONS.has(word)) {
+          state.skip = true;
+        } else if (INFO_FIELDS.has(word)) {
+          state.field = word;
+        } else if (word === "uc" && param !== undefined) {
+          state.unicodeSkip = param;
+        } else if (word === "u" && param !== undefined) {
+          pendingSkip = 0;
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          pendingSkip = state.unicodeSkip;
+        } else if (SYMBOLS[word]) {
+          emit(SYMBOLS[word]);
+        }
+      } else if (next === "'") {
+        const code = parseInt(rtf.substring(i + 2, i + 4), 16);
+        i += 3;
+        if (!isNaN(code)) {
+          emit(
+            code >= 0x80 && code <= 0x9f
+              ? CP1252[code - 0x80]
+              : String.fromCharCode(code),
+          );
+        }
+      } else {
+        i++;
+        if (next === "*") {
+          state.skip = true;
+        } else if (next === "~") {
+          emit(" ");
+        } else if (next === "_") {
+          emit("-");
+        } else if (next === "\n" || next === "\r") {
+          emit("\n");
+        } else if (next === "\\" || next === "{" || next === "}") {
+          emit(next);
+        }
+        // "\-" (optional hyphen) and unknown symbols produce nothing
+      }
+    } else if (char !== "\n" && char !== "\r") {
+      emit(char);
+    }
+  }
+
+  return { text, fields };
+}
+
+export const rtfExtractor: TextExtractor = {
+  name: "rtf",
+  extensions: ["rtf"],
+  mimeTypes: ["application/rtf", "text/rtf"],
+
+  async extract(data: Buffer): Promise<ExtractedDocument> {
+    const { text, fields } = parseRtf(data.toString("latin1"));
+    const metadata: ExtractedDocument["metadata"] = {
+      title: fields.title?.trim() || undefined,
+      author: fields.author?.trim() || undefined,
+      description:
+        fields.doccomm?.trim() || fields.subject?.trim() || undefined,
+    };
+    if (fields.keywords?.trim()) {
+      metadata.keywords = fields.keywords.trim().split(/[\s,;]+/);
+    }
+
+    return { text: normalizeWhitespace(text), metadata };
+  },
+};
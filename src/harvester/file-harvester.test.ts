@@ -0,0 +1,491 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { zipArchive } from "./__fixtures__/archive-builder";
+import {
+  ContentProcessor,
+  FileHarvester,
+  HarvesterConfig,
+  validateHarvesterConfig,
+} from "./file-harvester";
+
+let dir: string;
+let root: string; // Filesystem source of the current test
+let index: string;
+
+function write(file: string, content: string): void {
+  const filePath = path.join(root, ...file.split("/"));
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function harvesterFor(config: Partial<HarvesterConfig> = {}): FileHarvester {
+  return new FileHarvester({
+    harvesterId: "fs-test",
+    name: "filesystem test",
+    sources: [{ sourceId: "notes", sourceType: "filesystem", path: root }],
+    processors: [
+      {
+        processorId: "docs",
+        name: "Docs",
+        fileTypes: ["md", "txt"],
+        extract: { text: true, metadata: true },
+        coordinateStrategy: "hash",
+      },
+    ],
+    indexDestination: index,
+    options: { recursive: true, followSymlinks: false, ignoreHidden: true },
+    autoTagging: {
+      enabled: false,
+      extractFromFilename: false,
+      extractFromPath: false,
+      extractFromContent: false,
+      useMetadata: false,
+    },
+    ...config,
+  });
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-fs-test-"));
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(dir, "source-"));
+  index = `${root}.jsonl`;
+  write("maths/fractions.md", "# Fractions\nHalves and quarters.\n");
+  write("science/cells.txt", "Cells are the unit of life.\n");
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("FileHarvester incremental index", () => {
+  it("reuses unchanged files and tombstones removed ones", async () => {
+    await harvesterFor().harvest();
+    fs.rmSync(path.join(root, "science"), { recursive: true });
+    write("maths/decimals.md", "# Decimals\n");
+
+    const harvester = harvesterFor();
+    const items = await harvester.harvest();
+
+    expect(items.map((item) => item.filename).sort()).toEqual([
+      "decimals.md",
+      "fractions.md",
+    ]);
+    expect(harvester.getProgress().stats).toMatchObject({
+      filesAdded: 1,
+      filesUnchanged: 1,
+      filesDeleted: 1,
+    });
+  });
+
+  it("keeps the indexed files while the source path is missing", async () => {
+    await harvesterFor().harvest();
+    const unmounted = `${root}-unmounted`;
+    fs.renameSync(root, unmounted);
+
+    const missing = harvesterFor();
+    await missing.harvest();
+    expect(missing.getProgress().stats.filesDeleted).toBe(0);
+    expect(missing.getProgress().errors).toEqual([
+      expect.objectContaining({ file: root, error: "Path does not exist" }),
+    ]);
+
+    fs.renameSync(unmounted, root);
+    const remounted = harvesterFor();
+    await remounted.harvest();
+    expect(remounted.getProgress().stats).toMatchObject({
+      filesAdded: 0,
+      filesUnchanged: 2,
+    });
+  });
+});
+
+describe("FileHarvester patterns", () => {
+  it("applies include and exclude patterns and ignore files", async () => {
+    write(".gitignore", "drafts/\n");
+    write("maths/drafts/old.md", "# Old\n");
+    write("maths/worksheets/.kcignore", "*.txt\n!answers.txt\n");
+    write("maths/worksheets/sheet.txt", "Sheet\n");
+    write("maths/worksheets/answers.txt", "Answers\n");
+    write("maths/scratch.md", "Scratch\n");
+
+    const items = await harvesterFor({
+      options: {
+        recursive: true,
+        followSymlinks: false,
+        ignoreHidden: true,
+        useIgnoreFiles: true,
+        includePatterns: ["maths/**"],
+        excludePatterns: ["scratch.*"],
+      },
+    }).harvest();
+
+    expect(items.map((item) => item.filename).sort()).toEqual([
+      "answers.txt",
+      "fractions.md",
+    ]);
+  });
+});
+
+describe("FileHarvester duplicates", () => {
+  it("folds copies under one canonical item", async () => {
+    write("science/fractions-copy.md", "# Fractions\nHalves and quarters.\n");
+
+    const harvester = harvesterFor();
+    const items = await harvester.harvest();
+
+    expect(items.map((item) => item.filename).sort()).toEqual([
+      "cells.txt",
+      "fractions.md",
+    ]);
+    expect(
+      items.find((item) => item.filename === "fractions.md")?.metadata
+        .alternatePaths,
+    ).toEqual([path.join(root, "science", "fractions-copy.md")]);
+    expect(harvester.getProgress().stats.duplicatesExact).toBe(1);
+  });
+});
+
+describe("FileHarvester semantic coordinates", () => {
+  it("embeds the text with the configured model and projects it", async () => {
+    const constant = {
+      name: "constant",
+      dimensions: 2,
+      embed: () => [1, 0],
+    };
+    const items = await harvesterFor({
+      processors: [
+        {
+          processorId: "docs",
+          name: "Docs",
+          fileTypes: ["md", "txt"],
+          extract: { text: true },
+          coordinateStrategy: "semantic",
+          semanticConfig: {
+            model: "constant",
+            raRange: [0, 24],
+            decRange: [-90, 90],
+            altRange: [0, 100],
+          },
+        },
+      ],
+      embeddingModels: [constant],
+    }).harvest();
+
+    expect(items.map((item) => item.metadata.embeddingModel)).toEqual([
+      "constant",
+      "constant",
+    ]);
+    expect(items[0].embedding).toEqual([1, 0]);
+    expect(items[0].coordinate).toEqual(items[1].coordinate);
+  });
+});
+
+describe("FileHarvester hierarchical coordinates", () => {
+  const processor = (formulas: {
+    altFormula: string;
+    raFormula?: string;
+    decFormula?: string;
+  }): ContentProcessor => ({
+    processorId: "tree",
+    name: "Tree",
+    fileTypes: ["md", "txt"],
+    extract: { text: true, metadata: true },
+    coordinateStrategy: "hierarchical",
+    hierarchicalConfig: { raBase: 100, decBase: 10, ...formulas },
+  });
+
+  it("places items by their formulas", async () => {
+    const items = await harvesterFor({
+      processors: [
+        processor({
+          altFormula: "depth * 2 + (ext == 'md' ? 1 : 0)",
+          raFormula: "depth * 10",
+        }),
+      ],
+    }).harvest();
+    const coordinate = (filename: string) =>
+      items.find((item) => item.filename === filename)?.coordinate;
+
+    expect(coordinate("fractions.md")).toEqual({ ra: 110, dec: 10, alt: 3 });
+    expect(coordinate("cells.txt")).toEqual({ ra: 110, dec: 10, alt: 2 });
+  });
+
+  it("refuses formulas that do not compile", () => {
+    const config = {
+      processors: [
+        processor({ altFormula: "depth *", decFormula: "size + ext" }),
+      ],
+    };
+
+    expect(validateHarvesterConfig(config as HarvesterConfig)).toEqual([
+      'Processor tree decFormula "size + ext": "+" needs a number, not a string at 6',
+      'Processor tree altFormula "depth *": Unexpected end of formula at 8',
+    ]);
+    expect(() => harvesterFor(config)).toThrow(
+      "Invalid harvester configuration",
+    );
+  });
+});
+
+describe("FileHarvester integrated storage", () => {
+  it("copies integrated items into the blob store and back out", async () => {
+    const blobs = `${root}-blobs`;
+    const integrated = harvesterFor({
+      storage: { directory: blobs, defaultMode: "integrated" },
+    });
+    const items = await integrated.harvest();
+
+    expect(items.map((item) => item.storageMode)).toEqual([
+      "integrated",
+      "integrated",
+    ]);
+    for (const item of items) {
+      expect(item.pocketPath).toBeUndefined();
+      expect(fs.readFileSync(item.blobPath as string)).toEqual(
+        fs.readFileSync(item.originalPath),
+      );
+    }
+    expect(integrated.getProgress().stats.filesIntegrated).toBe(2);
+
+    const pocket = harvesterFor({ storage: { directory: blobs } });
+    const [item] = await pocket.harvest();
+    expect(item.storageMode).toBe("pocket");
+    expect(item.blobPath).toBeUndefined();
+    expect(pocket.getProgress().stats.filesUnchanged).toBe(2);
+
+    // The switch back is written to the index, not only returned
+    const [reread] = await harvesterFor().harvest();
+    expect(reread).toMatchObject({ storageMode: "pocket" });
+    expect(reread.blobPath).toBeUndefined();
+  });
+});
+
+describe("FileHarvester archives", () => {
+  it("harvests archive members and reuses them while the archive is unchanged", async () => {
+    fs.rmSync(path.join(root, "science"), { recursive: true });
+    fs.writeFileSync(
+      path.join(root, "maths", "pack.zip"),
+      zipArchive([
+        ["week1/intro.md", "# Intro\n"],
+        ["../escape.md", "# Escape\n"],
+      ]),
+    );
+    const options = {
+      recursive: true,
+      followSymlinks: false,
+      ignoreHidden: true,
+      archives: {},
+    };
+
+    const harvester = harvesterFor({ options });
+    const items = await harvester.harvest();
+
+    const pack = path.join(root, "maths", "pack.zip");
+    expect(items.map((item) => item.originalPath).sort()).toEqual([
+      path.join(root, "maths", "fractions.md"),
+      `${pack}!/week1/intro.md`,
+    ]);
+    expect(harvester.getProgress().errors).toEqual([
+      expect.objectContaining({
+        file: `${pack}!/../escape.md`,
+        error: "Unsafe path",
+      }),
+    ]);
+
+    const again = harvesterFor({ options });
+    await again.harvest();
+    expect(again.getProgress().stats).toMatchObject({
+      filesAdded: 0,
+      filesUnchanged: 2,
+    });
+  });
+});
+
+describe("FileHarvester reports", () => {
+  it("writes a report of each run", async () => {
+    const reports = `${root}-reports`;
+    const harvester = harvesterFor({
+      reports: { directory: reports, formats: ["json"] },
+    });
+    await harvester.harvest();
+
+    const [file] = fs.readdirSync(reports);
+    expect(file).toMatch(/^harvest-report-fs-test-.*\.json$/);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(reports, file), "utf8")),
+    ).toMatchObject({
+      status: "completed",
+      totals: { items: 2, filesAdded: 2 },
+      byType: [
+        { type: "md", items: 1 },
+        { type: "txt", items: 1 },
+      ],
+    });
+  });
+});
+
+describe("FileHarvester symlinks", () => {
+  let outside: string;
+
+  beforeEach(() => {
+    outside = `${root}-outside`;
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(outside, "staff.md"), "# Staff\n");
+    fs.symlinkSync(outside, path.join(root, "shared"));
+    fs.symlinkSync(root, path.join(root, "maths", "loop"));
+    fs.symlinkSync(path.join(root, "gone.md"), path.join(root, "broken.md"));
+  });
+
+  const options = (followSymlinks: boolean, symlinksWithinRoot = false) => ({
+    options: {
+      recursive: true,
+      followSymlinks,
+      symlinksWithinRoot,
+      ignoreHidden: true,
+    },
+  });
+
+  it("leaves links alone unless asked to follow them", async () => {
+    const harvester = harvesterFor(options(false));
+    const items = await harvester.harvest();
+
+    expect(items.map((item) => item.filename).sort()).toEqual([
+      "cells.txt",
+      "fractions.md",
+    ]);
+    expect(harvester.getProgress().errors).toEqual([]);
+  });
+
+  it("follows links once each, recording where they lead", async () => {
+    const harvester = harvesterFor(options(true));
+    const items = await harvester.harvest();
+
+    const staff = items.find((item) => item.filename === "staff.md");
+    expect(items).toHaveLength(3);
+    expect(staff).toMatchObject({
+      originalPath: path.join(root, "shared", "staff.md"),
+      linkTarget: path.join(fs.realpathSync(outside), "staff.md"),
+    });
+    expect(
+      items.find((item) => item.filename === "fractions.md")?.linkTarget,
+    ).toBeUndefined();
+    expect(harvester.getProgress().errors).toEqual([
+      expect.objectContaining({
+        file: path.join(root, "broken.md"),
+        error: "Broken symlink",
+      }),
+      expect.objectContaining({
+        file: path.join(root, "maths", "loop"),
+        error: `Directory already scanned as ${root} (symlink cycle or second link)`,
+      }),
+    ]);
+  });
+
+  it("keeps to the source root when told to", async () => {
+    const harvester = harvesterFor(options(true, true));
+    const items = await harvester.harvest();
+
+    expect(items).toHaveLength(2);
+    expect(harvester.getProgress().errors).toContainEqual(
+      expect.objectContaining({
+        file: path.join(root, "shared"),
+        error: `Symlink target outside the source root: ${fs.realpathSync(outside)}`,
+      }),
+    );
+  });
+});
+
+describe("FileHarvester checkpoints", () => {
+  // One entry at a time, checkpointed after each, stopped after `after` new ones
+  function stoppingAfter(after: number): FileHarvester {
+    const harvester = harvesterFor({
+      options: {
+        recursive: true,
+        followSymlinks: false,
+        ignoreHidden: true,
+        concurrency: 1,
+        checkpointInterval: 1,
+      },
+      progressCallback: (progress) => {
+        if (progress.stats.filesAdded === after) harvester.stop();
+      },
+    });
+    return harvester;
+  }
+
+  it("continues a stopped harvest from its checkpoint", async () => {
+    // More entries than the pool queues, so stopping leaves some undone
+    for (let lesson = 10; lesson < 30; lesson++) {
+      write(`lessons/${lesson}.md`, `# Lesson ${lesson}\n`);
+    }
+
+    const stopped = stoppingAfter(2);
+    const partial = await stopped.harvest();
+
+    expect(stopped.getProgress().status).toBe("paused");
+    expect(partial.length).toBeLessThan(22);
+    expect(fs.existsSync(`${index}.checkpoint`)).toBe(true);
+
+    const restarted = harvesterFor();
+    const items = await restarted.harvest();
+
+    expect(items).toHaveLength(22);
+    expect(restarted.getProgress().stats).toMatchObject({
+      filesScanned: 22,
+      filesAdded: 22,
+    });
+    expect(fs.existsSync(`${index}.checkpoint`)).toBe(false);
+  });
+
+  it("tombstones nothing until the stopped pass is finished", async () => {
+    await harvesterFor().harvest();
+    fs.rmSync(path.join(root, "science", "cells.txt"));
+    write("maths/decimals.md", "# Decimals\n");
+    write("maths/geometry.md", "# Geometry\n");
+
+    const stopped = stoppingAfter(1);
+    await stopped.harvest();
+    expect(stopped.getProgress().stats.filesDeleted).toBe(0);
+
+    const resumed = await stopped.resume();
+    expect(stopped.getProgress().stats).toMatchObject({
+      filesAdded: 2,
+      filesDeleted: 1,
+    });
+    expect(resumed.map((item) => item.filename)).not.toContain("cells.txt");
+  });
+});
+
+describe("FileHarvester source code", () => {
+  it("scans the code itself for secrets and summarizes it by symbols", async () => {
+    write(
+      "sync/client.ts",
+      "/** Retry a request */\nexport function retryWithBackoff() {}\n" +
+        'const password = "hunter2-staff-portal";\n',
+    );
+    const harvester = harvesterFor({
+      processors: [
+        {
+          processorId: "code",
+          name: "Code",
+          fileTypes: ["ts"],
+          extract: { text: true, metadata: true, summary: true },
+          coordinateStrategy: "hash",
+        },
+      ],
+      sensitiveData: { enabled: true },
+    });
+    const [item] = await harvester.harvest();
+
+    expect(item.textContent).toContain("export function retryWithBackoff()");
+    expect(item.textContent).toContain('const password = "[REDACTED]"');
+    expect(item.summary).toContain("retryWithBackoff (retry with backoff).");
+    expect(item.roleRestriction).toEqual(["headmaster"]);
+  });
+});
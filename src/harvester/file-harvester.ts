@@ -8,8 +8,88 @@
  */
 
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import { hashToCoordinate } from "../utils/crypto";
+import {
+  CloudFileMetadata,
+  CloudProvider,
+  CloudProviderAdapter,
+  createCloudProviderAdapter,
+} from "../storage/cloud-providers";
+import "../storage/local-adapter"; // Registers the SELF_HOSTED adapter
+import "../storage/s3-adapter"; // Registers the S3-compatible adapters
+import { hashBytes, hashStream, hashToCoordinate } from "../utils/crypto";
+import {
+  ARCHIVE_SEPARATOR,
+  ArchiveLimits,
+  archiveFormat,
+  containerPath,
+  expandArchive,
+} from "./archives";
+import {
+  BlobStorageConfig,
+  BlobStore,
+  createBlobStore,
+  resolveStorageMode,
+} from "./blob-store";
+import { findDuplicateGroups, simhash } from "./duplicates";
+import {
+  EmbeddingModel,
+  HashingEmbeddingModel,
+  LOCAL_EMBEDDING_MODEL,
+  projectEmbedding,
+} from "./embeddings";
+import {
+  createDefaultExtractors,
+  ExtractedDocument,
+  ExtractorRegistry,
+  TextExtractor,
+} from "./extractors";
+import { GitCommitInfo, GitRepository } from "./git-source";
+import { PatternList } from "./glob";
+import { CompiledFormula, compileFormula, FormulaType } from "./formula";
+import { corpusKeywords } from "./keywords";
+import { detectLanguage, normalizeLanguageTag } from "./language";
+import { TaskPool, ThroughputMeter } from "./pipeline";
+import {
+  buildHarvestReport,
+  HarvestReport,
+  HarvestReportConfig,
+  writeHarvestReport,
+} from "./report";
+import {
+  SensitiveDataConfig,
+  SensitiveDataScanner,
+  SensitiveFinding,
+} from "./sensitive-data";
+import { summarize } from "./summarizer";
+import { fnv1a } from "./text-analysis";
+import { CheckpointStore, HarvestCheckpoint } from "./checkpoint";
+import {
+  buildSelect,
+  compareWatermarks,
+  DatabaseConnection,
+  DatabaseDriver,
+  DatabaseQuery,
+  displayLocation,
+  renderRow,
+  resolveDatabaseDriver,
+} from "./database-source";
+import { HarvestIndex, HarvestIndexRecord } from "./harvest-index";
+import {
+  extensionFor,
+  HttpCrawler,
+  HttpResponse,
+  isAllowedHost,
+  normalizeUrl,
+  readPageLinks,
+} from "./http-source";
+import {
+  getHarvestSourcePlugin,
+  HarvestSourcePlugin,
+  PluginEntry,
+} from "./source-plugins";
+import { ChangeWatcher, isWithin } from "./watcher";
 
 /**
  * Harvester configuration
@@ -23,19 +103,32 @@ export interface HarvesterConfig {
 
   // How to process
   processors: ContentProcessor[];
+  extractors?: TextExtractor[]; // Added to (and override) the built-in extractors
+  embeddingModels?: EmbeddingModel[]; // Looked up by semanticConfig.model
+  sourcePlugins?: HarvestSourcePlugin<any>[]; // For "custom" sources, before global ones
 
   // Where to index
-  indexDestination: string; // Path to index database
+  indexDestination: string; // Path to the JSON-lines index file
 
   // Options
   options: {
     recursive: boolean;
-    followSymlinks: boolean;
+    followSymlinks: boolean; // descend into linked directories and harvest linked files
+    symlinksWithinRoot?: boolean; // follow only links whose target is inside the source root
     ignoreHidden: boolean;
     maxFileSize?: number; // bytes, skip files larger than this
     maxDepth?: number; // directory depth limit
     excludePatterns?: string[]; // glob patterns to exclude
     includePatterns?: string[]; // glob patterns to include (if specified, ONLY these)
+    useIgnoreFiles?: boolean; // honour .gitignore/.kcignore found while scanning
+    detectDuplicates?: boolean; // group duplicates under a canonical item (default true)
+    nearDuplicateDistance?: number; // max SimHash bit difference (default 3, 0 = exact only)
+    watchDebounceMs?: number; // quiet period before watch mode applies changes (default 2000)
+    checkpointPath?: string; // default: indexDestination + '.checkpoint'
+    checkpointInterval?: number; // entries between checkpoints (default 500)
+    concurrency?: number; // entries processed at once (default 4)
+    streamThreshold?: number; // bytes; larger entries are streamed, not buffered (default 64 MB)
+    archives?: ArchiveLimits; // Harvest the members of zip/tar/tgz archives, within these limits
   };
 
   // Auto-tagging
@@ -43,10 +136,20 @@ export interface HarvesterConfig {
     enabled: boolean;
     extractFromFilename: boolean;
     extractFromPath: boolean;
-    extractFromContent: boolean;
+    extractFromContent: boolean; // TF-IDF key terms and phrases, weighed over the whole harvest
     useMetadata: boolean;
+    maxKeywords?: number; // content keywords per item (default 10)
   };
 
+  // Sensitive-data scanning: access restrictions and redaction
+  sensitiveData?: SensitiveDataConfig;
+
+  // Integrated storage: blob store and which items are copied into it
+  storage?: BlobStorageConfig;
+
+  // Reports written at the end of each run (completed or paused)
+  reports?: HarvestReportConfig;
+
   // Progress tracking
   progressCallback?: (progress: HarvestProgress) => void;
 }
@@ -70,6 +173,9 @@ export interface HarvestSource {
 
   // Source-specific options
   options?: Record<string, any>;
+
+  // Copy content into the blob store, or only point at the source
+  storageMode?: "integrated" | "pocket";
 }
 
 /**
@@ -97,17 +203,21 @@ export interface ContentProcessor {
 
   // For semantic strategy
   semanticConfig?: {
-    model: string; // 'text-embedding-ada-002', 'sentence-transformers', etc.
+    model: string; // Registered embedding model; unknown names use 'local-hashing'
+
     raRange: [number, number];
     decRange: [number, number];
     altRange: [number, number];
   };
 
-  // For hierarchical strategy
+  // For hierarchical strategy; formulas use the COORDINATE_VARIABLES
   hierarchicalConfig?: {
     raBase: number; // Base RA for this category
     decBase: number;
-    altFormula: string; // e.g., 'depth * 0.5'
+    altFormula: string; // light-years, e.g., 'depth * 0.5'
+    raFormula?: string; // degrees added to raBase, e.g., 'siblingIndex * 2'
+    decFormula?: string; // degrees added to decBase
+    spread?: number; // degrees; items of one package (or directory) cluster within it
   };
 }
 
@@ -122,6 +232,8 @@ export interface HarvestedItem {
   originalPath: string; // Original file path/URL
   storageMode: "integrated" | "pocket";
   pocketPath?: string; // If pocket mode
+  blobPath?: string; // If integrated mode: where the blob store keeps the bytes
+  linkTarget?: string; // Real path, when originalPath goes through a symbolic link
 
   // File info
   filename: string;
@@ -160,10 +272,93 @@ export interface HarvestedItem {
   embedding?: number[]; // Vector embedding
 
   // Access control
-  tierRestriction?: number;
-  roleRestriction?: string[];
+  tierRestriction?: number; // Lowest tier allowed to see the item
+  roleRestriction?: string[]; // Roles allowed to see the item
+}
+
+/**
+ * Harvest entry
+ * A single piece of content discovered by a source, before processing
+ */
+export interface HarvestEntry {
+  path: string; // Becomes HarvestedItem.originalPath
+  pocketPath?: string;
+  filename: string;
+  extension: string;
+  size: number; // bytes
+  created: Date;
+  modified: Date;
+
+  // Source-specific metadata merged into HarvestedItem.metadata
+  metadata?: Record<string, any>;
+
+  // Position among the files of its directory (default: in listing order)
+  siblingIndex?: number;
+
+  linkTarget?: string; // Real path, when reached through a symbolic link
+
+  // Lazily read the bytes, only called when text is extracted
+  read(): Promise<Buffer>;
+
+  // Stream the bytes instead, for entries above the stream threshold
+  stream?(): NodeJS.ReadableStream;
+}
+
+/**
+ * Patterns from an ignore file, relative to the directory holding it
+ */
+interface IgnoreRules {
+  baseDir: string; // Relative to the source root, "" for the root
+  patterns: PatternList;
+}
+
+const IGNORE_FILES = [".gitignore", ".kcignore"];
+
+const STREAM_THRESHOLD = 64 * 1024 * 1024;
+
+/**
+ * Variables of hierarchical coordinate formulas
+ * - depth: directories between the source root and the file
+ * - size: bytes
+ * - ageDays: days since the file was modified
+ * - siblingIndex: position among the files of its directory, from 0
+ * - ext: extension, lowercase without the dot
+ * - name: filename
+ * - path: source-relative path
+ */
+export const COORDINATE_VARIABLES: Record<string, FormulaType> = {
+  depth: "number",
+  size: "number",
+  ageDays: "number",
+  siblingIndex: "number",
+  ext: "string",
+  name: "string",
+  path: "string",
+};
+
+/**
+ * Compiled hierarchical coordinate formulas
+ */
+interface CoordinateFormulas {
+  ra?: CompiledFormula;
+  dec?: CompiledFormula;
+  alt?: CompiledFormula;
 }
 
+/**
+ * Directory entry that passed the scan filters
+ */
+interface ListedEntry {
+  fullPath: string;
+  isDirectory: boolean;
+}
+
+/**
+ * Directories a scan has entered, by device and inode, and the path each
+ * was entered through
+ */
+type VisitedDirectories = Map<string, string>;
+
 /**
  * Harvest progress
  */
@@ -181,11 +376,31 @@ export interface HarvestProgress {
     filesFailed: number;
     bytesProcessed: number;
 
+    // Difference against the persistent index
+    filesAdded: number;
+    filesUpdated: number;
+    filesUnchanged: number;
+    filesDeleted: number;
+
+    // Items folded into a canonical item
+    duplicatesExact: number;
+    duplicatesNear: number;
+
+    // Items restricted by sensitive-data rules
+    filesRestricted: number;
+
+    // Items copied into the blob store, and the bytes newly written
+    filesIntegrated: number;
+    bytesIntegrated: number;
+
     byType: Record<string, number>; // Count by file type
   };
 
   currentFile?: string;
+  totalFiles?: number; // Files expected in all, once counted (filesystem sources only)
+  throughput?: { filesPerSecond: number; bytesPerSecond: number }; // Over the last minute
   estimatedTimeRemaining?: number; // seconds
+  findings: SensitiveFinding[]; // Sensitive data found (rule and count, never values)
   errors: HarvestError[];
 }
 
@@ -206,11 +421,90 @@ export class FileHarvester {
   private progress: HarvestProgress;
   private harvestedItems: HarvestedItem[] = [];
   private shouldStop = false;
+  private index: HarvestIndex;
+  private activeSourceId = "";
+  private seenPaths = new Set<string>();
+  private excludePatterns: PatternList;
+  private includePatterns?: PatternList;
+  private extractors: ExtractorRegistry;
+  private embeddingModels = new Map<string, EmbeddingModel>();
+  private sourcePlugins = new Map<string, HarvestSourcePlugin<any>>();
+  private watchers: ChangeWatcher[] = [];
+  private checkpoints: CheckpointStore;
+  private run?: HarvestCheckpoint; // Set while a harvest is in progress
+  private activeRun?: Promise<HarvestedItem[]>;
+  private resumeCursor?: string; // Entry to skip up to after a restart
+  private entriesSinceCheckpoint = 0;
+  private checkpointWrite: Promise<void> = Promise.resolve();
+  private changeBatches: Promise<unknown> = Promise.resolve(); // Watcher batches, in turn
+  private pool: TaskPool;
+  private scanner?: SensitiveDataScanner;
+  private blobs?: BlobStore;
+  private meter = new ThroughputMeter();
+  private census?: { cancelled: boolean };
+  private packageNames = new Map<string, string | undefined>(); // package.json name by directory
+  private formulas = new Map<ContentProcessor, CoordinateFormulas>();
+  private siblingCounts = new Map<string, number>(); // Entries listed per directory, this source
+  private realRoots = new Map<string, string>(); // Source roots with links resolved
+
+  // Entries finish out of order; the cursor only passes finished runs
+  private entrySequence = 0;
+  private cursorSequence = 0;
+  private finishedEntries = new Map<number, string>();
 
   constructor(config: HarvesterConfig) {
+    const problems: string[] = [];
+    for (const processor of config.processors) {
+      const { formulas, errors } = compileCoordinateFormulas(processor);
+      this.formulas.set(processor, formulas);
+      problems.push(...errors);
+    }
+    if (problems.length) {
+      throw new Error(
+        `Invalid harvester configuration: ${problems.join("; ")}`,
+      );
+    }
+
     this.config = config;
-    this.progress = {
-      harvesterId: config.harvesterId,
+    this.extractors = createDefaultExtractors();
+    config.extractors?.forEach((extractor) =>
+      this.extractors.register(extractor),
+    );
+    for (const model of [
+      new HashingEmbeddingModel(),
+      ...(config.embeddingModels || []),
+    ]) {
+      this.embeddingModels.set(model.name, model);
+    }
+    config.sourcePlugins?.forEach((plugin) =>
+      this.registerSourcePlugin(plugin),
+    );
+    this.index = new HarvestIndex(config.indexDestination);
+    this.pool = new TaskPool(Math.max(1, config.options.concurrency ?? 4));
+    if (config.sensitiveData?.enabled) {
+      this.scanner = new SensitiveDataScanner(config.sensitiveData);
+    }
+    if (config.storage) {
+      this.blobs = createBlobStore(config.storage);
+    }
+    this.checkpoints = new CheckpointStore(
+      config.options.checkpointPath || `${config.indexDestination}.checkpoint`,
+    );
+    this.excludePatterns = new PatternList(
+      config.options.excludePatterns || [],
+    );
+    if (config.options.includePatterns?.length) {
+      this.includePatterns = new PatternList(config.options.includePatterns);
+    }
+    this.progress = this.createProgress();
+  }
+
+  /**
+   * Fresh progress for a new harvest run
+   */
+  private createProgress(): HarvestProgress {
+    return {
+      harvesterId: this.config.harvesterId,
       status: "running",
       startTime: new Date(),
       currentTime: new Date(),
@@ -220,42 +514,610 @@ export class FileHarvester {
         filesSkipped: 0,
         filesFailed: 0,
         bytesProcessed: 0,
+        filesAdded: 0,
+        filesUpdated: 0,
+        filesUnchanged: 0,
+        filesDeleted: 0,
+        duplicatesExact: 0,
+        duplicatesNear: 0,
+        filesRestricted: 0,
+        filesIntegrated: 0,
+        bytesIntegrated: 0,
         byType: {},
       },
+      findings: [],
       errors: [],
     };
   }
 
   /**
    * Start harvesting
+   * If an earlier harvest was interrupted (stop(), crash or reboot), it is
+   * continued from its checkpoint instead of starting over.
    */
   async harvest(): Promise<HarvestedItem[]> {
-    console.log(`[FileHarvester] Starting harvest: ${this.config.name}`);
+    this.shouldStop = false;
+    this.activeRun = this.runHarvest();
+    try {
+      return await this.activeRun;
+    } finally {
+      this.activeRun = undefined;
+    }
+  }
+
+  /**
+   * Run a harvest, new or from a checkpoint
+   */
+  private async runHarvest(): Promise<HarvestedItem[]> {
+    await this.index.load();
+
+    const checkpoint = await this.checkpoints.load();
+    this.progress = this.createProgress();
+    this.meter = new ThroughputMeter();
+    this.harvestedItems = [];
+
+    if (checkpoint && checkpoint.harvesterId === this.config.harvesterId) {
+      console.log(`[FileHarvester] Resuming harvest: ${this.config.name}`);
+      this.run = checkpoint;
+      this.progress.startTime = new Date(checkpoint.startTime);
+      this.progress.stats = { ...this.progress.stats, ...checkpoint.stats };
+    } else {
+      console.log(`[FileHarvester] Starting harvest: ${this.config.name}`);
+      this.run = {
+        harvesterId: this.config.harvesterId,
+        runId: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        startTime: this.progress.startTime.toISOString(),
+        completedSources: [],
+        stats: this.progress.stats,
+        updatedAt: new Date().toISOString(),
+      };
+    }
+    const run = this.run;
+    this.index.beginRun(run.runId);
+    this.startCensus();
+
+    // Items already harvested by this run, before an interruption
+    for (const source of this.config.sources) {
+      for (const record of this.index.seenRecords(source.sourceId)) {
+        if (record.item) this.harvestedItems.push(record.item);
+      }
+    }
 
     for (const source of this.config.sources) {
       if (this.shouldStop) break;
+      if (run.completedSources.includes(source.sourceId)) continue;
+
+      this.activeSourceId = source.sourceId;
+      this.seenPaths = new Set(
+        this.index.seenRecords(source.sourceId).map((record) => record.key),
+      );
+      this.resumeCursor =
+        run.sourceId === source.sourceId ? run.cursor : undefined;
+      run.sourceId = source.sourceId;
+      run.cursor = this.resumeCursor;
+      this.entrySequence = 0;
+      this.cursorSequence = 0;
+      this.finishedEntries.clear();
+      this.siblingCounts.clear();
+
+      let complete = await this.harvestSource(source);
+      await this.pool.drain();
+
+      // The checkpointed entry never came round again (it has since gone),
+      // so the whole source was skipped: go through it once more
+      if (!this.shouldStop && this.resumeCursor !== undefined) {
+        this.resumeCursor = undefined;
+        complete = await this.harvestSource(source);
+        await this.pool.drain();
+      }
+
+      // Only a complete pass can tell which content has gone
+      if (this.shouldStop) break;
+      if (complete) this.tombstoneMissing(source);
 
-      await this.harvestSource(source);
+      run.completedSources.push(source.sourceId);
+      run.sourceId = undefined;
+      run.cursor = undefined;
+      await this.saveCheckpoint();
     }
 
-    this.progress.status = "completed";
+    // Entries that finished past the checkpoint cursor were processed
+    // again after resuming; keep one item each
+    this.harvestedItems = [
+      ...new Map(
+        this.harvestedItems.map((item) => [item.originalPath, item]),
+      ).values(),
+    ];
+
     this.progress.currentTime = new Date();
+    if (this.census) {
+      this.census.cancelled = true;
+      this.census = undefined;
+    }
+
+    if (this.shouldStop) {
+      await this.saveCheckpoint();
+      this.run = undefined;
+      this.progress.status = "paused";
+      console.log(
+        `[FileHarvester] Paused. Indexed ${this.progress.stats.filesIndexed} files so far.`,
+      );
+      await this.writeReport();
+      return this.harvestedItems;
+    }
+
+    this.groupDuplicates();
+    this.tagKeywords();
+
+    await this.index.save();
+    await this.checkpoints.clear();
+    this.run = undefined;
+
+    this.progress.status = "completed";
 
     console.log(
       `[FileHarvester] Completed. Indexed ${this.progress.stats.filesIndexed} files.`,
     );
+    await this.writeReport();
 
     return this.harvestedItems;
   }
 
+  /**
+   * Persist the index changes and the checkpoint of the current run
+   * Writes are queued, so concurrent entries never interleave them.
+   */
+  private saveCheckpoint(): Promise<void> {
+    this.entriesSinceCheckpoint = 0;
+    if (!this.run) return this.checkpointWrite;
+
+    // Taken now: every entry up to the cursor is in the index already,
+    // whereas later ones may still be in flight
+    const checkpoint: HarvestCheckpoint = {
+      ...this.run,
+      completedSources: [...this.run.completedSources],
+      stats: { ...this.progress.stats },
+    };
+    this.checkpointWrite = this.checkpointWrite
+      .catch(() => undefined)
+      .then(async () => {
+        await this.index.flush();
+        await this.checkpoints.save(checkpoint);
+      });
+    return this.checkpointWrite;
+  }
+
+  /**
+   * Count the files of filesystem sources in the background, for the ETA
+   * Other sources cannot be counted ahead, so then there is no estimate.
+   */
+  private startCensus(): void {
+    const sources = this.config.sources;
+    if (!sources.every((source) => source.sourceType === "filesystem")) {
+      return;
+    }
+
+    const census = { cancelled: false };
+    this.census = census;
+
+    (async () => {
+      let total = 0;
+      for (const source of sources) {
+        if (fs.existsSync(source.path)) {
+          total += await this.countFiles(
+            source.path,
+            source.path,
+            0,
+            [],
+            census,
+          );
+        }
+      }
+      if (!census.cancelled) {
+        this.progress.totalFiles = total;
+      }
+    })().catch(() => undefined);
+  }
+
+  /**
+   * Count the files a scan of a directory will find
+   */
+  private async countFiles(
+    basePath: string,
+    currentPath: string,
+    depth: number,
+    ignoreRules: IgnoreRules[],
+    census: { cancelled: boolean },
+    visited: VisitedDirectories = new Map(),
+  ): Promise<number> {
+    if (census.cancelled) return 0;
+    if (await this.revisits(currentPath, visited)) return 0;
+
+    const listing = await this.listDirectory(
+      basePath,
+      currentPath,
+      depth,
+      ignoreRules,
+    ).catch(() => undefined);
+
+    let count = 0;
+    for (const entry of listing?.entries || []) {
+      count += entry.isDirectory
+        ? await this.countFiles(
+            basePath,
+            entry.fullPath,
+            depth + 1,
+            listing?.ignoreRules || [],
+            census,
+            visited,
+          )
+        : 1;
+    }
+    return count;
+  }
+
+  /**
+   * Refresh throughput and the estimated time remaining
+   */
+  private updateEstimate(): void {
+    const rate = this.meter.rate();
+    this.progress.throughput = rate;
+
+    const total = this.progress.totalFiles;
+    if (total !== undefined && rate.filesPerSecond > 0) {
+      const remaining = Math.max(0, total - this.progress.stats.filesScanned);
+      this.progress.estimatedTimeRemaining = Math.round(
+        remaining / rate.filesPerSecond,
+      );
+    }
+  }
+
+  /**
+   * Watch filesystem sources and apply changes to the index as they happen
+   * Runs a full harvest first so the index starts in sync. stop() and
+   * resume() pause and continue watching; unwatch() ends it.
+   */
+  async watch(): Promise<void> {
+    await this.harvest();
+
+    for (const source of this.config.sources) {
+      if (source.sourceType !== "filesystem") continue;
+
+      const watcher = new ChangeWatcher(
+        source.path,
+        this.config.options.watchDebounceMs ?? 2000,
+        (paths) => this.queueChanges(source, paths),
+        (error) =>
+          this.progress.errors.push({
+            file: source.path,
+            error: error.message,
+            timestamp: new Date(),
+          }),
+      );
+      watcher.start();
+      if (this.shouldStop) {
+        watcher.pause();
+      }
+      this.watchers.push(watcher);
+    }
+
+    this.progress.status = this.shouldStop ? "paused" : "running";
+    console.log(
+      `[FileHarvester] Watching ${this.watchers.length} source(s) for changes`,
+    );
+  }
+
+  /**
+   * Stop watching, applying changes that are already pending
+   */
+  async unwatch(): Promise<void> {
+    const watchers = this.watchers;
+    this.watchers = [];
+    await Promise.all(watchers.map((watcher) => watcher.close()));
+
+    if (!this.shouldStop) {
+      this.progress.status = "completed";
+    }
+  }
+
+  /**
+   * Write the run's report, if reports are configured
+   * A report that cannot be written does not fail the harvest.
+   */
+  private async writeReport(): Promise<void> {
+    if (!this.config.reports) return;
+
+    try {
+      const written = await writeHarvestReport(
+        this.getReport(),
+        this.config.reports,
+      );
+      console.log(`[FileHarvester] Report written: ${written.join(", ")}`);
+    } catch (error) {
+      this.progress.errors.push({
+        file: this.config.reports.directory,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Apply a batch once the batches before it, from any source, are done
+   * Batches share the active source, the seen paths and the pool, so two
+   * watchers firing together must not interleave.
+   */
+  private queueChanges(
+    source: HarvestSource,
+    paths: string[],
+  ): Promise<string[]> {
+    const batch = this.changeBatches
+      .catch(() => undefined)
+      .then(() => this.applyChanges(source, paths));
+    this.changeBatches = batch;
+    return batch;
+  }
+
+  /**
+   * Apply a batch of changed paths from a watched source
+   * Returns the paths left over when the harvester is stopped part-way.
+   */
+  private async applyChanges(
+    source: HarvestSource,
+    paths: string[],
+  ): Promise<string[]> {
+    const indexPath = path.resolve(this.config.indexDestination);
+    this.activeSourceId = source.sourceId;
+
+    for (let i = 0; i < paths.length; i++) {
+      if (this.shouldStop) {
+        return paths.slice(i);
+      }
+
+      // Our own index writes show up as changes too
+      const changed = path.resolve(paths[i]);
+      if (changed === indexPath || changed === `${indexPath}.tmp`) continue;
+
+      await this.applyChange(source, paths[i]);
+    }
+
+    // Duplicates are regrouped over everything the sources hold
+    this.harvestedItems = this.config.sources.flatMap((s) =>
+      this.index
+        .liveRecords(s.sourceId)
+        .flatMap((record) => (record.item ? [record.item] : [])),
+    );
+    this.groupDuplicates();
+    this.tagKeywords();
+
+    await this.index.save();
+    this.progress.currentTime = new Date();
+
+    return [];
+  }
+
+  /**
+   * Re-harvest one changed file or directory
+   */
+  private async applyChange(
+    source: HarvestSource,
+    fullPath: string,
+  ): Promise<void> {
+    const basePath = source.path;
+    const relativePath = this.toRelativePath(basePath, fullPath);
+    const stats = await fs.promises.stat(fullPath).catch(() => undefined);
+    const isDirectory = !!stats?.isDirectory();
+    const ignoreRules = stats
+      ? await this.rulesForChange(basePath, relativePath, isDirectory)
+      : undefined;
+
+    this.seenPaths.clear();
+    if (ignoreRules && isDirectory) {
+      const depth = relativePath ? relativePath.split("/").length : 0;
+      await this.scanDirectory(basePath, fullPath, depth, ignoreRules);
+    } else if (ignoreRules && stats?.isFile()) {
+      await this.processFile(
+        basePath,
+        fullPath,
+        await this.siblingIndexOf(basePath, fullPath, ignoreRules),
+      );
+    }
+    await this.pool.drain();
+
+    // Whatever was not found again below the path is gone or now filtered
+    if (!this.shouldStop) {
+      this.tombstoneMissing(source, fullPath);
+    }
+  }
+
+  /**
+   * Position of a changed file among the files of its directory, as a
+   * full scan lists them
+   */
+  private async siblingIndexOf(
+    basePath: string,
+    filePath: string,
+    ignoreRules: IgnoreRules[],
+  ): Promise<number | undefined> {
+    const directory = path.dirname(filePath);
+    const relativeDir = this.toRelativePath(basePath, directory);
+    const listing = await this.listDirectory(
+      basePath,
+      directory,
+      relativeDir ? relativeDir.split("/").length : 0,
+      // The listing reads the directory's own ignore files again
+      ignoreRules.filter((rules) => rules.baseDir !== relativeDir),
+    ).catch(() => undefined);
+
+    const index = listing?.entries
+      .filter((entry) => !entry.isDirectory)
+      .findIndex((entry) => entry.fullPath === filePath);
+    return index !== undefined && index >= 0 ? index : undefined;
+  }
+
+  /**
+   * Ignore rules in effect for a changed path, collected from the source
+   * root down; undefined when the path or a parent directory is filtered out
+   */
+  private async rulesForChange(
+    basePath: string,
+    relativePath: string,
+    isDirectory: boolean,
+  ): Promise<IgnoreRules[] | undefined> {
+    if (!relativePath) return [];
+
+    const segments = relativePath.split("/");
+    const depth = isDirectory ? segments.length : segments.length - 1;
+    if (depth > 0 && !this.config.options.recursive) return undefined;
+    if (this.config.options.maxDepth && depth > this.config.options.maxDepth) {
+      return undefined;
+    }
+
+    let ignoreRules: IgnoreRules[] = [];
+    for (let i = 0; i < segments.length; i++) {
+      const relativeDir = segments.slice(0, i).join("/");
+      ignoreRules = await this.readIgnoreRules(
+        path.join(basePath, relativeDir),
+        relativeDir,
+        ignoreRules,
+      );
+
+      if (this.config.options.ignoreHidden && segments[i].startsWith(".")) {
+        return undefined;
+      }
+      const current = segments.slice(0, i + 1).join("/");
+      const currentIsDirectory = i < segments.length - 1 || isDirectory;
+      if (this.shouldExclude(current, currentIsDirectory, ignoreRules)) {
+        return undefined;
+      }
+    }
+
+    return ignoreRules;
+  }
+
+  /**
+   * Fold exact and near duplicates into their canonical item
+   * Grouping is recomputed from scratch on every run.
+   */
+  private groupDuplicates(): void {
+    this.progress.stats.duplicatesExact = 0;
+    this.progress.stats.duplicatesNear = 0;
+
+    for (const item of this.harvestedItems) {
+      delete item.metadata.alternatePaths;
+      delete item.metadata.duplicateOf;
+      this.index.setDuplicateOf(item.originalPath, undefined);
+    }
+
+    if (this.config.options.detectDuplicates === false) return;
+
+    const groups = findDuplicateGroups(
+      this.harvestedItems,
+      this.config.options.nearDuplicateDistance ?? 3,
+    );
+
+    const folded = new Set<HarvestedItem>();
+    for (const { canonical, duplicates } of groups) {
+      canonical.metadata.alternatePaths = duplicates.map(
+        ({ item }) => item.originalPath,
+      );
+
+      for (const { item, kind } of duplicates) {
+        folded.add(item);
+        item.metadata.duplicateOf = canonical.originalPath;
+        this.index.setDuplicateOf(item.originalPath, canonical.originalPath);
+
+        if (kind === "exact") {
+          this.progress.stats.duplicatesExact++;
+        } else {
+          this.progress.stats.duplicatesNear++;
+        }
+      }
+    }
+
+    this.harvestedItems = this.harvestedItems.filter(
+      (item) => !folded.has(item),
+    );
+  }
+
+  /**
+   * Tag items with their key terms and phrases, by TF-IDF over all items
+   * Recomputed on every run, as new documents shift the weights; the
+   * previous content keywords are replaced, other tags are kept.
+   */
+  private tagKeywords(): void {
+    const { enabled, extractFromContent, maxKeywords } =
+      this.config.autoTagging;
+    if (!enabled || !extractFromContent) return;
+
+    const items = this.harvestedItems.filter((item) => item.textContent);
+    const keywords = corpusKeywords(
+      items.map((item) => ({
+        text: item.textContent as string,
+        language: item.metadata.language,
+      })),
+      { maxKeywords },
+    );
+
+    items.forEach((item, i) => {
+      const previous: string[] = item.metadata.contentKeywords || [];
+      if (previous.join("\n") === keywords[i].join("\n")) return;
+
+      const stale = new Set(previous);
+      item.metadata.tags = [
+        ...new Set([
+          ...item.metadata.tags.filter((tag) => !stale.has(tag)),
+          ...keywords[i],
+        ]),
+      ];
+      item.metadata.contentKeywords = keywords[i];
+      this.index.touch(item.originalPath);
+    });
+  }
+
+  /**
+   * Tombstone indexed content that a source no longer has
+   * With `under`, only content at or below that path is considered.
+   */
+  private tombstoneMissing(source: HarvestSource, under?: string): void {
+    for (const record of this.index.liveRecords(source.sourceId)) {
+      if (under && !isWithin(under, containerPath(record.key))) continue;
+
+      if (!this.seenPaths.has(record.key)) {
+        this.index.tombstone(record.key);
+        this.progress.stats.filesDeleted++;
+
+        if (this.config.progressCallback) {
+          this.config.progressCallback(this.progress);
+        }
+      }
+    }
+  }
+
   /**
    * Harvest a single source
+   * A failure is recorded as a source error; returns false when the pass
+   * did not finish.
    */
-  private async harvestSource(source: HarvestSource): Promise<void> {
+  private async harvestSource(source: HarvestSource): Promise<boolean> {
     console.log(
       `[FileHarvester] Harvesting source: ${source.sourceId} (${source.sourceType})`,
     );
 
+    try {
+      await this.harvestSourceEntries(source);
+      return true;
+    } catch (error) {
+      this.progress.errors.push({
+        file: displayLocation(source.path),
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+      });
+      return false;
+    }
+  }
+
+  private async harvestSourceEntries(source: HarvestSource): Promise<void> {
     switch (source.sourceType) {
       case "filesystem":
         await this.harvestFilesystem(source);
@@ -266,6 +1128,15 @@ export class FileHarvester {
       case "s3":
         await this.harvestS3(source);
         break;
+      case "database":
+        await this.harvestDatabase(source);
+        break;
+      case "http":
+        await this.harvestHttp(source);
+        break;
+      case "custom":
+        await this.harvestCustom(source);
+        break;
       default:
         console.log(
           `[FileHarvester] Unsupported source type: ${source.sourceType}`,
@@ -279,103 +1150,519 @@ export class FileHarvester {
   private async harvestFilesystem(source: HarvestSource): Promise<void> {
     const basePath = source.path;
 
+    // A missing or unmounted path fails the pass, so its indexed files are
+    // kept rather than tombstoned
     if (!fs.existsSync(basePath)) {
-      this.progress.errors.push({
-        file: basePath,
-        error: "Path does not exist",
-        timestamp: new Date(),
-      });
-      return;
+      throw new Error("Path does not exist");
     }
 
-    await this.scanDirectory(basePath, basePath, 0);
+    await this.scanDirectory(basePath, basePath, 0, []);
   }
 
   /**
    * Recursively scan directory
+   * Files are handed to the worker pool, which holds the scan back when
+   * processing falls behind.
    */
   private async scanDirectory(
     basePath: string,
     currentPath: string,
     depth: number,
+    ignoreRules: IgnoreRules[],
+    visited: VisitedDirectories = new Map(),
   ): Promise<void> {
     if (this.shouldStop) return;
 
-    // Check depth limit
-    if (this.config.options.maxDepth && depth > this.config.options.maxDepth) {
+    const enteredAs = await this.revisits(currentPath, visited);
+    if (enteredAs) {
+      this.progress.errors.push({
+        file: currentPath,
+        error: `Directory already scanned as ${enteredAs} (symlink cycle or second link)`,
+        timestamp: new Date(),
+      });
       return;
     }
 
-    const entries = fs.readdirSync(currentPath, { withFileTypes: true });
-
-    for (const entry of entries) {
-      if (this.shouldStop) break;
+    const listing = await this.listDirectory(
+      basePath,
+      currentPath,
+      depth,
+      ignoreRules,
+    );
+    if (!listing) return;
 
-      const fullPath = path.join(currentPath, entry.name);
+    for (const { path: skippedPath, reason } of listing.skipped) {
+      this.progress.stats.filesSkipped++;
+      this.progress.errors.push({
+        file: skippedPath,
+        error: reason,
+        timestamp: new Date(),
+      });
+    }
 
-      // Skip hidden files if configured
-      if (this.config.options.ignoreHidden && entry.name.startsWith(".")) {
-        continue;
-      }
+    let files = 0;
+    for (const entry of listing.entries) {
+      if (this.shouldStop) break;
 
-      // Check exclusion patterns
-      if (this.shouldExclude(fullPath)) {
+      const siblingIndex = entry.isDirectory ? undefined : files++;
+      if (this.skipForResume(basePath, entry.fullPath, entry.isDirectory)) {
         continue;
       }
 
-      if (entry.isDirectory()) {
-        if (this.config.options.recursive) {
-          await this.scanDirectory(basePath, fullPath, depth + 1);
-        }
-      } else if (entry.isFile()) {
-        await this.processFile(basePath, fullPath);
+      if (entry.isDirectory) {
+        await this.scanDirectory(
+          basePath,
+          entry.fullPath,
+          depth + 1,
+          listing.ignoreRules,
+          visited,
+        );
+      } else {
+        await this.processFile(basePath, entry.fullPath, siblingIndex);
       }
     }
   }
 
   /**
-   * Process individual file
+   * Entries of a directory that pass the scan filters, with the ignore
+   * rules for its children
+   * Sorted, so a checkpoint cursor marks a point in a fixed order.
    */
-  private async processFile(basePath: string, filePath: string): Promise<void> {
-    this.progress.stats.filesScanned++;
-    this.progress.currentFile = filePath;
-    this.progress.currentTime = new Date();
-
-    try {
-      const stats = fs.statSync(filePath);
-
-      // Check file size limit
+  private async listDirectory(
+    basePath: string,
+    currentPath: string,
+    depth: number,
+    ignoreRules: IgnoreRules[],
+  ): Promise<
+    | {
+        entries: ListedEntry[];
+        ignoreRules: IgnoreRules[];
+        skipped: { path: string; reason: string }[]; // Links not followed
+      }
+    | undefined
+  > {
+    // Check depth limit
+    if (this.config.options.maxDepth && depth > this.config.options.maxDepth) {
+      return undefined;
+    }
+
+    const dirents = (
+      await fs.promises.readdir(currentPath, { withFileTypes: true })
+    ).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    const relativeDir = this.toRelativePath(basePath, currentPath);
+
+    // Pick up ignore files in this directory
+    ignoreRules = await this.readIgnoreRules(
+      currentPath,
+      relativeDir,
+      ignoreRules,
+    );
+
+    const entries: ListedEntry[] = [];
+    const skipped: { path: string; reason: string }[] = [];
+    for (const dirent of dirents) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${dirent.name}`
+        : dirent.name;
+      const fullPath = path.join(currentPath, dirent.name);
+
+      // Skip hidden files if configured
+      if (this.config.options.ignoreHidden && dirent.name.startsWith(".")) {
+        continue;
+      }
+
+      // Links count as what they point to
+      const isLink = dirent.isSymbolicLink();
+      if (isLink && !this.config.options.followSymlinks) continue;
+      const target = isLink
+        ? await fs.promises.stat(fullPath).catch(() => undefined)
+        : undefined;
+      const isDirectory = isLink
+        ? !!target?.isDirectory()
+        : dirent.isDirectory();
+      const isFile = isLink ? !!target?.isFile() : dirent.isFile();
+
+      // Check exclusion patterns
+      if (this.shouldExclude(relativePath, isDirectory, ignoreRules)) {
+        continue;
+      }
+
+      if (isLink) {
+        const reason = target
+          ? await this.linkOutsideRoot(basePath, fullPath)
+          : "Broken symlink";
+        if (reason) {
+          skipped.push({ path: fullPath, reason });
+          continue;
+        }
+      }
+
+      if (isFile || (isDirectory && this.config.options.recursive)) {
+        entries.push({ fullPath, isDirectory });
+      }
+    }
+
+    return { entries, ignoreRules, skipped };
+  }
+
+  /**
+   * Path a directory was already entered through in this scan, or
+   * undefined after noting it as entered
+   * Only kept when following symlinks: without them no directory can be
+   * reached twice.
+   */
+  private async revisits(
+    dirPath: string,
+    visited: VisitedDirectories,
+  ): Promise<string | undefined> {
+    if (!this.config.options.followSymlinks) return undefined;
+
+    const stats = await fs.promises.stat(dirPath).catch(() => undefined);
+    if (!stats) return undefined;
+    const key = `${stats.dev}:${stats.ino}`;
+    const previous = visited.get(key);
+    if (previous === undefined) visited.set(key, dirPath);
+    return previous;
+  }
+
+  /**
+   * Why a link is not followed under symlinksWithinRoot, if it leads out
+   * of the source root
+   */
+  private async linkOutsideRoot(
+    basePath: string,
+    linkPath: string,
+  ): Promise<string | undefined> {
+    if (!this.config.options.symlinksWithinRoot) return undefined;
+
+    const target = await fs.promises.realpath(linkPath);
+    if (isWithin(await this.realRoot(basePath), target)) return undefined;
+    return `Symlink target outside the source root: ${target}`;
+  }
+
+  /**
+   * Real path of a file reached through a symlink (a linked file or a
+   * linked directory above it); undefined when there is none
+   */
+  private async linkTarget(
+    basePath: string,
+    filePath: string,
+  ): Promise<string | undefined> {
+    if (!this.config.options.followSymlinks) return undefined;
+
+    try {
+      const target = await fs.promises.realpath(filePath);
+      const root = await this.realRoot(basePath);
+      return path.relative(root, target) ===
+        path.relative(path.resolve(basePath), path.resolve(filePath))
+        ? undefined
+        : target;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Real path of a source root, which may itself lie below a link
+   */
+  private async realRoot(basePath: string): Promise<string> {
+    let root = this.realRoots.get(basePath);
+    if (root === undefined) {
+      root = await fs.promises.realpath(basePath);
+      this.realRoots.set(basePath, root);
+    }
+    return root;
+  }
+
+  /**
+   * Whether a resumed scan has already covered an entry
+   * Directories wholly before the checkpointed entry are passed over, the
+   * one holding it is descended into. The cursor is cleared once passed.
+   */
+  private skipForResume(
+    basePath: string,
+    fullPath: string,
+    isDirectory: boolean,
+  ): boolean {
+    const cursor = this.resumeCursor;
+    if (cursor === undefined) return false;
+    if (isDirectory && isWithin(fullPath, cursor)) return false;
+
+    const entryParts = this.toRelativePath(basePath, fullPath).split("/");
+    const cursorParts = this.toRelativePath(basePath, cursor).split("/");
+    let order = entryParts.length - cursorParts.length;
+    for (let i = 0; i < Math.min(entryParts.length, cursorParts.length); i++) {
+      if (entryParts[i] !== cursorParts[i]) {
+        order = entryParts[i] < cursorParts[i] ? -1 : 1;
+        break;
+      }
+    }
+
+    if (order < 0) return true;
+
+    this.resumeCursor = undefined;
+    return order === 0;
+  }
+
+  /**
+   * Add a directory's ignore files to the inherited rules
+   */
+  private async readIgnoreRules(
+    dirPath: string,
+    relativeDir: string,
+    ignoreRules: IgnoreRules[],
+  ): Promise<IgnoreRules[]> {
+    if (!this.config.options.useIgnoreFiles) return ignoreRules;
+
+    const rules = [...ignoreRules];
+    for (const name of IGNORE_FILES) {
+      const contents = await fs.promises
+        .readFile(path.join(dirPath, name), "utf8")
+        .catch(() => undefined);
+      if (contents === undefined) continue;
+
+      rules.push({
+        baseDir: relativeDir,
+        patterns: PatternList.parse(contents),
+      });
+    }
+    return rules;
+  }
+
+  /**
+   * Process individual file
+   */
+  private async processFile(
+    basePath: string,
+    filePath: string,
+    siblingIndex?: number,
+  ): Promise<void> {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(filePath);
+    } catch (error) {
+      this.progress.stats.filesScanned++;
+      this.recordFailure(filePath, error);
+      return;
+    }
+
+    await this.processEntry({
+      path: filePath,
+      pocketPath: filePath,
+      filename: path.basename(filePath),
+      extension: path.extname(filePath).substring(1).toLowerCase(),
+      size: stats.size,
+      created: stats.birthtime,
+      modified: stats.mtime,
+      siblingIndex,
+      linkTarget: await this.linkTarget(basePath, filePath),
+      read: () => fs.promises.readFile(filePath),
+      stream: () => fs.createReadStream(filePath),
+    });
+  }
+
+  /**
+   * Queue a discovered entry on the worker pool
+   * Resolves once the entry is accepted, not when it is processed.
+   */
+  private async processEntry(
+    entry: HarvestEntry,
+    fallbackProcessor?: ContentProcessor,
+  ): Promise<void> {
+    // Sources that do not number siblings list each directory in order
+    const directory = path.dirname(entry.path);
+    const listed = this.siblingCounts.get(directory) || 0;
+    this.siblingCounts.set(directory, listed + 1);
+    if (entry.siblingIndex === undefined) {
+      entry = { ...entry, siblingIndex: listed };
+    }
+
+    // Resuming: everything up to the checkpointed entry is already done
+    if (this.resumeCursor !== undefined) {
+      if (entry.path === this.resumeCursor) {
+        this.resumeCursor = undefined;
+      }
+      return;
+    }
+
+    const sequence = this.entrySequence++;
+    await this.pool.submit(async () => {
+      await this.indexEntry(entry, fallbackProcessor);
+
+      this.meter.record(entry.size);
+      this.updateEstimate();
+      await this.finishEntry(sequence, entry.path);
+    });
+  }
+
+  /**
+   * Advance the checkpoint cursor over every entry finished in order
+   */
+  private async finishEntry(
+    sequence: number,
+    entryPath: string,
+  ): Promise<void> {
+    if (!this.run) return;
+
+    this.finishedEntries.set(sequence, entryPath);
+    while (this.finishedEntries.has(this.cursorSequence)) {
+      this.run.cursor = this.finishedEntries.get(this.cursorSequence);
+      this.finishedEntries.delete(this.cursorSequence++);
+      this.entriesSinceCheckpoint++;
+    }
+
+    if (
+      this.entriesSinceCheckpoint >=
+      (this.config.options.checkpointInterval ?? 500)
+    ) {
+      try {
+        await this.saveCheckpoint();
+      } catch (error) {
+        this.progress.errors.push({
+          file:
+            this.config.options.checkpointPath || this.config.indexDestination,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Index an entry through extraction, coordinates and tagging
+   */
+  private async indexEntry(
+    entry: HarvestEntry,
+    fallbackProcessor?: ContentProcessor,
+  ): Promise<void> {
+    this.progress.stats.filesScanned++;
+    this.progress.currentFile = entry.path;
+    this.progress.currentTime = new Date();
+
+    try {
+      // Check file size limit
       if (
         this.config.options.maxFileSize &&
-        stats.size > this.config.options.maxFileSize
+        entry.size > this.config.options.maxFileSize
       ) {
         this.progress.stats.filesSkipped++;
+        this.progress.errors.push({
+          file: entry.path,
+          error: `Larger than the maximum file size (${this.config.options.maxFileSize} bytes)`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      if (this.config.options.archives && archiveFormat(entry.filename)) {
+        await this.indexArchive(entry, fallbackProcessor);
         return;
       }
 
-      const ext = path.extname(filePath).substring(1).toLowerCase();
+      const ext = entry.extension;
 
       // Find appropriate processor
-      const processor = this.findProcessor(ext);
+      const processor = this.findProcessor(ext) || fallbackProcessor;
       if (!processor) {
         this.progress.stats.filesSkipped++;
         return;
       }
 
+      this.seenPaths.add(entry.path);
+      this.index.markSeen(entry.path);
+
+      // Reuse the indexed item when size and modification time match,
+      // unless the sensitive-data rules have changed since it was scanned
+      const previous = this.index.get(entry.path);
+      const indexed = previous && !previous.deleted ? previous : undefined;
+      const reusable =
+        indexed?.item && this.scannedWithCurrentRules(indexed.item)
+          ? indexed.item
+          : undefined;
+      if (
+        reusable &&
+        indexed?.size === entry.size &&
+        indexed.modified === entry.modified.getTime()
+      ) {
+        if (await this.applyStorage(reusable, entry)) {
+          this.index.touch(entry.path);
+        }
+        this.harvestedItems.push(reusable);
+        this.progress.stats.filesUnchanged++;
+        return;
+      }
+
+      // Otherwise compare content hashes; large entries are hashed as a
+      // stream instead of being held in memory
+      const stream = this.isStreamed(entry) ? entry.stream : undefined;
+      const bytes = stream ? undefined : await entry.read();
+      const contentHash = stream
+        ? await hashStream(stream())
+        : hashBytes(bytes as Buffer);
+      if (reusable && indexed?.contentHash === contentHash) {
+        reusable.modified = entry.modified;
+        await this.applyStorage(reusable, entry, bytes);
+        this.index.put(this.activeSourceId, reusable, contentHash);
+        this.harvestedItems.push(reusable);
+        this.progress.stats.filesUnchanged++;
+        return;
+      }
+
       // Extract content and metadata
-      const item = await this.extractContent(filePath, stats, processor);
+      const item = await this.extractContent(
+        bytes ? { ...entry, read: async () => bytes } : entry,
+        processor,
+      );
+      item.metadata.contentHash = contentHash;
+
+      // Restrict and redact before the text is fingerprinted, embedded or
+      // tagged
+      const findings = this.scanner?.scan(item) || [];
+      if (findings.length) {
+        this.progress.findings.push(...findings);
+        if (item.tierRestriction !== undefined || item.roleRestriction) {
+          this.progress.stats.filesRestricted++;
+        }
+      }
+
+      if (item.textContent) {
+        item.metadata.simhash = simhash(item.textContent);
+      }
+
+      // Generate embedding
+      if (
+        item.textContent &&
+        (processor.extract.embeddings ||
+          processor.coordinateStrategy === "semantic")
+      ) {
+        const model = this.findEmbeddingModel(processor.semanticConfig?.model);
+        item.embedding = model.embed(item.textContent);
+        item.metadata.embeddingModel = model.name;
+      }
 
       // Assign coordinates
-      item.coordinate = await this.assignCoordinates(item, processor);
+      item.coordinate = await this.assignCoordinates(
+        item,
+        processor,
+        entry.siblingIndex ?? 0,
+      );
 
       // Auto-tag
       if (this.config.autoTagging.enabled) {
         await this.autoTag(item);
       }
 
+      await this.applyStorage(item, entry, bytes);
+
       this.harvestedItems.push(item);
+      this.index.put(this.activeSourceId, item, contentHash);
       this.progress.stats.filesIndexed++;
-      this.progress.stats.bytesProcessed += stats.size;
+      this.progress.stats.bytesProcessed += entry.size;
+      if (indexed) {
+        this.progress.stats.filesUpdated++;
+      } else {
+        this.progress.stats.filesAdded++;
+      }
 
       // Track by type
       this.progress.stats.byType[ext] =
@@ -386,76 +1673,395 @@ export class FileHarvester {
         this.config.progressCallback(this.progress);
       }
     } catch (error) {
-      this.progress.stats.filesFailed++;
+      this.recordFailure(entry.path, error);
+    }
+  }
+
+  /**
+   * Harvest the members of an archive as entries of their own
+   * An archive unchanged since its members were indexed is not reopened.
+   */
+  private async indexArchive(
+    entry: HarvestEntry,
+    fallbackProcessor?: ContentProcessor,
+  ): Promise<void> {
+    const prefix = entry.path + ARCHIVE_SEPARATOR;
+    const stamp = {
+      archivePath: entry.path,
+      archiveSize: entry.size,
+      archiveModified: entry.modified.getTime(),
+    };
+    const known = () =>
+      this.index
+        .liveRecords(this.activeSourceId)
+        .filter((record) => record.key.startsWith(prefix) && record.item);
+
+    const indexed = known();
+    if (
+      indexed.length &&
+      indexed.every(
+        (record) =>
+          record.item?.metadata.archiveSize === stamp.archiveSize &&
+          record.item?.metadata.archiveModified === stamp.archiveModified &&
+          this.scannedWithCurrentRules(record.item),
+      )
+    ) {
+      for (const record of indexed) {
+        this.seenPaths.add(record.key);
+        this.index.markSeen(record.key);
+        this.harvestedItems.push(record.item as HarvestedItem);
+        this.progress.stats.filesUnchanged++;
+      }
+      return;
+    }
+
+    if (this.isStreamed(entry)) {
+      throw new Error("Archive too large to open");
+    }
+    const listing = expandArchive(
+      await entry.read(),
+      entry.filename,
+      this.config.options.archives,
+    );
+
+    for (const { path: memberPath, reason } of listing.skipped) {
+      this.progress.stats.filesSkipped++;
       this.progress.errors.push({
-        file: filePath,
-        error: error instanceof Error ? error.message : String(error),
+        file: prefix + memberPath,
+        error: reason,
+        timestamp: new Date(),
+      });
+    }
+
+    const siblings = new Map<string, number>();
+    for (const member of listing.members) {
+      const filename = path.posix.basename(
+        member.path.substring(member.path.lastIndexOf(ARCHIVE_SEPARATOR) + 1),
+      );
+      const directory = path.posix.dirname(member.path);
+      const siblingIndex = siblings.get(directory) || 0;
+      siblings.set(directory, siblingIndex + 1);
+      await this.indexEntry(
+        {
+          path: prefix + member.path,
+          pocketPath: `${entry.pocketPath ?? entry.path}${ARCHIVE_SEPARATOR}${member.path}`,
+          filename,
+          extension: path.posix.extname(filename).substring(1).toLowerCase(),
+          size: member.size,
+          created: member.modified,
+          modified: member.modified,
+          metadata: { ...entry.metadata, ...stamp },
+          siblingIndex,
+          read: async () => member.read(),
+        },
+        fallbackProcessor,
+      );
+    }
+
+    // Members reused as unchanged still carry the previous archive's stamp
+    for (const record of known()) {
+      const item = record.item as HarvestedItem;
+      if (item.metadata.archiveModified !== stamp.archiveModified) {
+        Object.assign(item.metadata, stamp);
+        this.index.touch(record.key);
+      }
+    }
+  }
+
+  /**
+   * Copy an item's bytes into the blob store, or point it back at its
+   * source, as the storage policy decides
+   * Returns whether the item changed. A failed copy leaves the item in
+   * pocket mode and is recorded as an error.
+   */
+  private async applyStorage(
+    item: HarvestedItem,
+    entry: HarvestEntry,
+    bytes?: Buffer,
+  ): Promise<boolean> {
+    const source = this.config.sources.find(
+      (s) => s.sourceId === this.activeSourceId,
+    );
+    const mode =
+      this.config.storage && this.blobs && source
+        ? resolveStorageMode(this.config.storage, source, item)
+        : "pocket";
+
+    if (mode === "pocket") {
+      if (item.storageMode === "pocket") return false;
+      item.storageMode = "pocket";
+      item.pocketPath = entry.pocketPath;
+      delete item.blobPath;
+      return true;
+    }
+
+    const hash: string = item.metadata.contentHash;
+    if (item.storageMode === "integrated" && (await this.blobs?.has(hash))) {
+      return false;
+    }
+
+    try {
+      const content =
+        bytes ||
+        (this.isStreamed(entry) && entry.stream
+          ? () => (entry.stream as () => NodeJS.ReadableStream)()
+          : await entry.read());
+      const blob = await (this.blobs as BlobStore).put(hash, content);
+
+      item.storageMode = "integrated";
+      item.blobPath = blob.location;
+      delete item.pocketPath;
+      this.progress.stats.filesIntegrated++;
+      if (!blob.deduplicated) {
+        this.progress.stats.bytesIntegrated += blob.size;
+      }
+      return true;
+    } catch (error) {
+      this.progress.errors.push({
+        file: entry.path,
+        error: `Integrated storage failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
         timestamp: new Date(),
       });
+      return false;
     }
   }
 
   /**
-   * Extract content from file
+   * Whether an entry is too large to buffer
+   */
+  private isStreamed(entry: HarvestEntry): boolean {
+    return entry.stream !== undefined && entry.size > this.streamThreshold();
+  }
+
+  private streamThreshold(): number {
+    return this.config.options.streamThreshold ?? STREAM_THRESHOLD;
+  }
+
+  /**
+   * Whether an indexed item was scanned by the current sensitive-data rules
+   * (or neither it nor this harvest was scanned at all)
+   */
+  private scannedWithCurrentRules(item: HarvestedItem): boolean {
+    return item.metadata.sensitiveRules === this.scanner?.fingerprint;
+  }
+
+  /**
+   * Record a failed file
+   */
+  private recordFailure(file: string, error: unknown): void {
+    this.progress.stats.filesFailed++;
+    this.progress.errors.push({
+      file,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Extract content from entry
    */
   private async extractContent(
-    filePath: string,
-    stats: fs.Stats,
+    entry: HarvestEntry,
     processor: ContentProcessor,
   ): Promise<HarvestedItem> {
-    const filename = path.basename(filePath);
-    const ext = path.extname(filePath).substring(1).toLowerCase();
+    const ext = entry.extension;
 
     const item: HarvestedItem = {
       itemId: `item-${Date.now()}-${Math.random().toString(36).substring(7)}`,
       source: this.config.harvesterId,
-      originalPath: filePath,
+      originalPath: entry.path,
       storageMode: "pocket", // Default to pocket for harvested files
-      pocketPath: filePath,
-      filename,
+      pocketPath: entry.pocketPath,
+      linkTarget: entry.linkTarget,
+      filename: entry.filename,
       extension: ext,
-      size: stats.size,
+      size: entry.size,
       mimeType: this.getMimeType(ext),
-      created: stats.birthtime,
-      modified: stats.mtime,
+      created: entry.created,
+      modified: entry.modified,
       harvested: new Date(),
       metadata: {
+        ...entry.metadata,
         tags: [],
         categories: [],
       },
       coordinate: { ra: 0, dec: 0, alt: 0 }, // Will be assigned later
     };
 
-    // Extract text content for text files
-    if (processor.extract.text && this.isTextFile(ext)) {
-      try {
-        item.textContent = fs.readFileSync(filePath, "utf8");
+    const extractor = this.extractors.find(ext, item.mimeType);
+    let extractedSummary: string | undefined;
 
-        // Generate summary if requested
-        if (processor.extract.summary) {
-          item.summary = this.generateSummary(item.textContent);
+    if (extractor && (processor.extract.text || processor.extract.metadata)) {
+      // Documents: text and properties through the extractor
+      try {
+        const document = await extractor.extract(await entry.read(), ext);
+        if (processor.extract.text) {
+          item.textContent = document.text;
+          extractedSummary = document.summary;
+        }
+        if (processor.extract.metadata && this.config.autoTagging.useMetadata) {
+          this.applyDocumentMetadata(item, document.metadata);
         }
+      } catch (error) {
+        // Corrupt or unsupported document, skip text extraction
+      }
+    } else if (processor.extract.text && this.isTextFile(ext)) {
+      // Extract text content for text files (the start of very large ones)
+      try {
+        const bytes =
+          this.isStreamed(entry) && entry.stream
+            ? await readStreamHead(entry.stream(), this.streamThreshold())
+            : await entry.read();
+        item.textContent = bytes.toString("utf8");
       } catch (error) {
         // Binary file or encoding issue, skip text extraction
       }
     }
 
+    if (item.metadata.programmingLanguage) {
+      await this.describeModule(item);
+    }
+
+    // Language declared by the document, else detected from its text
+    const language =
+      (item.metadata.language &&
+        normalizeLanguageTag(String(item.metadata.language))) ||
+      (item.textContent ? detectLanguage(item.textContent) : undefined);
+    if (language) {
+      item.metadata.language = language;
+    } else {
+      delete item.metadata.language;
+    }
+
+    // Generate summary if requested
+    if (item.textContent && processor.extract.summary) {
+      item.summary =
+        extractedSummary || summarize(item.textContent, { language });
+    }
+
     return item;
   }
 
+  /**
+   * Module and package of a source file
+   * The module is the source-relative path without extension. The package
+   * is the declared one (Java, Kotlin, C#, Go), else the nearest
+   * package.json name for JavaScript and TypeScript, else the directory,
+   * dotted for Python.
+   */
+  private async describeModule(item: HarvestedItem): Promise<void> {
+    const root = this.activeSource()?.path;
+    const filePath = item.originalPath;
+    const module = this.sourceRelativePath(filePath).replace(/\.[^./]+$/, "");
+    const directory = module.includes("/")
+      ? module.substring(0, module.lastIndexOf("/"))
+      : "";
+    item.metadata.module = module;
+
+    const language = item.metadata.programmingLanguage;
+    let packageName: string | undefined = item.metadata.package;
+    if (
+      !packageName &&
+      root &&
+      (language === "javascript" || language === "typescript")
+    ) {
+      packageName = await this.findPackageName(path.dirname(filePath), root);
+    }
+    if (!packageName && directory) {
+      packageName =
+        language === "python" ? directory.split("/").join(".") : directory;
+    }
+    if (packageName) {
+      item.metadata.package = packageName;
+    } else {
+      delete item.metadata.package;
+    }
+  }
+
+  /**
+   * Path of an item relative to the source being harvested, with "/"
+   * separators; the whole path when it lies outside the source root
+   */
+  private sourceRelativePath(itemPath: string): string {
+    const root = this.activeSource()?.path;
+    return root && isWithin(root, itemPath)
+      ? this.toRelativePath(root, itemPath)
+      : itemPath.split(path.sep).join("/");
+  }
+
+  private activeSource(): HarvestSource | undefined {
+    return this.config.sources.find((s) => s.sourceId === this.activeSourceId);
+  }
+
+  /**
+   * Name in the nearest package.json, looking no higher than the source root
+   */
+  private async findPackageName(
+    directory: string,
+    root: string,
+  ): Promise<string | undefined> {
+    if (!isWithin(root, directory)) return undefined;
+    if (this.packageNames.has(directory)) {
+      return this.packageNames.get(directory);
+    }
+
+    let name: string | undefined;
+    try {
+      const manifest = JSON.parse(
+        await fs.promises.readFile(
+          path.join(directory, "package.json"),
+          "utf8",
+        ),
+      );
+      name = typeof manifest.name === "string" ? manifest.name : undefined;
+    } catch {
+      const parent = path.dirname(directory);
+      name =
+        parent !== directory
+          ? await this.findPackageName(parent, root)
+          : undefined;
+    }
+    this.packageNames.set(directory, name);
+    return name;
+  }
+
+  /**
+   * Merge document properties, keeping what the source already set
+   */
+  private applyDocumentMetadata(
+    item: HarvestedItem,
+    properties: ExtractedDocument["metadata"],
+  ): void {
+    const { keywords, created, modified, ...rest } = properties;
+
+    for (const [key, value] of Object.entries(rest)) {
+      if (value !== undefined && item.metadata[key] === undefined) {
+        item.metadata[key] = value;
+      }
+    }
+    if (keywords?.length) {
+      item.metadata.keywords = keywords;
+    }
+    if (created) item.metadata.documentCreated = created;
+    if (modified) item.metadata.documentModified = modified;
+  }
+
   /**
    * Assign celestial coordinates based on strategy
    */
   private async assignCoordinates(
     item: HarvestedItem,
     processor: ContentProcessor,
+    siblingIndex: number,
   ): Promise<{ ra: number; dec: number; alt: number }> {
     switch (processor.coordinateStrategy) {
       case "hash":
         return hashToCoordinate(item.originalPath);
 
       case "hierarchical":
-        return this.assignHierarchicalCoordinate(item, processor);
+        return this.assignHierarchicalCoordinate(item, processor, siblingIndex);
 
       case "semantic":
         return this.assignSemanticCoordinate(item, processor);
@@ -467,35 +2073,68 @@ export class FileHarvester {
   }
 
   /**
-   * Assign hierarchical coordinate based on directory structure
+   * Assign hierarchical coordinate from the configured formulas
    */
   private assignHierarchicalCoordinate(
     item: HarvestedItem,
     processor: ContentProcessor,
+    siblingIndex: number,
   ): { ra: number; dec: number; alt: number } {
     const config = processor.hierarchicalConfig;
     if (!config) {
       return hashToCoordinate(item.originalPath);
     }
 
-    const depth = item.originalPath.split(path.sep).length;
+    const formulas =
+      this.formulas.get(processor) ??
+      compileCoordinateFormulas(processor).formulas;
+    const relativePath = this.sourceRelativePath(item.originalPath);
+    const variables = {
+      depth: relativePath.split("/").length - 1,
+      size: item.size,
+      ageDays: (Date.now() - item.modified.getTime()) / 86_400_000,
+      siblingIndex,
+      ext: item.extension,
+      name: item.filename,
+      path: relativePath,
+    };
 
-    // Calculate altitude from depth using formula
-    let alt = 0;
-    try {
-      // Simple formula evaluation (depth * multiplier)
-      const match = config.altFormula.match(/depth\s*\*\s*([\d.]+)/);
-      if (match) {
-        alt = depth * parseFloat(match[1]);
-      }
-    } catch {
-      alt = depth * 0.5; // Default
-    }
+    // Arithmetic gone wrong (division by zero) counts as 0, and is reported
+    const value = (formula?: CompiledFormula): number => {
+      if (!formula) return 0;
+      const result = formula.evaluate(variables);
+      if (Number.isFinite(result)) return result;
+      this.progress.errors.push({
+        file: item.originalPath,
+        error: `Formula "${formula.source}" gave ${result}`,
+        timestamp: new Date(),
+      });
+      return 0;
+    };
+    const alt = value(formulas.alt);
+
+    // Packages (or directories) get a patch of sky each, and their items
+    // scatter a little inside it
+    const spread = config.spread || 0;
+    const group = item.metadata.package || path.dirname(item.originalPath);
+    const offset = (text: string, seed: number, width: number) =>
+      (fnv1a(text, seed) / 0xffffffff - 0.5) * width;
+
+    const ra =
+      config.raBase +
+      value(formulas.ra) +
+      offset(group, 1, spread) +
+      offset(item.originalPath, 1, spread / 20);
+    const dec =
+      config.decBase +
+      value(formulas.dec) +
+      offset(group, 2, spread) +
+      offset(item.originalPath, 2, spread / 20);
 
     return {
-      ra: config.raBase,
-      dec: config.decBase,
-      alt: Math.min(alt, 20), // Cap at 20 light-years
+      ra: ((ra % 360) + 360) % 360,
+      dec: Math.max(-90, Math.min(90, dec)),
+      alt: Math.max(0, Math.min(alt, 20)), // Cap at 20 light-years
     };
   }
 
@@ -507,13 +2146,21 @@ export class FileHarvester {
     processor: ContentProcessor,
   ): Promise<{ ra: number; dec: number; alt: number }> {
     const config = processor.semanticConfig;
-    if (!config || !item.textContent) {
+    if (!config || !item.embedding) {
       return hashToCoordinate(item.originalPath);
     }
 
-    // TODO: Generate actual embeddings using specified model
-    // For now, use hash as fallback
-    return hashToCoordinate(item.textContent.substring(0, 1000));
+    return projectEmbedding(item.embedding, config);
+  }
+
+  /**
+   * Find an embedding model, falling back to the offline local model
+   */
+  private findEmbeddingModel(name?: string): EmbeddingModel {
+    return (
+      (name && this.embeddingModels.get(name)) ||
+      (this.embeddingModels.get(LOCAL_EMBEDDING_MODEL) as EmbeddingModel)
+    );
   }
 
   /**
@@ -537,46 +2184,26 @@ export class FileHarvester {
       item.metadata.tags.push(...pathParts.slice(-3, -1)); // Last 2 directories
     }
 
-    // Extract from content (simple keyword extraction)
-    if (this.config.autoTagging.extractFromContent && item.textContent) {
-      const contentTags = this.extractKeywords(item.textContent);
-      item.metadata.tags.push(...contentTags.slice(0, 10)); // Top 10 keywords
+    // Source files: their module and package
+    if (item.metadata.programmingLanguage) {
+      item.metadata.tags.push(
+        ...[item.metadata.package, item.metadata.module].filter(Boolean),
+      );
     }
 
-    // Deduplicate tags
-    item.metadata.tags = [...new Set(item.metadata.tags)];
-  }
-
-  /**
-   * Simple keyword extraction (frequency-based)
-   */
-  private extractKeywords(text: string, topN: number = 10): string[] {
-    const words = text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, "")
-      .split(/\s+/)
-      .filter((word) => word.length > 4); // Only words > 4 chars
-
-    const frequency: Record<string, number> = {};
-    for (const word of words) {
-      frequency[word] = (frequency[word] || 0) + 1;
+    // Extract from document properties
+    if (this.config.autoTagging.useMetadata && item.metadata.keywords) {
+      item.metadata.tags.push(
+        ...item.metadata.keywords.map((keyword: string) =>
+          keyword.toLowerCase(),
+        ),
+      );
     }
 
-    return Object.entries(frequency)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, topN)
-      .map(([word]) => word);
-  }
+    // Content keywords need the whole corpus, see tagKeywords
 
-  /**
-   * Generate simple summary (first N characters)
-   */
-  private generateSummary(text: string, maxLength: number = 500): string {
-    const cleaned = text.replace(/\s+/g, " ").trim();
-    if (cleaned.length <= maxLength) {
-      return cleaned;
-    }
-    return cleaned.substring(0, maxLength) + "...";
+    // Deduplicate tags
+    item.metadata.tags = [...new Set(item.metadata.tags)];
   }
 
   /**
@@ -587,21 +2214,59 @@ export class FileHarvester {
   }
 
   /**
-   * Check if file should be excluded
+   * Check if a path should be excluded
+   * Paths are relative to the source root. Include patterns only filter
+   * files, so directories are still descended into.
    */
-  private shouldExclude(filePath: string): boolean {
-    if (!this.config.options.excludePatterns) return false;
+  private shouldExclude(
+    relativePath: string,
+    isDirectory: boolean,
+    ignoreRules: IgnoreRules[] = [],
+  ): boolean {
+    if (this.excludePatterns.match(relativePath, isDirectory)) {
+      return true;
+    }
 
-    // Simple pattern matching (would use micromatch in production)
-    for (const pattern of this.config.options.excludePatterns) {
-      if (filePath.includes(pattern.replace("*", ""))) {
-        return true;
+    // Deeper ignore files override shallower ones
+    let ignored: boolean | undefined;
+    for (const rules of ignoreRules) {
+      const local = rules.baseDir
+        ? relativePath.substring(rules.baseDir.length + 1)
+        : relativePath;
+      const result = rules.patterns.match(local, isDirectory);
+      if (result !== undefined) {
+        ignored = result;
       }
     }
+    if (ignored) {
+      return true;
+    }
+
+    if (!isDirectory && this.includePatterns) {
+      return this.includePatterns.match(relativePath, false) !== true;
+    }
 
     return false;
   }
 
+  /**
+   * Check a file from a flat listing (git tree, bucket), where parent
+   * directories were never checked on their own
+   */
+  private shouldExcludeListed(relativePath: string): boolean {
+    if (this.excludePatterns.matchWithParents(relativePath)) {
+      return true;
+    }
+    return this.shouldExclude(relativePath, false);
+  }
+
+  /**
+   * Source-relative path with "/" separators
+   */
+  private toRelativePath(basePath: string, fullPath: string): string {
+    return path.relative(basePath, fullPath).split(path.sep).join("/");
+  }
+
   /**
    * Check if file is text-based
    */
@@ -624,6 +2289,8 @@ export class FileHarvester {
       "sh",
       "yaml",
       "yml",
+      "commit",
+      "row",
     ];
     return textExts.includes(ext);
   }
@@ -635,22 +2302,44 @@ export class FileHarvester {
     const mimeTypes: Record<string, string> = {
       txt: "text/plain",
       md: "text/markdown",
+      markdown: "text/markdown",
       pdf: "application/pdf",
       docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
       xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      odt: "application/vnd.oasis.opendocument.text",
+      ods: "application/vnd.oasis.opendocument.spreadsheet",
+      odp: "application/vnd.oasis.opendocument.presentation",
+      rtf: "application/rtf",
       png: "image/png",
       jpg: "image/jpeg",
       jpeg: "image/jpeg",
       gif: "image/gif",
+      webp: "image/webp",
+      tif: "image/tiff",
+      tiff: "image/tiff",
       mp4: "video/mp4",
       mp3: "audio/mpeg",
       zip: "application/zip",
       json: "application/json",
       xml: "application/xml",
       html: "text/html",
+      htm: "text/html",
       css: "text/css",
       js: "application/javascript",
+      mjs: "application/javascript",
+      cjs: "application/javascript",
+      jsx: "text/jsx",
       ts: "application/typescript",
+      tsx: "text/tsx",
+      py: "text/x-python",
+      java: "text/x-java",
+      kt: "text/x-kotlin",
+      cs: "text/x-csharp",
+      go: "text/x-go",
+      rs: "text/x-rust",
+      commit: "text/x-git-commit",
+      row: "text/x-database-row",
     };
 
     return mimeTypes[ext] || "application/octet-stream";
@@ -658,22 +2347,759 @@ export class FileHarvester {
 
   /**
    * Harvest git repository
+   *
+   * Source options:
+   * - ref: branch, tag or commit to walk (default "HEAD")
+   * - historyLimit: commits kept per path in metadata.pathHistory (default 20)
+   * - maxCommits: limit the log walk on very long histories
+   * - indexCommits: also emit each commit message as an item ("commit" type)
    */
   private async harvestGit(source: HarvestSource): Promise<void> {
-    // TODO: Clone repo to temp directory and harvest
-    console.log(
-      `[FileHarvester] Git harvesting not yet implemented: ${source.path}`,
+    const options = source.options || {};
+    const ref: string = options.ref || "HEAD";
+    const historyLimit: number = options.historyLimit ?? 20;
+
+    // Failures reach harvestSource, which records them and keeps the
+    // source's items from being tombstoned
+    const repo = new GitRepository(source.path);
+    if (!(await repo.isRepository())) {
+      throw new Error("Not a git repository");
+    }
+    const head = await repo.resolveCommit(ref);
+    const tree = await repo.listTree(head.hash);
+    const history = await repo.pathHistory(head.hash, options.maxCommits);
+
+    for (const blob of tree) {
+      if (this.shouldStop) break;
+
+      const segments = blob.path.split("/");
+      const fullPath = path.join(repo.repoPath, ...segments);
+
+      if (
+        this.config.options.ignoreHidden &&
+        segments.some((segment) => segment.startsWith("."))
+      ) {
+        continue;
+      }
+      if (this.shouldExcludeListed(blob.path)) {
+        continue;
+      }
+      if (
+        this.config.options.maxDepth &&
+        segments.length - 1 > this.config.options.maxDepth
+      ) {
+        continue;
+      }
+
+      // Paths last touched before maxCommits have no history here; they
+      // take the ref's date but no commit is credited
+      const commits = history.get(blob.path) || [];
+      const lastCommit: GitCommitInfo | undefined = commits[0];
+      const firstCommit: GitCommitInfo | undefined =
+        commits[commits.length - 1];
+      const filename = segments[segments.length - 1];
+
+      await this.processEntry({
+        path: fullPath,
+        pocketPath: `${repo.repoPath}@${head.hash}:${blob.path}`,
+        filename,
+        extension: path.extname(filename).substring(1).toLowerCase(),
+        size: blob.size,
+        created: firstCommit?.date || head.date,
+        modified: lastCommit?.date || head.date,
+        metadata: {
+          author: lastCommit?.author,
+          ref,
+          commitHash: head.hash,
+          lastModifiedCommit: lastCommit,
+          pathHistory: commits.slice(0, historyLimit).map((commit) => ({
+            hash: commit.hash,
+            author: commit.author,
+            date: commit.date,
+            subject: commit.subject,
+          })),
+        },
+        read: () => repo.readBlob(blob.objectId, blob.size),
+      });
+    }
+
+    if (options.indexCommits) {
+      await this.harvestGitCommits(source, repo, head);
+    }
+  }
+
+  /**
+   * Emit commit messages as their own items
+   * Uses a "commit" processor if configured, otherwise the "txt" one.
+   */
+  private async harvestGitCommits(
+    source: HarvestSource,
+    repo: GitRepository,
+    head: GitCommitInfo,
+  ): Promise<void> {
+    const commits = await repo.log(head.hash, {
+      maxCount: source.options?.maxCommits,
+      withMessage: true,
+    });
+
+    for (const commit of commits) {
+      if (this.shouldStop) break;
+
+      const message = Buffer.from(commit.message || commit.subject, "utf8");
+
+      await this.processEntry(
+        {
+          path: `${repo.repoPath}@${commit.hash}`,
+          pocketPath: `${repo.repoPath}@${commit.hash}`,
+          filename: `${commit.hash.substring(0, 12)}.commit`,
+          extension: "commit",
+          size: message.length,
+          created: commit.date,
+          modified: commit.date,
+          metadata: {
+            title: commit.subject,
+            author: commit.author,
+            commitHash: commit.hash,
+            email: commit.email,
+          },
+          read: async () => message,
+        },
+        this.findProcessor("txt"),
+      );
+    }
+  }
+
+  /**
+   * Harvest database tables and queries, one item per row
+   *
+   * source.path is a SQLite file or a driver URL ('postgres://...').
+   * Source options:
+   * - driver: driver name, or a ready DatabaseDriver
+   * - tables: table names, or DatabaseQuery objects with a table
+   * - queries: DatabaseQuery objects with sql
+   */
+  private async harvestDatabase(source: HarvestSource): Promise<void> {
+    const options = source.options || {};
+    const queries: DatabaseQuery[] = [
+      ...(options.tables || []).map((table: string | DatabaseQuery) =>
+        typeof table === "string" ? { name: table, table } : table,
+      ),
+      ...(options.queries || []),
+    ];
+
+    // Driver and connection failures reach harvestSource, which records
+    // them and keeps the source's rows from being tombstoned
+    const driver: DatabaseDriver =
+      typeof options.driver === "object"
+        ? options.driver
+        : resolveDatabaseDriver(source.path, options.driver);
+    const connection: DatabaseConnection = await driver.connect(
+      source.path,
+      source.credentials,
     );
+
+    try {
+      for (const query of queries) {
+        if (this.shouldStop) break;
+
+        const prefix = `${displayLocation(source.path)}#${query.name}/`;
+        try {
+          await this.harvestDatabaseQuery(source, connection, query);
+        } catch (error) {
+          this.progress.errors.push({
+            file: `${displayLocation(source.path)}#${query.name}`,
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date(),
+          });
+
+          // A query that failed says nothing about its rows: keep them
+          for (const record of this.index.liveRecords(source.sourceId)) {
+            if (record.key.startsWith(prefix) && record.item) {
+              this.seenPaths.add(record.key);
+              this.index.markSeen(record.key);
+              this.harvestedItems.push(record.item);
+            }
+          }
+        }
+      }
+    } finally {
+      await connection.close();
+    }
+  }
+
+  /**
+   * Harvest the rows of one table or query
+   */
+  private async harvestDatabaseQuery(
+    source: HarvestSource,
+    connection: DatabaseConnection,
+    query: DatabaseQuery,
+  ): Promise<void> {
+    const prefix = `${displayLocation(source.path)}#${query.name}/`;
+    const idColumn = query.idColumn || "id";
+    const extension = query.extension || "row";
+
+    // Rows up to the watermark are not read again: keep their indexed items,
+    // unless the sensitive-data rules have changed since they were scanned
+    let watermark: unknown;
+    const kept = this.index
+      .liveRecords(source.sourceId)
+      .filter((record) => record.key.startsWith(prefix) && record.item);
+    if (
+      query.watermarkColumn &&
+      kept.every((record) =>
+        this.scannedWithCurrentRules(record.item as HarvestedItem),
+      )
+    ) {
+      for (const record of kept) {
+        if (!record.item) continue;
+
+        const value = record.item.metadata.watermark;
+        if (
+          value !== undefined &&
+          (watermark === undefined || compareWatermarks(value, watermark) > 0)
+        ) {
+          watermark = value;
+        }
+        if (!this.seenPaths.has(record.key)) {
+          this.seenPaths.add(record.key);
+          this.index.markSeen(record.key);
+          this.harvestedItems.push(record.item);
+        }
+      }
+
+      // The watermark already covers rows done before a checkpoint
+      if (this.resumeCursor?.startsWith(prefix)) {
+        this.resumeCursor = undefined;
+      }
+    }
+
+    const { sql, params } = buildSelect(query, watermark);
+    const rows = await connection.query(sql, params);
+
+    for (const [number, row] of rows.entries()) {
+      if (this.shouldStop) break;
+
+      // A row that cannot be keyed is reported and skipped
+      const id = row[idColumn];
+      if (id === undefined || id === null || id === "") {
+        this.progress.errors.push({
+          file: `${displayLocation(source.path)}#${query.name}`,
+          error: `Row ${number + 1} has no value in ${idColumn}`,
+          timestamp: new Date(),
+        });
+        this.progress.stats.filesSkipped++;
+        continue;
+      }
+
+      const text = Buffer.from(renderRow(row, query.textTemplate), "utf8");
+      const rowModified = query.modifiedColumn
+        ? new Date(row[query.modifiedColumn] as string | number)
+        : undefined;
+      // Unknown modification times force a content hash comparison
+      const modified =
+        rowModified && !isNaN(rowModified.getTime()) ? rowModified : new Date();
+
+      const metadata: Record<string, any> = {
+        table: query.table || query.name,
+        rowId: id,
+      };
+      if (query.titleColumn && row[query.titleColumn] != null) {
+        metadata.title = String(row[query.titleColumn]);
+      }
+      if (query.watermarkColumn) {
+        metadata.watermark = row[query.watermarkColumn];
+      }
+
+      await this.processEntry(
+        {
+          path: `${prefix}${id}`,
+          pocketPath: `${prefix}${id}`,
+          filename: `${id}.${extension}`,
+          extension,
+          size: text.length,
+          created: modified,
+          modified,
+          metadata,
+          read: async () => text,
+        },
+        this.findProcessor("txt"),
+      );
+    }
+  }
+
+  /**
+   * Crawl a website
+   *
+   * source.path is the seed URL. Items are keyed by canonical URL.
+   * Source options:
+   * - seeds: further seed URLs
+   * - allowedDomains: hosts to stay on, subdomains included (default: seed hosts)
+   * - maxDepth: link hops from a seed or sitemap page (default 3)
+   * - maxPages: pages to fetch at most (default 1000)
+   * - delayMs: minimum gap between requests to one site (default 1000)
+   * - useSitemaps: also start from the sites' sitemaps (default true)
+   * - respectRobots: honour robots.txt (default true)
+   * - userAgent, timeoutMs
+   */
+  private async harvestHttp(source: HarvestSource): Promise<void> {
+    const options = source.options || {};
+
+    // Failures that leave the crawl without a start (no seed URL, or no
+    // seed reachable) reach harvestSource, which keeps the pages indexed
+    const seeds = [source.path, ...(options.seeds || [])].flatMap(
+      (url: string) => normalizeUrl(url) || [],
+    );
+    if (!seeds.length) {
+      throw new Error("No valid seed URL");
+    }
+
+    const domains: string[] =
+      options.allowedDomains || seeds.map((url) => new URL(url).hostname);
+    const crawler = new HttpCrawler({
+      userAgent: options.userAgent || "KnowledgeCentreHarvester/1.0",
+      delayMs: options.delayMs ?? 1000,
+      timeoutMs: options.timeoutMs ?? 30000,
+      respectRobots: options.respectRobots !== false,
+      maxBytes: this.config.options.maxFileSize,
+      allowedDomains: domains,
+    });
+    const maxDepth: number = options.maxDepth ?? 3;
+    const maxPages: number = options.maxPages ?? 1000;
+
+    const queue: { url: string; depth: number }[] = [];
+    const queued = new Set<string>();
+    const enqueue = (url: string, depth: number) => {
+      if (queued.has(url) || !isAllowedHost(new URL(url).hostname, domains)) {
+        return;
+      }
+      queued.add(url);
+      queue.push({ url, depth });
+    };
+
+    seeds.forEach((url) => enqueue(url, 0));
+
+    if (options.useSitemaps !== false) {
+      const sitemaps: string[] = [];
+      for (const origin of new Set(seeds.map((url) => new URL(url).origin))) {
+        const listed = await crawler.robotsSitemaps(origin);
+        sitemaps.push(...(listed.length ? listed : [`${origin}/sitemap.xml`]));
+      }
+      const sitemapPages = await crawler.readSitemaps(sitemaps, {
+        onError: (url, error) =>
+          this.progress.errors.push({
+            file: url,
+            error: error.message,
+            timestamp: new Date(),
+          }),
+      });
+      for (const page of sitemapPages) {
+        const url = normalizeUrl(page.url);
+        if (url) enqueue(url, 0);
+      }
+    }
+
+    // The last crawl's items, by the URL they were fetched from
+    const previous = new Map<string, HarvestIndexRecord>();
+    for (const record of this.index.liveRecords(source.sourceId)) {
+      if (record.item?.metadata.url) {
+        previous.set(record.item.metadata.url, record);
+      }
+    }
+
+    const crawled = new Set<string>(); // Canonical URLs
+    const reached = new Set<string>(); // Seeds fetched
+    let pages = 0;
+    while (queue.length && pages < maxPages && !this.shouldStop) {
+      const { url, depth } = queue.shift() as { url: string; depth: number };
+      if (!(await crawler.isAllowed(url))) continue;
+
+      pages++;
+      const links = await this.crawlPage(
+        crawler,
+        url,
+        depth,
+        previous.get(url),
+        crawled,
+        domains,
+      );
+      if (!links) continue;
+      if (seeds.includes(url)) reached.add(url);
+      if (depth < maxDepth) {
+        links.forEach((link) => enqueue(link, depth + 1));
+      }
+    }
+
+    // Down, or closed by robots.txt: nothing says which pages have gone
+    if (!this.shouldStop && !reached.size) {
+      throw new Error(`Could not fetch any seed URL (${seeds.join(", ")})`);
+    }
+  }
+
+  /**
+   * Fetch and process one page, returning the links to follow from it, or
+   * undefined when it could not be fetched
+   * Redirects (checked by the crawler) and canonical links are only
+   * followed within the domains. A page that fails with a network or
+   * server error keeps its indexed item.
+   */
+  private async crawlPage(
+    crawler: HttpCrawler,
+    url: string,
+    depth: number,
+    previous: HarvestIndexRecord | undefined,
+    crawled: Set<string>,
+    domains: string[],
+  ): Promise<string[] | undefined> {
+    const keepPrevious = () => {
+      if (previous?.item && !this.seenPaths.has(previous.key)) {
+        this.seenPaths.add(previous.key);
+        this.index.markSeen(previous.key);
+        this.harvestedItems.push(previous.item);
+      }
+    };
+
+    // A page scanned by other rules is fetched in full, to be scanned again
+    const indexed =
+      previous?.item && this.scannedWithCurrentRules(previous.item)
+        ? previous.item
+        : undefined;
+
+    let response: HttpResponse;
+    try {
+      response = await crawler.fetch(url, {
+        etag: indexed?.metadata.etag,
+        lastModified: indexed?.metadata.lastModifiedHeader,
+      });
+    } catch (error) {
+      this.progress.stats.filesScanned++;
+      this.recordFailure(url, error);
+      keepPrevious();
+      return undefined;
+    }
+
+    // Not modified: keep the indexed item and follow its stored links
+    if (response.status === 304 && previous && indexed) {
+      if (!crawled.has(previous.key)) {
+        crawled.add(previous.key);
+        await this.processEntry(
+          {
+            path: previous.key,
+            pocketPath: previous.key,
+            filename: indexed.filename,
+            extension: indexed.extension,
+            size: previous.size,
+            created: indexed.created,
+            modified: new Date(previous.modified),
+            read: async () => {
+              throw new Error("Page was not modified, but is not indexed");
+            },
+          },
+          this.findProcessor("txt"),
+        );
+      }
+      return indexed.metadata.links || [];
+    }
+
+    if (response.refused) {
+      this.progress.stats.filesScanned++;
+      this.progress.stats.filesSkipped++;
+      this.progress.errors.push({
+        file: url,
+        error: response.refused,
+        timestamp: new Date(),
+      });
+      return [];
+    }
+
+    if (response.status !== 200) {
+      this.progress.stats.filesScanned++;
+      this.recordFailure(url, new Error(`HTTP ${response.status}`));
+      // Gone pages are tombstoned; anything else may be passing
+      if (response.status === 404 || response.status === 410) return [];
+      keepPrevious();
+      return undefined;
+    }
+
+    const finalUrl = normalizeUrl(response.url) || url;
+
+    if (response.truncated) {
+      this.progress.stats.filesScanned++;
+      this.progress.stats.filesSkipped++;
+      this.progress.errors.push({
+        file: url,
+        error: `Larger than the maximum file size (${this.config.options.maxFileSize} bytes)`,
+        timestamp: new Date(),
+      });
+      return [];
+    }
+
+    const contentType = (response.headers["content-type"] || "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    const page =
+      contentType === "text/html" || contentType === "application/xhtml+xml"
+        ? readPageLinks(response.body.toString("utf8"), finalUrl)
+        : { canonical: undefined, links: [], noindex: false, nofollow: false };
+
+    const links = page.nofollow ? [] : page.links;
+    const canonical =
+      page.canonical && isAllowedHost(new URL(page.canonical).hostname, domains)
+        ? page.canonical
+        : finalUrl;
+    if (page.noindex || crawled.has(canonical)) {
+      return links;
+    }
+    crawled.add(canonical);
+
+    const extension = extensionFor(contentType, canonical);
+    let filename = new URL(canonical).pathname.split("/").pop() || "index";
+    try {
+      filename = decodeURIComponent(filename);
+    } catch {
+      // Keep the encoded form
+    }
+    if (!filename.includes(".")) {
+      filename = `${filename}.${extension}`;
+    }
+
+    const lastModifiedHeader = response.headers["last-modified"];
+    const headerDate = lastModifiedHeader && new Date(lastModifiedHeader);
+    // Unknown modification times force a content hash comparison
+    const modified =
+      headerDate && !isNaN(headerDate.getTime()) ? headerDate : new Date();
+
+    await this.processEntry(
+      {
+        path: canonical,
+        pocketPath: canonical,
+        filename,
+        extension,
+        size: response.body.length,
+        created: modified,
+        modified,
+        metadata: {
+          url,
+          canonicalUrl: canonical,
+          contentType,
+          etag: response.headers["etag"],
+          lastModifiedHeader,
+          depth,
+          links,
+        },
+        read: async () => response.body,
+      },
+      this.findProcessor("txt"),
+    );
+
+    return links;
+  }
+
+  /**
+   * Harvest a custom source through its plugin
+   *
+   * Source options:
+   * - plugin: name of a plugin registered on this harvester or globally
+   */
+  private async harvestCustom(source: HarvestSource): Promise<void> {
+    const name: string | undefined = source.options?.plugin;
+    const plugin = name
+      ? this.sourcePlugins.get(name) || getHarvestSourcePlugin(name)
+      : undefined;
+    // A missing plugin, or entries() failing partway, reaches
+    // harvestSource, which keeps the unenumerated entries from being
+    // tombstoned
+    if (!plugin) {
+      throw new Error(`No harvest source plugin registered for: ${name}`);
+    }
+
+    for await (const entry of plugin.entries(source)) {
+      if (this.shouldStop) break;
+
+      await this.processPluginEntry(plugin, source, entry);
+    }
+  }
+
+  /**
+   * Turn a plugin entry into a harvest entry and process it
+   */
+  private async processPluginEntry(
+    plugin: HarvestSourcePlugin<any>,
+    source: HarvestSource,
+    entry: PluginEntry,
+  ): Promise<void> {
+    let metadata: Record<string, any> | undefined;
+    try {
+      metadata = await plugin.describe?.(entry, source);
+    } catch (error) {
+      this.progress.stats.filesScanned++;
+      this.recordFailure(entry.path, error);
+      return;
+    }
+
+    const filename =
+      entry.filename || entry.path.split("/").pop() || entry.path;
+    const modified = entry.modified || new Date();
+
+    await this.processEntry({
+      path: entry.path,
+      pocketPath: entry.path,
+      filename,
+      extension: (
+        entry.extension || path.extname(filename).substring(1)
+      ).toLowerCase(),
+      size: entry.size,
+      created: entry.created || modified,
+      modified,
+      metadata: { ...metadata, plugin: plugin.name },
+      read: () => plugin.fetch(entry, source),
+    });
   }
 
   /**
    * Harvest S3 bucket
+   *
+   * source.path is "s3://bucket/prefix" or "bucket/prefix".
+   * Source options:
+   * - adapter: a ready CloudProviderAdapter (e.g. a local MinIO stand-in)
+   * - provider: CloudProvider to create an adapter for (default AWS_S3)
+   * - endpoint, region: passed through to the provider config
    */
   private async harvestS3(source: HarvestSource): Promise<void> {
-    // TODO: List S3 objects and harvest
-    console.log(
-      `[FileHarvester] S3 harvesting not yet implemented: ${source.path}`,
+    const options = source.options || {};
+    const location = source.path.replace(/^s3:\/\//, "");
+    const slash = location.indexOf("/");
+    const bucket = slash === -1 ? location : location.substring(0, slash);
+    const prefix = slash === -1 ? "" : location.substring(slash + 1);
+
+    // Adapter and listing failures reach harvestSource, which records them
+    // and keeps the bucket's items from being tombstoned; a failed object
+    // download is only an error for that object
+    const adapter: CloudProviderAdapter =
+      options.adapter ||
+      createCloudProviderAdapter({
+        provider: options.provider || CloudProvider.AWS_S3,
+        credentials: {
+          accessKey: source.credentials?.accessKey,
+          secretKey: source.credentials?.secretKey,
+          customAuth: source.credentials?.token
+            ? { sessionToken: source.credentials.token }
+            : undefined,
+        },
+        endpoint: options.endpoint,
+        region: options.region,
+        bucket,
+      });
+
+    // Objects are downloaded one at a time into a scratch directory
+    const tempDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "kc-harvest-"),
     );
+    try {
+      await this.scanBucket(adapter, bucket, prefix, prefix, tempDir);
+    } finally {
+      // Entries still in the pool download into the scratch directory
+      await this.pool.drain();
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Recursively list a bucket prefix
+   */
+  private async scanBucket(
+    adapter: CloudProviderAdapter,
+    bucket: string,
+    basePrefix: string,
+    currentPrefix: string,
+    tempDir: string,
+  ): Promise<void> {
+    if (this.shouldStop) return;
+
+    const objects = await adapter.listFiles(currentPrefix);
+
+    for (const object of objects) {
+      if (this.shouldStop) break;
+
+      const key = object.path.replace(/^\/+/, "");
+      const relative = key.substring(basePrefix.length).replace(/^\/+/, "");
+      const segments = relative.split("/").filter(Boolean);
+
+      if (
+        this.config.options.ignoreHidden &&
+        segments.some((segment) => segment.startsWith("."))
+      ) {
+        continue;
+      }
+      if (
+        object.isDirectory
+          ? this.shouldExclude(segments.join("/"), true)
+          : this.shouldExcludeListed(segments.join("/"))
+      ) {
+        continue;
+      }
+
+      if (object.isDirectory) {
+        const depth = segments.length;
+        if (
+          this.config.options.recursive &&
+          key !== currentPrefix &&
+          !(
+            this.config.options.maxDepth && depth > this.config.options.maxDepth
+          )
+        ) {
+          await this.scanBucket(adapter, bucket, basePrefix, key, tempDir);
+        }
+        continue;
+      }
+
+      await this.processEntry(
+        this.bucketEntry(adapter, bucket, key, object, tempDir),
+      );
+    }
+  }
+
+  /**
+   * Build an entry for a bucket object
+   */
+  private bucketEntry(
+    adapter: CloudProviderAdapter,
+    bucket: string,
+    key: string,
+    object: CloudFileMetadata,
+    tempDir: string,
+  ): HarvestEntry {
+    const filename = object.name || path.posix.basename(key);
+
+    return {
+      path: `s3://${bucket}/${key}`,
+      pocketPath: key,
+      filename,
+      extension: path.extname(filename).substring(1).toLowerCase(),
+      size: object.size,
+      created: object.lastModified,
+      modified: object.lastModified,
+      metadata: {
+        bucket,
+        contentType: object.contentType,
+        etag: object.etag,
+        versionId: object.versionId,
+        ...object.customMetadata,
+      },
+      read: async () => {
+        const localPath = path.join(
+          tempDir,
+          `${Date.now()}-${Math.random().toString(36).substring(7)}`,
+        );
+        try {
+          await adapter.download(object.path, localPath);
+          return await fs.promises.readFile(localPath);
+        } finally {
+          await fs.promises.rm(localPath, { force: true });
+        }
+      },
+    };
   }
 
   /**
@@ -682,6 +3108,27 @@ export class FileHarvester {
   stop(): void {
     this.shouldStop = true;
     this.progress.status = "paused";
+    this.watchers.forEach((watcher) => watcher.pause());
+  }
+
+  /**
+   * Resume after stop()
+   * Continues an interrupted harvest from its checkpoint, then any watching.
+   */
+  async resume(): Promise<HarvestedItem[]> {
+    if (this.activeRun) {
+      await this.activeRun;
+    }
+    this.shouldStop = false;
+
+    if (await this.checkpoints.load()) {
+      await this.harvest();
+      if (this.shouldStop) return this.getItems();
+    }
+
+    this.progress.status = this.watchers.length ? "running" : "completed";
+    this.watchers.forEach((watcher) => watcher.resume());
+    return this.getItems();
   }
 
   /**
@@ -691,6 +3138,25 @@ export class FileHarvester {
     return { ...this.progress };
   }
 
+  /**
+   * Report of the current or last run
+   */
+  getReport(): HarvestReport {
+    return buildHarvestReport(
+      this.config,
+      this.progress,
+      this.harvestedItems,
+      this.config.reports,
+    );
+  }
+
+  /**
+   * Register a plugin for this harvester's "custom" sources
+   */
+  registerSourcePlugin(plugin: HarvestSourcePlugin<any>): void {
+    this.sourcePlugins.set(plugin.name, plugin);
+  }
+
   /**
    * Get harvested items
    */
@@ -699,12 +3165,78 @@ export class FileHarvester {
   }
 }
 
+/**
+ * Problems with a harvester configuration; empty when it is usable
+ * The constructor refuses a configuration with problems.
+ */
+export function validateHarvesterConfig(config: HarvesterConfig): string[] {
+  return config.processors.flatMap(
+    (processor) => compileCoordinateFormulas(processor).errors,
+  );
+}
+
+/**
+ * Compile a processor's hierarchical coordinate formulas
+ */
+function compileCoordinateFormulas(processor: ContentProcessor): {
+  formulas: CoordinateFormulas;
+  errors: string[];
+} {
+  const formulas: CoordinateFormulas = {};
+  const errors: string[] = [];
+  const config =
+    processor.coordinateStrategy === "hierarchical"
+      ? processor.hierarchicalConfig
+      : undefined;
+  if (!config) return { formulas, errors };
+
+  const fields = [
+    ["ra", "raFormula", config.raFormula],
+    ["dec", "decFormula", config.decFormula],
+    ["alt", "altFormula", config.altFormula],
+  ] as const;
+  for (const [axis, field, source] of fields) {
+    if (source === undefined) continue;
+    try {
+      formulas[axis] = compileFormula(source, COORDINATE_VARIABLES);
+    } catch (error) {
+      errors.push(
+        `Processor ${processor.processorId} ${field} "${source}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  return { formulas, errors };
+}
+
+/**
+ * Read up to `limit` bytes from the start of a stream
+ */
+async function readStreamHead(
+  stream: NodeJS.ReadableStream,
+  limit: number,
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    chunks.push(buffer);
+    length += buffer.length;
+    if (length >= limit) break;
+  }
+  return Buffer.concat(chunks).subarray(0, limit);
+}
+
 /**
  * Quick harvest helper
+ *
+ * Writes the durable JSON-lines index (see HarvestIndex) to indexDestination,
+ * "./harvest-index.jsonl" by default. Earlier versions named it
+ * "./harvest-index.json"; pass that path to keep using the old name.
  */
 export async function quickHarvest(
   directory: string,
   domain: string,
+  indexDestination = "./harvest-index.jsonl",
 ): Promise<HarvestedItem[]> {
   const config: HarvesterConfig = {
     harvesterId: `harvest-${Date.now()}`,
@@ -720,18 +3252,36 @@ export async function quickHarvest(
       {
         processorId: "proc-text",
         name: "Text Files",
+        fileTypes: ["txt", "md", "c", "cpp", "html", "css", "json"],
+        extract: {
+          text: true,
+          metadata: true,
+          tags: true,
+          summary: true,
+        },
+        coordinateStrategy: "hierarchical",
+        hierarchicalConfig: {
+          raBase: 0,
+          decBase: 0,
+          altFormula: "depth * 0.5",
+        },
+      },
+      {
+        processorId: "proc-code",
+        name: "Source Code",
         fileTypes: [
-          "txt",
-          "md",
-          "js",
           "ts",
+          "tsx",
+          "js",
+          "jsx",
+          "mjs",
+          "cjs",
           "py",
           "java",
-          "c",
-          "cpp",
-          "html",
-          "css",
-          "json",
+          "kt",
+          "cs",
+          "go",
+          "rs",
         ],
         extract: {
           text: true,
@@ -741,23 +3291,26 @@ export async function quickHarvest(
         },
         coordinateStrategy: "hierarchical",
         hierarchicalConfig: {
-          raBase: 0,
+          raBase: 180,
           decBase: 0,
           altFormula: "depth * 0.5",
+          spread: 60,
         },
       },
       {
         processorId: "proc-docs",
         name: "Documents",
-        fileTypes: ["pdf", "docx", "xlsx"],
+        fileTypes: ["pdf", "docx", "xlsx", "pptx", "odt", "ods", "odp", "rtf"],
         extract: {
+          text: true,
           metadata: true,
           tags: true,
+          summary: true,
         },
         coordinateStrategy: "hash",
       },
     ],
-    indexDestination: "./harvest-index.json",
+    indexDestination,
     options: {
       recursive: true,
       followSymlinks: false,
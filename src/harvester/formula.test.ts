@@ -0,0 +1,77 @@
+import { compileFormula, FormulaType } from "./formula";
+
+const VARIABLES: Record<string, FormulaType> = {
+  depth: "number",
+  siblingIndex: "number",
+  ext: "string",
+};
+
+function value(source: string, depth = 2, siblingIndex = 3, ext = "md") {
+  return compileFormula(source, VARIABLES).evaluate({
+    depth,
+    siblingIndex,
+    ext,
+  });
+}
+
+describe("compileFormula", () => {
+  it("evaluates arithmetic with the usual precedence", () => {
+    expect(value("depth * 0.5")).toBe(1);
+    expect(value("1 + 2 * 3 - 4 / 2")).toBe(5);
+    expect(value("-(1 + 2) * 2 % 4")).toBe(-2);
+    expect(value("2 - 1 - 1")).toBe(0);
+  });
+
+  it("branches on comparisons of numbers and strings", () => {
+    const formula = "ext == 'md' ? 10 : siblingIndex * 3";
+
+    expect(value(formula)).toBe(10);
+    expect(value(formula, 2, 3, "txt")).toBe(9);
+    expect(value('depth > 1 && !(ext != "md") ? 1 : 0')).toBe(1);
+    expect(value("true ? 1 : false ? 2 : 3")).toBe(1);
+  });
+
+  it("calls the built-in functions", () => {
+    expect(value("max(depth, siblingIndex, 1)")).toBe(3);
+    expect(value("clamp(depth * 10, 0, 5) + round(2.5) + length(ext)")).toBe(
+      10,
+    );
+    expect(value("hash(ext)")).toBeGreaterThanOrEqual(0);
+    expect(value("hash(ext)")).toBeLessThan(1);
+    expect(value("hash(ext)")).toBe(value("hash('md')"));
+  });
+
+  it("lists the variables used and passes bad arithmetic through", () => {
+    const formula = compileFormula("siblingIndex / (depth - 2)", VARIABLES);
+
+    expect(formula.variables.sort()).toEqual(["depth", "siblingIndex"]);
+    expect(formula.evaluate({ depth: 2, siblingIndex: 1 })).toBe(Infinity);
+    expect(value("log(0 - 1)")).toBeNaN();
+  });
+
+  it.each([
+    ["depth *", "Unexpected end of formula at 8"],
+    ["depth # 2", 'Unexpected "#" at 7'],
+    ["(depth", 'Expected ")" but found end of formula at 7'],
+    ["width * 2", 'Unknown variable "width" at 1'],
+    ["eval('1')", 'Unknown function "eval" at 1'],
+    ["constructor", 'Unknown variable "constructor"'],
+    ["pow(depth)", "pow() takes 2 arguments, not 1 at 1"],
+    ["ext * 2", '"*" needs a number, not a string at 5'],
+    ["ext == 1 ? 1 : 0", "Cannot compare a string with a number at 5"],
+    ["depth ? 1 : 0", "Condition needs a boolean, not a number"],
+    ["depth > 1 ? 1 : 'far'", "Branches give a number and a string"],
+    ["ext", "Formula gives a string, not a number"],
+  ])("rejects %s", (source, message) => {
+    expect(() => compileFormula(source, VARIABLES)).toThrow(message);
+  });
+
+  it("limits the length and nesting of formulas", () => {
+    expect(() =>
+      compileFormula("(".repeat(40) + "1" + ")".repeat(40), VARIABLES),
+    ).toThrow("Formula nested deeper than 32 levels");
+    expect(() => compileFormula("1+".repeat(501) + "1", VARIABLES)).toThrow(
+      "Formula longer than 1000 characters",
+    );
+  });
+});
@@ -0,0 +1,504 @@
+/**
+ * Formulas - Sandboxed expressions for coordinate formulas
+ *
+ * Formulas such as "depth * 0.5" or "ext == 'md' ? 10 : siblingIndex * 3"
+ * are parsed into a tree and evaluated over a fixed set of variables and
+ * functions; nothing outside those can be reached, so formulas from a
+ * configuration file are safe to run. Names, argument counts and types are
+ * checked when a formula is compiled, so a mistake fails up front instead
+ * of quietly giving 0 during a harvest.
+ *
+ * Grammar, loosest binding first:
+ *   a ? b : c    a || b    a && b    == != < <= > >=    + -    * / %
+ *   -a !a        numbers, 'strings', true, false, variables, f(a, b)
+ */
+
+import { fnv1a } from "./text-analysis";
+
+export type FormulaType = "number" | "string" | "boolean";
+export type FormulaValue = number | string | boolean;
+
+/**
+ * Formula checked against its variables, ready to evaluate
+ */
+export interface CompiledFormula {
+  source: string;
+  variables: string[]; // Variables the formula uses
+
+  /**
+   * Value for a set of variables; NaN or Infinity when the arithmetic
+   * gives them (division by zero, log of a negative number)
+   */
+  evaluate(variables: Record<string, FormulaValue>): number;
+}
+
+/**
+ * Built-in functions
+ */
+const FUNCTIONS: Record<
+  string,
+  {
+    params: FormulaType[];
+    variadic?: boolean; // Repeats the last parameter
+    apply: (...args: any[]) => number;
+  }
+> = {
+  abs: { params: ["number"], apply: Math.abs },
+  floor: { params: ["number"], apply: Math.floor },
+  ceil: { params: ["number"], apply: Math.ceil },
+  round: { params: ["number"], apply: Math.round },
+  sqrt: { params: ["number"], apply: Math.sqrt },
+  log: { params: ["number"], apply: Math.log },
+  log10: { params: ["number"], apply: Math.log10 },
+  pow: { params: ["number", "number"], apply: Math.pow },
+  min: { params: ["number", "number"], variadic: true, apply: Math.min },
+  max: { params: ["number", "number"], variadic: true, apply: Math.max },
+  clamp: {
+    params: ["number", "number", "number"],
+    apply: (value: number, low: number, high: number) =>
+      Math.min(high, Math.max(low, value)),
+  },
+  hash: {
+    params: ["string"],
+    apply: (text: string) => fnv1a(text) / 0x100000000, // Stable, in [0, 1)
+  },
+  length: { params: ["string"], apply: (text: string) => text.length },
+};
+
+const MAX_LENGTH = 1000; // characters
+const MAX_NESTING = 32;
+
+type Node = { position: number } & (
+  | { type: "literal"; value: FormulaValue }
+  | { type: "variable"; name: string }
+  | { type: "unary"; operator: string; operand: Node }
+  | { type: "binary"; operator: string; left: Node; right: Node }
+  | { type: "conditional"; test: Node; consequent: Node; alternate: Node }
+  | { type: "call"; name: string; args: Node[] }
+);
+
+interface Token {
+  kind: "number" | "string" | "name" | "operator" | "end";
+  text: string;
+  value?: number | string;
+  position: number; // 0-based
+}
+
+// Binding power of binary operators
+const PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+
+/**
+ * Parse and check a formula
+ * Throws an Error naming the problem and its position (1-based).
+ */
+export function compileFormula(
+  source: string,
+  variables: Record<string, FormulaType>,
+): CompiledFormula {
+  if (source.length > MAX_LENGTH) {
+    throw new Error(`Formula longer than ${MAX_LENGTH} characters`);
+  }
+
+  const tree = new Parser(tokenize(source)).parse();
+  const used = new Set<string>();
+  const type = check(tree, variables, used);
+  if (type !== "number") {
+    throw new Error(`Formula gives a ${type}, not a number`);
+  }
+
+  return {
+    source,
+    variables: [...used],
+    evaluate: (values) => evaluate(tree, values) as number,
+  };
+}
+
+/**
+ * Split a formula into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern =
+    /(\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([A-Za-z_]\w*)|(==|!=|<=|>=|&&|\|\||[-+*/%<>!?:(),])/y;
+
+  let position = 0;
+  for (;;) {
+    while (/\s/.test(source.charAt(position))) position++;
+    if (position >= source.length) break;
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(source);
+    if (!match) {
+      throw new Error(`Unexpected "${source[position]}" at ${position + 1}`);
+    }
+
+    const [, number, single, double, name, operator] = match;
+    if (number !== undefined) {
+      tokens.push({
+        kind: "number",
+        text: number,
+        value: Number(number),
+        position,
+      });
+    } else if (single !== undefined || double !== undefined) {
+      const text = (single ?? double) as string;
+      tokens.push({
+        kind: "string",
+        text,
+        value: text.replace(/\\(.)/g, "$1"),
+        position,
+      });
+    } else if (name !== undefined) {
+      tokens.push({ kind: "name", text: name, position });
+    } else {
+      tokens.push({ kind: "operator", text: operator, position });
+    }
+    position = pattern.lastIndex;
+  }
+
+  tokens.push({ kind: "end", text: "end of formula", position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, precedence climbing for binary operators
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.kind !== "end") this.fail(next);
+    return node;
+  }
+
+  private expression(): Node {
+    if (++this.depth > MAX_NESTING) {
+      throw new Error(`Formula nested deeper than ${MAX_NESTING} levels`);
+    }
+    const test = this.binary(1);
+    let node = test;
+    if (this.accept("?")) {
+      const consequent = this.expression();
+      this.expect(":");
+      const alternate = this.expression();
+      node = {
+        type: "conditional",
+        test,
+        consequent,
+        alternate,
+        position: test.position,
+      };
+    }
+    this.depth--;
+    return node;
+  }
+
+  private binary(minimum: number): Node {
+    let left = this.unary();
+    for (;;) {
+      const token = this.peek();
+      const precedence =
+        token.kind === "operator" ? PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence < minimum) return left;
+
+      this.index++;
+      const right = this.binary(precedence + 1);
+      left = {
+        type: "binary",
+        operator: token.text,
+        left,
+        right,
+        position: token.position,
+      };
+    }
+  }
+
+  private unary(): Node {
+    const token = this.peek();
+    if (
+      token.kind === "operator" &&
+      (token.text === "-" || token.text === "!")
+    ) {
+      this.index++;
+      if (++this.depth > MAX_NESTING) {
+        throw new Error(`Formula nested deeper than ${MAX_NESTING} levels`);
+      }
+      const operand = this.unary();
+      this.depth--;
+      return {
+        type: "unary",
+        operator: token.text,
+        operand,
+        position: token.position,
+      };
+    }
+    return this.primary();
+  }
+
+  private primary(): Node {
+    const token = this.tokens[this.index++];
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return {
+          type: "literal",
+          value: token.value as FormulaValue,
+          position: token.position,
+        };
+
+      case "name":
+        if (token.text === "true" || token.text === "false") {
+          return {
+            type: "literal",
+            value: token.text === "true",
+            position: token.position,
+          };
+        }
+        if (this.accept("(")) {
+          const args: Node[] = [];
+          if (!this.accept(")")) {
+            do {
+              args.push(this.expression());
+            } while (this.accept(","));
+            this.expect(")");
+          }
+          return {
+            type: "call",
+            name: token.text,
+            args,
+            position: token.position,
+          };
+        }
+        return { type: "variable", name: token.text, position: token.position };
+
+      case "operator":
+        if (token.text === "(") {
+          const node = this.expression();
+          this.expect(")");
+          return node;
+        }
+    }
+    return this.fail(token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.kind === "operator" && token.text === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    if (!this.accept(operator)) {
+      const token = this.peek();
+      throw new Error(
+        `Expected "${operator}" but found ${describe(token)} at ${token.position + 1}`,
+      );
+    }
+  }
+
+  private fail(token: Token): never {
+    throw new Error(`Unexpected ${describe(token)} at ${token.position + 1}`);
+  }
+}
+
+function describe(token: Token): string {
+  return token.kind === "end" ? "end of formula" : `"${token.text}"`;
+}
+
+/**
+ * Type of a node, failing on unknown names and mismatched types
+ */
+function check(
+  node: Node,
+  variables: Record<string, FormulaType>,
+  used: Set<string>,
+): FormulaType {
+  const at = ` at ${node.position + 1}`;
+  const expectType = (child: Node, type: FormulaType, what: string) => {
+    const actual = check(child, variables, used);
+    if (actual !== type) {
+      throw new Error(`${what} needs a ${type}, not a ${actual}${at}`);
+    }
+  };
+
+  switch (node.type) {
+    case "literal":
+      return typeof node.value as FormulaType;
+
+    case "variable":
+      if (!Object.prototype.hasOwnProperty.call(variables, node.name)) {
+        throw new Error(
+          `Unknown variable "${node.name}"${at}; known: ${Object.keys(variables).join(", ")}`,
+        );
+      }
+      used.add(node.name);
+      return variables[node.name];
+
+    case "unary":
+      expectType(
+        node.operand,
+        node.operator === "!" ? "boolean" : "number",
+        `"${node.operator}"`,
+      );
+      return node.operator === "!" ? "boolean" : "number";
+
+    case "binary": {
+      const { operator } = node;
+      if (operator === "&&" || operator === "||") {
+        expectType(node.left, "boolean", `"${operator}"`);
+        expectType(node.right, "boolean", `"${operator}"`);
+        return "boolean";
+      }
+      if (operator === "==" || operator === "!=") {
+        const left = check(node.left, variables, used);
+        const right = check(node.right, variables, used);
+        if (left !== right) {
+          throw new Error(`Cannot compare a ${left} with a ${right}${at}`);
+        }
+        return "boolean";
+      }
+      if (["<", "<=", ">", ">="].includes(operator)) {
+        const left = check(node.left, variables, used);
+        const right = check(node.right, variables, used);
+        if (left !== right || left === "boolean") {
+          throw new Error(`Cannot order a ${left} and a ${right}${at}`);
+        }
+        return "boolean";
+      }
+      expectType(node.left, "number", `"${operator}"`);
+      expectType(node.right, "number", `"${operator}"`);
+      return "number";
+    }
+
+    case "conditional": {
+      expectType(node.test, "boolean", "Condition");
+      const consequent = check(node.consequent, variables, used);
+      const alternate = check(node.alternate, variables, used);
+      if (consequent !== alternate) {
+        throw new Error(
+          `Branches give a ${consequent} and a ${alternate}${at}`,
+        );
+      }
+      return consequent;
+    }
+
+    case "call": {
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name)
+        ? FUNCTIONS[node.name]
+        : undefined;
+      if (!fn) {
+        throw new Error(
+          `Unknown function "${node.name}"${at}; known: ${Object.keys(FUNCTIONS).join(", ")}`,
+        );
+      }
+      const count = node.args.length;
+      if (
+        count < fn.params.length ||
+        (!fn.variadic && count > fn.params.length)
+      ) {
+        throw new Error(
+          `${node.name}() takes ${fn.variadic ? "at least " : ""}${fn.params.length} argument${fn.params.length === 1 ? "" : "s"}, not ${count}${at}`,
+        );
+      }
+      node.args.forEach((arg, i) =>
+        expectType(
+          arg,
+          fn.params[Math.min(i, fn.params.length - 1)],
+          `${node.name}()`,
+        ),
+      );
+      return "number";
+    }
+  }
+}
+
+/**
+ * Value of a checked node
+ */
+function evaluate(
+  node: Node,
+  variables: Record<string, FormulaValue>,
+): FormulaValue {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+
+    case "variable":
+      return variables[node.name];
+
+    case "unary": {
+      const operand = evaluate(node.operand, variables);
+      return node.operator === "!" ? !operand : -(operand as number);
+    }
+
+    case "binary": {
+      const left = evaluate(node.left, variables);
+      if (node.operator === "&&")
+        return left && evaluate(node.right, variables);
+      if (node.operator === "||")
+        return left || evaluate(node.right, variables);
+
+      const right = evaluate(node.right, variables);
+      switch (node.operator) {
+        case "==":
+          return left === right;
+        case "!=":
+          return left !== right;
+        case "<":
+          return left < right;
+        case "<=":
+          return left <= right;
+        case ">":
+          return left > right;
+        case ">=":
+          return left >= right;
+        case "+":
+          return (left as number) + (right as number);
+        case "-":
+          return (left as number) - (right as number);
+        case "*":
+          return (left as number) * (right as number);
+        case "/":
+          return (left as number) / (right as number);
+        default:
+          return (left as number) % (right as number);
+      }
+    }
+
+    case "conditional":
+      return evaluate(node.test, variables)
+        ? evaluate(node.consequent, variables)
+        : evaluate(node.alternate, variables);
+
+    case "call":
+      return FUNCTIONS[node.name].apply(
+        ...node.args.map((arg) => evaluate(arg, variables)),
+      );
+  }
+}
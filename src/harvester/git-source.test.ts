@@ -0,0 +1,192 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { FileHarvester, HarvesterConfig } from "./file-harvester";
+import { GitRepository } from "./git-source";
+
+let dir: string;
+let repoPath: string;
+
+function git(...args: string[]): string {
+  return gitIn(repoPath, ...args);
+}
+
+function gitIn(cwd: string, ...args: string[]): string {
+  return execFileSync("git", ["-C", cwd, ...args], {
+    encoding: "utf8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Ada Teacher",
+      GIT_AUTHOR_EMAIL: "ada@school.test",
+      GIT_COMMITTER_NAME: "Ada Teacher",
+      GIT_COMMITTER_EMAIL: "ada@school.test",
+    },
+  }).trim();
+}
+
+function commit(file: string, content: string, message: string): string {
+  const filePath = path.join(repoPath, ...file.split("/"));
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  git("add", "--all");
+  git("commit", "--quiet", "-m", message);
+  return git("rev-parse", "HEAD");
+}
+
+function harvesterFor(options: Record<string, any> = {}): FileHarvester {
+  const config: HarvesterConfig = {
+    harvesterId: "git-test",
+    name: "git test",
+    sources: [{ sourceId: "repo", sourceType: "git", path: repoPath, options }],
+    processors: [
+      {
+        processorId: "docs",
+        name: "Docs",
+        fileTypes: ["md", "txt", "commit"],
+        extract: { text: true, metadata: true },
+        coordinateStrategy: "hash",
+      },
+    ],
+    indexDestination: path.join(dir, `index-${Math.random()}.jsonl`),
+    options: { recursive: true, followSymlinks: false, ignoreHidden: true },
+    autoTagging: {
+      enabled: false,
+      extractFromFilename: false,
+      extractFromPath: false,
+      extractFromContent: false,
+      useMetadata: false,
+    },
+  };
+  return new FileHarvester(config);
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-git-test-"));
+  repoPath = path.join(dir, "repo");
+  fs.mkdirSync(repoPath);
+  git("init", "--quiet");
+  commit("notes/intro.md", "# Intro\n", "Add intro");
+  commit("notes/intro.md", "# Intro\n\nFractions.\n", "Expand intro");
+  commit("readme.txt", "Course notes\n", "Add readme");
+  fs.symlinkSync("readme.txt", path.join(repoPath, "link.txt"));
+  commit(".hidden/secret.md", "hidden\n", "Add hidden file");
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("GitRepository", () => {
+  it("accepts file:// URLs and refuses remote ones", () => {
+    expect(new GitRepository(pathToFileURL(repoPath).href).repoPath).toBe(
+      repoPath,
+    );
+    expect(() => new GitRepository("https://example.com/repo.git")).toThrow(
+      "Only local repositories are supported",
+    );
+  });
+
+  it("lists the blobs of a ref without symlinks", async () => {
+    const tree = await new GitRepository(repoPath).listTree("HEAD");
+
+    expect(tree.map((entry) => entry.path).sort()).toEqual([
+      ".hidden/secret.md",
+      "notes/intro.md",
+      "readme.txt",
+    ]);
+    expect(tree.find((entry) => entry.path === "readme.txt")?.size).toBe(13);
+  });
+
+  it("records the commits touching each path, newest first", async () => {
+    const history = await new GitRepository(repoPath).pathHistory("HEAD");
+
+    expect(
+      history.get("notes/intro.md")?.map((commit) => commit.subject),
+    ).toEqual(["Expand intro", "Add intro"]);
+  });
+
+  it("reads paths git would quote, such as non-ASCII and newlines", async () => {
+    const unusual = path.join(dir, "unusual");
+    fs.mkdirSync(unusual);
+    gitIn(unusual, "init", "--quiet");
+    fs.writeFileSync(path.join(unusual, "café.md"), "Menu\n");
+    fs.writeFileSync(path.join(unusual, "two\nlines.md"), "Odd\n");
+    gitIn(unusual, "add", "--all");
+    gitIn(unusual, "commit", "--quiet", "-m", "Add odd names");
+
+    const history = await new GitRepository(unusual).pathHistory("HEAD");
+
+    expect([...history.keys()].sort()).toEqual(["café.md", "two\nlines.md"]);
+    expect(history.get("two\nlines.md")?.[0].subject).toBe("Add odd names");
+  });
+
+  it("reads a ref starting with '-' as a ref, not an option", async () => {
+    const repo = new GitRepository(repoPath);
+    const output = path.join(dir, "written-by-git");
+
+    await expect(repo.resolveCommit(`--output=${output}`)).rejects.toThrow();
+    await expect(repo.listTree(`--output=${output}`)).rejects.toThrow();
+    expect(fs.existsSync(output)).toBe(false);
+  });
+});
+
+describe("FileHarvester git source", () => {
+  it("harvests the files of a ref with commit metadata", async () => {
+    const head = git("rev-parse", "HEAD");
+    const harvester = harvesterFor();
+    const items = await harvester.harvest();
+
+    expect(harvester.getProgress().errors).toEqual([]);
+    expect(items.map((item) => item.filename).sort()).toEqual([
+      "intro.md",
+      "readme.txt",
+    ]);
+
+    const intro = items.find((item) => item.filename === "intro.md");
+    expect(intro?.textContent).toContain("Fractions.");
+    expect(intro?.metadata).toMatchObject({
+      commitHash: head,
+      author: "Ada Teacher",
+      ref: "HEAD",
+    });
+    expect(
+      intro?.metadata.pathHistory.map((commit: any) => commit.subject),
+    ).toEqual(["Expand intro", "Add intro"]);
+  });
+
+  it("credits no commit to paths older than maxCommits", async () => {
+    const head = git("log", "-1", "--format=%aI");
+    const items = await harvesterFor({ maxCommits: 1 }).harvest();
+    const intro = items.find((item) => item.filename === "intro.md");
+
+    expect(intro?.metadata.lastModifiedCommit).toBeUndefined();
+    expect(intro?.metadata.author).toBeUndefined();
+    expect(intro?.metadata.pathHistory).toEqual([]);
+    expect(intro?.modified).toEqual(new Date(head));
+  });
+
+  it("indexes commit messages when asked", async () => {
+    const items = await harvesterFor({ indexCommits: true }).harvest();
+    const commits = items.filter((item) => item.extension === "commit");
+
+    expect(commits.map((item) => item.metadata.title).sort()).toEqual([
+      "Add hidden file",
+      "Add intro",
+      "Add readme",
+      "Expand intro",
+    ]);
+  });
+
+  it("turns a bad ref into a source error instead of failing the run", async () => {
+    const harvester = harvesterFor({ ref: "no-such-branch" });
+
+    await expect(harvester.harvest()).resolves.toEqual([]);
+    expect(harvester.getProgress().errors).toEqual([
+      expect.objectContaining({ file: repoPath }),
+    ]);
+  });
+});
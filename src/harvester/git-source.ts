@@ -0,0 +1,230 @@
+/**
+ * Git Source - Read-only access to local git repositories
+ *
+ * Walks a ref with git plumbing commands instead of checking it out,
+ * so bare repositories and file:// URLs can be harvested in place.
+ * Refs follow --end-of-options, so one starting with "-" is never read
+ * as an option.
+ */
+
+import { execFile } from "child_process";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+/**
+ * Commit summary
+ */
+export interface GitCommitInfo {
+  hash: string;
+  author: string;
+  email: string;
+  date: Date;
+  subject: string;
+  message?: string; // Full message, only when requested
+}
+
+/**
+ * Blob in a tree
+ */
+export interface GitTreeEntry {
+  path: string; // Relative to repository root, always "/" separated
+  objectId: string;
+  size: number;
+}
+
+const LOG_RECORD = "\x1e";
+const LOG_FIELD = "\x1f";
+
+/**
+ * Git repository reader
+ */
+export class GitRepository {
+  readonly repoPath: string;
+
+  constructor(location: string) {
+    this.repoPath = GitRepository.resolveLocation(location);
+  }
+
+  /**
+   * Accept local paths and file:// URLs
+   */
+  static resolveLocation(location: string): string {
+    if (location.startsWith("file://")) {
+      return fileURLToPath(location);
+    }
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(location)) {
+      throw new Error(`Only local repositories are supported: ${location}`);
+    }
+    return path.resolve(location);
+  }
+
+  /**
+   * Check that the location is a git repository (bare or not)
+   */
+  async isRepository(): Promise<boolean> {
+    try {
+      await this.git(["rev-parse", "--git-dir"]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a ref to its commit
+   */
+  async resolveCommit(ref: string): Promise<GitCommitInfo> {
+    const [commit] = await this.log(ref, { maxCount: 1 });
+    if (!commit) {
+      throw new Error(`Unknown ref: ${ref}`);
+    }
+    return commit;
+  }
+
+  /**
+   * List every blob reachable from a ref
+   * Submodules (gitlinks) and symlinks are skipped.
+   */
+  async listTree(ref: string): Promise<GitTreeEntry[]> {
+    const output = await this.git([
+      "ls-tree",
+      "-r",
+      "-z",
+      "--long",
+      "--end-of-options",
+      ref,
+    ]);
+    const entries: GitTreeEntry[] = [];
+
+    for (const record of output.toString("utf8").split("\0")) {
+      if (!record) continue;
+
+      // <mode> SP <type> SP <object> SP+ <size> TAB <path>
+      const tab = record.indexOf("\t");
+      const [mode, type, objectId, size] = record
+        .substring(0, tab)
+        .split(/\s+/);
+      if (type !== "blob" || mode === "120000") continue;
+
+      entries.push({
+        path: record.substring(tab + 1),
+        objectId,
+        size: parseInt(size, 10),
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Read blob contents
+   */
+  async readBlob(objectId: string, size: number): Promise<Buffer> {
+    return this.git(["cat-file", "blob", objectId], size + 1024);
+  }
+
+  /**
+   * Commit log for a ref, newest first
+   */
+  async log(
+    ref: string,
+    options: { maxCount?: number; withMessage?: boolean } = {},
+  ): Promise<GitCommitInfo[]> {
+    const format = ["%H", "%an", "%ae", "%aI", "%s"];
+    if (options.withMessage) format.push("%B");
+
+    const args = ["log", `--format=${format.join("%x1f")}%x1e`];
+    if (options.maxCount) args.push(`--max-count=${options.maxCount}`);
+    args.push("--end-of-options", ref, "--");
+
+    const output = await this.git(args);
+    return output
+      .toString("utf8")
+      .split(LOG_RECORD)
+      .map((record) => record.replace(/^\n/, ""))
+      .filter((record) => record.length > 0)
+      .map((record) => this.parseCommit(record.split(LOG_FIELD)));
+  }
+
+  /**
+   * Commits touching each path, newest first
+   * One log walk for the whole ref rather than one per file.
+   */
+  async pathHistory(
+    ref: string,
+    maxCommits?: number,
+  ): Promise<Map<string, GitCommitInfo[]>> {
+    const args = [
+      "-c",
+      "core.quotePath=false",
+      "log",
+      "-z",
+      "--name-only",
+      "--no-renames",
+      "--format=%x1e%H%x1f%an%x1f%ae%x1f%aI%x1f%s",
+    ];
+    if (maxCommits) args.push(`--max-count=${maxCommits}`);
+    args.push("--end-of-options", ref, "--");
+
+    const history = new Map<string, GitCommitInfo[]>();
+    const output = await this.git(args);
+
+    for (const record of output.toString("utf8").split(LOG_RECORD)) {
+      if (!record.trim()) continue;
+
+      // With -z the header and each path end in NUL, unquoted; a newline
+      // separates the header from the paths
+      const [header, ...files] = record.split("\0");
+      const commit = this.parseCommit(header.split(LOG_FIELD));
+      if (files[0]?.startsWith("\n")) files[0] = files[0].substring(1);
+
+      for (const file of files) {
+        if (!file) continue;
+        const commits = history.get(file) || [];
+        commits.push(commit);
+        history.set(file, commits);
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * Parse formatted log fields
+   */
+  private parseCommit(fields: string[]): GitCommitInfo {
+    const [hash, author, email, date, subject, message] = fields;
+    const commit: GitCommitInfo = {
+      hash,
+      author,
+      email,
+      date: new Date(date),
+      subject,
+    };
+    if (message !== undefined) {
+      commit.message = message.trim();
+    }
+    return commit;
+  }
+
+  /**
+   * Run a git command against this repository
+   */
+  private git(args: string[], maxBuffer = 256 * 1024 * 1024): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        "git",
+        ["-C", this.repoPath, ...args],
+        { encoding: "buffer", maxBuffer },
+        (error, stdout, stderr) => {
+          if (error) {
+            const detail = stderr.toString("utf8").trim();
+            reject(new Error(detail || error.message));
+            return;
+          }
+          resolve(stdout);
+        },
+      );
+    });
+  }
+}
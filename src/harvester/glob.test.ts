@@ -0,0 +1,45 @@
+import { globToRegExp, PatternList } from "./glob";
+
+describe("globToRegExp", () => {
+  it("keeps * and ? within a segment and lets ** span them", () => {
+    expect(globToRegExp("*.md").test("maths/fractions.md")).toBe(true);
+    expect(globToRegExp("maths/*.md").test("maths/algebra/x.md")).toBe(false);
+    expect(globToRegExp("maths/**/*.md").test("maths/x.md")).toBe(true);
+    expect(globToRegExp("maths/**/*.md").test("maths/a/b/x.md")).toBe(true);
+    expect(globToRegExp("unit-?.md").test("unit-10.md")).toBe(false);
+  });
+
+  it("anchors patterns that contain a slash", () => {
+    expect(globToRegExp("build").test("app/build")).toBe(true);
+    expect(globToRegExp("/build").test("app/build")).toBe(false);
+    expect(globToRegExp("/build").test("build")).toBe(true);
+  });
+
+  it("supports classes, alternatives and escapes", () => {
+    expect(globToRegExp("year[1-3].md").test("year2.md")).toBe(true);
+    expect(globToRegExp("year[!1-3].md").test("year2.md")).toBe(false);
+    expect(globToRegExp("*.{md,txt}").test("notes.txt")).toBe(true);
+    expect(globToRegExp("\\*.md").test("notes.md")).toBe(false);
+    expect(globToRegExp("\\*.md").test("*.md")).toBe(true);
+  });
+});
+
+describe("PatternList", () => {
+  const ignore = PatternList.parse(
+    ["# Build output", "dist/", "*.log", "!keep.log", "\\#notes"].join("\n"),
+  );
+
+  it("lets the last matching pattern win", () => {
+    expect(ignore.match("server.log", false)).toBe(true);
+    expect(ignore.match("logs/keep.log", false)).toBe(false);
+    expect(ignore.match("notes.md", false)).toBeUndefined();
+    expect(ignore.match("#notes", false)).toBe(true);
+  });
+
+  it("matches directory patterns only against directories", () => {
+    expect(ignore.match("dist", true)).toBe(true);
+    expect(ignore.match("dist", false)).toBeUndefined();
+    expect(ignore.matchWithParents("dist/app.js")).toBe(true);
+    expect(ignore.matchWithParents("src/app.js")).toBeUndefined();
+  });
+});
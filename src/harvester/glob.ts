@@ -0,0 +1,169 @@
+/**
+ * Glob Patterns - gitignore-style path matching
+ *
+ * Paths are "/" separated and relative to the source root.
+ * - `*` and `?` never cross "/", `**` spans directories
+ * - `[abc]`, `[a-z]`, `[!abc]` character classes, `{a,b}` alternatives
+ * - A pattern without "/" matches a name at any depth ("build")
+ * - A leading "/" anchors to the root, a trailing "/" matches directories only
+ * - A leading "!" re-includes; the last matching pattern wins
+ */
+
+/**
+ * Compiled pattern
+ */
+interface CompiledPattern {
+  source: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Convert a glob (without "!" or trailing "/") to a regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob;
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+
+  const body = translate(pattern);
+  return new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+}
+
+/**
+ * Translate glob syntax to regular expression source
+ */
+function translate(glob: string): string {
+  let out = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "\\" && i + 1 < glob.length) {
+      out += escapeRegExp(glob[++i]);
+    } else if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        i++;
+        if (atSegmentStart && glob[i + 1] === "/") {
+          out += "(?:.*/)?"; // "**/" matches zero or more directories
+          i++;
+        } else {
+          out += ".*";
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (char === "?") {
+      out += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        out += "\\[";
+        continue;
+      }
+      let set = glob.substring(i + 1, close);
+      let negate = "";
+      if (set[0] === "!" || set[0] === "^") {
+        negate = "^/";
+        set = set.substring(1);
+      }
+      out += `[${negate}${set.replace(/[\\\]]/g, "\\$&")}]`;
+      i = close;
+    } else if (char === "{") {
+      const close = glob.indexOf("}", i);
+      if (close === -1) {
+        out += "\\{";
+        continue;
+      }
+      const options = glob
+        .substring(i + 1, close)
+        .split(",")
+        .map(translate);
+      out += `(?:${options.join("|")})`;
+      i = close;
+    } else {
+      out += escapeRegExp(char);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Escape regular expression metacharacters
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Ordered list of glob patterns with negation
+ */
+export class PatternList {
+  private patterns: CompiledPattern[];
+
+  constructor(patterns: string[]) {
+    this.patterns = patterns
+      .map((pattern) => pattern.trim())
+      .filter((pattern) => pattern && pattern !== "!")
+      .map((pattern) => {
+        const negated = pattern.startsWith("!");
+        let body = negated ? pattern.substring(1) : pattern;
+        const directoryOnly = body.endsWith("/");
+        body = body.replace(/\/+$/, "");
+
+        return {
+          source: pattern,
+          regex: globToRegExp(body),
+          negated,
+          directoryOnly,
+        };
+      });
+  }
+
+  /**
+   * Parse an ignore file (one pattern per line, "#" comments)
+   */
+  static parse(contents: string): PatternList {
+    return new PatternList(
+      contents
+        .split(/\r?\n/)
+        .filter((line) => line.trim() && !line.startsWith("#"))
+        .map((line) => (line.startsWith("\\#") ? line.substring(1) : line)),
+    );
+  }
+
+  /**
+   * Match a path: true (matched), false (re-included), undefined (no match)
+   */
+  match(relativePath: string, isDirectory: boolean): boolean | undefined {
+    let result: boolean | undefined;
+
+    for (const pattern of this.patterns) {
+      if (pattern.directoryOnly && !isDirectory) continue;
+      if (pattern.regex.test(relativePath)) {
+        result = !pattern.negated;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Match a file path from a flat listing, where parent directories were
+   * never visited on their own. A matched parent matches the file.
+   */
+  matchWithParents(relativePath: string): boolean | undefined {
+    const segments = relativePath.split("/");
+
+    for (let i = 1; i < segments.length; i++) {
+      if (this.match(segments.slice(0, i).join("/"), true)) {
+        return true;
+      }
+    }
+
+    return this.match(relativePath, false);
+  }
+}
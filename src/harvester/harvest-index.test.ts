@@ -0,0 +1,97 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { HarvestedItem } from "./file-harvester";
+import { HarvestIndex } from "./harvest-index";
+
+let dir: string;
+let file: string;
+
+function item(originalPath: string, size = 10): HarvestedItem {
+  const date = new Date("2024-01-01T00:00:00Z");
+  return {
+    originalPath,
+    filename: path.basename(originalPath),
+    size,
+    created: date,
+    modified: date,
+    harvested: date,
+  } as HarvestedItem;
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-index-test-"));
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  file = path.join(dir, `index-${Math.random()}.jsonl`);
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("HarvestIndex", () => {
+  it("appends changes and reads the latest line for each key", async () => {
+    const index = new HarvestIndex(file);
+    index.put("notes", item("/notes/a.md"), "hash-a");
+    index.put("notes", item("/notes/b.md"), "hash-b");
+    await index.save();
+
+    index.put("notes", item("/notes/a.md", 20), "hash-a2");
+    index.tombstone("/notes/b.md");
+    await index.flush();
+    expect(fs.readFileSync(file, "utf8").trim().split("\n")).toHaveLength(4);
+
+    const reloaded = new HarvestIndex(file);
+    await reloaded.load();
+    expect(reloaded.get("/notes/a.md")).toMatchObject({
+      contentHash: "hash-a2",
+      size: 20,
+    });
+    expect(reloaded.get("/notes/a.md")?.item?.modified).toBeInstanceOf(Date);
+    expect(reloaded.get("/notes/b.md")).toMatchObject({
+      deleted: true,
+      contentHash: "hash-b",
+    });
+    expect(reloaded.get("/notes/b.md")?.item).toBeUndefined();
+    expect(reloaded.items().map((live) => live.originalPath)).toEqual([
+      "/notes/a.md",
+    ]);
+  });
+
+  it("lists only the records seen in the current run", () => {
+    const index = new HarvestIndex(file);
+    index.beginRun("first");
+    index.put("notes", item("/notes/a.md"), "hash-a");
+    index.put("notes", item("/notes/b.md"), "hash-b");
+
+    index.beginRun("second");
+    index.markSeen("/notes/b.md");
+    index.tombstone("/notes/a.md");
+    index.markSeen("/notes/a.md");
+
+    expect(index.seenRecords("notes").map((record) => record.key)).toEqual([
+      "/notes/b.md",
+    ]);
+    expect(index.liveRecords("notes")).toHaveLength(1);
+  });
+
+  it("drops a last line cut short but refuses a corrupt one", async () => {
+    const index = new HarvestIndex(file);
+    index.put("notes", item("/notes/a.md"), "hash-a");
+    await index.save();
+    fs.appendFileSync(file, '{"key":"/notes/b.md","sourc');
+
+    await index.load();
+    expect(index.get("/notes/a.md")).toBeDefined();
+    expect(fs.readFileSync(file, "utf8").endsWith("}\n")).toBe(true);
+
+    fs.writeFileSync(file, "not json\n" + fs.readFileSync(file, "utf8"));
+    await expect(index.load()).rejects.toThrow(
+      `Corrupt harvest index ${file} at line 1`,
+    );
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Harvest Index - Durable record of harvested items
+ *
+ * Stored as JSON lines, one record per original path. Records carry a
+ * content hash so re-harvests only reprocess new or changed content,
+ * and deleted content is kept as a tombstone rather than dropped.
+ * Records are stamped with the run that last saw them, and flush()
+ * appends changed records so a long harvest can persist as it goes.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { HarvestedItem } from "./file-harvester";
+
+/**
+ * Index record
+ */
+export interface HarvestIndexRecord {
+  key: string; // Original path
+  sourceId: string;
+  contentHash: string; // SHA-256 of the raw bytes
+  size: number; // bytes
+  modified: number; // Source modification time (ms)
+  item?: HarvestedItem; // Absent on tombstones
+  deleted?: boolean;
+  duplicateOf?: string; // Key of the canonical record
+  seenRun?: string; // Harvest run that last saw this content
+
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Harvest index
+ */
+export class HarvestIndex {
+  private records = new Map<string, HarvestIndexRecord>();
+  private dirty = new Set<string>(); // Keys changed since the last write
+  private runId?: string;
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Load the index from disk (missing file = empty index)
+   * Later lines for the same key win, so appended records are honoured.
+   * An unreadable last line is an append cut short, and is truncated away;
+   * one further up means the file is corrupt.
+   */
+  async load(): Promise<void> {
+    this.records.clear();
+    this.dirty.clear();
+
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const lines = contents.split("\n");
+    let offset = 0; // bytes before the next line
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const start = offset;
+      offset += Buffer.byteLength(line) + 1;
+      if (!line.trim()) continue;
+
+      let record: HarvestIndexRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        if (lines.slice(i + 1).some((rest) => rest.trim())) {
+          throw new Error(
+            `Corrupt harvest index ${this.filePath} at line ${i + 1}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+
+        // Later appends must start on a line of their own
+        console.warn(
+          `[HarvestIndex] Dropping unreadable last line ${i + 1} of ${this.filePath}`,
+        );
+        await fs.promises.truncate(this.filePath, start);
+        break;
+      }
+      if (record.item) {
+        record.item.created = new Date(record.item.created);
+        record.item.modified = new Date(record.item.modified);
+        record.item.harvested = new Date(record.item.harvested);
+      }
+      this.records.set(record.key, record);
+    }
+  }
+
+  /**
+   * Write the compacted index, replacing the file atomically
+   */
+  async save(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(path.resolve(this.filePath)), {
+      recursive: true,
+    });
+
+    // Snapshot first: records changed while writing stay dirty
+    this.dirty = new Set();
+    const lines = [...this.records.values()].map((record) =>
+      JSON.stringify(record),
+    );
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(
+      tempPath,
+      lines.length ? lines.join("\n") + "\n" : "",
+    );
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Append records changed since the last write
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty.size) return;
+
+    await fs.promises.mkdir(path.dirname(path.resolve(this.filePath)), {
+      recursive: true,
+    });
+
+    const keys = this.dirty;
+    this.dirty = new Set();
+    const lines = [...keys].flatMap((key) => {
+      const record = this.records.get(key);
+      return record ? [JSON.stringify(record)] : [];
+    });
+    await fs.promises.appendFile(this.filePath, lines.join("\n") + "\n");
+  }
+
+  /**
+   * Set the run that put() and markSeen() stamp records with
+   */
+  beginRun(runId: string): void {
+    this.runId = runId;
+  }
+
+  /**
+   * Get a record (including tombstones)
+   */
+  get(key: string): HarvestIndexRecord | undefined {
+    return this.records.get(key);
+  }
+
+  /**
+   * Insert or replace a live record
+   */
+  put(
+    sourceId: string,
+    item: HarvestedItem,
+    contentHash: string,
+  ): HarvestIndexRecord {
+    const record: HarvestIndexRecord = {
+      key: item.originalPath,
+      sourceId,
+      contentHash,
+      size: item.size,
+      modified: item.modified.getTime(),
+      item,
+      seenRun: this.runId,
+      updatedAt: new Date().toISOString(),
+    };
+    this.records.set(record.key, record);
+    this.dirty.add(record.key);
+    return record;
+  }
+
+  /**
+   * Mark a record as a duplicate of another (or clear the mark)
+   */
+  setDuplicateOf(key: string, canonicalKey: string | undefined): void {
+    const record = this.records.get(key);
+    if (!record) return;
+
+    if (record.duplicateOf === canonicalKey) return;
+
+    if (canonicalKey) {
+      record.duplicateOf = canonicalKey;
+    } else {
+      delete record.duplicateOf;
+    }
+    this.dirty.add(key);
+  }
+
+  /**
+   * Mark a live record whose item was changed in place, to be written
+   */
+  touch(key: string): void {
+    const record = this.records.get(key);
+    if (!record || record.deleted) return;
+
+    record.updatedAt = new Date().toISOString();
+    this.dirty.add(key);
+  }
+
+  /**
+   * Stamp a live record as seen in the current run
+   */
+  markSeen(key: string): void {
+    const record = this.records.get(key);
+    if (!record || record.deleted || record.seenRun === this.runId) return;
+
+    record.seenRun = this.runId;
+    this.dirty.add(key);
+  }
+
+  /**
+   * Mark a record as deleted
+   */
+  tombstone(key: string): void {
+    const record = this.records.get(key);
+    if (!record || record.deleted) return;
+
+    this.records.set(key, {
+      key,
+      sourceId: record.sourceId,
+      contentHash: record.contentHash,
+      size: record.size,
+      modified: record.modified,
+      deleted: true,
+      updatedAt: new Date().toISOString(),
+    });
+    this.dirty.add(key);
+  }
+
+  /**
+   * Live (non-deleted) records for a source
+   */
+  liveRecords(sourceId: string): HarvestIndexRecord[] {
+    return [...this.records.values()].filter(
+      (record) => record.sourceId === sourceId && !record.deleted,
+    );
+  }
+
+  /**
+   * Live records for a source seen in the current run
+   */
+  seenRecords(sourceId: string): HarvestIndexRecord[] {
+    return this.liveRecords(sourceId).filter(
+      (record) => this.runId && record.seenRun === this.runId,
+    );
+  }
+
+  /**
+   * All live items, without duplicates
+   */
+  items(): HarvestedItem[] {
+    return [...this.records.values()]
+      .filter((record) => !record.deleted && !record.duplicateOf && record.item)
+      .map((record) => record.item as HarvestedItem);
+  }
+}
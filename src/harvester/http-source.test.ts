@@ -0,0 +1,369 @@
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+import { FileHarvester, HarvesterConfig } from "./file-harvester";
+import { parseSitemap, readPageLinks, RobotsRules } from "./http-source";
+
+let dir: string;
+let site: http.Server;
+let elsewhere: http.Server;
+let origin: string; // http://127.0.0.1:port
+let elsewhereOrigin: string; // http://127.0.0.2:port, outside the domains
+let requested: string[];
+let sitemapPath: string;
+let streamed: number; // bytes of /big-stream the client accepted
+let siteDown: boolean; // Every request to the site fails with a 503
+
+const page = (body: string, head = "") =>
+  `<html><head><title>Page</title>${head}</head><body>${body}</body></html>`;
+
+function route(url: string): {
+  status: number;
+  headers?: http.OutgoingHttpHeaders;
+  body?: string | Buffer;
+  stream?: number; // Chunked body of this many bytes, with no Content-Length
+} {
+  switch (url) {
+    case "/robots.txt":
+      return {
+        status: 200,
+        body: `User-agent: *\nDisallow: /private\nSitemap: ${origin}${sitemapPath}\n`,
+      };
+    case "/sitemap.xml.gz":
+      return {
+        status: 200,
+        headers: { "content-type": "application/gzip" },
+        body: zlib.gzipSync(
+          `<urlset><url><loc>${origin}/from-sitemap</loc></url></urlset>`,
+        ),
+      };
+    case "/broken.xml.gz":
+      return { status: 200, body: Buffer.from([0x1f, 0x8b, 1, 2, 3, 4]) };
+    case "/":
+      return {
+        status: 200,
+        body: page(
+          `<p>Welcome to the school.</p>` +
+            `<a href="/a">A</a> <a href="/private/secret">Secret</a>` +
+            `<a href="${elsewhereOrigin}/offsite">Offsite</a>` +
+            `<a href="/moved">Moved</a> <a href="/borrowed">Borrowed</a>` +
+            `<a href="/big">Big</a> <a href="/big-stream">Big stream</a>` +
+            `<a href="/to-private">To private</a> <a href="/loop/0">Loop</a>`,
+        ),
+      };
+    case "/a":
+      return {
+        status: 200,
+        headers: { etag: '"a-1"' },
+        body: page(
+          `<p>Fractions and decimals.</p><a href="/deep">Deep</a>`,
+          `<link rel="canonical" href="/a-canonical">`,
+        ),
+      };
+    case "/borrowed":
+      return {
+        status: 200,
+        body: page(
+          `<p>Copied from elsewhere.</p>`,
+          `<link rel="canonical" href="${elsewhereOrigin}/original">`,
+        ),
+      };
+    case "/from-sitemap":
+      return { status: 200, body: page(`<p>Listed in the sitemap.</p>`) };
+    case "/moved":
+      return {
+        status: 301,
+        headers: { location: `${elsewhereOrigin}/landing` },
+      };
+    case "/to-private":
+      return { status: 302, headers: { location: "/private/secret" } };
+    case "/big":
+      return { status: 200, body: page("x".repeat(5000)) };
+    case "/big-stream":
+      return { status: 200, stream: 32 * 1024 * 1024 };
+    default:
+      if (url.startsWith("/loop/")) {
+        const hop = Number(url.substring(6)) + 1;
+        return { status: 307, headers: { location: `/loop/${hop}` } };
+      }
+      return { status: 404, body: "Not found" };
+  }
+}
+
+function serve(
+  handler: (url: string) => ReturnType<typeof route>,
+): http.Server {
+  return http.createServer((req, res) => {
+    requested.push(`${req.headers.host}${req.url}`);
+    const reply = handler(req.url || "/");
+    const headers: http.OutgoingHttpHeaders = {
+      "content-type": "text/html; charset=utf-8",
+      ...reply.headers,
+    };
+
+    // Conditional requests for pages with an ETag
+    if (headers.etag && req.headers["if-none-match"] === headers.etag) {
+      res.writeHead(304, { etag: headers.etag });
+      res.end();
+      return;
+    }
+
+    if (reply.stream) {
+      // The size is only known by reading; stop once the client hangs up
+      res.writeHead(reply.status, headers);
+      const chunk = Buffer.alloc(16 * 1024, "y");
+      const write = () => {
+        while (streamed < (reply.stream as number) && !res.destroyed) {
+          streamed += chunk.length;
+          if (!res.write(chunk)) return void res.once("drain", write);
+        }
+        res.end();
+      };
+      write();
+      return;
+    }
+    res.writeHead(reply.status, headers);
+    res.end(reply.body);
+  });
+}
+
+async function listen(server: http.Server, host: string): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, host, resolve));
+  return `http://${host}:${(server.address() as AddressInfo).port}`;
+}
+
+function harvesterFor(
+  indexDestination: string,
+  options: Record<string, any> = {},
+): FileHarvester {
+  const config: HarvesterConfig = {
+    harvesterId: "http-test",
+    name: "http test",
+    sources: [
+      {
+        sourceId: "site",
+        sourceType: "http",
+        path: `${origin}/`,
+        options: { delayMs: 0, maxDepth: 1, ...options },
+      },
+    ],
+    processors: [
+      {
+        processorId: "pages",
+        name: "Pages",
+        fileTypes: ["html", "txt"],
+        extract: { text: true, metadata: true },
+        coordinateStrategy: "hash",
+      },
+    ],
+    indexDestination,
+    options: {
+      recursive: true,
+      followSymlinks: false,
+      ignoreHidden: true,
+      maxFileSize: 1000,
+    },
+    autoTagging: {
+      enabled: false,
+      extractFromFilename: false,
+      extractFromPath: false,
+      extractFromContent: false,
+      useMetadata: false,
+    },
+  };
+  return new FileHarvester(config);
+}
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-http-test-"));
+  site = serve((url) =>
+    siteDown ? { status: 503, body: "Down for maintenance" } : route(url),
+  );
+  elsewhere = serve(() => ({ status: 200, body: page("<p>Elsewhere</p>") }));
+  origin = await listen(site, "127.0.0.1");
+  elsewhereOrigin = await listen(elsewhere, "127.0.0.2");
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  requested = [];
+  streamed = 0;
+  siteDown = false;
+  sitemapPath = "/sitemap.xml.gz";
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => site.close(resolve));
+  await new Promise((resolve) => elsewhere.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("http-source parsing", () => {
+  it("picks the most specific robots.txt rule", () => {
+    const rules = RobotsRules.parse(
+      "User-agent: *\nDisallow: /private\nAllow: /private/open$\nCrawl-delay: 2",
+      "KnowledgeCentreHarvester/1.0",
+    );
+
+    expect(rules.isAllowed("/private/notes")).toBe(false);
+    expect(rules.isAllowed("/private/open")).toBe(true);
+    expect(rules.isAllowed("/public")).toBe(true);
+    expect(rules.crawlDelay).toBe(2);
+  });
+
+  it("reads links, canonical and robots meta from a page", () => {
+    const links = readPageLinks(
+      `<base href="/docs/"><link rel="canonical" href="intro">` +
+        `<meta name="robots" content="nofollow">` +
+        `<a href="a.html#top">A</a><a href="a.html">A again</a>` +
+        `<a href="mailto:office@school.test">Mail</a>`,
+      "https://school.test/index.html",
+    );
+
+    expect(links).toEqual({
+      canonical: "https://school.test/docs/intro",
+      links: ["https://school.test/docs/a.html"],
+      noindex: false,
+      nofollow: true,
+    });
+  });
+
+  it("separates sitemap pages from nested sitemaps", () => {
+    const sitemap = parseSitemap(
+      `<sitemapindex><sitemap><loc>https://school.test/more.xml</loc></sitemap></sitemapindex>` +
+        `<urlset><url><loc>https://school.test/a?x=1&amp;y=2</loc>` +
+        `<lastmod>2024-03-01</lastmod></url></urlset>`,
+    );
+
+    expect(sitemap.sitemaps).toEqual(["https://school.test/more.xml"]);
+    expect(sitemap.pages).toEqual([
+      {
+        url: "https://school.test/a?x=1&y=2",
+        lastModified: new Date("2024-03-01"),
+      },
+    ]);
+  });
+});
+
+describe("FileHarvester http source", () => {
+  it("crawls within robots.txt, depth and the allowed domains", async () => {
+    const harvester = harvesterFor(path.join(dir, "crawl.jsonl"));
+    const items = await harvester.harvest();
+
+    expect(items.map((item) => item.originalPath).sort()).toEqual([
+      `${origin}/`,
+      `${origin}/a-canonical`,
+      `${origin}/borrowed`,
+      `${origin}/from-sitemap`,
+    ]);
+    expect(requested).not.toContain(`${origin.substring(7)}/private/secret`);
+    expect(requested).not.toContain(`${origin.substring(7)}/deep`);
+    expect(requested).not.toContain(`${elsewhereOrigin.substring(7)}/offsite`);
+
+    const a = items.find((item) => item.originalPath.endsWith("/a-canonical"));
+    expect(a?.textContent).toContain("Fractions and decimals.");
+    expect(a?.metadata).toMatchObject({ url: `${origin}/a`, etag: '"a-1"' });
+  });
+
+  it("checks every redirect hop against the domains and robots.txt", async () => {
+    const harvester = harvesterFor(path.join(dir, "redirect.jsonl"));
+    await harvester.harvest();
+    const errors = harvester.getProgress().errors;
+
+    expect(errors).toContainEqual(
+      expect.objectContaining({
+        file: `${origin}/moved`,
+        error: `Redirected outside the allowed domains, to ${elsewhereOrigin}/landing`,
+      }),
+    );
+    expect(errors).toContainEqual(
+      expect.objectContaining({
+        file: `${origin}/to-private`,
+        error: `Redirected to ${origin}/private/secret, which robots.txt disallows`,
+      }),
+    );
+    expect(errors).toContainEqual(
+      expect.objectContaining({
+        file: `${origin}/loop/0`,
+        error: "More than 5 redirects",
+      }),
+    );
+    expect(requested).not.toContain(`${elsewhereOrigin.substring(7)}/landing`);
+    expect(requested).not.toContain(`${origin.substring(7)}/private/secret`);
+    expect(requested).not.toContain(`${origin.substring(7)}/loop/6`);
+  });
+
+  it("stops reading bodies past the maximum file size", async () => {
+    const harvester = harvesterFor(path.join(dir, "size.jsonl"));
+    await harvester.harvest();
+    const errors = harvester.getProgress().errors;
+
+    for (const url of [`${origin}/big`, `${origin}/big-stream`]) {
+      expect(errors).toContainEqual(
+        expect.objectContaining({
+          file: url,
+          error: "Larger than the maximum file size (1000 bytes)",
+        }),
+      );
+    }
+    expect(streamed).toBeLessThan(4 * 1024 * 1024);
+  });
+
+  it("revalidates unchanged pages with their ETag", async () => {
+    const index = path.join(dir, "revalidate.jsonl");
+    await harvesterFor(index).harvest();
+
+    const harvester = harvesterFor(index);
+    const items = await harvester.harvest();
+
+    expect(harvester.getProgress().stats.filesUnchanged).toBeGreaterThan(0);
+    expect(
+      items.find((item) => item.originalPath === `${origin}/a-canonical`)
+        ?.textContent,
+    ).toContain("Fractions and decimals.");
+  });
+
+  it("keeps the indexed pages while the seed cannot be fetched", async () => {
+    const index = path.join(dir, "down.jsonl");
+    await harvesterFor(index).harvest();
+
+    siteDown = true;
+    const down = harvesterFor(index);
+    await down.harvest();
+    expect(down.getProgress().stats.filesDeleted).toBe(0);
+    expect(down.getProgress().errors).toContainEqual(
+      expect.objectContaining({
+        file: `${origin}/`,
+        error: `Could not fetch any seed URL (${origin}/)`,
+      }),
+    );
+
+    siteDown = false;
+    const back = harvesterFor(index);
+    await back.harvest();
+    expect(back.getProgress().stats).toMatchObject({
+      filesAdded: 0,
+      filesDeleted: 0,
+    });
+  });
+
+  it("records an unreadable gzipped sitemap as an error", async () => {
+    sitemapPath = "/broken.xml.gz";
+    const harvester = harvesterFor(path.join(dir, "sitemap.jsonl"), {
+      maxDepth: 0,
+    });
+    const items = await harvester.harvest();
+
+    expect(items.map((item) => item.originalPath)).toEqual([`${origin}/`]);
+    expect(harvester.getProgress().errors).toEqual([
+      expect.objectContaining({
+        file: `${origin}/broken.xml.gz`,
+        error: expect.stringContaining("Unreadable gzipped sitemap"),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,571 @@
+/**
+ * HTTP Source - Polite website crawling
+ *
+ * Fetches pages one at a time per site, honouring robots.txt (rules and
+ * Crawl-delay), and sends ETag/Last-Modified validators so unchanged pages
+ * come back as 304 Not Modified. Sitemaps and links are parsed here; the
+ * harvester owns the crawl frontier.
+ */
+
+import * as zlib from "zlib";
+import { attribute } from "./extractors/html";
+import { decodeEntities } from "./extractors/markup";
+
+/**
+ * Fetched response
+ */
+export interface HttpResponse {
+  url: string; // Final URL, after redirects
+  status: number;
+  headers: Record<string, string>; // Lowercase names
+  body: Buffer;
+  truncated: boolean; // Body cut off at the size limit
+  refused?: string; // Why a redirect was not followed; url is its target
+}
+
+/**
+ * Conditional request validators from an earlier fetch
+ */
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Sitemap entry
+ */
+export interface SitemapPage {
+  url: string;
+  lastModified?: Date;
+}
+
+/**
+ * Links and robots directives found in a page
+ */
+export interface PageLinks {
+  canonical?: string;
+  links: string[];
+  noindex: boolean;
+  nofollow: boolean;
+}
+
+/**
+ * Crawler options
+ */
+export interface HttpCrawlerOptions {
+  userAgent: string;
+  delayMs: number; // Minimum gap between requests to one site
+  timeoutMs: number;
+  respectRobots: boolean;
+  maxBytes?: number; // Page bodies are not read past this
+  allowedDomains?: string[]; // Redirects are only followed to these hosts
+  maxRedirects?: number; // Default 5
+}
+
+const ROBOTS_MAX_BYTES = 500 * 1024; // Rules past this are ignored
+const SITEMAP_MAX_BYTES = 50 * 1024 * 1024; // The sitemap protocol's limit
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Allow or Disallow line
+ */
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // Longer (more specific) rules win
+}
+
+/**
+ * robots.txt rules for one user agent
+ */
+export class RobotsRules {
+  private constructor(
+    private readonly rules: RobotsRule[],
+    readonly crawlDelay: number | undefined, // seconds
+    readonly sitemaps: string[],
+  ) {}
+
+  static allowAll(): RobotsRules {
+    return new RobotsRules([], undefined, []);
+  }
+
+  static disallowAll(): RobotsRules {
+    return new RobotsRules(
+      [{ allow: false, pattern: /^\//, length: 1 }],
+      undefined,
+      [],
+    );
+  }
+
+  /**
+   * Parse robots.txt, keeping the group that best matches the user agent
+   * (its own product token, else "*")
+   */
+  static parse(text: string, userAgent: string): RobotsRules {
+    const token = userAgent.split("/")[0].toLowerCase();
+    const groups: { agents: string[]; lines: [string, string][] }[] = [];
+    const sitemaps: string[] = [];
+    let current: { agents: string[]; lines: [string, string][] } | undefined;
+
+    for (const raw of text.split(/\r?\n/)) {
+      const line = raw.replace(/#.*$/, "").trim();
+      const colon = line.indexOf(":");
+      if (colon === -1) continue;
+
+      const field = line.substring(0, colon).trim().toLowerCase();
+      const value = line.substring(colon + 1).trim();
+
+      if (field === "sitemap") {
+        sitemaps.push(value);
+      } else if (field === "user-agent") {
+        // Consecutive user-agent lines share one group
+        if (!current || current.lines.length) {
+          current = { agents: [], lines: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+      } else if (current) {
+        current.lines.push([field, value]);
+      }
+    }
+
+    const group =
+      groups.find((g) =>
+        g.agents.some((agent) => token.includes(agent) && agent !== "*"),
+      ) || groups.find((g) => g.agents.includes("*"));
+
+    const rules: RobotsRule[] = [];
+    let crawlDelay: number | undefined;
+    for (const [field, value] of group?.lines || []) {
+      if ((field === "allow" || field === "disallow") && value) {
+        rules.push({
+          allow: field === "allow",
+          pattern: robotsPattern(value),
+          length: value.length,
+        });
+      } else if (field === "crawl-delay" && !isNaN(parseFloat(value))) {
+        crawlDelay = parseFloat(value);
+      }
+    }
+
+    return new RobotsRules(rules, crawlDelay, sitemaps);
+  }
+
+  /**
+   * Longest matching rule wins; Allow wins a tie
+   */
+  isAllowed(pathAndQuery: string): boolean {
+    let best: RobotsRule | undefined;
+    for (const rule of this.rules) {
+      if (!rule.pattern.test(pathAndQuery)) continue;
+      if (
+        !best ||
+        rule.length > best.length ||
+        (rule.length === best.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+    return best ? best.allow : true;
+  }
+}
+
+/**
+ * robots.txt path pattern ("*" wildcard, "$" end anchor)
+ */
+function robotsPattern(value: string): RegExp {
+  const anchored = value.endsWith("$");
+  const body = (anchored ? value.slice(0, -1) : value)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "text/plain": "txt",
+  "text/markdown": "md",
+  "text/css": "css",
+  "application/json": "json",
+  "application/xml": "xml",
+  "text/xml": "xml",
+  "application/pdf": "pdf",
+  "application/rtf": "rtf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+    "pptx",
+  "application/vnd.oasis.opendocument.text": "odt",
+};
+
+/**
+ * File extension for a response, from its content type or else its URL
+ */
+export function extensionFor(contentType: string, url: string): string {
+  const known = EXTENSIONS[contentType];
+  if (known) return known;
+
+  const name = new URL(url).pathname.split("/").pop() || "";
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.substring(dot + 1).toLowerCase() : "html";
+}
+
+/**
+ * Normalize a (possibly relative) http(s) URL, dropping the fragment
+ */
+export function normalizeUrl(url: string, base?: string): string | undefined {
+  try {
+    const parsed = new URL(url.trim(), base);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return undefined;
+    }
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a host is one of the domains or a subdomain of one
+ */
+export function isAllowedHost(host: string, domains: string[]): boolean {
+  const lower = host.toLowerCase();
+  return domains.some((domain) => {
+    const d = domain.toLowerCase().replace(/^\./, "");
+    return lower === d || lower.endsWith(`.${d}`);
+  });
+}
+
+/**
+ * Read <base>, <link rel="canonical">, <a href> and meta robots from a page
+ */
+export function readPageLinks(html: string, pageUrl: string): PageLinks {
+  const markup = html.replace(/<!--[\s\S]*?-->/g, "");
+
+  const baseTag = markup.match(/<base\b[^>]*>/i);
+  const baseHref = baseTag && attribute(baseTag[0], "href");
+  const base = (baseHref && normalizeUrl(baseHref, pageUrl)) || pageUrl;
+
+  const result: PageLinks = { links: [], noindex: false, nofollow: false };
+
+  for (const tag of markup.match(/<link\b[^>]*>/gi) || []) {
+    const rel = attribute(tag, "rel")?.toLowerCase().split(/\s+/) || [];
+    const href = attribute(tag, "href");
+    if (rel.includes("canonical") && href && !result.canonical) {
+      result.canonical = normalizeUrl(href, base);
+    }
+  }
+
+  for (const tag of markup.match(/<meta\b[^>]*>/gi) || []) {
+    if (attribute(tag, "name")?.toLowerCase() !== "robots") continue;
+    const directives = (attribute(tag, "content") || "").toLowerCase();
+    result.noindex ||= /\b(noindex|none)\b/.test(directives);
+    result.nofollow ||= /\b(nofollow|none)\b/.test(directives);
+  }
+
+  const seen = new Set<string>();
+  for (const tag of markup.match(/<a\b[^>]*>/gi) || []) {
+    const href = attribute(tag, "href");
+    const rel = attribute(tag, "rel")?.toLowerCase() || "";
+    if (!href || /\bnofollow\b/.test(rel)) continue;
+
+    const url = normalizeUrl(href, base);
+    if (url && !seen.has(url)) {
+      seen.add(url);
+      result.links.push(url);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): {
+  pages: SitemapPage[];
+  sitemaps: string[];
+} {
+  const pages: SitemapPage[] = [];
+  const sitemaps: string[] = [];
+  const text = (element: string, name: string) => {
+    const match = element.match(
+      new RegExp(
+        `<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)<\\/(?:\\w+:)?${name}>`,
+        "i",
+      ),
+    );
+    return match
+      ? decodeEntities(match[1].replace(/<!\[CDATA\[|\]\]>/g, "")).trim()
+      : undefined;
+  };
+
+  for (const [element, kind] of [
+    ...[...xml.matchAll(/<(?:\w+:)?url\b[\s\S]*?<\/(?:\w+:)?url>/gi)].map(
+      (m) => [m[0], "url"] as const,
+    ),
+    ...[
+      ...xml.matchAll(/<(?:\w+:)?sitemap\b[\s\S]*?<\/(?:\w+:)?sitemap>/gi),
+    ].map((m) => [m[0], "sitemap"] as const),
+  ]) {
+    const loc = text(element, "loc");
+    if (!loc) continue;
+
+    if (kind === "sitemap") {
+      sitemaps.push(loc);
+    } else {
+      const lastmod = text(element, "lastmod");
+      const date = lastmod ? new Date(lastmod) : undefined;
+      pages.push({
+        url: loc,
+        lastModified: date && !isNaN(date.getTime()) ? date : undefined,
+      });
+    }
+  }
+
+  return { pages, sitemaps };
+}
+
+/**
+ * Fetches with per-site politeness and robots.txt checks
+ */
+export class HttpCrawler {
+  private robots = new Map<string, Promise<RobotsRules>>();
+  private lastRequest = new Map<string, number>();
+
+  constructor(private readonly options: HttpCrawlerOptions) {}
+
+  /**
+   * Check robots.txt for a URL
+   */
+  async isAllowed(url: string): Promise<boolean> {
+    if (!this.options.respectRobots) return true;
+
+    const parsed = new URL(url);
+    const rules = await this.robotsFor(parsed.origin);
+    return rules.isAllowed(parsed.pathname + parsed.search);
+  }
+
+  /**
+   * Sitemap URLs listed in a site's robots.txt
+   */
+  async robotsSitemaps(origin: string): Promise<string[]> {
+    return (await this.robotsFor(origin)).sitemaps;
+  }
+
+  /**
+   * GET a URL, waiting out the site's request gap first
+   * The body is cut off at maxBytes (default: the maxBytes option).
+   * Redirects are followed one hop at a time, each checked against the
+   * allowed domains and robots.txt before it is requested; a refused hop
+   * comes back as the redirect response, with refused set.
+   */
+  async fetch(
+    url: string,
+    validators?: HttpValidators,
+    maxBytes = this.options.maxBytes,
+  ): Promise<HttpResponse> {
+    const maxRedirects = this.options.maxRedirects ?? MAX_REDIRECTS;
+
+    for (let hops = 0; ; hops++) {
+      const origin = new URL(url).origin;
+      const rules = this.options.respectRobots
+        ? await this.robotsFor(origin)
+        : undefined;
+      await this.waitTurn(origin, rules?.crawlDelay);
+
+      const response = await this.request(url, validators, maxBytes);
+      const location = response.headers["location"];
+      if (!REDIRECT_STATUSES.has(response.status) || !location) {
+        return response;
+      }
+      if (hops >= maxRedirects) {
+        throw new Error(`More than ${maxRedirects} redirects`);
+      }
+
+      url = new URL(location, url).href;
+      const domains = this.options.allowedDomains;
+      if (domains && !isAllowedHost(new URL(url).hostname, domains)) {
+        return {
+          ...response,
+          url,
+          refused: `Redirected outside the allowed domains, to ${url}`,
+        };
+      }
+      if (!(await this.isAllowed(url))) {
+        return {
+          ...response,
+          url,
+          refused: `Redirected to ${url}, which robots.txt disallows`,
+        };
+      }
+    }
+  }
+
+  /**
+   * Read all pages from a sitemap, following sitemap indexes
+   * Sitemaps that cannot be read are passed to onError and skipped.
+   */
+  async readSitemaps(
+    urls: string[],
+    options: {
+      maxFiles?: number;
+      onError?: (url: string, error: Error) => void;
+    } = {},
+  ): Promise<SitemapPage[]> {
+    const maxFiles = options.maxFiles ?? 50;
+    const pages: SitemapPage[] = [];
+    const queue = [...urls];
+    const done = new Set<string>();
+
+    while (queue.length && done.size < maxFiles) {
+      const url = queue.shift() as string;
+      if (done.has(url)) continue;
+      done.add(url);
+
+      const response = await this.fetch(
+        url,
+        undefined,
+        SITEMAP_MAX_BYTES,
+      ).catch(() => undefined);
+      if (!response || response.status !== 200) continue;
+      if (response.truncated) {
+        options.onError?.(
+          url,
+          new Error(`Sitemap larger than ${SITEMAP_MAX_BYTES} bytes`),
+        );
+        continue;
+      }
+
+      // Gzipped sitemap files (not just gzip transfer encoding)
+      let body = response.body;
+      if (body[0] === 0x1f && body[1] === 0x8b) {
+        try {
+          body = zlib.gunzipSync(body, { maxOutputLength: SITEMAP_MAX_BYTES });
+        } catch (error) {
+          options.onError?.(
+            url,
+            new Error(
+              (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE"
+                ? `Sitemap unpacks to more than ${SITEMAP_MAX_BYTES} bytes`
+                : `Unreadable gzipped sitemap: ${(error as Error).message}`,
+            ),
+          );
+          continue;
+        }
+      }
+
+      const sitemap = parseSitemap(body.toString("utf8"));
+      pages.push(...sitemap.pages);
+      queue.push(...sitemap.sitemaps);
+    }
+
+    return pages;
+  }
+
+  private robotsFor(origin: string): Promise<RobotsRules> {
+    let rules = this.robots.get(origin);
+    if (!rules) {
+      rules = (async () => {
+        await this.waitTurn(origin);
+        try {
+          // Redirects are followed here: only the rules are read
+          const response = await this.request(
+            `${origin}/robots.txt`,
+            undefined,
+            ROBOTS_MAX_BYTES,
+            "follow",
+          );
+          if (response.status >= 200 && response.status < 300) {
+            return RobotsRules.parse(
+              response.body.toString("utf8"),
+              this.options.userAgent,
+            );
+          }
+          // Server errors mean the site is not ready to be crawled
+          return response.status >= 500
+            ? RobotsRules.disallowAll()
+            : RobotsRules.allowAll();
+        } catch {
+          return RobotsRules.allowAll();
+        }
+      })();
+      this.robots.set(origin, rules);
+    }
+    return rules;
+  }
+
+  private async waitTurn(origin: string, crawlDelay?: number): Promise<void> {
+    const gap = Math.max(this.options.delayMs, (crawlDelay || 0) * 1000);
+    const last = this.lastRequest.get(origin);
+    const wait = last === undefined ? 0 : last + gap - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    this.lastRequest.set(origin, Date.now());
+  }
+
+  private async request(
+    url: string,
+    validators?: HttpValidators,
+    maxBytes?: number,
+    redirect: "follow" | "manual" = "manual",
+  ): Promise<HttpResponse> {
+    const headers: Record<string, string> = {
+      "user-agent": this.options.userAgent,
+    };
+    if (validators?.etag) headers["if-none-match"] = validators.etag;
+    if (validators?.lastModified) {
+      headers["if-modified-since"] = validators.lastModified;
+    }
+
+    const response = await fetch(url, {
+      headers,
+      redirect,
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+
+    const result: HttpResponse = {
+      url: response.url || url,
+      status: response.status,
+      headers: {},
+      body: Buffer.alloc(0),
+      truncated: false,
+    };
+    response.headers.forEach((value, name) => {
+      result.headers[name.toLowerCase()] = value;
+    });
+
+    // A declared length over the limit is not downloaded at all
+    const declared = Number(result.headers["content-length"]);
+    if (maxBytes !== undefined && declared > maxBytes) {
+      await response.body?.cancel();
+      result.truncated = true;
+      return result;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const reader = response.body?.getReader();
+    for (;;) {
+      const chunk = reader && (await reader.read());
+      if (!chunk || chunk.done) break;
+
+      if (maxBytes !== undefined && size + chunk.value.length > maxBytes) {
+        chunks.push(Buffer.from(chunk.value.subarray(0, maxBytes - size)));
+        result.truncated = true;
+        await reader.cancel();
+        break;
+      }
+      chunks.push(Buffer.from(chunk.value));
+      size += chunk.value.length;
+    }
+    result.body = Buffer.concat(chunks);
+    return result;
+  }
+}
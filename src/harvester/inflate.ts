@@ -0,0 +1,48 @@
+/**
+ * Inflate Budget - Cap on the bytes decompressed from one document
+ *
+ * A document can hold many compressed parts (PDF streams, ZIP entries of
+ * an office file, PNG text chunks). Each zlib call is capped at what is
+ * left of a budget shared by the whole document, so neither one part nor
+ * many small ones can expand without bound.
+ */
+
+export const DEFAULT_INFLATE_BUDGET = 256 * 1024 * 1024; // bytes per document
+
+/**
+ * Decompression budget for one document
+ */
+export class InflateBudget {
+  private remaining: number;
+
+  constructor(private readonly total = DEFAULT_INFLATE_BUDGET) {
+    this.remaining = total;
+  }
+
+  /**
+   * Run a zlib call with maxOutputLength set to what is left (or to limit,
+   * e.g. a declared size, when lower), then charge its output
+   */
+  inflate(run: (maxOutputLength: number) => Buffer, limit = Infinity): Buffer {
+    const maxOutputLength = Math.min(limit, this.remaining);
+    if (maxOutputLength < 1) {
+      throw new Error(`Document inflates to more than ${this.total} bytes`);
+    }
+
+    let output: Buffer;
+    try {
+      output = run(maxOutputLength);
+    } catch (error) {
+      if (
+        (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE" &&
+        maxOutputLength === this.remaining
+      ) {
+        throw new Error(`Document inflates to more than ${this.total} bytes`);
+      }
+      throw error;
+    }
+
+    this.remaining -= output.length;
+    return output;
+  }
+}
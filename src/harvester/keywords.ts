@@ -0,0 +1,153 @@
+/**
+ * Keywords - Key terms and phrases by TF-IDF over the harvest corpus
+ *
+ * Candidates are words and phrases of up to three words that do not span
+ * stopwords or punctuation. Each is weighed by how often the document uses
+ * it against how many documents of the corpus do, so words every document
+ * shares fall away and words particular to one document rise.
+ */
+
+import { isContentToken, tokenize } from "./text-analysis";
+
+/**
+ * Document to extract keywords from
+ */
+export interface KeywordDocument {
+  text: string;
+  language?: string; // ISO 639-1 code, selects stopwords
+}
+
+/**
+ * Keyword options
+ */
+export interface KeywordOptions {
+  maxKeywords?: number; // per document (default 10)
+  maxPhraseLength?: number; // words (default 3)
+}
+
+const SAMPLE_LENGTH = 100_000; // Characters of a long text that are examined
+const MIN_PHRASE_COUNT = 2; // A phrase used once is not a key phrase
+const PHRASE_BONUS = 0.5; // Extra weight per word beyond the first
+
+/**
+ * Candidate terms of a text and how often each occurs
+ */
+export function candidateTerms(
+  text: string,
+  language?: string,
+  maxPhraseLength = 3,
+): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  // Phrases never cross punctuation
+  const clauses = text
+    .substring(0, SAMPLE_LENGTH)
+    .split(/[.,;:!?()[\]{}"“”«»„|/\\\n\r\t…]+|\s[-–—]\s/);
+
+  for (const clause of clauses) {
+    let run: string[] = [];
+    for (const token of [...tokenize(clause), ""]) {
+      if (token && isContentToken(token, language)) {
+        run.push(token);
+        continue;
+      }
+      // A stopword ends the run of content words
+      for (let start = 0; start < run.length; start++) {
+        for (let n = 1; n <= maxPhraseLength && start + n <= run.length; n++) {
+          const term = run.slice(start, start + n).join(" ");
+          counts.set(term, (counts.get(term) || 0) + 1);
+        }
+      }
+      run = [];
+    }
+  }
+
+  for (const [term, count] of counts) {
+    const words = term.split(" ");
+    if (words.length === 1 ? term.length < 3 : count < MIN_PHRASE_COUNT) {
+      counts.delete(term);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Document frequencies of terms over a corpus
+ */
+export class KeywordCorpus {
+  private documentFrequency = new Map<string, number>();
+  private documents = 0;
+
+  /**
+   * Count a document's terms
+   */
+  add(terms: Map<string, number>): void {
+    this.documents++;
+    for (const term of terms.keys()) {
+      this.documentFrequency.set(
+        term,
+        (this.documentFrequency.get(term) || 0) + 1,
+      );
+    }
+  }
+
+  /**
+   * Smoothed inverse document frequency
+   */
+  idf(term: string): number {
+    const frequency = this.documentFrequency.get(term) || 0;
+    return Math.log((1 + this.documents) / (1 + frequency)) + 1;
+  }
+
+  /**
+   * Best terms of a document
+   * Terms inside a phrase already chosen are skipped; ties go to the
+   * alphabetically first term, so results do not depend on input order.
+   */
+  keywords(terms: Map<string, number>, maxKeywords = 10): string[] {
+    const ranked = [...terms]
+      .map(([term, count]) => ({
+        term,
+        score:
+          (1 + Math.log(count)) *
+          this.idf(term) *
+          (1 + PHRASE_BONUS * (term.split(" ").length - 1)),
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score || (a.term < b.term ? -1 : a.term > b.term ? 1 : 0),
+      );
+
+    const chosen: string[] = [];
+    for (const { term } of ranked) {
+      if (chosen.length >= maxKeywords) break;
+      if (chosen.some((phrase) => ` ${phrase} `.includes(` ${term} `))) {
+        continue;
+      }
+      chosen.push(term);
+    }
+    return chosen;
+  }
+}
+
+/**
+ * Keywords of every document, weighed against the documents together
+ */
+export function corpusKeywords(
+  documents: KeywordDocument[],
+  options: KeywordOptions = {},
+): string[][] {
+  const corpus = new KeywordCorpus();
+  const terms = documents.map((document) =>
+    candidateTerms(
+      document.text,
+      document.language,
+      options.maxPhraseLength ?? 3,
+    ),
+  );
+  terms.forEach((counts) => corpus.add(counts));
+
+  return terms.map((counts) =>
+    corpus.keywords(counts, options.maxKeywords ?? 10),
+  );
+}
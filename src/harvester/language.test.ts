@@ -0,0 +1,54 @@
+import { detectLanguage, normalizeLanguageTag } from "./language";
+
+describe("detectLanguage", () => {
+  it("tells Latin-script languages apart", () => {
+    expect(
+      detectLanguage(
+        "The children planted seeds in the school garden and watered them every morning before lessons.",
+      ),
+    ).toBe("en");
+    expect(
+      detectLanguage(
+        "Les enfants ont planté des graines dans le jardin de l'école et les arrosent chaque matin.",
+      ),
+    ).toBe("fr");
+    expect(
+      detectLanguage(
+        "Die Kinder haben im Schulgarten Samen gepflanzt und gießen sie jeden Morgen vor dem Unterricht.",
+      ),
+    ).toBe("de");
+    expect(
+      detectLanguage(
+        "Los niños plantaron semillas en el jardín de la escuela y las riegan todas las mañanas.",
+      ),
+    ).toBe("es");
+  });
+
+  it("reads the script, then the letters peculiar to a language", () => {
+    expect(
+      detectLanguage(
+        "Дети посадили семена в школьном саду и поливают их каждое утро.",
+      ),
+    ).toBe("ru");
+    expect(
+      detectLanguage(
+        "Діти посадили насіння в шкільному саду і поливають його щоранку.",
+      ),
+    ).toBe("uk");
+    expect(
+      detectLanguage("子どもたちは学校の庭に種をまき、毎朝水をやっています。"),
+    ).toBe("ja");
+  });
+
+  it("leaves short texts undetected", () => {
+    expect(detectLanguage("OK")).toBeUndefined();
+  });
+});
+
+describe("normalizeLanguageTag", () => {
+  it("keeps the primary ISO 639-1 subtag", () => {
+    expect(normalizeLanguageTag("en-GB")).toBe("en");
+    expect(normalizeLanguageTag(" pt_BR ")).toBe("pt");
+    expect(normalizeLanguageTag("english")).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Language Detection - Offline ISO 639-1 language identification
+ *
+ * Scripts with one dominant language (Greek, Hangul, kana, ...) are
+ * decided by their characters. Latin-script text is compared against
+ * character trigram profiles built from the reference samples below,
+ * by cosine similarity of trigram frequencies and shared words.
+ */
+
+// Reference text per Latin-script language: the first articles of the
+// Universal Declaration of Human Rights and everyday sentences
+const LATIN_SAMPLES: Record<string, string> = {
+  en:
+    "All human beings are born free and equal in dignity and rights. They are endowed with reason and conscience and should act towards one another in a spirit of brotherhood. " +
+    "Everyone has the right to life, liberty and security of person. " +
+    "The children were reading their books in the library while the teacher explained what would happen next and why it was important for them to understand the world. " +
+    "It is not what we have but what we do with it that makes us who we are, and this is true for all of us.",
+  fr:
+    "Tous les êtres humains naissent libres et égaux en dignité et en droits. Ils sont doués de raison et de conscience et doivent agir les uns envers les autres dans un esprit de fraternité. " +
+    "Tout individu a droit à la vie, à la liberté et à la sûreté de sa personne. " +
+    "Les enfants lisaient leurs livres dans la bibliothèque pendant que le professeur expliquait ce qui allait se passer et pourquoi il était important pour eux de comprendre le monde. " +
+    "Ce n'est pas ce que nous avons mais ce que nous en faisons qui fait de nous ce que nous sommes, et cela est vrai pour nous tous.",
+  de:
+    "Alle Menschen sind frei und gleich an Würde und Rechten geboren. Sie sind mit Vernunft und Gewissen begabt und sollen einander im Geist der Brüderlichkeit begegnen. " +
+    "Jeder hat das Recht auf Leben, Freiheit und Sicherheit der Person. " +
+    "Die Kinder lasen ihre Bücher in der Bibliothek, während der Lehrer erklärte, was als Nächstes geschehen würde und warum es für sie wichtig war, die Welt zu verstehen. " +
+    "Es ist nicht das, was wir haben, sondern was wir damit machen, das uns zu dem macht, was wir sind, und das gilt für uns alle.",
+  es:
+    "Todos los seres humanos nacen libres e iguales en dignidad y derechos y, dotados como están de razón y conciencia, deben comportarse fraternalmente los unos con los otros. " +
+    "Todo individuo tiene derecho a la vida, a la libertad y a la seguridad de su persona. " +
+    "Los niños leían sus libros en la biblioteca mientras el profesor explicaba lo que iba a pasar y por qué era importante para ellos entender el mundo. " +
+    "No es lo que tenemos sino lo que hacemos con ello lo que nos hace ser quienes somos, y esto es cierto para todos nosotros.",
+  it:
+    "Tutti gli esseri umani nascono liberi ed eguali in dignità e diritti. Essi sono dotati di ragione e di coscienza e devono agire gli uni verso gli altri in spirito di fratellanza. " +
+    "Ogni individuo ha diritto alla vita, alla libertà ed alla sicurezza della propria persona. " +
+    "I bambini leggevano i loro libri nella biblioteca mentre l'insegnante spiegava che cosa sarebbe successo e perché era importante per loro capire il mondo. " +
+    "Non è quello che abbiamo ma quello che ne facciamo che ci rende ciò che siamo, e questo vale per tutti noi.",
+  pt:
+    "Todos os seres humanos nascem livres e iguais em dignidade e em direitos. Dotados de razão e de consciência, devem agir uns para com os outros em espírito de fraternidade. " +
+    "Todo o indivíduo tem direito à vida, à liberdade e à segurança pessoal. " +
+    "As crianças liam os seus livros na biblioteca enquanto o professor explicava o que ia acontecer e porque era importante para elas compreender o mundo. " +
+    "Não é o que temos mas o que fazemos com isso que nos torna quem somos, e isto é verdade para todos nós.",
+  nl:
+    "Alle mensen worden vrij en gelijk in waardigheid en rechten geboren. Zij zijn begiftigd met verstand en geweten, en behoren zich jegens elkander in een geest van broederschap te gedragen. " +
+    "Een ieder heeft recht op leven, vrijheid en onschendbaarheid van zijn persoon. " +
+    "De kinderen lazen hun boeken in de bibliotheek terwijl de leraar uitlegde wat er daarna zou gebeuren en waarom het voor hen belangrijk was om de wereld te begrijpen. " +
+    "Het is niet wat we hebben maar wat we ermee doen dat ons maakt tot wie we zijn, en dat geldt voor ons allemaal.",
+  sv:
+    "Alla människor är födda fria och lika i värde och rättigheter. De är utrustade med förnuft och samvete och bör handla gentemot varandra i en anda av broderskap. " +
+    "Var och en har rätt till liv, frihet och personlig säkerhet. " +
+    "Barnen läste sina böcker i biblioteket medan läraren förklarade vad som skulle hända sedan och varför det var viktigt för dem att förstå världen. " +
+    "Det är inte vad vi har utan vad vi gör med det som gör oss till dem vi är, och det gäller för oss alla.",
+  pl:
+    "Wszyscy ludzie rodzą się wolni i równi pod względem swej godności i swych praw. Są oni obdarzeni rozumem i sumieniem i powinni postępować wobec innych w duchu braterstwa. " +
+    "Każdy człowiek ma prawo do życia, wolności i bezpieczeństwa swojej osoby. " +
+    "Dzieci czytały swoje książki w bibliotece, podczas gdy nauczyciel wyjaśniał, co stanie się dalej i dlaczego ważne jest, aby zrozumiały świat. " +
+    "To nie jest to, co mamy, ale to, co z tym robimy, czyni nas tym, kim jesteśmy, i to jest prawda dla nas wszystkich.",
+};
+
+// Scripts decided by character class alone
+const SCRIPTS: { language: string; pattern: RegExp }[] = [
+  { language: "ja", pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { language: "ko", pattern: /\p{Script=Hangul}/gu },
+  { language: "zh", pattern: /\p{Script=Han}/gu },
+  { language: "el", pattern: /\p{Script=Greek}/gu },
+  { language: "he", pattern: /\p{Script=Hebrew}/gu },
+  { language: "ar", pattern: /\p{Script=Arabic}/gu },
+  { language: "hi", pattern: /\p{Script=Devanagari}/gu },
+  { language: "th", pattern: /\p{Script=Thai}/gu },
+  { language: "ru", pattern: /\p{Script=Cyrillic}/gu },
+];
+
+const MIN_LETTERS = 20; // Less text than this is not worth a guess
+const MIN_SCORE = 0.2;
+const SAMPLE_LENGTH = 10_000; // Characters of a long text that are examined
+
+let profiles:
+  | Map<string, { trigrams: Map<string, number>; words: Set<string> }>
+  | undefined;
+
+/**
+ * Detect the language of a text
+ * Returns an ISO 639-1 code, or undefined when there is too little text
+ * or no profile is a convincing match.
+ */
+export function detectLanguage(text: string): string | undefined {
+  const sample = text.substring(0, SAMPLE_LENGTH);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters < MIN_LETTERS) return undefined;
+
+  // Script counts; Han characters inside Japanese text count as Japanese
+  const counts = SCRIPTS.map(({ language, pattern }) => ({
+    language,
+    count: (sample.match(pattern) || []).length,
+  }));
+  const kana = counts[0].count;
+  const script = counts.reduce((best, next) =>
+    next.count > best.count ? next : best,
+  );
+
+  if (script.count > letters / 2) {
+    if (script.language === "zh" && kana > letters / 20) return "ja";
+    if (script.language === "ru") return cyrillicLanguage(sample);
+    if (script.language === "ar") return arabicLanguage(sample);
+    return script.language;
+  }
+
+  return latinLanguage(sample);
+}
+
+/**
+ * Normalize a declared language tag ('en-US', 'pt_BR') to ISO 639-1
+ */
+export function normalizeLanguageTag(tag: string): string | undefined {
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2}$/.test(primary) ? primary : undefined;
+}
+
+/**
+ * Ukrainian and Belarusian have letters Russian lacks
+ */
+function cyrillicLanguage(text: string): string {
+  if (/[іїєґ]/i.test(text) && !/[ыэъ]/i.test(text)) return "uk";
+  if (/ў/i.test(text)) return "be";
+  if (/[ђћџљњ]/i.test(text)) return "sr";
+  return "ru";
+}
+
+/**
+ * Persian adds letters to the Arabic alphabet
+ */
+function arabicLanguage(text: string): string {
+  return /[پچژگ]/.test(text) ? "fa" : "ar";
+}
+
+/**
+ * Closest Latin-script profile
+ * Scored by trigram similarity plus the share of words the reference
+ * sample shares with the text, which settles short, close calls.
+ */
+function latinLanguage(text: string): string | undefined {
+  profiles ??= new Map(
+    Object.entries(LATIN_SAMPLES).map(([language, sample]) => [
+      language,
+      { trigrams: trigrams(sample), words: new Set(words(sample)) },
+    ]),
+  );
+
+  const counts = trigrams(text);
+  const tokens = words(text);
+  let best: { language: string; score: number } | undefined;
+
+  for (const [language, profile] of profiles) {
+    const shared = tokens.filter((word) => profile.words.has(word)).length;
+    const score =
+      cosine(counts, profile.trigrams) +
+      (tokens.length ? shared / tokens.length : 0);
+    if (!best || score > best.score) {
+      best = { language, score };
+    }
+  }
+
+  return best && best.score >= MIN_SCORE ? best.language : undefined;
+}
+
+/**
+ * Lowercase words
+ */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/\p{L}+/gu) || [];
+}
+
+/**
+ * Character trigram counts of the words in a text, padded with spaces
+ */
+function trigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of words(text)) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const gram = padded.substring(i, i + 3);
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Cosine similarity of two count vectors
+ */
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [gram, count] of a) {
+    dot += count * (b.get(gram) || 0);
+  }
+  const norm = (counts: Map<string, number>) =>
+    Math.sqrt([...counts.values()].reduce((sum, n) => sum + n * n, 0));
+
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+}
@@ -0,0 +1,88 @@
+import { TaskPool, ThroughputMeter } from "./pipeline";
+
+// A task that runs until its release() is called
+function gate(): { task: () => Promise<void>; release: () => void } {
+  let release = () => {};
+  const done = new Promise<void>((resolve) => (release = resolve));
+  return { task: () => done, release };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("TaskPool", () => {
+  it("runs at most concurrency tasks at once", async () => {
+    const pool = new TaskPool(2);
+    let running = 0;
+    let most = 0;
+    for (let i = 0; i < 6; i++) {
+      await pool.submit(async () => {
+        most = Math.max(most, ++running);
+        await tick();
+        running--;
+      });
+    }
+
+    await pool.drain();
+    expect(most).toBe(2);
+    expect(running).toBe(0);
+  });
+
+  it("makes submit() wait while the queue is full", async () => {
+    const pool = new TaskPool(1, 2);
+    const gates = [gate(), gate(), gate(), gate()];
+    await pool.submit(gates[0].task); // Running
+    await pool.submit(gates[1].task); // Queued
+    await pool.submit(gates[2].task); // Queued
+
+    let accepted = false;
+    const submitted = pool.submit(gates[3].task).then(() => {
+      accepted = true;
+    });
+    await tick();
+    expect(accepted).toBe(false);
+
+    gates[0].release();
+    await submitted;
+    expect(accepted).toBe(true);
+
+    gates.slice(1).forEach((held) => held.release());
+    await pool.drain();
+  });
+
+  it("drains after failed tasks", async () => {
+    const pool = new TaskPool(2);
+    const finished: number[] = [];
+    await pool.submit(async () => {
+      throw new Error("Extraction failed");
+    });
+    await pool.submit(async () => {
+      await tick();
+      finished.push(2);
+    });
+
+    await pool.drain();
+    expect(finished).toEqual([2]);
+    await expect(pool.drain()).resolves.toBeUndefined();
+  });
+});
+
+describe("ThroughputMeter", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("rates the completions within its window", () => {
+    jest.useFakeTimers({ now: 0 });
+    const meter = new ThroughputMeter(10_000);
+    expect(meter.rate()).toEqual({ filesPerSecond: 0, bytesPerSecond: 0 });
+
+    jest.setSystemTime(5_000);
+    meter.record(1000);
+    meter.record(4000);
+    expect(meter.rate()).toEqual({ filesPerSecond: 0.4, bytesPerSecond: 1000 });
+
+    jest.setSystemTime(20_000);
+    meter.record(500);
+    expect(meter.rate()).toEqual({ filesPerSecond: 0.1, bytesPerSecond: 50 });
+  });
+});
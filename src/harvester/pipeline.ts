@@ -0,0 +1,97 @@
+/**
+ * Pipeline - Bounded concurrency and throughput for harvesting
+ *
+ * Discovery submits work to a TaskPool, which runs a fixed number of tasks
+ * at once and makes submit() wait while its queue is full, so a fast scan
+ * never runs far ahead of extraction. ThroughputMeter turns completions
+ * into recent rates for the ETA.
+ */
+
+/**
+ * Bounded task pool
+ */
+export class TaskPool {
+  private running = 0;
+  private queue: (() => Promise<void>)[] = [];
+  private submitters: (() => void)[] = []; // Waiting for queue space
+  private idle: (() => void)[] = [];
+
+  constructor(
+    readonly concurrency: number,
+    readonly maxQueued = concurrency * 4,
+  ) {}
+
+  /**
+   * Queue a task, waiting while the queue is full
+   * Tasks handle their own errors; a rejection is ignored.
+   */
+  async submit(task: () => Promise<void>): Promise<void> {
+    while (this.queue.length >= this.maxQueued) {
+      await new Promise<void>((resolve) => this.submitters.push(resolve));
+    }
+    this.queue.push(task);
+    this.pump();
+  }
+
+  /**
+   * Resolve once every submitted task has finished
+   */
+  drain(): Promise<void> {
+    if (!this.running && !this.queue.length) return Promise.resolve();
+    return new Promise((resolve) => this.idle.push(resolve));
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.queue.length) {
+      const task = this.queue.shift() as () => Promise<void>;
+      this.running++;
+      this.submitters.shift()?.();
+
+      task()
+        .catch(() => undefined)
+        .finally(() => {
+          this.running--;
+          this.pump();
+          if (!this.running && !this.queue.length) {
+            this.idle.splice(0).forEach((resolve) => resolve());
+          }
+        });
+    }
+  }
+}
+
+/**
+ * Files and bytes per second over a sliding window
+ */
+export class ThroughputMeter {
+  private samples: { time: number; bytes: number }[] = [];
+  private readonly startedAt = Date.now();
+
+  constructor(private readonly windowMs = 60_000) {}
+
+  record(bytes: number): void {
+    const now = Date.now();
+    this.samples.push({ time: now, bytes });
+    while (this.samples.length && this.samples[0].time < now - this.windowMs) {
+      this.samples.shift();
+    }
+  }
+
+  rate(): { filesPerSecond: number; bytesPerSecond: number } {
+    const now = Date.now();
+    const recent = this.samples.filter(
+      (sample) => sample.time >= now - this.windowMs,
+    );
+    const seconds =
+      (now - Math.max(this.startedAt, now - this.windowMs)) / 1000;
+    if (!recent.length || seconds <= 0) {
+      return { filesPerSecond: 0, bytesPerSecond: 0 };
+    }
+
+    const bytes = recent.reduce((sum, sample) => sum + sample.bytes, 0);
+    return {
+      filesPerSecond: recent.length / seconds,
+      bytesPerSecond: bytes / seconds,
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { HarvestedItem, HarvestProgress } from "./file-harvester";
+import {
+  buildHarvestReport,
+  HarvestReport,
+  renderCsvReport,
+  renderHtmlReport,
+  writeHarvestReport,
+} from "./report";
+
+const RUN = { harvesterId: "school/share", name: "School share" };
+const STARTED = new Date("2024-03-01T09:00:00Z");
+const FINISHED = new Date("2024-03-01T09:01:30Z");
+
+function item(
+  originalPath: string,
+  size: number,
+  tags: string[],
+  coordinate = { ra: 10, dec: 0, alt: 1 },
+): HarvestedItem {
+  return {
+    originalPath,
+    extension: path.extname(originalPath).substring(1),
+    size,
+    mimeType: "text/markdown",
+    storageMode: "pocket",
+    coordinate,
+    metadata: { tags },
+  } as unknown as HarvestedItem;
+}
+
+function progress(): HarvestProgress {
+  return {
+    harvesterId: RUN.harvesterId,
+    status: "completed",
+    startTime: STARTED,
+    currentTime: FINISHED,
+    stats: {
+      filesScanned: 4,
+      filesIndexed: 2,
+      filesSkipped: 1,
+      filesFailed: 0,
+      bytesProcessed: 300,
+      filesAdded: 2,
+      filesUpdated: 0,
+      filesUnchanged: 1,
+      filesDeleted: 0,
+      duplicatesExact: 0,
+      duplicatesNear: 0,
+      filesRestricted: 1,
+      filesIntegrated: 0,
+      bytesIntegrated: 0,
+      byType: { md: 2, zip: 0 },
+    },
+    findings: [
+      {
+        file: "/share/staff.txt",
+        ruleId: "email",
+        category: "pii",
+        count: 3,
+        redacted: true,
+        timestamp: FINISHED,
+      },
+      {
+        file: "/share/list.md",
+        ruleId: "email",
+        category: "pii",
+        count: 1,
+        redacted: false,
+        timestamp: FINISHED,
+      },
+    ],
+    errors: [
+      {
+        file: "/share/<script>.md",
+        error: '=HYPERLINK("x")',
+        timestamp: FINISHED,
+      },
+    ],
+  };
+}
+
+const ITEMS = [
+  item("/share/maths/fractions.md", 200, ["maths", "fractions"]),
+  item("/share/maths/decimals.md", 100, ["maths"], {
+    ra: 359,
+    dec: 90,
+    alt: 25,
+  }),
+  item("/share/staff.txt", 50, ["maths"]),
+];
+
+let report: HarvestReport;
+
+beforeEach(() => {
+  report = buildHarvestReport(RUN, progress(), ITEMS, {
+    largestItems: 2,
+    topTags: 2,
+  });
+});
+
+describe("buildHarvestReport", () => {
+  it("gathers totals, types, findings, largest items and tags", () => {
+    expect(report).toMatchObject({
+      status: "completed",
+      durationSeconds: 90,
+      totals: { filesScanned: 4, items: 3, itemBytes: 350 },
+      byType: [
+        { type: "md", items: 2, bytes: 300, indexed: 2 },
+        { type: "txt", items: 1, bytes: 50, indexed: 0 },
+        { type: "zip", items: 0, bytes: 0, indexed: 0 },
+      ],
+      findings: [{ ruleId: "email", files: 2, occurrences: 4, redacted: 1 }],
+      largest: [
+        { path: "/share/maths/fractions.md", size: 200 },
+        { path: "/share/maths/decimals.md", size: 100 },
+      ],
+      tags: [
+        { tag: "maths", count: 3 },
+        { tag: "fractions", count: 1 },
+      ],
+    });
+    expect(report.totals).not.toHaveProperty("byType");
+  });
+
+  it("bins coordinates, keeping values past the edges in the end bins", () => {
+    const { ra, dec, alt } = report.coordinates;
+
+    expect([ra.length, dec.length, alt.length]).toEqual([24, 18, 10]);
+    expect(ra[0]).toEqual({ from: 0, to: 15, count: 2 });
+    expect(ra[23].count).toBe(1);
+    expect(dec[9].count).toBe(2);
+    expect(dec[17].count).toBe(1);
+    expect(alt[9]).toEqual({ from: 18, to: 20, count: 1 });
+  });
+});
+
+describe("renderCsvReport", () => {
+  it("writes one quoted row per figure and defuses formulas", () => {
+    const rows = renderCsvReport(report).split("\r\n");
+
+    expect(rows[0]).toBe("section,name,value,detail");
+    expect(rows).toContain("total,items,3,");
+    expect(rows).toContain("type,md,2,300 bytes; 2 indexed this run");
+    expect(rows).toContain(
+      `problem,/share/<script>.md,"'=HYPERLINK(""x"")",${FINISHED.toISOString()}`,
+    );
+  });
+});
+
+describe("renderHtmlReport", () => {
+  it("escapes every value taken from the harvest", () => {
+    const html = renderHtmlReport(report);
+
+    expect(html).toContain("<title>Harvest report: School share</title>");
+    expect(html).toContain("/share/&lt;script&gt;.md");
+    expect(html).not.toContain("<script>");
+    expect(html).not.toMatch(/<(script|img|link)\b|src=|href=/);
+  });
+});
+
+describe("writeHarvestReport", () => {
+  it("writes the chosen formats under a name from the harvester and time", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "kc-report-test-"));
+    try {
+      const written = await writeHarvestReport(report, {
+        directory,
+        formats: ["json", "csv"],
+      });
+
+      expect(written.map((file) => path.basename(file))).toEqual([
+        "harvest-report-school_share-2024-03-01T09-01-30-000Z.json",
+        "harvest-report-school_share-2024-03-01T09-01-30-000Z.csv",
+      ]);
+      expect(fs.readdirSync(directory).sort()).toEqual(
+        written.map((file) => path.basename(file)).sort(),
+      );
+      expect(JSON.parse(fs.readFileSync(written[0], "utf8"))).toMatchObject({
+        harvesterId: "school/share",
+        finished: FINISHED.toISOString(),
+      });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
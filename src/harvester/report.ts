@@ -0,0 +1,544 @@
+/**
+ * Harvest Report - A reviewable record of one harvest run
+ *
+ * A report gathers what a run did into one artefact for sign-off: totals,
+ * file types, the files skipped or failed and why, sensitive-data findings,
+ * the largest items, the most used tags and how items spread over the sky.
+ * It is written as self-contained HTML (no scripts, styles or images from
+ * elsewhere), as JSON, and as CSV with one row per figure.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type {
+  HarvestedItem,
+  HarvestError,
+  HarvestProgress,
+} from "./file-harvester";
+
+export type ReportFormat = "html" | "json" | "csv";
+
+/**
+ * Report configuration
+ */
+export interface HarvestReportConfig {
+  directory: string; // Reports are written here, one set per run
+  formats?: ReportFormat[]; // default all three
+  largestItems?: number; // default 20
+  topTags?: number; // default 50
+}
+
+/**
+ * Histogram bin over [from, to)
+ */
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/**
+ * Harvest run report
+ */
+export interface HarvestReport {
+  harvesterId: string;
+  name: string;
+  status: HarvestProgress["status"];
+  started: Date;
+  finished: Date;
+  durationSeconds: number;
+
+  totals: Omit<HarvestProgress["stats"], "byType"> & {
+    items: number; // Items the harvest holds, unchanged ones included
+    itemBytes: number;
+  };
+
+  // Items by extension; indexed counts only files (re)indexed by this run
+  byType: { type: string; items: number; bytes: number; indexed: number }[];
+
+  problems: HarvestError[]; // Skipped and failed files, with the reason
+
+  // Sensitive data by rule
+  findings: {
+    ruleId: string;
+    category: string;
+    files: number;
+    occurrences: number;
+    redacted: number; // Files redacted rather than only restricted
+  }[];
+
+  largest: {
+    path: string;
+    size: number; // bytes
+    mimeType: string;
+    storageMode: HarvestedItem["storageMode"];
+  }[];
+
+  tags: { tag: string; count: number }[];
+
+  coordinates: {
+    ra: HistogramBin[]; // 15° bins, one per hour of right ascension
+    dec: HistogramBin[]; // 10° bins from -90° to 90°
+    alt: HistogramBin[]; // 2 light-year bins from 0 to 20
+  };
+}
+
+const DEFAULT_FORMATS: ReportFormat[] = ["html", "json", "csv"];
+
+/**
+ * Build the report of a run from its progress and items
+ */
+export function buildHarvestReport(
+  run: { harvesterId: string; name: string },
+  progress: HarvestProgress,
+  items: HarvestedItem[],
+  options: Pick<HarvestReportConfig, "largestItems" | "topTags"> = {},
+): HarvestReport {
+  const { byType: indexedByType, ...stats } = progress.stats;
+
+  const types = new Map<string, { items: number; bytes: number }>();
+  for (const item of items) {
+    const type = types.get(item.extension) || { items: 0, bytes: 0 };
+    type.items++;
+    type.bytes += item.size;
+    types.set(item.extension, type);
+  }
+  for (const type of Object.keys(indexedByType)) {
+    if (!types.has(type)) types.set(type, { items: 0, bytes: 0 });
+  }
+
+  const findings = new Map<string, HarvestReport["findings"][number]>();
+  for (const finding of progress.findings) {
+    const rule = findings.get(finding.ruleId) || {
+      ruleId: finding.ruleId,
+      category: finding.category,
+      files: 0,
+      occurrences: 0,
+      redacted: 0,
+    };
+    rule.files++;
+    rule.occurrences += finding.count;
+    if (finding.redacted) rule.redacted++;
+    findings.set(finding.ruleId, rule);
+  }
+
+  const tags = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of new Set<string>(item.metadata.tags || [])) {
+      tags.set(tag, (tags.get(tag) || 0) + 1);
+    }
+  }
+
+  return {
+    harvesterId: run.harvesterId,
+    name: run.name,
+    status: progress.status,
+    started: progress.startTime,
+    finished: progress.currentTime,
+    durationSeconds:
+      (progress.currentTime.getTime() - progress.startTime.getTime()) / 1000,
+    totals: {
+      ...stats,
+      items: items.length,
+      itemBytes: items.reduce((sum, item) => sum + item.size, 0),
+    },
+    byType: [...types]
+      .map(([type, totals]) => ({
+        type: type || "(none)",
+        ...totals,
+        indexed: indexedByType[type] || 0,
+      }))
+      .sort((a, b) => b.items - a.items || compare(a.type, b.type)),
+    problems: [...progress.errors],
+    findings: [...findings.values()].sort(
+      (a, b) => b.files - a.files || compare(a.ruleId, b.ruleId),
+    ),
+    largest: [...items]
+      .sort(
+        (a, b) => b.size - a.size || compare(a.originalPath, b.originalPath),
+      )
+      .slice(0, options.largestItems ?? 20)
+      .map((item) => ({
+        path: item.originalPath,
+        size: item.size,
+        mimeType: item.mimeType,
+        storageMode: item.storageMode,
+      })),
+    tags: [...tags]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || compare(a.tag, b.tag))
+      .slice(0, options.topTags ?? 50),
+    coordinates: {
+      ra: histogram(
+        items.map((item) => item.coordinate.ra),
+        0,
+        360,
+        15,
+      ),
+      dec: histogram(
+        items.map((item) => item.coordinate.dec),
+        -90,
+        90,
+        10,
+      ),
+      alt: histogram(
+        items.map((item) => item.coordinate.alt),
+        0,
+        20,
+        2,
+      ),
+    },
+  };
+}
+
+/**
+ * Count values into equal bins; values at the top edge go in the last bin
+ */
+function histogram(
+  values: number[],
+  from: number,
+  to: number,
+  width: number,
+): HistogramBin[] {
+  const bins: HistogramBin[] = [];
+  for (let start = from; start < to; start += width) {
+    bins.push({ from: start, to: Math.min(start + width, to), count: 0 });
+  }
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+    const index = Math.floor((value - from) / width);
+    bins[Math.max(0, Math.min(bins.length - 1, index))].count++;
+  }
+  return bins;
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Report as JSON
+ */
+export function renderJsonReport(report: HarvestReport): string {
+  return JSON.stringify(report, null, 2) + "\n";
+}
+
+/**
+ * Report as CSV, one row per figure: section, name, value, detail
+ */
+export function renderCsvReport(report: HarvestReport): string {
+  const rows: (string | number)[][] = [["section", "name", "value", "detail"]];
+
+  rows.push(
+    ["run", "harvesterId", report.harvesterId, ""],
+    ["run", "name", report.name, ""],
+    ["run", "status", report.status, ""],
+    ["run", "started", report.started.toISOString(), ""],
+    ["run", "finished", report.finished.toISOString(), ""],
+    ["run", "durationSeconds", report.durationSeconds, ""],
+  );
+  for (const [name, value] of Object.entries(report.totals)) {
+    rows.push(["total", name, value, ""]);
+  }
+  for (const type of report.byType) {
+    rows.push([
+      "type",
+      type.type,
+      type.items,
+      `${type.bytes} bytes; ${type.indexed} indexed this run`,
+    ]);
+  }
+  for (const problem of report.problems) {
+    rows.push([
+      "problem",
+      problem.file,
+      problem.error,
+      new Date(problem.timestamp).toISOString(),
+    ]);
+  }
+  for (const finding of report.findings) {
+    rows.push([
+      "finding",
+      finding.ruleId,
+      finding.files,
+      `${finding.category}; ${finding.occurrences} occurrences; ${finding.redacted} files redacted`,
+    ]);
+  }
+  for (const item of report.largest) {
+    rows.push([
+      "largest",
+      item.path,
+      item.size,
+      `${item.mimeType}; ${item.storageMode}`,
+    ]);
+  }
+  for (const { tag, count } of report.tags) {
+    rows.push(["tag", tag, count, ""]);
+  }
+  for (const axis of ["ra", "dec", "alt"] as const) {
+    for (const bin of report.coordinates[axis]) {
+      rows.push([axis, `[${bin.from}, ${bin.to})`, bin.count, ""]);
+    }
+  }
+
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Quoted CSV field; text that a spreadsheet would run as a formula is
+ * prefixed with an apostrophe
+ */
+function csvField(value: string | number): string {
+  if (typeof value === "number") return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Report as a self-contained HTML page
+ */
+export function renderHtmlReport(report: HarvestReport): string {
+  const { totals } = report;
+  const section = (title: string, body: string) =>
+    `<section>\n<h2>${escapeHtml(title)}</h2>\n${body}\n</section>`;
+
+  const summary = table(
+    ["Figure", "Value"],
+    [
+      ["Status", report.status],
+      ["Started", report.started.toISOString()],
+      ["Finished", report.finished.toISOString()],
+      ["Duration", formatDuration(report.durationSeconds)],
+      ["Items", formatCount(totals.items)],
+      ["Item size", formatBytes(totals.itemBytes)],
+      ["Files scanned", formatCount(totals.filesScanned)],
+      ["Files indexed", formatCount(totals.filesIndexed)],
+      [
+        "Added / updated / unchanged / deleted",
+        [
+          totals.filesAdded,
+          totals.filesUpdated,
+          totals.filesUnchanged,
+          totals.filesDeleted,
+        ]
+          .map(formatCount)
+          .join(" / "),
+      ],
+      ["Skipped", formatCount(totals.filesSkipped)],
+      ["Failed", formatCount(totals.filesFailed)],
+      [
+        "Exact / near duplicates",
+        `${formatCount(totals.duplicatesExact)} / ${formatCount(totals.duplicatesNear)}`,
+      ],
+      ["Restricted for sensitive data", formatCount(totals.filesRestricted)],
+      [
+        "Integrated (copied)",
+        `${formatCount(totals.filesIntegrated)}, ${formatBytes(totals.bytesIntegrated)} written`,
+      ],
+    ],
+  );
+
+  const maxType = Math.max(1, ...report.byType.map((type) => type.items));
+  const types = table(
+    ["Type", "Items", "Size", "Indexed this run", ""],
+    report.byType.map((type) => [
+      type.type,
+      formatCount(type.items),
+      formatBytes(type.bytes),
+      formatCount(type.indexed),
+      bar(type.items / maxType),
+    ]),
+  );
+
+  const problems = report.problems.length
+    ? table(
+        ["File", "Reason", "Time"],
+        report.problems.map((problem) => [
+          problem.file,
+          problem.error,
+          new Date(problem.timestamp).toISOString(),
+        ]),
+      )
+    : "<p>None.</p>";
+
+  const findings = report.findings.length
+    ? table(
+        ["Rule", "Category", "Files", "Occurrences", "Redacted"],
+        report.findings.map((finding) => [
+          finding.ruleId,
+          finding.category,
+          formatCount(finding.files),
+          formatCount(finding.occurrences),
+          formatCount(finding.redacted),
+        ]),
+      )
+    : "<p>None.</p>";
+
+  const largest = table(
+    ["Item", "Size", "Type", "Storage"],
+    report.largest.map((item) => [
+      item.path,
+      formatBytes(item.size),
+      item.mimeType,
+      item.storageMode,
+    ]),
+  );
+
+  // Tag sizes scale with the square root of their use
+  const maxTag = Math.max(1, ...report.tags.map(({ count }) => count));
+  const cloud = report.tags.length
+    ? `<p class="cloud">${report.tags
+        .map(
+          ({ tag, count }) =>
+            `<span style="font-size:${(0.8 + 1.6 * Math.sqrt(count / maxTag)).toFixed(2)}em" title="${count}">${escapeHtml(tag)}</span>`,
+        )
+        .join(" ")}</p>`
+    : "<p>No tags.</p>";
+
+  const histograms = (
+    [
+      ["Right ascension (°)", report.coordinates.ra],
+      ["Declination (°)", report.coordinates.dec],
+      ["Altitude (light-years)", report.coordinates.alt],
+    ] as const
+  )
+    .map(([title, bins]) => {
+      const max = Math.max(1, ...bins.map((bin) => bin.count));
+      return `<h3>${escapeHtml(title)}</h3>\n${table(
+        ["Range", "Items", ""],
+        bins.map((bin) => [
+          `${bin.from} to ${bin.to}`,
+          formatCount(bin.count),
+          bar(bin.count / max),
+        ]),
+      )}`;
+    })
+    .join("\n");
+
+  const title = `Harvest report: ${report.name}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; margin: 0.5em 0 1.5em; }
+th, td { border-bottom: 1px solid #ddd; padding: 0.25em 0.75em; text-align: left; vertical-align: top; }
+td { overflow-wrap: anywhere; }
+.bar { display: inline-block; height: 0.8em; background: #4a7bb7; }
+.cloud span { margin-right: 0.4em; line-height: 1.6; }
+.status-completed { color: #2e7d32; }
+.status-paused, .status-running { color: #b26a00; }
+.status-failed { color: #c62828; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Harvester <code>${escapeHtml(report.harvesterId)}</code>,
+<strong class="status-${escapeHtml(report.status)}">${escapeHtml(report.status)}</strong>
+at ${escapeHtml(report.finished.toISOString())}.</p>
+${section("Summary", summary)}
+${section("File types", types)}
+${section(`Skipped and failed files (${report.problems.length})`, problems)}
+${section("Sensitive data", findings)}
+${section("Largest items", largest)}
+${section("Tags", cloud)}
+${section("Coordinate distribution", histograms)}
+</body>
+</html>
+`;
+}
+
+/**
+ * Table cell: text, escaped when rendered, or markup built here
+ */
+type Cell = string | { html: string };
+
+function table(headings: string[], rows: Cell[][]): string {
+  const head = headings.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows
+    .map(
+      (row) =>
+        `<tr>${row
+          .map(
+            (cell) =>
+              `<td>${typeof cell === "string" ? escapeHtml(cell) : cell.html}</td>`,
+          )
+          .join("")}</tr>`,
+    )
+    .join("\n");
+  return `<table>\n<tr>${head}</tr>\n${body}\n</table>`;
+}
+
+function bar(fraction: number): Cell {
+  const width = Math.round(Math.max(0, Math.min(1, fraction)) * 200);
+  return { html: `<span class="bar" style="width:${width}px"></span>` };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatCount(count: number): string {
+  return count.toLocaleString("en-US");
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["bytes", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit ? `${value.toFixed(1)} ${units[unit]}` : `${value} bytes`;
+}
+
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  return [
+    hours && `${hours} h`,
+    (hours || minutes) && `${minutes} min`,
+    `${whole % 60} s`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Write a report in the configured formats
+ * Files are named after the harvester and the time the run finished;
+ * returns their paths.
+ */
+export async function writeHarvestReport(
+  report: HarvestReport,
+  config: HarvestReportConfig,
+): Promise<string[]> {
+  await fs.promises.mkdir(config.directory, { recursive: true });
+
+  const stamp = report.finished.toISOString().replace(/[:.]/g, "-");
+  const base = `harvest-report-${report.harvesterId.replace(/[^\w.-]+/g, "_")}-${stamp}`;
+  const renderers: Record<ReportFormat, (report: HarvestReport) => string> = {
+    html: renderHtmlReport,
+    json: renderJsonReport,
+    csv: renderCsvReport,
+  };
+
+  const written: string[] = [];
+  for (const format of config.formats || DEFAULT_FORMATS) {
+    const filePath = path.join(config.directory, `${base}.${format}`);
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, renderers[format](report), "utf8");
+    await fs.promises.rename(tempPath, filePath);
+    written.push(filePath);
+  }
+  return written;
+}
@@ -0,0 +1,164 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CloudProvider } from "../storage/cloud-providers";
+import { S3CompatibleAdapter } from "../storage/s3-adapter";
+import {
+  S3StandIn,
+  STAND_IN_ACCESS_KEY,
+  STAND_IN_SECRET_KEY,
+} from "../storage/__fixtures__/s3-stand-in";
+import { FileHarvester, HarvestSource } from "./file-harvester";
+
+const BUCKET = "school-curriculum";
+
+let dir: string;
+let standIn: S3StandIn;
+let endpoint: string;
+
+function harvesterFor(
+  source: Partial<HarvestSource> = {},
+  indexDestination = path.join(dir, `index-${Math.random()}.jsonl`),
+): FileHarvester {
+  return new FileHarvester({
+    harvesterId: "s3-test",
+    name: "s3 test",
+    sources: [
+      {
+        sourceId: "bucket",
+        sourceType: "s3",
+        path: `s3://${BUCKET}/courses`,
+        credentials: {
+          accessKey: STAND_IN_ACCESS_KEY,
+          secretKey: STAND_IN_SECRET_KEY,
+        },
+        options: { provider: CloudProvider.MINIO, endpoint },
+        ...source,
+      },
+    ],
+    processors: [
+      {
+        processorId: "docs",
+        name: "Docs",
+        fileTypes: ["md", "txt"],
+        extract: { text: true, metadata: true },
+        coordinateStrategy: "hash",
+      },
+    ],
+    indexDestination,
+    options: { recursive: true, followSymlinks: false, ignoreHidden: true },
+    autoTagging: {
+      enabled: false,
+      extractFromFilename: false,
+      extractFromPath: false,
+      extractFromContent: false,
+      useMetadata: false,
+    },
+  });
+}
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-s3-source-test-"));
+  standIn = new S3StandIn(BUCKET);
+  standIn.pageSize = 2; // Listings take several pages
+  endpoint = await standIn.start();
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+  const adapter = new S3CompatibleAdapter({
+    provider: CloudProvider.MINIO,
+    credentials: {
+      accessKey: STAND_IN_ACCESS_KEY,
+      secretKey: STAND_IN_SECRET_KEY,
+    },
+    endpoint,
+    bucket: BUCKET,
+  });
+  const objects: Record<string, string> = {
+    "courses/maths/fractions.md": "# Fractions\nHalves and quarters.\n",
+    "courses/maths/algebra/linear.md": "# Linear equations\n",
+    "courses/science/cells.txt": "Cells are the unit of life.\n",
+    "courses/.drafts/unfinished.md": "# Draft\n",
+    "courses/overview.md": "# Course overview\n",
+    "staff/payroll.txt": "Not part of the courses prefix\n",
+  };
+  for (const [key, content] of Object.entries(objects)) {
+    const localPath = path.join(dir, "upload");
+    fs.writeFileSync(localPath, content);
+    await adapter.upload(localPath, key);
+  }
+});
+
+afterAll(async () => {
+  await standIn.stop();
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("FileHarvester s3 source", () => {
+  it("harvests every object under the prefix as a pocket item", async () => {
+    const harvester = harvesterFor();
+    const items = await harvester.harvest();
+
+    expect(harvester.getProgress().errors).toEqual([]);
+    expect(items.map((item) => item.originalPath).sort()).toEqual([
+      `s3://${BUCKET}/courses/maths/algebra/linear.md`,
+      `s3://${BUCKET}/courses/maths/fractions.md`,
+      `s3://${BUCKET}/courses/overview.md`,
+      `s3://${BUCKET}/courses/science/cells.txt`,
+    ]);
+
+    const fractions = items.find((item) => item.filename === "fractions.md");
+    expect(fractions).toMatchObject({
+      storageMode: "pocket",
+      pocketPath: "courses/maths/fractions.md",
+      extension: "md",
+    });
+    expect(fractions?.textContent).toContain("Halves and quarters.");
+    expect(fractions?.metadata).toMatchObject({
+      bucket: BUCKET,
+      etag: standIn.object("courses/maths/fractions.md")?.etag,
+    });
+  });
+
+  it("stays at the top of the prefix when not recursive", async () => {
+    const harvester = harvesterFor({ path: `s3://${BUCKET}/courses/` });
+    (harvester as any).config.options.recursive = false;
+    const items = await harvester.harvest();
+
+    expect(items.map((item) => item.filename)).toEqual(["overview.md"]);
+  });
+
+  it("records a rejected signature as a source error", async () => {
+    const harvester = harvesterFor({
+      credentials: { accessKey: STAND_IN_ACCESS_KEY, secretKey: "wrong" },
+    });
+
+    await expect(harvester.harvest()).resolves.toEqual([]);
+    expect(harvester.getProgress().errors).toEqual([
+      expect.objectContaining({
+        error: expect.stringContaining("SignatureDoesNotMatch"),
+      }),
+    ]);
+  });
+
+  it("keeps the indexed objects when the listing fails", async () => {
+    const index = path.join(dir, "listing-fails.jsonl");
+    await harvesterFor({}, index).harvest();
+
+    const failing = harvesterFor(
+      { credentials: { accessKey: STAND_IN_ACCESS_KEY, secretKey: "wrong" } },
+      index,
+    );
+    await failing.harvest();
+    expect(failing.getProgress().stats.filesDeleted).toBe(0);
+
+    const again = harvesterFor({}, index);
+    const items = await again.harvest();
+    expect(items).toHaveLength(4);
+    expect(again.getProgress().stats).toMatchObject({
+      filesAdded: 0,
+      filesDeleted: 0,
+      filesUnchanged: 4,
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  FileHarvester,
+  HarvestedItem,
+  HarvesterConfig,
+} from "./file-harvester";
+import { SensitiveDataConfig, SensitiveDataScanner } from "./sensitive-data";
+
+let dir: string;
+
+function item(
+  textContent: string,
+  originalPath = "/library/notes.txt",
+): HarvestedItem {
+  return {
+    originalPath,
+    filename: path.basename(originalPath),
+    textContent,
+    metadata: { tags: [], categories: [] },
+  } as unknown as HarvestedItem;
+}
+
+function harvesterFor(
+  root: string,
+  sensitiveData: SensitiveDataConfig,
+): FileHarvester {
+  const config: HarvesterConfig = {
+    harvesterId: "sensitive-test",
+    name: "sensitive-data test",
+    sources: [{ sourceId: "notes", sourceType: "filesystem", path: root }],
+    processors: [
+      {
+        processorId: "docs",
+        name: "Docs",
+        fileTypes: ["txt"],
+        extract: { text: true, metadata: true },
+        coordinateStrategy: "hash",
+      },
+    ],
+    indexDestination: `${root}.jsonl`,
+    options: { recursive: true, followSymlinks: false, ignoreHidden: true },
+    autoTagging: {
+      enabled: false,
+      extractFromFilename: false,
+      extractFromPath: false,
+      extractFromContent: false,
+      useMetadata: false,
+    },
+    sensitiveData,
+  };
+  return new FileHarvester(config);
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-sensitive-test-"));
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("SensitiveDataScanner", () => {
+  const scanner = new SensitiveDataScanner({ enabled: true });
+
+  it("narrows restrictions over every rule and redacts credentials", () => {
+    const scanned = item(
+      "Contact ada@school.test about the portal.\npassword: hunter2-staff\n",
+    );
+
+    const findings = scanner.scan(scanned);
+
+    expect(
+      findings.map((finding) => [finding.ruleId, finding.redacted]),
+    ).toEqual([
+      ["password-assignment", true],
+      ["email", false],
+    ]);
+    expect(scanned.textContent).toBe(
+      "Contact ada@school.test about the portal.\npassword: [REDACTED]\n",
+    );
+    expect(scanned.tierRestriction).toBe(4);
+    expect(scanned.roleRestriction).toEqual(["headmaster"]);
+    expect(scanned.metadata.sensitiveRules).toBe(scanner.fingerprint);
+  });
+
+  it("scans metadata and paths, and checks card numbers", () => {
+    const scanned = item(
+      "Card 4111 1111 1111 1111, order 1234 5678 9012 3456.",
+      "/library/Safeguarding/referral.txt",
+    );
+    scanned.metadata.author = "ada@school.test";
+
+    const findings = scanner.scan(scanned);
+
+    expect(findings).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ ruleId: "payment-card", count: 1 }),
+        expect.objectContaining({ ruleId: "email", count: 1 }),
+        expect.objectContaining({ ruleId: "student-record-path", count: 1 }),
+      ]),
+    );
+    expect(scanned.roleRestriction).toEqual(["headmaster"]);
+  });
+
+  it("fingerprints the rules it runs", () => {
+    expect(new SensitiveDataScanner({ enabled: true }).fingerprint).toBe(
+      scanner.fingerprint,
+    );
+    expect(
+      new SensitiveDataScanner({ enabled: true, disabledRules: ["email"] })
+        .fingerprint,
+    ).not.toBe(scanner.fingerprint);
+    expect(
+      new SensitiveDataScanner({ enabled: true, redact: ["pii"] }).fingerprint,
+    ).not.toBe(scanner.fingerprint);
+  });
+});
+
+describe("FileHarvester sensitive-data scanning", () => {
+  it("rescans unchanged files when the rules change", async () => {
+    const root = fs.mkdtempSync(path.join(dir, "source-"));
+    fs.writeFileSync(
+      path.join(root, "contacts.txt"),
+      "Ask ada@school.test for the timetable.\n",
+    );
+
+    const [first] = await harvesterFor(root, { enabled: true }).harvest();
+    expect(first.roleRestriction).toEqual([
+      "teacher",
+      "headmaster",
+      "counsellor",
+    ]);
+
+    const loosened = harvesterFor(root, {
+      enabled: true,
+      disabledRules: ["email"],
+    });
+    const [rescanned] = await loosened.harvest();
+    expect(loosened.getProgress().stats).toMatchObject({
+      filesUpdated: 1,
+      filesUnchanged: 0,
+    });
+    expect(rescanned.roleRestriction).toBeUndefined();
+
+    const again = harvesterFor(root, {
+      enabled: true,
+      disabledRules: ["email"],
+    });
+    await again.harvest();
+    expect(again.getProgress().stats.filesUnchanged).toBe(1);
+  });
+});
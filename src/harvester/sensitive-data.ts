@@ -0,0 +1,428 @@
+/**
+ * Sensitive Data - Classify harvested items and restrict access to them
+ *
+ * Rules match personal data, credentials and student-record markers in an
+ * item's text and every string in its metadata (or its path). Every
+ * matching rule tightens the item's restrictions: the highest tier wins
+ * and the allowed roles narrow to those every rule permits. Matches can
+ * also be redacted from the text that is stored and searched.
+ */
+
+import { hashBytes } from "../utils/crypto";
+import type { HarvestedItem } from "./file-harvester";
+
+/**
+ * Kind of sensitive data
+ */
+export type SensitiveCategory = "pii" | "credential" | "student_record";
+
+/**
+ * Detection rule
+ */
+export interface SensitiveDataRule {
+  ruleId: string;
+  name: string;
+  category: SensitiveCategory;
+  pattern: RegExp; // The "g" flag is added when missing
+  target?: "text" | "path"; // What is matched (default 'text')
+  validate?: (match: string) => boolean; // Reject false positives (checksums etc.)
+  valueGroup?: number; // Capture group redacted instead of the whole match
+
+  // Restrictions on items the rule matches
+  tierRestriction?: number; // Lowest tier allowed to see the item
+  roleRestriction?: string[]; // Roles allowed to see the item
+
+  redact?: boolean; // Default: whether the category is in `redact`
+}
+
+/**
+ * Scanner configuration
+ */
+export interface SensitiveDataConfig {
+  enabled: boolean;
+  rules?: SensitiveDataRule[]; // Added to the built-ins (same ruleId replaces)
+  disabledRules?: string[]; // Built-in rule IDs to switch off
+  redact?: SensitiveCategory[]; // Categories redacted from text (default ['credential'])
+  replacement?: string; // Default '[REDACTED]'
+}
+
+/**
+ * What a rule found in one item (never the matched values themselves)
+ */
+export interface SensitiveFinding {
+  file: string;
+  ruleId: string;
+  category: SensitiveCategory;
+  count: number;
+  redacted: boolean;
+  timestamp: Date;
+}
+
+// Metadata the harvester computes itself rather than harvests
+const INTERNAL_METADATA = new Set(["contentHash", "sensitiveRules"]);
+
+// Tiers and roles as defined by the living library's gating system
+const CAREER_TIER = 4;
+const STAFF_ROLES = ["teacher", "headmaster", "counsellor"];
+const PASTORAL_ROLES = ["counsellor", "headmaster"];
+
+/**
+ * Built-in rules
+ * Rules run in order, so specific patterns redact their matches before
+ * looser ones can claim part of them.
+ */
+export const DEFAULT_SENSITIVE_RULES: SensitiveDataRule[] = [
+  // Credentials and secrets
+  {
+    ruleId: "private-key",
+    name: "Private key",
+    category: "credential",
+    pattern:
+      /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )*PRIVATE KEY-----/g,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: ["headmaster"],
+  },
+  {
+    ruleId: "aws-access-key",
+    name: "AWS access key",
+    category: "credential",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: ["headmaster"],
+  },
+  {
+    ruleId: "api-token",
+    name: "API token",
+    category: "credential",
+    pattern:
+      /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,}|xox[abprs]-[A-Za-z0-9-]{10,}|sk_live_[A-Za-z0-9]{16,}|AIza[0-9A-Za-z_-]{35})\b/g,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: ["headmaster"],
+  },
+  {
+    ruleId: "jwt",
+    name: "JSON Web Token",
+    category: "credential",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]+/g,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: ["headmaster"],
+  },
+  {
+    ruleId: "password-assignment",
+    name: "Password or secret in configuration",
+    category: "credential",
+    pattern:
+      /(?<![A-Za-z0-9])(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)\b["']?\s*[:=]\s*["']?([^\s"',;]{6,})/gi,
+    valueGroup: 1,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: ["headmaster"],
+  },
+  {
+    ruleId: "url-credentials",
+    name: "Password in URL",
+    category: "credential",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s/:@]+:([^\s/@]+)@/gi,
+    valueGroup: 1,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: ["headmaster"],
+  },
+
+  // Personal data (identifiers before the looser email and phone patterns)
+  {
+    ruleId: "us-ssn",
+    name: "US Social Security number",
+    category: "pii",
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: PASTORAL_ROLES,
+    redact: true,
+  },
+  {
+    ruleId: "uk-nino",
+    name: "UK National Insurance number",
+    category: "pii",
+    pattern:
+      /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: PASTORAL_ROLES,
+    redact: true,
+  },
+  {
+    ruleId: "payment-card",
+    name: "Payment card number",
+    category: "pii",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => luhn(match.replace(/\D/g, "")),
+    tierRestriction: CAREER_TIER,
+    roleRestriction: ["headmaster"],
+    redact: true,
+  },
+  {
+    ruleId: "iban",
+    name: "Bank account (IBAN)",
+    category: "pii",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: (match) => ibanChecksum(match.replace(/ /g, "")),
+    tierRestriction: CAREER_TIER,
+    roleRestriction: ["headmaster"],
+    redact: true,
+  },
+  {
+    ruleId: "email",
+    name: "Email address",
+    category: "pii",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: STAFF_ROLES,
+  },
+  {
+    ruleId: "phone",
+    name: "Phone number",
+    category: "pii",
+    pattern:
+      /(?<![\w+]|\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,5}\)|\d{2,5})[\s.-]\d{3,4}[\s.-]?\d{3,4}(?![\w-]|[\s.]\d)/g,
+    validate: (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 9 && digits <= 15;
+    },
+    tierRestriction: CAREER_TIER,
+    roleRestriction: STAFF_ROLES,
+  },
+
+  // Student records
+  {
+    ruleId: "student-record-marker",
+    name: "Student record marker",
+    category: "student_record",
+    pattern:
+      /\b(?:counsell?ing (?:notes?|sessions?|records?|referrals?)|safeguarding (?:concerns?|referrals?|records?|notes?)|child protection|individuali[sz]ed education (?:plan|program)|504 plan|disciplinary (?:records?|actions?|hearings?)|behaviou?r (?:incidents?|reports?)|special educational needs|pastoral (?:notes?|records?)|confidential student)\b/gi,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: PASTORAL_ROLES,
+  },
+  {
+    ruleId: "iep",
+    name: "Individualized education plan",
+    category: "student_record",
+    pattern: /\bIEPs?\b/g,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: PASTORAL_ROLES,
+  },
+  {
+    ruleId: "student-id",
+    name: "Student identifier",
+    category: "student_record",
+    pattern:
+      /\b(?:student|pupil|learner)[ -]?(?:id|number|no\.?)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})\b/gi,
+    valueGroup: 1,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: STAFF_ROLES,
+  },
+  {
+    ruleId: "student-record-path",
+    name: "Student record folder",
+    category: "student_record",
+    target: "path",
+    pattern:
+      /(?:^|[\\/_. -])(?:counsell?ing|safeguarding|pastoral|iep|disciplinary|student[-_ ]?records?)(?=$|[\\/_. -])/gi,
+    tierRestriction: CAREER_TIER,
+    roleRestriction: PASTORAL_ROLES,
+  },
+];
+
+/**
+ * Rule-driven scanner for harvested items
+ */
+export class SensitiveDataScanner {
+  readonly fingerprint: string; // Changes whenever the rules would
+  private readonly rules: SensitiveDataRule[];
+  private readonly redacted: Set<SensitiveCategory>;
+  private readonly replacement: string;
+
+  constructor(config: SensitiveDataConfig) {
+    const rules = new Map<string, SensitiveDataRule>();
+    for (const rule of [...DEFAULT_SENSITIVE_RULES, ...(config.rules || [])]) {
+      rules.set(rule.ruleId, rule);
+    }
+    for (const ruleId of config.disabledRules || []) {
+      rules.delete(ruleId);
+    }
+
+    this.rules = [...rules.values()].map((rule) => ({
+      ...rule,
+      pattern: rule.pattern.global
+        ? rule.pattern
+        : new RegExp(rule.pattern.source, rule.pattern.flags + "g"),
+    }));
+    this.redacted = new Set(config.redact || ["credential"]);
+    this.replacement = config.replacement ?? "[REDACTED]";
+
+    const described = this.rules.map((rule) => ({
+      ...rule,
+      pattern: String(rule.pattern),
+      validate: rule.validate?.toString(),
+      redact: rule.redact ?? this.redacted.has(rule.category),
+    }));
+    this.fingerprint = hashBytes(
+      Buffer.from(JSON.stringify([described, this.replacement])),
+    ).substring(0, 16);
+  }
+
+  /**
+   * Scan an item, tightening its restrictions and redacting its text
+   * in place; returns what was found
+   * The item is stamped with the fingerprint of the rules it was scanned by.
+   */
+  scan(item: HarvestedItem): SensitiveFinding[] {
+    const findings: SensitiveFinding[] = [];
+
+    for (const rule of this.rules) {
+      const redact = rule.redact ?? this.redacted.has(rule.category);
+      let count = 0;
+
+      if (rule.target === "path") {
+        count = this.matches(rule, item.originalPath).length;
+      } else {
+        // The summary repeats the text: redacted, not counted again
+        for (const field of ["textContent", "summary"] as const) {
+          const text = item[field];
+          if (!text) continue;
+
+          const matches = this.matches(rule, text);
+          if (field === "textContent") count += matches.length;
+          if (redact && matches.length) {
+            item[field] = this.redact(rule, text);
+          }
+        }
+        count += this.scanFields(rule, item.metadata, redact, new Set());
+      }
+
+      if (!count) continue;
+      this.restrict(item, rule);
+      findings.push({
+        file: item.originalPath,
+        ruleId: rule.ruleId,
+        category: rule.category,
+        count,
+        redacted: redact && rule.target !== "path",
+        timestamp: new Date(),
+      });
+    }
+
+    item.metadata.sensitiveRules = this.fingerprint;
+    return findings;
+  }
+
+  /**
+   * Count a rule's matches in every string of a metadata table, nested
+   * lists and tables included, redacting them in place
+   */
+  private scanFields(
+    rule: SensitiveDataRule,
+    fields: Record<string, any>,
+    redact: boolean,
+    visited: Set<object>,
+  ): number {
+    if (visited.has(fields)) return 0;
+    visited.add(fields);
+
+    let count = 0;
+    for (const [key, value] of Object.entries(fields)) {
+      if (INTERNAL_METADATA.has(key)) continue;
+
+      if (typeof value === "string") {
+        const matches = this.matches(rule, value);
+        count += matches.length;
+        if (redact && matches.length) {
+          fields[key] = this.redact(rule, value);
+        }
+      } else if (
+        value &&
+        typeof value === "object" &&
+        !(value instanceof Date) &&
+        !ArrayBuffer.isView(value)
+      ) {
+        count += this.scanFields(rule, value, redact, visited);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Valid matches of a rule in a text
+   */
+  private matches(rule: SensitiveDataRule, text: string): RegExpMatchArray[] {
+    return [...text.matchAll(rule.pattern)].filter(
+      (match) => !rule.validate || rule.validate(match[0]),
+    );
+  }
+
+  /**
+   * Replace a rule's valid matches (or their value group)
+   */
+  private redact(rule: SensitiveDataRule, text: string): string {
+    return text.replace(rule.pattern, (...args) => {
+      const match: string = args[0];
+      if (rule.validate && !rule.validate(match)) return match;
+
+      const value = rule.valueGroup ? args[rule.valueGroup] : undefined;
+      return typeof value === "string" && value
+        ? match.replace(value, this.replacement)
+        : this.replacement;
+    });
+  }
+
+  /**
+   * Combine a rule's restrictions with the item's
+   */
+  private restrict(item: HarvestedItem, rule: SensitiveDataRule): void {
+    if (rule.tierRestriction !== undefined) {
+      item.tierRestriction = Math.max(
+        item.tierRestriction ?? rule.tierRestriction,
+        rule.tierRestriction,
+      );
+    }
+    if (rule.roleRestriction) {
+      // An empty result leaves the item to administrators alone
+      item.roleRestriction = item.roleRestriction
+        ? item.roleRestriction.filter((role) =>
+            rule.roleRestriction?.includes(role),
+          )
+        : [...rule.roleRestriction];
+    }
+  }
+}
+
+/**
+ * Luhn checksum of a digit string (payment card numbers)
+ */
+function luhn(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check of an IBAN
+ */
+function ibanChecksum(iban: string): boolean {
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.substring(4) + iban.substring(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55); // A=10 ... Z=35
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
@@ -0,0 +1,162 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileHarvester, HarvesterConfig } from "./file-harvester";
+import {
+  getHarvestSourcePlugin,
+  HarvestSourcePlugin,
+  PluginEntry,
+  registerHarvestSourcePlugin,
+} from "./source-plugins";
+
+let dir: string;
+let index: string;
+let documents: Record<string, string>;
+let failAfter: number | undefined; // entries() throws after this many
+let fetched: string[];
+
+const wiki: HarvestSourcePlugin = {
+  name: "wiki",
+  async *entries() {
+    let count = 0;
+    for (const [name, text] of Object.entries(documents)) {
+      if (count++ === failAfter) throw new Error("Wiki API timed out");
+      yield {
+        path: `wiki://school/${name}`,
+        filename: `${name}.txt`,
+        size: Buffer.byteLength(text),
+        modified: new Date("2024-01-01T00:00:00Z"),
+      };
+    }
+  },
+  async fetch(entry: PluginEntry) {
+    fetched.push(entry.path);
+    return Buffer.from(documents[entry.filename!.replace(/\.txt$/, "")]);
+  },
+  describe: (entry: PluginEntry) => ({ space: entry.path.split("/")[2] }),
+};
+
+function harvesterFor(plugin = "wiki"): FileHarvester {
+  const config: HarvesterConfig = {
+    harvesterId: "plugin-test",
+    name: "plugin test",
+    sources: [
+      {
+        sourceId: "wiki",
+        sourceType: "custom",
+        path: "wiki://school",
+        options: { plugin },
+      },
+    ],
+    processors: [
+      {
+        processorId: "docs",
+        name: "Docs",
+        fileTypes: ["txt"],
+        extract: { text: true, metadata: true },
+        coordinateStrategy: "hash",
+      },
+    ],
+    indexDestination: index,
+    options: { recursive: true, followSymlinks: false, ignoreHidden: true },
+    autoTagging: {
+      enabled: false,
+      extractFromFilename: false,
+      extractFromPath: false,
+      extractFromContent: false,
+      useMetadata: false,
+    },
+    sourcePlugins: [wiki],
+  };
+  return new FileHarvester(config);
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "kc-plugin-test-"));
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  index = path.join(dir, `index-${Math.random()}.jsonl`);
+  documents = {
+    fractions: "Halves and quarters.",
+    cells: "Cells are the unit of life.",
+    forces: "Push and pull.",
+  };
+  failAfter = undefined;
+  fetched = [];
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("source plugins", () => {
+  it("registers plugins globally by name", () => {
+    registerHarvestSourcePlugin({ ...wiki, name: "global-wiki" });
+
+    expect(getHarvestSourcePlugin("global-wiki")?.fetch).toBe(wiki.fetch);
+    expect(getHarvestSourcePlugin("missing")).toBeUndefined();
+  });
+});
+
+describe("FileHarvester custom source", () => {
+  it("harvests plugin entries and fetches only new or changed ones", async () => {
+    const items = await harvesterFor().harvest();
+
+    expect(items.map((item) => item.originalPath).sort()).toEqual([
+      "wiki://school/cells",
+      "wiki://school/forces",
+      "wiki://school/fractions",
+    ]);
+    expect(items[0].metadata).toMatchObject({
+      plugin: "wiki",
+      space: "school",
+    });
+
+    fetched = [];
+    await harvesterFor().harvest();
+    expect(fetched).toEqual([]);
+  });
+
+  it("keeps unenumerated entries when entries() fails partway", async () => {
+    await harvesterFor().harvest();
+    failAfter = 1;
+
+    const harvester = harvesterFor();
+    await harvester.harvest();
+
+    expect(harvester.getProgress().stats.filesDeleted).toBe(0);
+    expect(harvester.getProgress().errors).toEqual([
+      expect.objectContaining({
+        file: "wiki://school",
+        error: "Wiki API timed out",
+      }),
+    ]);
+  });
+
+  it("keeps every entry when the plugin is missing", async () => {
+    await harvesterFor().harvest();
+
+    const harvester = harvesterFor("uninstalled");
+    await harvester.harvest();
+
+    expect(harvester.getProgress().stats.filesDeleted).toBe(0);
+    expect(harvester.getProgress().errors).toEqual([
+      expect.objectContaining({
+        error: "No harvest source plugin registered for: uninstalled",
+      }),
+    ]);
+  });
+
+  it("tombstones entries the plugin no longer lists", async () => {
+    await harvesterFor().harvest();
+    delete documents.forces;
+
+    const harvester = harvesterFor();
+    await harvester.harvest();
+
+    expect(harvester.getProgress().stats.filesDeleted).toBe(1);
+  });
+});
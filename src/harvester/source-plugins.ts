@@ -0,0 +1,64 @@
+/**
+ * Source Plugins - Custom harvest sources
+ *
+ * A plugin enumerates the entries of a "custom" source, fetches their
+ * bytes and (optionally) describes their metadata; the harvester does the
+ * rest. Plugins are registered globally here or on a FileHarvester, and
+ * picked by the source's options.plugin name.
+ */
+
+import type { HarvestSource } from "./file-harvester";
+
+/**
+ * Entry enumerated by a plugin
+ */
+export interface PluginEntry {
+  path: string; // Stable identity; becomes HarvestedItem.originalPath
+  filename?: string; // Default: last "/" separated segment of path
+  extension?: string; // Default: from filename
+  size: number; // bytes
+  created?: Date;
+  modified?: Date; // Unknown times force a content hash comparison
+
+  // Anything else the plugin needs to fetch or describe the entry
+  [key: string]: any;
+}
+
+/**
+ * Custom source plugin
+ */
+export interface HarvestSourcePlugin<E extends PluginEntry = PluginEntry> {
+  name: string;
+
+  // Enumerate entries (stopping early closes the iterator)
+  entries(source: HarvestSource): AsyncIterable<E>;
+
+  // Read an entry's bytes, only when it is new or changed
+  fetch(entry: E, source: HarvestSource): Promise<Buffer>;
+
+  // Extra metadata merged into HarvestedItem.metadata
+  describe?(
+    entry: E,
+    source: HarvestSource,
+  ): Record<string, any> | Promise<Record<string, any>>;
+}
+
+const PLUGINS = new Map<string, HarvestSourcePlugin<any>>();
+
+/**
+ * Register a plugin for every harvester (replacing any with the same name)
+ */
+export function registerHarvestSourcePlugin(
+  plugin: HarvestSourcePlugin<any>,
+): void {
+  PLUGINS.set(plugin.name, plugin);
+}
+
+/**
+ * Look up a globally registered plugin
+ */
+export function getHarvestSourcePlugin(
+  name: string,
+): HarvestSourcePlugin<any> | undefined {
+  return PLUGINS.get(name);
+}
@@ -0,0 +1,63 @@
+import { candidateTerms, corpusKeywords } from "./keywords";
+import { summarize } from "./summarizer";
+
+const ARTICLE = [
+  "Plants make their food by photosynthesis.",
+  "Photosynthesis takes place in the leaves of plants.",
+  "The school fete raised money for new books.",
+  "Leaves hold chlorophyll, which plants need for photosynthesis.",
+  "Parking near the gate is limited on Fridays.",
+].join(" ");
+
+describe("summarize", () => {
+  it("keeps the most central sentences in document order", () => {
+    expect(summarize(ARTICLE, { maxSentences: 2 })).toBe(
+      "Photosynthesis takes place in the leaves of plants. " +
+        "Leaves hold chlorophyll, which plants need for photosynthesis.",
+    );
+    expect(summarize(ARTICLE, { maxSentences: 2 })).toBe(
+      summarize(ARTICLE, { maxSentences: 2 }),
+    );
+  });
+
+  it("only shortens text with few sentences", () => {
+    expect(summarize("Fractions. Halves and quarters.")).toBe(
+      "Fractions. Halves and quarters.",
+    );
+    expect(summarize("word ".repeat(50), { maxLength: 20 })).toBe(
+      "word word word word...",
+    );
+  });
+});
+
+describe("candidateTerms", () => {
+  it("counts words and repeated phrases that stop at stopwords and punctuation", () => {
+    const terms = candidateTerms(
+      "Water cycle diagrams. The water cycle moves water; cycle of rain.",
+    );
+
+    expect(terms.get("water")).toBe(3);
+    expect(terms.get("water cycle")).toBe(2);
+    expect(terms.has("cycle diagrams")).toBe(false); // Used once
+    expect(terms.has("moves water")).toBe(false);
+  });
+});
+
+describe("corpusKeywords", () => {
+  it("weighs terms against the other documents", () => {
+    const [volcanoes, rivers] = corpusKeywords(
+      [
+        {
+          text: "Volcanoes erupt. Volcanoes form mountains. Lava cools into rock.",
+        },
+        {
+          text: "Rivers erode rock. Rivers carve valleys. Rivers meet the sea.",
+        },
+      ],
+      { maxKeywords: 2 },
+    );
+
+    expect(volcanoes).toEqual(["volcanoes", "cools"]);
+    expect(rivers).toEqual(["rivers", "carve"]);
+  });
+});
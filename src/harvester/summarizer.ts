@@ -0,0 +1,130 @@
+/**
+ * Summarizer - Extractive summaries by TextRank
+ *
+ * Sentences are ranked by PageRank over a graph whose edges weigh the
+ * content words two sentences share, and the best ones are returned in
+ * document order. Everything is computed from the text alone, so the
+ * same text always gets the same summary.
+ */
+
+import { isContentToken, splitSentences, tokenize } from "./text-analysis";
+
+/**
+ * Summary options
+ */
+export interface SummaryOptions {
+  maxLength?: number; // characters (default 500)
+  maxSentences?: number; // default 3
+  language?: string; // ISO 639-1 code, selects stopwords
+}
+
+const MAX_SENTENCES = 300; // Sentences ranked; the graph grows with the square
+const DAMPING = 0.85;
+const ITERATIONS = 50;
+const TOLERANCE = 1e-6;
+
+/**
+ * Summarize a text by its most central sentences
+ * Text with fewer sentences than asked for is only shortened.
+ */
+export function summarize(text: string, options: SummaryOptions = {}): string {
+  const maxLength = options.maxLength ?? 500;
+  const maxSentences = options.maxSentences ?? 3;
+  const sentences = splitSentences(text).slice(0, MAX_SENTENCES);
+
+  if (sentences.length <= maxSentences) {
+    return truncate(sentences.join(" "), maxLength);
+  }
+
+  const words = sentences.map(
+    (sentence) =>
+      new Set(
+        tokenize(sentence).filter((token) =>
+          isContentToken(token, options.language),
+        ),
+      ),
+  );
+  const scores = textRank(words);
+
+  // Best first, earlier sentences winning ties
+  const ranked = sentences
+    .map((sentence, index) => ({ sentence, index, score: scores[index] }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const chosen: typeof ranked = [];
+  let length = 0;
+  for (const candidate of ranked) {
+    if (chosen.length >= maxSentences) break;
+    const added = candidate.sentence.length + (chosen.length ? 1 : 0);
+    if (chosen.length && length + added > maxLength) continue;
+    chosen.push(candidate);
+    length += added;
+  }
+
+  return truncate(
+    chosen
+      .sort((a, b) => a.index - b.index)
+      .map(({ sentence }) => sentence)
+      .join(" "),
+    maxLength,
+  );
+}
+
+/**
+ * PageRank scores of sentences, given the content words of each
+ */
+function textRank(words: Set<string>[]): number[] {
+  const count = words.length;
+  const weights: number[][] = words.map(() => new Array(count).fill(0));
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const weight = similarity(words[i], words[j]);
+      weights[i][j] = weight;
+      weights[j][i] = weight;
+    }
+  }
+  const totals = weights.map((row) => row.reduce((sum, w) => sum + w, 0));
+
+  let scores = new Array<number>(count).fill(1);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const next = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < count; j++) {
+        if (weights[j][i] && totals[j]) {
+          rank += (weights[j][i] / totals[j]) * scores[j];
+        }
+      }
+      return 1 - DAMPING + DAMPING * rank;
+    });
+
+    const change = Math.max(
+      ...next.map((score, i) => Math.abs(score - scores[i])),
+    );
+    scores = next;
+    if (change < TOLERANCE) break;
+  }
+  return scores;
+}
+
+/**
+ * Shared words, normalized by sentence length as in the TextRank paper
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size < 2 && b.size < 2) return 0;
+
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared ? shared / (Math.log(a.size) + Math.log(b.size)) : 0;
+}
+
+/**
+ * Cut text to a length, marking the cut
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength
+    ? text
+    : text.substring(0, maxLength).trimEnd() + "...";
+}
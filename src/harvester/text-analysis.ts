@@ -0,0 +1,179 @@
+/**
+ * Text Analysis - Tokenizing, sentences and stopwords shared by the
+ * harvester
+ */
+
+/**
+ * English stopwords
+ */
+export const STOPWORDS = new Set(
+  (
+    "a about above after again against all also am an and any are as at be " +
+    "because been before being below between both but by can could did do " +
+    "does doing down during each either few for from further had has have " +
+    "having he her here hers herself him himself his how however i if in " +
+    "into is it its itself just let me more most must my myself no nor not " +
+    "now of off on once only or other our ours ourselves out over own same " +
+    "shall she should so some such than that the their theirs them " +
+    "themselves then there these they this those through to too under " +
+    "until up upon us very was we were what when where which while who " +
+    "whom whose why will with within without would yet you your yours " +
+    "yourself yourselves"
+  ).split(" "),
+);
+
+// Stopwords of the other languages detectLanguage recognizes from Latin
+// script, space-separated
+const STOPWORD_LISTS: Record<string, string> = {
+  fr:
+    "à afin ai aie aient ait alors as au aucun aussi autre aux avec avez " +
+    "avoir avons ayant c ça car ce ceci cela celle celles celui cependant " +
+    "ces cet cette ceux chaque chez comme comment d dans de des donc dont " +
+    "du elle elles en encore entre es est et étaient était été être eu eux " +
+    "fait faire fois font hors il ils j je jusqu l la là le les leur leurs " +
+    "lui m ma mais me même mes moi mon n ne ni nos notre nous on ont ou où " +
+    "par parce pas peu peut plus pour pourquoi qu quand que quel quelle " +
+    "quelles quels qui s sa sans se selon ses si sien son sont sous sur ta " +
+    "te tes toi ton tous tout toute toutes très tu un une vers vos votre " +
+    "vous y",
+  de:
+    "aber alle allem allen aller alles als also am an ander andere anderen " +
+    "auch auf aus bei bin bis bist da damit dann das dass dem den denn der " +
+    "des dessen dich die dies diese diesem diesen dieser dieses dir doch " +
+    "dort du durch ein eine einem einen einer eines er es etwas euch euer " +
+    "für gegen hab habe haben hat hatte hatten hier hin hinter ich ihm ihn " +
+    "ihnen ihr ihre ihrem ihren ihrer im in indem ins ist ja jede jedem " +
+    "jeden jeder jedes jetzt kann kein keine können könnte man manche mein " +
+    "meine mich mir mit muss nach nicht nichts noch nun nur ob oder ohne " +
+    "sehr sein seine seinem seinen seiner sich sie sind so soll sollte " +
+    "sondern sonst über um und uns unser unter viel vom von vor war waren " +
+    "warum was weil welche welchem welchen welcher welches wenn wer werde " +
+    "werden wie wieder will wir wird wo wurde wurden zu zum zur zwar " +
+    "zwischen",
+  es:
+    "a al algo algunos ante antes aquí así aunque cada como con contra " +
+    "cual cuando de del desde donde dos el él ella ellas ellos en entre era " +
+    "eran es esa esas ese eso esos esta está están estas este esto estos " +
+    "fue fueron ha han hasta hay la las le les lo los más me mi mientras " +
+    "mis muy nada ni no nos nosotros o otra otras otro otros para pero poco " +
+    "por porque qué que quien se sea ser si sí sido sin sobre son su sus " +
+    "también tan tanto te tiene tienen todo todos tu tus un una uno unos " +
+    "y ya yo",
+  it:
+    "a ad agli ai al alla alle allo anche avere aveva c che chi ci come con " +
+    "contro cosa cui da dai dal dalla dalle degli dei del della delle dello " +
+    "di dove e è ed era erano essere fa fare fra gli ha hanno i il in io la " +
+    "le lei li lo loro lui ma me mi mio molto ne nei nel nella nelle no noi " +
+    "non nostro o ogni per perché più poi quale quando quanto quella quelle " +
+    "quello questa queste questo qui se sé sei si sia siamo sono su sua sue " +
+    "sui sul sulla suo suoi tra tu tutti tutto un una uno voi",
+  pt:
+    "a ao aos aquela aquele aqueles as até com como da das de dela dele " +
+    "deles depois do dos e é ela elas ele eles em entre era eram essa esse " +
+    "esta está estão este eu foi foram há isso isto já la lhe lhes mais mas " +
+    "me mesmo meu minha muito na nas não nem no nos nós nossa nosso num " +
+    "numa o os ou para pela pelas pelo pelos por porque qual quando que " +
+    "quem se sem ser seu seus sua suas são também te tem têm tinha todo " +
+    "todos tu um uma umas uns você",
+  nl:
+    "aan al alles als ben bij dan dat de der deze die dit doch doen door " +
+    "dus een eens en er ge geen geweest haar had heb hebben heeft hem het " +
+    "hier hij hoe hun iemand iets ik in is ja je kan kon kunnen maar me " +
+    "meer men met mij mijn moet na naar niet niets nog nu of om omdat ons " +
+    "ook op over reeds te tegen toch toen tot u uit uw van veel voor want " +
+    "waren was wat we wel werd wezen wie wil worden wordt zal ze zelf zich " +
+    "zij zijn zo zonder zou",
+  sv:
+    "alla allt att av blev bli blir de dem den denna deras dess dessa det " +
+    "detta dig din dina ditt du där efter ej eller en er era ert ett från " +
+    "för ha hade han hans har henne hennes hon honom hur här i icke ingen " +
+    "inom inte jag ju kan kunde man med mellan men mig min mina mitt mot " +
+    "mycket ni nu när någon något några och om oss på samma sedan sig sin " +
+    "sina sitt själv skulle som så sådan till under upp ut utan vad var " +
+    "vara varför varit varje vars vi vid vilka vilken vilket vår våra vårt " +
+    "än är åt över",
+  pl:
+    "a aby ale bardzo bez bo być był była było były będzie ci co czy dla " +
+    "do gdy gdzie go i ich im jak jako je jego jej jest jeszcze jeśli " +
+    "już ja jednak kiedy kto która które którego który ma mi mnie mu my na " +
+    "nad nas nie nich nim niż o od oraz po pod przez przy się są ta tak " +
+    "także tam te tego tej ten to tu tylko tym u w we wszystko z za że " +
+    "żeby",
+};
+
+const STOPWORDS_BY_LANGUAGE = new Map<string, Set<string>>([
+  ["en", STOPWORDS],
+  ...Object.entries(STOPWORD_LISTS).map(
+    ([language, list]): [string, Set<string>] => [
+      language,
+      new Set(list.split(" ")),
+    ],
+  ),
+]);
+
+/**
+ * Stopwords for an ISO 639-1 language; English when it has no list
+ */
+export function stopwordsFor(language?: string): Set<string> {
+  return (language && STOPWORDS_BY_LANGUAGE.get(language)) || STOPWORDS;
+}
+
+/**
+ * Lowercase word tokens (letters and digits, any script)
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || [];
+}
+
+/**
+ * Tokens with stopwords and very short tokens removed
+ */
+export function contentTokens(text: string, language?: string): string[] {
+  return tokenize(text).filter((token) => isContentToken(token, language));
+}
+
+/**
+ * Whether a token carries meaning: not a stopword, number or single letter
+ */
+export function isContentToken(token: string, language?: string): boolean {
+  return (
+    token.length > 1 &&
+    !stopwordsFor(language).has(token) &&
+    !/^\d+$/.test(token)
+  );
+}
+
+/**
+ * Split text into sentences
+ * Sentences end at terminal punctuation followed by a capital, digit or
+ * quote, and at blank lines, list items and markdown headings, so those
+ * stand alone.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(
+      /\n\s*\n|\r?\n(?=\s*(?:[-*•]|\d+[.)]|#{1,6})\s)|(?<=^#{1,6}\s.*)\r?\n/m,
+    )
+    .flatMap((block) =>
+      block
+        .replace(/\s+/g, " ")
+        .trim()
+        .split(
+          /(?<=[.!?…]["'”’)\]]*)\s+(?=[\p{Lu}\p{N}"'“‘(¿¡])|(?<=[。！？])/u,
+        ),
+    )
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 32-bit FNV-1a hash with a seed
+ */
+export function fnv1a(text: string, seed = 0): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
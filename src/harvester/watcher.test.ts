@@ -0,0 +1,93 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ChangeWatcher, isWithin } from "./watcher";
+
+let root: string;
+let batches: string[][];
+let leftover: string[];
+let delivered: () => void;
+let watcher: ChangeWatcher;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Resolves on the next batch, or with undefined after ms
+function nextBatch(ms = 2000): Promise<string[] | undefined> {
+  const count = batches.length;
+  return Promise.race([
+    new Promise<string[]>((resolve) => {
+      delivered = () => resolve(batches[count]);
+    }),
+    sleep(ms).then(() => undefined),
+  ]);
+}
+
+describe("ChangeWatcher", () => {
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "kc-watch-test-"));
+    batches = [];
+    leftover = [];
+    delivered = () => undefined;
+    watcher = new ChangeWatcher(
+      root,
+      50,
+      async (paths) => {
+        batches.push(paths);
+        delivered();
+        return leftover.splice(0);
+      },
+      (error) => {
+        throw error;
+      },
+    );
+    watcher.start();
+    await sleep(50); // Let the watch settle
+  });
+
+  afterEach(async () => {
+    watcher.pause();
+    await watcher.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("delivers the topmost changed paths once events are quiet", async () => {
+    const batch = nextBatch();
+    fs.writeFileSync(path.join(root, "notes.md"), "# Notes\n");
+    fs.mkdirSync(path.join(root, "maths"));
+    fs.writeFileSync(path.join(root, "maths", "fractions.md"), "# Halves\n");
+
+    expect((await batch)?.sort()).toEqual([
+      path.join(root, "maths"),
+      path.join(root, "notes.md"),
+    ]);
+    expect(batches).toHaveLength(1);
+  });
+
+  it("holds changes while paused and delivers them on resume", async () => {
+    watcher.pause();
+    fs.writeFileSync(path.join(root, "notes.md"), "# Notes\n");
+    expect(await nextBatch(300)).toBeUndefined();
+
+    const batch = nextBatch();
+    watcher.resume();
+    expect(await batch).toEqual([path.join(root, "notes.md")]);
+  });
+
+  it("delivers the paths a batch did not get to with the next one", async () => {
+    leftover = [path.join(root, "retry.md")];
+    fs.writeFileSync(path.join(root, "notes.md"), "# Notes\n");
+    await nextBatch();
+
+    await watcher.flush();
+    expect(batches[1]).toEqual([path.join(root, "retry.md")]);
+  });
+});
+
+describe("isWithin", () => {
+  it("accepts the directory itself and paths below it", () => {
+    expect(isWithin("/library", "/library")).toBe(true);
+    expect(isWithin("/library", "/library/maths/a.md")).toBe(true);
+    expect(isWithin("/library", "/library-old/a.md")).toBe(false);
+    expect(isWithin("/library", "/")).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Change Watcher - Debounced filesystem change events
+ *
+ * Wraps a recursive fs.watch on a source root and delivers the changed
+ * paths in batches once events have been quiet for the debounce interval.
+ * While paused, changes keep accumulating and are delivered on resume.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Applies a batch of changed paths, returning any it did not get to
+ */
+export type ChangeBatchHandler = (paths: string[]) => Promise<string[]>;
+
+/**
+ * Change watcher
+ */
+export class ChangeWatcher {
+  private watcher?: fs.FSWatcher;
+  private pending = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private paused = false;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly root: string,
+    private readonly debounceMs: number,
+    private readonly onBatch: ChangeBatchHandler,
+    private readonly onError: (error: Error) => void,
+  ) {}
+
+  /**
+   * Start receiving events
+   */
+  start(): void {
+    if (this.watcher) return;
+
+    this.watcher = fs.watch(
+      this.root,
+      { recursive: true, persistent: true },
+      (_event, filename) => {
+        // Without a name, the whole root has to be looked at again
+        this.pending.add(
+          filename ? path.join(this.root, filename.toString()) : this.root,
+        );
+        this.schedule();
+      },
+    );
+    this.watcher.on("error", this.onError);
+  }
+
+  /**
+   * Hold batches back (events are still collected)
+   */
+  pause(): void {
+    this.paused = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Deliver held and future batches again
+   */
+  resume(): void {
+    this.paused = false;
+    if (this.pending.size) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Deliver pending changes now, resolving once every batch is applied
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    if (!this.paused && this.pending.size) {
+      const paths = topmostPaths([...this.pending]);
+      this.pending.clear();
+
+      this.flushing = this.flushing.then(async () => {
+        try {
+          const leftover = await this.onBatch(paths);
+          leftover.forEach((changed) => this.pending.add(changed));
+        } catch (error) {
+          this.onError(
+            error instanceof Error ? error : new Error(String(error)),
+          );
+        }
+      });
+    }
+
+    return this.flushing;
+  }
+
+  /**
+   * Stop watching, applying pending changes unless paused
+   */
+  async close(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = undefined;
+    await this.flush();
+  }
+
+  private schedule(): void {
+    if (this.paused) return;
+
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.flush(), this.debounceMs);
+  }
+}
+
+/**
+ * Drop paths that sit inside another path of the batch
+ */
+function topmostPaths(paths: string[]): string[] {
+  const result: string[] = [];
+  for (const candidate of paths.sort()) {
+    if (!result.some((parent) => isWithin(parent, candidate))) {
+      result.push(candidate);
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether a path is the same as or below a directory
+ */
+export function isWithin(directory: string, candidate: string): boolean {
+  const relative = path.relative(directory, candidate);
+  return (
+    relative === "" ||
+    (relative !== ".." &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative))
+  );
+}
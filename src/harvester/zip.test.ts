@@ -0,0 +1,56 @@
+import { zipArchive } from "./__fixtures__/archive-builder";
+import { InflateBudget } from "./inflate";
+import { isZip, readZip, readZipText } from "./zip";
+
+describe("readZip", () => {
+  it("lists and reads stored and deflated entries", () => {
+    const archive = zipArchive([
+      { name: "maths/", content: "", stored: true },
+      { name: "maths/notes.md", content: "# Fractions\n" },
+      { name: "café.txt", content: "stored", stored: true },
+    ]);
+
+    const entries = readZip(archive);
+
+    expect(isZip(archive)).toBe(true);
+    expect(entries.map((entry) => [entry.name, entry.isDirectory])).toEqual([
+      ["maths/", true],
+      ["maths/notes.md", false],
+      ["café.txt", false],
+    ]);
+    expect(readZipText(entries, "maths/notes.md")).toBe("# Fractions\n");
+    expect(readZipText(entries, "café.txt")).toBe("stored");
+    expect(readZipText(entries, "missing.txt")).toBeUndefined();
+  });
+
+  it("refuses to inflate past a declared size", () => {
+    const [entry] = readZip(
+      zipArchive([
+        { name: "bomb.txt", content: "a".repeat(10_000), declaredSize: 10 },
+      ]),
+    );
+
+    expect(() => entry.read()).toThrow();
+  });
+
+  it("shares one inflate budget between the entries", () => {
+    const entries = readZip(
+      zipArchive([
+        ["a.txt", "a".repeat(800)],
+        ["b.txt", "b".repeat(800)],
+      ]),
+      new InflateBudget(1000),
+    );
+
+    expect(entries[0].read()).toHaveLength(800);
+    expect(() => entries[1].read()).toThrow(
+      "Document inflates to more than 1000 bytes",
+    );
+  });
+
+  it("rejects data that is not a ZIP archive", () => {
+    expect(() => readZip(Buffer.from("not a zip archive at all"))).toThrow(
+      "Not a ZIP archive",
+    );
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * ZIP Reader - Minimal, dependency-free ZIP archive reading
+ *
+ * Reads the central directory and inflates entries on demand, all entries
+ * of an archive drawing on one InflateBudget.
+ * Supports stored and deflated entries, and ZIP64 sizes/offsets.
+ */
+
+import * as zlib from "zlib";
+import { InflateBudget } from "./inflate";
+
+/**
+ * Entry in a ZIP archive
+ */
+export interface ZipEntry {
+  name: string; // "/" separated path inside the archive
+  size: number; // Uncompressed size (as declared)
+  compressedSize: number;
+  method: number; // 0 = stored, 8 = deflate
+  modified: Date;
+  isDirectory: boolean;
+  read(): Buffer;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Check for the local file header signature
+ */
+export function isZip(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === LOCAL_SIGNATURE;
+}
+
+/**
+ * List the entries of a ZIP archive
+ */
+export function readZip(
+  data: Buffer,
+  budget = new InflateBudget(),
+): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(data);
+  let count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+
+  // ZIP64 end of central directory
+  const locator = eocd - 20;
+  if (locator >= 0 && data.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64 = Number(data.readBigUInt64LE(locator + 8));
+    if (data.readUInt32LE(zip64) === ZIP64_EOCD_SIGNATURE) {
+      count = Number(data.readBigUInt64LE(zip64 + 32));
+      offset = Number(data.readBigUInt64LE(zip64 + 48));
+    }
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const time = data.readUInt16LE(offset + 12);
+    const date = data.readUInt16LE(offset + 14);
+    let compressedSize = data.readUInt32LE(offset + 20);
+    let size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    let localOffset = data.readUInt32LE(offset + 42);
+
+    const nameBytes = data.subarray(offset + 46, offset + 46 + nameLength);
+    const name = nameBytes.toString(flags & 0x800 ? "utf8" : "latin1");
+
+    // ZIP64 extra field replaces saturated values, in this order
+    const extra = data.subarray(
+      offset + 46 + nameLength,
+      offset + 46 + nameLength + extraLength,
+    );
+    for (let p = 0; p + 4 <= extra.length;) {
+      const id = extra.readUInt16LE(p);
+      const length = extra.readUInt16LE(p + 2);
+      if (id === 0x0001) {
+        let q = p + 4;
+        if (size === 0xffffffff) {
+          size = Number(extra.readBigUInt64LE(q));
+          q += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(extra.readBigUInt64LE(q));
+          q += 8;
+        }
+        if (localOffset === 0xffffffff) {
+          localOffset = Number(extra.readBigUInt64LE(q));
+        }
+      }
+      p += 4 + length;
+    }
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      method,
+      modified: dosDateTime(date, time),
+      isDirectory: name.endsWith("/"),
+      read: () =>
+        readEntryData(
+          data,
+          localOffset,
+          method,
+          compressedSize,
+          size,
+          flags,
+          budget,
+        ),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Find an entry by name and read it as UTF-8
+ */
+export function readZipText(
+  entries: ZipEntry[],
+  name: string,
+): string | undefined {
+  const entry = entries.find((candidate) => candidate.name === name);
+  return entry ? entry.read().toString("utf8") : undefined;
+}
+
+/**
+ * Locate the end of central directory record (scanning back past a comment)
+ */
+function findEndOfCentralDirectory(data: Buffer): number {
+  const earliest = Math.max(0, data.length - 22 - 0xffff);
+  for (let i = data.length - 22; i >= earliest; i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) {
+      return i;
+    }
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+/**
+ * Read and decompress one entry
+ * Inflation is capped at the declared size and at what is left of the
+ * budget, so a lying header fails instead of expanding without bound.
+ */
+function readEntryData(
+  data: Buffer,
+  localOffset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+  flags: number,
+  budget: InflateBudget,
+): Buffer {
+  if (data.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+    throw new Error("Corrupt ZIP local header");
+  }
+  if (flags & 0x1) {
+    throw new Error("Encrypted ZIP entries are not supported");
+  }
+
+  const nameLength = data.readUInt16LE(localOffset + 26);
+  const extraLength = data.readUInt16LE(localOffset + 28);
+  const start = localOffset + 30 + nameLength + extraLength;
+  const compressed = data.subarray(start, start + compressedSize);
+
+  switch (method) {
+    case 0:
+      return compressed;
+    case 8:
+      return size === 0
+        ? Buffer.alloc(0)
+        : budget.inflate(
+            (maxOutputLength) =>
+              zlib.inflateRawSync(compressed, { maxOutputLength }),
+            size,
+          );
+    default:
+      throw new Error(`Unsupported ZIP compression method: ${method}`);
+  }
+}
+
+/**
+ * Convert MS-DOS date and time fields
+ */
+function dosDateTime(date: number, time: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  );
+}
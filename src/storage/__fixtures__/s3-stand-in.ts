@@ -0,0 +1,429 @@
+/**
+ * S3 Stand-in - A local, in-memory S3 endpoint for tests
+ *
+ * Path-style bucket addressing over plain HTTP, like a local MinIO. Every
+ * request must carry a valid Signature Version 4 header, checked by an
+ * implementation separate from the adapter's. Supports the calls the
+ * adapters make: object PUT/GET/HEAD/DELETE, server-side copy (whole and
+ * ranged), ListObjectsV2, multipart uploads, bucket versioning and
+ * ListObjectVersions.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export const STAND_IN_ACCESS_KEY = 'AKIDSTANDIN';
+export const STAND_IN_SECRET_KEY = 'stand-in-secret';
+export const STAND_IN_REGION = 'us-east-1';
+
+/**
+ * Stored object version
+ */
+interface StoredObject {
+  data: Buffer;
+  etag: string;
+  versionId: string;
+  contentType?: string;
+  metadata: Record<string, string>;     // x-amz-meta-* headers
+  lastModified: Date;
+  deleteMarker?: boolean;
+}
+
+interface MultipartUpload {
+  key: string;
+  contentType?: string;
+  metadata: Record<string, string>;
+  parts: Map<number, { data: Buffer; etag: string }>;
+}
+
+/**
+ * Request the stand-in received, with the upload id masked
+ */
+export interface StandInRequest {
+  method: string;
+  key: string;
+  query: Record<string, string>;
+  bodySize: number;
+}
+
+export class S3StandIn {
+  readonly requests: StandInRequest[] = [];
+  versioning = false;
+  pageSize = 1000;                      // Keys per list page
+  failPart?: number;                    // Part number that fails with a 500
+  private readonly objects = new Map<string, StoredObject[]>();
+  private readonly uploads = new Map<string, MultipartUpload>();
+  private readonly server = http.createServer((req, res) => this.receive(req, res));
+  private sequence = 0;
+
+  constructor(readonly bucket: string) {}
+
+  /**
+   * Start listening on a free local port; resolves to the endpoint URL
+   */
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Current version of an object
+   */
+  object(key: string): StoredObject | undefined {
+    const versions = this.objects.get(key);
+    const latest = versions && versions[versions.length - 1];
+    return latest && !latest.deleteMarker ? latest : undefined;
+  }
+
+  /**
+   * Multipart uploads started and not yet completed or aborted
+   */
+  openUploads(): number {
+    return this.uploads.size;
+  }
+
+  private receive(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      const url = new URL(req.url || '/', `http://${req.headers.host}`);
+      const [, bucket, ...rest] = url.pathname.split('/');
+      const key = rest.map(decodeURIComponent).join('/');
+      const query = Object.fromEntries(url.searchParams);
+
+      this.requests.push({
+        method: req.method || '',
+        key,
+        query: query.uploadId ? { ...query, uploadId: '*' } : query,
+        bodySize: body.length,
+      });
+
+      let reply: Reply;
+      if (!validSignature(req, url, body)) {
+        reply = error(403, 'SignatureDoesNotMatch', 'The request signature does not match');
+      } else if (bucket !== this.bucket) {
+        reply = error(404, 'NoSuchBucket', 'The bucket does not exist');
+      } else {
+        reply = key ? this.objectRequest(req, key, query, body) : this.bucketRequest(req, query, body);
+      }
+
+      res.writeHead(reply.status, reply.headers || {});
+      res.end(req.method === 'HEAD' ? undefined : reply.body);
+    });
+  }
+
+  private bucketRequest(
+    req: http.IncomingMessage,
+    query: Record<string, string>,
+    body: Buffer
+  ): Reply {
+    if (req.method === 'PUT' && 'versioning' in query) {
+      if (req.headers['content-md5'] !== md5(body, 'base64')) {
+        return error(400, 'InvalidDigest', 'Content-MD5 is missing or wrong');
+      }
+      this.versioning = /<Status>Enabled<\/Status>/.test(body.toString());
+      return { status: 200 };
+    }
+
+    if (req.method === 'GET' && 'versions' in query) {
+      const prefix = query.prefix || '';
+      let xml = '<ListVersionsResult><IsTruncated>false</IsTruncated>';
+      for (const key of [...this.objects.keys()].sort()) {
+        if (!key.startsWith(prefix)) continue;
+        for (const version of [...(this.objects.get(key) || [])].reverse()) {
+          if (version.deleteMarker) continue;
+          xml +=
+            `<Version><Key>${escape(key)}</Key><VersionId>${version.versionId}</VersionId>` +
+            `<Size>${version.data.length}</Size><ETag>&quot;${version.etag}&quot;</ETag>` +
+            `<LastModified>${version.lastModified.toISOString()}</LastModified></Version>`;
+        }
+      }
+      return { status: 200, body: `${xml}</ListVersionsResult>` };
+    }
+
+    if (req.method === 'GET' && query['list-type'] === '2') {
+      return { status: 200, body: this.listObjects(query) };
+    }
+    return error(400, 'NotImplemented', 'The stand-in does not support this request');
+  }
+
+  /**
+   * ListObjectsV2, with the continuation token as the next key index
+   */
+  private listObjects(query: Record<string, string>): string {
+    const prefix = query.prefix || '';
+    const delimiter = query.delimiter;
+    const limit = Math.min(this.pageSize, Number(query['max-keys'] || this.pageSize));
+    const keys = [...this.objects.keys()].filter((key) => this.object(key) && key.startsWith(prefix)).sort();
+
+    const contents: string[] = [];
+    const prefixes = new Set<string>();
+    let index = Number(query['continuation-token'] || 0);
+    for (; index < keys.length && contents.length + prefixes.size < limit; index++) {
+      const rest = keys[index].substring(prefix.length);
+      const cut = delimiter ? rest.indexOf(delimiter) : -1;
+      if (cut >= 0) {
+        // Like S3, a common prefix is listed once: skip the rest of its keys
+        const common = prefix + rest.substring(0, cut + 1);
+        prefixes.add(common);
+        while (index + 1 < keys.length && keys[index + 1].startsWith(common)) index++;
+      } else {
+        contents.push(keys[index]);
+      }
+    }
+
+    const truncated = index < keys.length;
+    let xml = `<ListBucketResult><IsTruncated>${truncated}</IsTruncated>`;
+    if (truncated) xml += `<NextContinuationToken>${index}</NextContinuationToken>`;
+    for (const key of contents) {
+      const object = this.object(key) as StoredObject;
+      xml +=
+        `<Contents><Key>${escape(key)}</Key><Size>${object.data.length}</Size>` +
+        `<ETag>&quot;${object.etag}&quot;</ETag>` +
+        `<LastModified>${object.lastModified.toISOString()}</LastModified></Contents>`;
+    }
+    for (const common of prefixes) {
+      xml += `<CommonPrefixes><Prefix>${escape(common)}</Prefix></CommonPrefixes>`;
+    }
+    return `${xml}</ListBucketResult>`;
+  }
+
+  private objectRequest(
+    req: http.IncomingMessage,
+    key: string,
+    query: Record<string, string>,
+    body: Buffer
+  ): Reply {
+    const metadata: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (name.startsWith('x-amz-meta-')) metadata[name] = String(value);
+    }
+    const contentType = req.headers['content-type'];
+    const copySource = req.headers['x-amz-copy-source'] as string | undefined;
+
+    if (req.method === 'POST' && 'uploads' in query) {
+      const uploadId = `upload-${++this.sequence}`;
+      this.uploads.set(uploadId, { key, contentType, metadata, parts: new Map() });
+      return {
+        status: 200,
+        body: `<InitiateMultipartUploadResult><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`,
+      };
+    }
+    if (query.uploadId) {
+      return this.uploadRequest(req, key, query, body, copySource);
+    }
+
+    if (req.method === 'PUT') {
+      if (copySource) {
+        const source = this.copySource(copySource);
+        if (!source) return error(404, 'NoSuchKey', 'The copy source does not exist');
+        const copied = this.store(key, source.data, source.contentType, source.metadata);
+        return {
+          status: 200,
+          body: `<CopyObjectResult><ETag>&quot;${copied.etag}&quot;</ETag></CopyObjectResult>`,
+        };
+      }
+      if (req.headers['content-md5'] !== md5(body, 'base64')) {
+        return error(400, 'BadDigest', 'Content-MD5 does not match the body');
+      }
+      const stored = this.store(key, body, contentType, metadata);
+      return { status: 200, headers: { etag: `"${stored.etag}"`, 'x-amz-version-id': stored.versionId } };
+    }
+
+    if (req.method === 'DELETE') {
+      const versions = this.objects.get(key);
+      if (this.versioning && versions) {
+        versions.push({ ...versions[versions.length - 1], deleteMarker: true });
+      } else {
+        this.objects.delete(key);
+      }
+      return { status: 204 };
+    }
+
+    const object = query.versionId
+      ? (this.objects.get(key) || []).find((version) => version.versionId === query.versionId)
+      : this.object(key);
+    if (!object || object.deleteMarker) {
+      return error(404, 'NoSuchKey', 'The specified key does not exist');
+    }
+    return {
+      status: 200,
+      headers: {
+        'content-length': String(object.data.length),
+        'content-type': object.contentType || 'binary/octet-stream',
+        etag: `"${object.etag}"`,
+        'last-modified': object.lastModified.toUTCString(),
+        'x-amz-version-id': object.versionId,
+        ...object.metadata,
+      },
+      body: object.data,
+    };
+  }
+
+  private uploadRequest(
+    req: http.IncomingMessage,
+    key: string,
+    query: Record<string, string>,
+    body: Buffer,
+    copySource?: string
+  ): Reply {
+    const upload = this.uploads.get(query.uploadId);
+    if (!upload || upload.key !== key) {
+      return error(404, 'NoSuchUpload', 'The upload does not exist');
+    }
+
+    if (req.method === 'DELETE') {
+      this.uploads.delete(query.uploadId);
+      return { status: 204 };
+    }
+
+    if (req.method === 'PUT') {
+      const partNumber = Number(query.partNumber);
+      if (partNumber === this.failPart) {
+        return error(500, 'InternalError', 'Part upload failed');
+      }
+      let data = body;
+      if (copySource) {
+        const source = this.copySource(copySource);
+        const range = /^bytes=(\d+)-(\d+)$/.exec(String(req.headers['x-amz-copy-source-range']));
+        if (!source || !range) return error(400, 'InvalidRequest', 'Bad copy source or range');
+        data = source.data.subarray(Number(range[1]), Number(range[2]) + 1);
+      }
+      const etag = md5(data, 'hex');
+      upload.parts.set(partNumber, { data, etag });
+      return copySource
+        ? { status: 200, body: `<CopyPartResult><ETag>&quot;${etag}&quot;</ETag></CopyPartResult>` }
+        : { status: 200, headers: { etag: `"${etag}"` } };
+    }
+
+    // Complete: parts must be listed in order, with their etags, and all
+    // but the last must be at least 5 MB
+    const listed = [...body.toString().matchAll(/<PartNumber>(\d+)<\/PartNumber><ETag>([^<]*)<\/ETag>/g)];
+    const parts = listed.map(([, number, etag]) => ({
+      number: Number(number),
+      etag: etag.replace(/&quot;|"/g, ''),
+    }));
+    for (const [index, part] of parts.entries()) {
+      const stored = upload.parts.get(part.number);
+      if (!stored || stored.etag !== part.etag || part.number !== index + 1) {
+        return { status: 200, body: '<Error><Code>InvalidPart</Code><Message>Part mismatch</Message></Error>' };
+      }
+      if (index < parts.length - 1 && stored.data.length < 5 * 1024 * 1024) {
+        return error(400, 'EntityTooSmall', 'Part smaller than 5 MB');
+      }
+    }
+
+    const data = Buffer.concat(parts.map((part) => (upload.parts.get(part.number) as { data: Buffer }).data));
+    const stored = this.store(key, data, upload.contentType, upload.metadata, `-${parts.length}`);
+    this.uploads.delete(query.uploadId);
+    return {
+      status: 200,
+      headers: { 'x-amz-version-id': stored.versionId },
+      body: `<CompleteMultipartUploadResult><ETag>&quot;${stored.etag}&quot;</ETag></CompleteMultipartUploadResult>`,
+    };
+  }
+
+  private copySource(header: string): StoredObject | undefined {
+    const [, bucket, ...rest] = header.split('/');
+    return bucket === this.bucket ? this.object(rest.map(decodeURIComponent).join('/')) : undefined;
+  }
+
+  private store(
+    key: string,
+    data: Buffer,
+    contentType: string | undefined,
+    metadata: Record<string, string>,
+    etagSuffix = ''
+  ): StoredObject {
+    const stored: StoredObject = {
+      data,
+      etag: md5(data, 'hex') + etagSuffix,
+      versionId: this.versioning ? `v${++this.sequence}` : 'null',
+      contentType,
+      metadata,
+      lastModified: new Date(),
+    };
+    const versions = this.versioning ? this.objects.get(key) || [] : [];
+    versions.push(stored);
+    this.objects.set(key, versions);
+    return stored;
+  }
+}
+
+interface Reply {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+}
+
+function error(status: number, code: string, message: string): Reply {
+  return {
+    status,
+    body: `<Error><Code>${code}</Code><Message>${message}</Message></Error>`,
+  };
+}
+
+/**
+ * Check the Authorization header the way S3 does
+ */
+function validSignature(req: http.IncomingMessage, url: URL, body: Buffer): boolean {
+  const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/([^,]+), SignedHeaders=([^,]+), Signature=([0-9a-f]+)$/.exec(
+    req.headers.authorization || ''
+  );
+  if (!match || match[1] !== STAND_IN_ACCESS_KEY) return false;
+  const [, , scope, signedHeaders, signature] = match;
+  if (!scope.endsWith(`/${STAND_IN_REGION}/s3/aws4_request`)) return false;
+
+  const payloadHash = req.headers['x-amz-content-sha256'];
+  if (payloadHash !== sha256(body)) return false;
+
+  const names = signedHeaders.split(';');
+  if (!names.includes('host') || !names.includes('x-amz-date')) return false;
+
+  const encode = (value: string) =>
+    encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  const canonicalQuery = [...url.searchParams]
+    .map(([name, value]) => [encode(name), encode(value)])
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+  const canonicalRequest = [
+    req.method,
+    url.pathname,
+    canonicalQuery,
+    names.map((name) => `${name}:${String(req.headers[name]).trim()}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    req.headers['x-amz-date'],
+    scope,
+    sha256(canonicalRequest),
+  ].join('\n');
+
+  let key: Buffer = Buffer.from(`AWS4${STAND_IN_SECRET_KEY}`);
+  for (const part of scope.split('/')) {
+    key = crypto.createHmac('sha256', key).update(part).digest();
+  }
+  const expected = crypto.createHmac('sha256', key).update(stringToSign).digest('hex');
+  return expected === signature;
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function md5(data: Buffer, encoding: 'hex' | 'base64'): string {
+  return crypto.createHash('md5').update(data).digest(encoding);
+}
+
+function escape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -112,7 +112,7 @@ export interface CloudProviderAdapter {
   config: CloudProviderConfig;
 
   // Core operations
-  upload(localPath: string, remotePath: string): Promise<CloudUploadResult>;
+  upload(localPath: string, remotePath: string, options?: CloudUploadOptions): Promise<CloudUploadResult>;
   download(remotePath: string, localPath: string): Promise<CloudDownloadResult>;
   delete(remotePath: string): Promise<void>;
   exists(remotePath: string): Promise<boolean>;
@@ -127,6 +127,14 @@ export interface CloudProviderAdapter {
   move(fromPath: string, toPath: string): Promise<void>;
 }
 
+/**
+ * Upload options
+ */
+export interface CloudUploadOptions {
+  contentType?: string;                     // default from the file extension
+  customMetadata?: Record<string, string>;  // Kept with the file, returned by getMetadata
+}
+
 /**
  * Upload result
  */
@@ -165,6 +173,70 @@ export interface CloudFileMetadata {
   customMetadata?: Record<string, string>;
 }
 
+const CONTENT_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  csv: 'text/csv',
+  xml: 'application/xml',
+  json: 'application/json',
+  js: 'text/javascript',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tar: 'application/x-tar',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+/**
+ * Content type for a file name, from its extension
+ */
+export function contentTypeFor(name: string): string {
+  const dot = name.lastIndexOf('.');
+  const ext = dot < 0 ? '' : name.substring(dot + 1).toLowerCase();
+  return CONTENT_TYPES[ext] || 'application/octet-stream';
+}
+
+/**
+ * Adapter factory
+ */
+export type CloudProviderAdapterFactory = (config: CloudProviderConfig) => CloudProviderAdapter;
+
+const ADAPTER_FACTORIES = new Map<CloudProvider, CloudProviderAdapterFactory>();
+
+/**
+ * Register the adapter implementation for a provider
+ */
+export function registerCloudProviderAdapter(
+  provider: CloudProvider,
+  factory: CloudProviderAdapterFactory
+): void {
+  ADAPTER_FACTORIES.set(provider, factory);
+}
+
+/**
+ * Create an adapter for a provider configuration
+ */
+export function createCloudProviderAdapter(config: CloudProviderConfig): CloudProviderAdapter {
+  const factory = ADAPTER_FACTORIES.get(config.provider);
+  if (!factory) {
+    throw new Error(`No adapter registered for provider: ${config.provider}`);
+  }
+  return factory(config);
+}
+
 /**
  * Provider comparison chart
  */
@@ -358,6 +430,28 @@ export const PROVIDER_FEATURES: Record<CloudProvider, ProviderFeatures> = {
     openSource: false,
   },
 
+  [CloudProvider.WASABI]: {
+    s3Compatible: true,
+    webdavCompatible: false,
+    apiAvailable: true,
+    versioningSupported: true,
+    e2eEncryption: false,
+    zeroKnowledge: false,
+    selfHostable: false,
+    openSource: false,
+  },
+
+  [CloudProvider.DIGITAL_OCEAN_SPACES]: {
+    s3Compatible: true,
+    webdavCompatible: false,
+    apiAvailable: true,
+    versioningSupported: true,
+    e2eEncryption: false,
+    zeroKnowledge: false,
+    selfHostable: false,
+    openSource: false,
+  },
+
   [CloudProvider.MINIO]: {
     s3Compatible: true,
     webdavCompatible: false,
@@ -369,6 +463,17 @@ export const PROVIDER_FEATURES: Record<CloudProvider, ProviderFeatures> = {
     openSource: true,
   },
 
+  [CloudProvider.CUSTOM_S3_COMPATIBLE]: {
+    s3Compatible: true,
+    webdavCompatible: false,
+    apiAvailable: true,
+    versioningSupported: true,
+    e2eEncryption: false,
+    zeroKnowledge: false,
+    selfHostable: true,
+    openSource: false,
+  },
+
   [CloudProvider.NEXTCLOUD]: {
     s3Compatible: false,
     webdavCompatible: true,
@@ -420,6 +525,16 @@ export const PROVIDER_FEATURES: Record<CloudProvider, ProviderFeatures> = {
  * Configuration examples
  */
 export const CONFIGURATION_EXAMPLES = {
+  // Self-hosted disk or NAS mount
+  self_hosted: {
+    provider: CloudProvider.SELF_HOSTED,
+    credentials: {
+      secretKey: process.env.KC_SIGNING_KEY,  // Signs shared URLs
+    },
+    basePath: '/srv/knowledge-centre',
+    endpoint: 'https://files.myschool.edu/pocket',
+  },
+
   // Self-hosted MinIO
   minio: {
     provider: CloudProvider.MINIO,
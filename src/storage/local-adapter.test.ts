@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CloudProvider, CloudProviderConfig } from './cloud-providers';
+import { LocalFilesystemAdapter } from './local-adapter';
+
+let dir: string;
+let basePath: string;
+
+function adapterFor(config: Partial<CloudProviderConfig> = {}): LocalFilesystemAdapter {
+  return new LocalFilesystemAdapter({
+    provider: CloudProvider.SELF_HOSTED,
+    credentials: { secretKey: 'staff-room-key' },
+    basePath,
+    endpoint: 'https://files.myschool.test/pocket',
+    ...config,
+  });
+}
+
+function localFile(name: string, content: string): string {
+  const localPath = path.join(dir, name);
+  fs.writeFileSync(localPath, content);
+  return localPath;
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kc-local-adapter-test-'));
+});
+
+beforeEach(() => {
+  basePath = fs.mkdtempSync(path.join(dir, 'root-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('LocalFilesystemAdapter files', () => {
+  it('uploads, lists and downloads with metadata', async () => {
+    const adapter = adapterFor();
+    await adapter.upload(localFile('notes.md', '# Notes\n'), 'year 5/notes.md', {
+      customMetadata: { owner: 'maths' },
+    });
+
+    expect((await adapter.listFiles('')).map((entry) => entry.path)).toEqual(['year 5/']);
+    expect(await adapter.getMetadata('year 5/notes.md')).toMatchObject({
+      size: 8,
+      contentType: 'text/markdown',
+      customMetadata: { owner: 'maths' },
+    });
+
+    const downloaded = path.join(dir, 'downloaded.md');
+    await adapter.download('year 5/notes.md', downloaded);
+    expect(fs.readFileSync(downloaded, 'utf8')).toBe('# Notes\n');
+
+    await adapter.delete('year 5/notes.md');
+    expect(await adapter.listFiles('')).toEqual([]);
+  });
+});
+
+describe('LocalFilesystemAdapter signed URLs', () => {
+  it('grants the signed path until it expires', async () => {
+    const adapter = adapterFor();
+    const url = await adapter.getSignedUrl('year 5/notes.md', 60);
+
+    expect(url).toMatch(/^https:\/\/files\.myschool\.test\/pocket\/year%205\/notes\.md\?expires=/);
+    expect(adapter.verifySignedUrl(url)).toBe('year 5/notes.md');
+    expect(adapter.verifySignedUrl(new URL(url).pathname + new URL(url).search)).toBe('year 5/notes.md');
+    expect(adapter.verifySignedUrl(url, Date.now() + 120 * 1000)).toBeUndefined();
+  });
+
+  it('rejects tampered URLs and URLs outside the endpoint', async () => {
+    const adapter = adapterFor();
+    const url = await adapter.getSignedUrl('year 5/notes.md', 60);
+
+    expect(adapter.verifySignedUrl(url.replace('notes.md', 'marks.md'))).toBeUndefined();
+    expect(adapter.verifySignedUrl(url.replace('/pocket/', '/other/'))).toBeUndefined();
+    expect(adapter.verifySignedUrl(url.replace(/signature=\w+/, 'signature=00'))).toBeUndefined();
+  });
+
+  it('rejects every URL when it has no key or endpoint to check with', async () => {
+    const url = await adapterFor().getSignedUrl('year 5/notes.md', 60);
+
+    expect(adapterFor({ credentials: {} }).verifySignedUrl(url)).toBeUndefined();
+    expect(adapterFor({ endpoint: undefined }).verifySignedUrl(url)).toBeUndefined();
+    await expect(adapterFor({ endpoint: undefined }).getSignedUrl('notes.md', 60)).rejects.toThrow(
+      'Signed URLs need an endpoint that serves the storage root'
+    );
+  });
+});
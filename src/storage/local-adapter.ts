@@ -0,0 +1,420 @@
+/**
+ * Local Filesystem Adapter for self-hosted storage
+ *
+ * Stores files on a local disk or NAS mount. Remote paths are "/"-separated
+ * keys under a root directory (config.basePath, joined with config.bucket
+ * when given); directories act as key prefixes, created on upload and
+ * pruned once empty.
+ *
+ * Every write lands in a temporary file beside its target and is renamed
+ * into place, so a reader never sees half a file. Etags are the SHA-256 of
+ * the content. Etag, content type and custom metadata are kept in a JSON
+ * sidecar in a hidden ".kc-meta" directory next to the file; a sidecar
+ * that no longer matches the file's size and mtime is refreshed.
+ *
+ * Signed URLs point into config.endpoint and carry an HMAC of the path and
+ * expiry, keyed with credentials.secretKey; whatever serves the endpoint
+ * checks them with verifySignedUrl().
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { pathToFileURL } from 'url';
+import { hashStream } from '../utils/crypto';
+import {
+  CloudDownloadResult,
+  CloudFileMetadata,
+  CloudProvider,
+  CloudProviderAdapter,
+  CloudProviderConfig,
+  CloudUploadOptions,
+  CloudUploadResult,
+  contentTypeFor,
+  registerCloudProviderAdapter,
+} from './cloud-providers';
+
+const METADATA_DIR = '.kc-meta';
+const TEMP_FILE = /^\..+\.\d+\.[0-9a-f]{8}\.tmp$/;
+
+/**
+ * Sidecar kept for each stored file
+ */
+interface Sidecar {
+  etag: string;                             // SHA-256 of the content
+  size: number;                             // bytes, when the etag was taken
+  mtimeMs: number;                          // File mtime, likewise
+  contentType?: string;
+  customMetadata?: Record<string, string>;
+}
+
+/**
+ * Adapter for a directory on local disk or a mounted NAS share
+ */
+export class LocalFilesystemAdapter implements CloudProviderAdapter {
+  readonly provider = CloudProvider.SELF_HOSTED;
+  readonly root: string;
+
+  constructor(public config: CloudProviderConfig) {
+    if (!config.basePath) {
+      throw new Error('Self-hosted storage needs a basePath directory');
+    }
+    this.root = path.resolve(config.basePath, config.bucket || '');
+  }
+
+  async upload(
+    localPath: string,
+    remotePath: string,
+    options: CloudUploadOptions = {}
+  ): Promise<CloudUploadResult> {
+    const started = Date.now();
+    const key = this.fileKey(remotePath);
+    const target = this.filePath(key);
+
+    const { etag, size } = await writeAtomically(target, () => fs.createReadStream(localPath));
+    const { mtimeMs } = await fs.promises.stat(target);
+    await this.writeSidecar(key, {
+      etag,
+      size,
+      mtimeMs,
+      contentType: options.contentType,
+      customMetadata: options.customMetadata,
+    });
+
+    return {
+      success: true,
+      remotePath: key,
+      url: pathToFileURL(target).href,
+      etag,
+      size,
+      uploadTime: Date.now() - started,
+    };
+  }
+
+  async download(remotePath: string, localPath: string): Promise<CloudDownloadResult> {
+    const started = Date.now();
+    const key = this.fileKey(remotePath);
+    await this.statFile(key);
+
+    const { size } = await writeAtomically(path.resolve(localPath), () =>
+      fs.createReadStream(this.filePath(key))
+    );
+    return { success: true, localPath, size, downloadTime: Date.now() - started };
+  }
+
+  /**
+   * Delete a file and its sidecar; deleting a missing file is not an error
+   */
+  async delete(remotePath: string): Promise<void> {
+    const key = this.fileKey(remotePath);
+    await fs.promises.rm(this.filePath(key), { force: true });
+    await fs.promises.rm(this.sidecarPath(key), { force: true });
+    await this.prune(key);
+  }
+
+  async exists(remotePath: string): Promise<boolean> {
+    const stat = await fs.promises.stat(this.filePath(this.fileKey(remotePath))).catch(() => undefined);
+    return !!stat && stat.isFile();
+  }
+
+  async getMetadata(remotePath: string): Promise<CloudFileMetadata> {
+    const key = this.key(remotePath);
+    const stat = await fs.promises.stat(this.filePath(key)).catch(() => undefined);
+    if (!stat) throw new Error(`Not found: ${remotePath}`);
+    return this.describe(key, stat);
+  }
+
+  /**
+   * Files and directories directly under a path, sorted by name
+   * Directory paths end in "/", like S3 common prefixes.
+   */
+  async listFiles(remotePath: string): Promise<CloudFileMetadata[]> {
+    const key = this.key(remotePath);
+    const directory = this.filePath(key);
+    const stat = await fs.promises.stat(directory).catch(() => undefined);
+    if (!stat) return [];
+    if (!stat.isDirectory()) return [await this.describe(key, stat)];
+
+    const names = (await fs.promises.readdir(directory))
+      .filter((name) => name !== METADATA_DIR && !TEMP_FILE.test(name))
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    const listed: CloudFileMetadata[] = [];
+    for (const name of names) {
+      const childKey = key ? `${key}/${name}` : name;
+      const childStat = await fs.promises.stat(this.filePath(childKey)).catch(() => undefined);
+      if (!childStat || !(childStat.isFile() || childStat.isDirectory())) continue;
+      listed.push(await this.describe(childKey, childStat));
+    }
+    return listed;
+  }
+
+  /**
+   * URL for a file under config.endpoint, valid for expiresIn seconds
+   */
+  async getSignedUrl(remotePath: string, expiresIn: number): Promise<string> {
+    const key = this.fileKey(remotePath);
+    const expires = Math.floor(Date.now() / 1000) + Math.max(1, Math.floor(expiresIn));
+
+    const url = new URL(`./${key.split('/').map(encodeURIComponent).join('/')}`, this.endpoint());
+    url.searchParams.set('expires', String(expires));
+    url.searchParams.set('signature', this.sign(key, expires));
+    return url.href;
+  }
+
+  /**
+   * Check a signed URL, or the path and query a server received for one
+   * Returns the remote path it grants, or undefined if the URL is not
+   * under the endpoint, has expired or carries the wrong signature, or
+   * if no endpoint or credentials.secretKey is configured to check it with.
+   */
+  verifySignedUrl(url: string, now: number = Date.now()): string | undefined {
+    let key: string;
+    let parsed: URL;
+    try {
+      const base = this.endpoint();
+      parsed = new URL(url, base);
+      if (!parsed.pathname.startsWith(base.pathname)) return undefined;
+      key = parsed.pathname
+        .substring(base.pathname.length)
+        .split('/')
+        .map(decodeURIComponent)
+        .join('/');
+    } catch {
+      return undefined;
+    }
+
+    const expires = Number(parsed.searchParams.get('expires'));
+    if (!Number.isInteger(expires) || expires * 1000 < now) return undefined;
+    if (!this.config.credentials.secretKey) return undefined;
+
+    const expected = Buffer.from(this.sign(key, expires), 'hex');
+    const given = Buffer.from(parsed.searchParams.get('signature') || '', 'hex');
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      return undefined;
+    }
+    return key;
+  }
+
+  /**
+   * Copy a file with its content type and custom metadata
+   */
+  async copy(fromPath: string, toPath: string): Promise<void> {
+    const fromKey = this.fileKey(fromPath);
+    const toKey = this.fileKey(toPath);
+    const sidecar = await this.sidecar(fromKey, await this.statFile(fromKey));
+
+    const target = this.filePath(toKey);
+    const { etag, size } = await writeAtomically(target, () =>
+      fs.createReadStream(this.filePath(fromKey))
+    );
+    const { mtimeMs } = await fs.promises.stat(target);
+    await this.writeSidecar(toKey, { ...sidecar, etag, size, mtimeMs });
+  }
+
+  /**
+   * Move a file with its sidecar; renames in place, or copies and deletes
+   * when the paths are on different devices
+   */
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const fromKey = this.fileKey(fromPath);
+    const toKey = this.fileKey(toPath);
+    const sidecar = await this.sidecar(fromKey, await this.statFile(fromKey));
+    if (fromKey === toKey) return;
+
+    const target = this.filePath(toKey);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.promises.rename(this.filePath(fromKey), target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      await this.copy(fromKey, toKey);
+      await this.delete(fromKey);
+      return;
+    }
+
+    // Renaming keeps the mtime, so the sidecar still matches
+    await this.writeSidecar(toKey, sidecar);
+    await fs.promises.rm(this.sidecarPath(fromKey), { force: true });
+    await this.prune(fromKey);
+  }
+
+  /**
+   * Normalized key for a remote path; "" is the root
+   */
+  private key(remotePath: string): string {
+    const parts = remotePath
+      .replace(/\\/g, '/')
+      .split('/')
+      .filter((part) => part && part !== '.');
+    if (parts.includes('..')) {
+      throw new Error(`Path leaves the storage root: ${remotePath}`);
+    }
+    if (parts.includes(METADATA_DIR)) {
+      throw new Error(`Path is reserved for metadata: ${remotePath}`);
+    }
+    return parts.join('/');
+  }
+
+  /**
+   * Key for a path that must name a file
+   */
+  private fileKey(remotePath: string): string {
+    const key = this.key(remotePath);
+    if (!key || /[\\/]$/.test(remotePath)) {
+      throw new Error(`Not a file path: ${remotePath}`);
+    }
+    return key;
+  }
+
+  private filePath(key: string): string {
+    return key ? path.join(this.root, ...key.split('/')) : this.root;
+  }
+
+  private sidecarPath(key: string): string {
+    const filePath = this.filePath(key);
+    return path.join(path.dirname(filePath), METADATA_DIR, `${path.basename(filePath)}.json`);
+  }
+
+  private async statFile(key: string): Promise<fs.Stats> {
+    const stat = await fs.promises.stat(this.filePath(key)).catch(() => undefined);
+    if (!stat || !stat.isFile()) throw new Error(`Not found: ${key}`);
+    return stat;
+  }
+
+  private async describe(key: string, stat: fs.Stats): Promise<CloudFileMetadata> {
+    const name = key.substring(key.lastIndexOf('/') + 1);
+    if (stat.isDirectory()) {
+      return {
+        path: key ? `${key}/` : '',
+        name,
+        size: 0,
+        contentType: 'application/x-directory',
+        lastModified: stat.mtime,
+        isDirectory: true,
+      };
+    }
+
+    const sidecar = await this.sidecar(key, stat);
+    return {
+      path: key,
+      name,
+      size: stat.size,
+      contentType: sidecar.contentType || contentTypeFor(name),
+      lastModified: stat.mtime,
+      etag: sidecar.etag,
+      isDirectory: false,
+      customMetadata: sidecar.customMetadata,
+    };
+  }
+
+  /**
+   * Sidecar of a file, re-hashing it if it changed outside the adapter
+   */
+  private async sidecar(key: string, stat: fs.Stats): Promise<Sidecar> {
+    let sidecar: Sidecar | undefined;
+    try {
+      sidecar = JSON.parse(await fs.promises.readFile(this.sidecarPath(key), 'utf8'));
+    } catch {
+      sidecar = undefined;
+    }
+    if (sidecar && sidecar.size === stat.size && sidecar.mtimeMs === stat.mtimeMs) {
+      return sidecar;
+    }
+
+    const refreshed: Sidecar = {
+      ...sidecar,
+      etag: await hashStream(fs.createReadStream(this.filePath(key))),
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+    };
+    // Best effort: a read-only share still lists, it just re-hashes
+    await this.writeSidecar(key, refreshed).catch(() => undefined);
+    return refreshed;
+  }
+
+  private async writeSidecar(key: string, sidecar: Sidecar): Promise<void> {
+    const json = Buffer.from(JSON.stringify(sidecar, null, 2));
+    await writeAtomically(this.sidecarPath(key), json);
+  }
+
+  /**
+   * Remove directories a deleted file leaves empty, up to the root
+   */
+  private async prune(key: string): Promise<void> {
+    for (let dir = parentKey(key); dir; dir = parentKey(dir)) {
+      const directory = this.filePath(dir);
+      await fs.promises.rmdir(path.join(directory, METADATA_DIR)).catch(() => undefined);
+      try {
+        await fs.promises.rmdir(directory);
+      } catch {
+        return;                             // Not empty
+      }
+    }
+  }
+
+  private endpoint(): URL {
+    if (!this.config.endpoint) {
+      throw new Error('Signed URLs need an endpoint that serves the storage root');
+    }
+    return new URL(this.config.endpoint.replace(/\/*$/, '/'));
+  }
+
+  private sign(key: string, expires: number): string {
+    const secret = this.config.credentials.secretKey;
+    if (!secret) {
+      throw new Error('Signed URLs need credentials.secretKey');
+    }
+    return crypto.createHmac('sha256', secret).update(`${key}\n${expires}`).digest('hex');
+  }
+}
+
+/**
+ * Write a file through a temporary file beside it, hashing the content
+ */
+export async function writeAtomically(
+  target: string,
+  content: Buffer | (() => NodeJS.ReadableStream)
+): Promise<{ etag: string; size: number }> {
+  const directory = path.dirname(target);
+  await fs.promises.mkdir(directory, { recursive: true });
+  const tempPath = path.join(
+    directory,
+    `.${path.basename(target)}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`
+  );
+
+  const digest = crypto.createHash('sha256');
+  let size = 0;
+  try {
+    if (Buffer.isBuffer(content)) {
+      digest.update(content);
+      size = content.length;
+      await fs.promises.writeFile(tempPath, content);
+    } else {
+      const hashing = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          digest.update(chunk);
+          size += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      await pipeline(content(), hashing, fs.createWriteStream(tempPath));
+    }
+    await fs.promises.rename(tempPath, target);
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+  return { etag: digest.digest('hex'), size };
+}
+
+function parentKey(key: string): string {
+  const slash = key.lastIndexOf('/');
+  return slash < 0 ? '' : key.substring(0, slash);
+}
+
+registerCloudProviderAdapter(
+  CloudProvider.SELF_HOSTED,
+  (config) => new LocalFilesystemAdapter(config)
+);
@@ -0,0 +1,746 @@
+/**
+ * S3-Compatible Adapter for AWS S3, MinIO, Cloudflare R2, Backblaze B2,
+ * Wasabi, DigitalOcean Spaces and any other S3 API
+ *
+ * Requests are signed with AWS Signature Version 4, without an SDK. The
+ * endpoint comes from config.endpoint, which also points the adapter at a
+ * local stand-in such as MinIO; AWS, Wasabi and Spaces have defaults built
+ * from config.region. Remote paths are keys under config.basePath.
+ *
+ * Files up to chunkSize (at least 5 MB, the S3 minimum part) go up in one
+ * PUT; larger ones as a multipart upload of chunkSize parts, at most
+ * maxConcurrentUploads in flight, aborted if any part fails. With
+ * config.versioning, bucket versioning is switched on before the first
+ * write, and older versions can be listed, read and shared.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import {
+  CloudDownloadResult,
+  CloudFileMetadata,
+  CloudProvider,
+  CloudProviderAdapter,
+  CloudProviderConfig,
+  CloudUploadOptions,
+  CloudUploadResult,
+  contentTypeFor,
+  PROVIDER_FEATURES,
+  registerCloudProviderAdapter,
+} from './cloud-providers';
+import { writeAtomically } from './local-adapter';
+
+const MB = 1024 * 1024;
+const MIN_PART_SIZE = 5 * MB;
+const MAX_PARTS = 10000;
+const MAX_COPY_SIZE = 5 * 1024 * MB;          // Larger objects are copied in parts
+const MAX_PRESIGN_SECONDS = 7 * 24 * 3600;
+const DEFAULT_CHUNK_SIZE = 8 * MB;
+const DEFAULT_CONCURRENCY = 4;
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/**
+ * Default endpoints, for providers whose host follows from the region
+ */
+const DEFAULT_ENDPOINTS: Partial<Record<CloudProvider, (region: string) => string>> = {
+  [CloudProvider.AWS_S3]: (region) => `https://s3.${region}.amazonaws.com`,
+  [CloudProvider.WASABI]: (region) => `https://s3.${region}.wasabisys.com`,
+  [CloudProvider.DIGITAL_OCEAN_SPACES]: (region) => `https://${region}.digitaloceanspaces.com`,
+};
+
+const DEFAULT_REGIONS: Partial<Record<CloudProvider, string>> = {
+  [CloudProvider.CLOUDFLARE_R2]: 'auto',
+  [CloudProvider.DIGITAL_OCEAN_SPACES]: 'nyc3',
+};
+
+// Providers addressed as bucket.host; the rest take the bucket in the path
+const VIRTUAL_HOSTED = new Set<CloudProvider>([
+  CloudProvider.AWS_S3,
+  CloudProvider.WASABI,
+  CloudProvider.DIGITAL_OCEAN_SPACES,
+  CloudProvider.BACKBLAZE_B2,
+]);
+
+/**
+ * Request to the S3 API
+ */
+interface S3Request {
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: Buffer;
+  allow?: number[];                         // Error statuses the caller handles
+}
+
+/**
+ * Adapter for a bucket on any S3-compatible service
+ */
+export class S3CompatibleAdapter implements CloudProviderAdapter {
+  readonly provider: CloudProvider;
+  readonly bucket: string;
+  readonly region: string;
+  private readonly endpoint: URL;
+  private readonly virtualHosted: boolean;
+  private readonly prefix: string;
+  private versioningEnabled?: Promise<void>;
+
+  constructor(public config: CloudProviderConfig) {
+    const { accessKey, secretKey } = config.credentials;
+    if (!config.bucket) throw new Error(`${config.provider} storage needs a bucket`);
+    if (!accessKey || !secretKey) {
+      throw new Error(`${config.provider} storage needs credentials.accessKey and secretKey`);
+    }
+
+    this.provider = config.provider;
+    this.bucket = config.bucket;
+
+    const configured = config.endpoint
+      ? new URL(/^https?:\/\//i.test(config.endpoint) ? config.endpoint : `https://${config.endpoint}`)
+      : undefined;
+    this.region =
+      config.region ||
+      (configured && regionFromHost(configured.hostname)) ||
+      DEFAULT_REGIONS[config.provider] ||
+      'us-east-1';
+
+    const defaultEndpoint = DEFAULT_ENDPOINTS[config.provider];
+    if (!configured && !defaultEndpoint) {
+      throw new Error(`${config.provider} storage needs an endpoint`);
+    }
+    this.endpoint = configured || new URL(defaultEndpoint!(this.region));
+    this.virtualHosted =
+      VIRTUAL_HOSTED.has(config.provider) && /^[a-z0-9][a-z0-9-]*[a-z0-9]$/.test(this.bucket);
+
+    const base = keyParts(config.basePath || '').join('/');
+    this.prefix = base ? `${base}/` : '';
+  }
+
+  async upload(
+    localPath: string,
+    remotePath: string,
+    options: CloudUploadOptions = {}
+  ): Promise<CloudUploadResult> {
+    const started = Date.now();
+    const key = this.objectKey(remotePath);
+    const { size } = await fs.promises.stat(localPath);
+    await this.ensureVersioning();
+
+    const headers: Record<string, string> = {
+      'content-type': options.contentType || contentTypeFor(key),
+    };
+    for (const [name, value] of Object.entries(options.customMetadata || {})) {
+      headers[`x-amz-meta-${name.toLowerCase()}`] = value;
+    }
+
+    const partSize = this.partSize(size);
+    let etag: string | undefined;
+    let versionId: string | undefined;
+    if (size <= partSize) {
+      const response = await this.send('PUT', key, {
+        headers,
+        body: await fs.promises.readFile(localPath),
+      });
+      etag = unquote(response.headers.get('etag'));
+      versionId = response.headers.get('x-amz-version-id') || undefined;
+    } else {
+      ({ etag, versionId } = await this.uploadParts(key, localPath, size, partSize, headers));
+    }
+
+    return {
+      success: true,
+      remotePath: key.substring(this.prefix.length),
+      url: this.url(key).href,
+      etag,
+      versionId,
+      size,
+      uploadTime: Date.now() - started,
+    };
+  }
+
+  /**
+   * Download the current version of an object, or the given one
+   */
+  async download(
+    remotePath: string,
+    localPath: string,
+    versionId?: string
+  ): Promise<CloudDownloadResult> {
+    const started = Date.now();
+    const key = this.objectKey(remotePath);
+    const response = await this.send('GET', key, {
+      query: versionId ? { versionId } : undefined,
+    });
+    if (!response.body) throw new Error(`Empty response for ${remotePath}`);
+
+    const body = response.body as unknown as WebReadableStream<Uint8Array>;
+    const { size } = await writeAtomically(path.resolve(localPath), () => Readable.fromWeb(body));
+    const expected = Number(response.headers.get('content-length'));
+    if (response.headers.has('content-length') && size !== expected) {
+      throw new Error(`Download of ${remotePath} stopped at ${size} of ${expected} bytes`);
+    }
+    return { success: true, localPath, size, downloadTime: Date.now() - started };
+  }
+
+  /**
+   * Delete an object; under versioning this leaves a delete marker
+   */
+  async delete(remotePath: string): Promise<void> {
+    await this.send('DELETE', this.objectKey(remotePath), { allow: [404] });
+  }
+
+  async exists(remotePath: string): Promise<boolean> {
+    const response = await this.send('HEAD', this.objectKey(remotePath), { allow: [404] });
+    return response.status !== 404;
+  }
+
+  /**
+   * Metadata of an object (or one of its versions), or of a prefix when the
+   * path ends in "/"
+   */
+  async getMetadata(remotePath: string, versionId?: string): Promise<CloudFileMetadata> {
+    if (!keyParts(remotePath).length || /[\\/]$/.test(remotePath)) {
+      const prefix = this.prefix + keyParts(remotePath).map((part) => `${part}/`).join('');
+      const listing = await this.send('GET', '', {
+        query: { 'list-type': '2', prefix, 'max-keys': '1' },
+      });
+      if (!/<Contents>/.test(await listing.text())) throw new Error(`Not found: ${remotePath}`);
+      return directoryEntry(prefix.substring(this.prefix.length));
+    }
+
+    const key = this.objectKey(remotePath);
+    const response = await this.send('HEAD', key, {
+      query: versionId ? { versionId } : undefined,
+      allow: [404],
+    });
+    if (response.status === 404) throw new Error(`Not found: ${remotePath}`);
+
+    const customMetadata: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (name.startsWith('x-amz-meta-')) customMetadata[name.substring(11)] = value;
+    });
+    const relative = key.substring(this.prefix.length);
+    return {
+      path: relative,
+      name: relative.substring(relative.lastIndexOf('/') + 1),
+      size: Number(response.headers.get('content-length') || 0),
+      contentType: response.headers.get('content-type') || contentTypeFor(relative),
+      lastModified: new Date(response.headers.get('last-modified') || 0),
+      etag: unquote(response.headers.get('etag')),
+      versionId: response.headers.get('x-amz-version-id') || undefined,
+      isDirectory: false,
+      customMetadata: Object.keys(customMetadata).length ? customMetadata : undefined,
+    };
+  }
+
+  /**
+   * Objects and prefixes directly under a path, sorted by name
+   * Prefix paths end in "/". A path naming an object lists just that object.
+   */
+  async listFiles(remotePath: string): Promise<CloudFileMetadata[]> {
+    const parts = keyParts(remotePath);
+    const prefix = this.prefix + parts.map((part) => `${part}/`).join('');
+    const listed: CloudFileMetadata[] = [];
+
+    let continuationToken: string | undefined;
+    do {
+      const query: Record<string, string> = { 'list-type': '2', delimiter: '/', prefix };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+      const xml = await (await this.send('GET', '', { query })).text();
+
+      for (const element of xmlElements(xml, 'Contents')) {
+        const key = xmlValue(element, 'Key') || '';
+        if (key === prefix) continue;       // Folder placeholder
+        listed.push(this.listedObject(element, key));
+      }
+      for (const element of xmlElements(xml, 'CommonPrefixes')) {
+        const key = xmlValue(element, 'Prefix') || '';
+        listed.push(directoryEntry(key.substring(this.prefix.length)));
+      }
+      continuationToken =
+        xmlValue(xml, 'IsTruncated') === 'true'
+          ? xmlValue(xml, 'NextContinuationToken')
+          : undefined;
+    } while (continuationToken);
+
+    if (!listed.length && parts.length && !/[\\/]$/.test(remotePath)) {
+      return (await this.exists(remotePath)) ? [await this.getMetadata(remotePath)] : [];
+    }
+    return listed.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+
+  /**
+   * Versions of an object, newest first; delete markers are left out
+   */
+  async listVersions(remotePath: string): Promise<CloudFileMetadata[]> {
+    const key = this.objectKey(remotePath);
+    const versions: CloudFileMetadata[] = [];
+
+    let markers: Record<string, string> = {};
+    for (;;) {
+      const xml = await (
+        await this.send('GET', '', { query: { versions: '', prefix: key, ...markers } })
+      ).text();
+      for (const element of xmlElements(xml, 'Version')) {
+        if (xmlValue(element, 'Key') !== key) continue;
+        versions.push(this.listedObject(element, key));
+      }
+      if (xmlValue(xml, 'IsTruncated') !== 'true') break;
+      markers = {
+        'key-marker': xmlValue(xml, 'NextKeyMarker') || '',
+        'version-id-marker': xmlValue(xml, 'NextVersionIdMarker') || '',
+      };
+    }
+    return versions;
+  }
+
+  /**
+   * Presigned GET URL, valid for expiresIn seconds (at most 7 days)
+   */
+  async getSignedUrl(remotePath: string, expiresIn: number, versionId?: string): Promise<string> {
+    const key = this.objectKey(remotePath);
+    const expires = Math.min(MAX_PRESIGN_SECONDS, Math.max(1, Math.floor(expiresIn)));
+    const { amzDate, scope } = this.scope();
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.credentials.accessKey}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expires),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const sessionToken = this.sessionToken();
+    if (sessionToken) query['X-Amz-Security-Token'] = sessionToken;
+    if (versionId) query.versionId = versionId;
+
+    const url = this.url(key, query);
+    const canonical = [
+      'GET',
+      url.pathname,
+      canonicalQuery(query),
+      `host:${url.host}\n`,
+      'host',
+      UNSIGNED_PAYLOAD,
+    ].join('\n');
+    const signature = this.signature(amzDate, scope, canonical);
+    url.search = `${canonicalQuery(query)}&X-Amz-Signature=${signature}`;
+    return url.href;
+  }
+
+  /**
+   * Server-side copy, keeping content type and custom metadata
+   */
+  async copy(fromPath: string, toPath: string): Promise<void> {
+    const fromKey = this.objectKey(fromPath);
+    const toKey = this.objectKey(toPath);
+    await this.ensureVersioning();
+    const source = `/${this.bucket}/${uriEncode(fromKey, false)}`;
+
+    const head = await this.getMetadata(fromKey.substring(this.prefix.length));
+    if (head.size <= MAX_COPY_SIZE) {
+      const response = await this.send('PUT', toKey, {
+        headers: { 'x-amz-copy-source': source },
+      });
+      // A copy can fail after the 200 status has been sent
+      checkXml(await response.text(), `Copy of ${fromPath} to ${toPath}`);
+      return;
+    }
+
+    // Multipart copies start bare, so metadata is carried over explicitly
+    const headers: Record<string, string> = { 'content-type': head.contentType };
+    for (const [name, value] of Object.entries(head.customMetadata || {})) {
+      headers[`x-amz-meta-${name}`] = value;
+    }
+    const partSize = this.partSize(head.size);
+    await this.multipart(toKey, headers, Math.ceil(head.size / partSize), async (index, query) => {
+      const first = index * partSize;
+      const last = Math.min(head.size, first + partSize) - 1;
+      const response = await this.send('PUT', toKey, {
+        query,
+        headers: {
+          'x-amz-copy-source': source,
+          'x-amz-copy-source-range': `bytes=${first}-${last}`,
+        },
+      });
+      const xml = await response.text();
+      checkXml(xml, `Copy of ${fromPath} to ${toPath}`);
+      return xmlValue(xml, 'ETag') || '';
+    });
+  }
+
+  /**
+   * Copy, then delete the original; S3 has no rename
+   */
+  async move(fromPath: string, toPath: string): Promise<void> {
+    if (this.objectKey(fromPath) === this.objectKey(toPath)) {
+      if (!(await this.exists(fromPath))) throw new Error(`Not found: ${fromPath}`);
+      return;
+    }
+    await this.copy(fromPath, toPath);
+    await this.delete(fromPath);
+  }
+
+  /**
+   * Upload a file in parts, maxConcurrentUploads at a time
+   */
+  private uploadParts(
+    key: string,
+    localPath: string,
+    size: number,
+    partSize: number,
+    headers: Record<string, string>
+  ): Promise<{ etag?: string; versionId?: string }> {
+    return withFile(localPath, (file) =>
+      this.multipart(key, headers, Math.ceil(size / partSize), async (index, query) => {
+        const offset = index * partSize;
+        const body = Buffer.alloc(Math.min(partSize, size - offset));
+        const { bytesRead } = await file.read(body, 0, body.length, offset);
+        if (bytesRead !== body.length) {
+          throw new Error(`${localPath} changed during upload`);
+        }
+        const response = await this.send('PUT', key, { query, body });
+        return response.headers.get('etag') || '';
+      })
+    );
+  }
+
+  /**
+   * Run a multipart upload, aborting it if any part fails
+   * uploadPart gets the zero-based part index and the part's query, and
+   * returns the part's etag.
+   */
+  private async multipart(
+    key: string,
+    headers: Record<string, string>,
+    parts: number,
+    uploadPart: (index: number, query: Record<string, string>) => Promise<string>
+  ): Promise<{ etag?: string; versionId?: string }> {
+    const created = await this.send('POST', key, { query: { uploads: '' }, headers });
+    const uploadId = xmlValue(await created.text(), 'UploadId');
+    if (!uploadId) throw new Error(`No multipart upload id for ${key}`);
+
+    try {
+      const concurrency = Math.max(1, this.config.maxConcurrentUploads || DEFAULT_CONCURRENCY);
+      const etags = await mapConcurrently(parts, concurrency, (index) =>
+        uploadPart(index, { partNumber: String(index + 1), uploadId })
+      );
+
+      const body = Buffer.from(
+        '<CompleteMultipartUpload>' +
+          etags
+            .map(
+              (etag, index) =>
+                `<Part><PartNumber>${index + 1}</PartNumber><ETag>${xmlEscape(etag)}</ETag></Part>`
+            )
+            .join('') +
+          '</CompleteMultipartUpload>'
+      );
+      const response = await this.send('POST', key, {
+        query: { uploadId },
+        headers: { 'content-type': 'application/xml' },
+        body,
+      });
+      const xml = await response.text();
+      checkXml(xml, `Multipart upload of ${key}`);
+      return {
+        etag: unquote(xmlValue(xml, 'ETag')),
+        versionId: response.headers.get('x-amz-version-id') || undefined,
+      };
+    } catch (error) {
+      await this.send('DELETE', key, { query: { uploadId }, allow: [404] }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Switch bucket versioning on once, before the first write
+   */
+  private ensureVersioning(): Promise<void> {
+    if (!this.config.versioning) return Promise.resolve();
+    if (!this.versioningEnabled) {
+      const body = Buffer.from(
+        '<VersioningConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">' +
+          '<Status>Enabled</Status></VersioningConfiguration>'
+      );
+      this.versioningEnabled = this.send('PUT', '', {
+        query: { versioning: '' },
+        headers: { 'content-type': 'application/xml' },
+        body,
+      }).then(
+        () => undefined,
+        (error) => {
+          this.versioningEnabled = undefined;
+          throw error;
+        }
+      );
+    }
+    return this.versioningEnabled;
+  }
+
+  /**
+   * Part size for an object: chunkSize, raised to the S3 minimum and to
+   * fit within 10000 parts
+   */
+  private partSize(size: number): number {
+    return Math.max(
+      MIN_PART_SIZE,
+      this.config.chunkSize || DEFAULT_CHUNK_SIZE,
+      Math.ceil(size / MAX_PARTS)
+    );
+  }
+
+  /**
+   * Signed request; error statuses throw unless listed in allow
+   */
+  private async send(method: string, key: string, request: S3Request = {}): Promise<Response> {
+    const query = request.query || {};
+    const url = this.url(key, query);
+    const body = request.body;
+    const payloadHash = sha256(body || Buffer.alloc(0));
+    const { amzDate, scope } = this.scope();
+
+    const headers: Record<string, string> = {
+      'x-amz-date': amzDate,
+      'x-amz-content-sha256': payloadHash,
+    };
+    for (const [name, value] of Object.entries(request.headers || {})) {
+      headers[name.toLowerCase()] = value;
+    }
+    if (body) headers['content-md5'] = crypto.createHash('md5').update(body).digest('base64');
+    const sessionToken = this.sessionToken();
+    if (sessionToken) headers['x-amz-security-token'] = sessionToken;
+
+    const signed = { ...headers, host: url.host };
+    const names = Object.keys(signed).sort();
+    const canonical = [
+      method,
+      url.pathname,
+      canonicalQuery(query),
+      names.map((name) => `${name}:${signed[name as keyof typeof signed].trim().replace(/\s+/g, ' ')}\n`).join(''),
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+    headers.authorization =
+      `AWS4-HMAC-SHA256 Credential=${this.config.credentials.accessKey}/${scope}, ` +
+      `SignedHeaders=${names.join(';')}, Signature=${this.signature(amzDate, scope, canonical)}`;
+
+    const response = await fetch(url, { method, headers, body: body && new Uint8Array(body) });
+    if (response.ok || request.allow?.includes(response.status)) return response;
+
+    const xml = method === 'HEAD' ? '' : await response.text().catch(() => '');
+    const code = xmlValue(xml, 'Code');
+    const message = xmlValue(xml, 'Message');
+    throw new Error(
+      `${method} ${key || this.bucket} failed: ${response.status}` +
+        (code ? ` ${code}` : '') +
+        (message ? ` - ${message}` : '')
+    );
+  }
+
+  /**
+   * URL of an object ("" for the bucket), with the query in canonical order
+   */
+  private url(key: string, query: Record<string, string> = {}): URL {
+    const url = new URL(this.endpoint.href);
+    const base = url.pathname.replace(/\/+$/, '');
+    if (this.virtualHosted) {
+      url.hostname = `${this.bucket}.${url.hostname}`;
+      url.pathname = `${base}/${uriEncode(key, false)}`;
+    } else {
+      url.pathname = `${base}/${this.bucket}/${uriEncode(key, false)}`;
+    }
+    url.search = canonicalQuery(query);
+    return url;
+  }
+
+  /**
+   * Full key of an object path, under basePath
+   */
+  private objectKey(remotePath: string): string {
+    const parts = keyParts(remotePath);
+    if (!parts.length) throw new Error(`Not an object path: ${remotePath}`);
+    return this.prefix + parts.join('/');
+  }
+
+  private listedObject(element: string, key: string): CloudFileMetadata {
+    const relative = key.substring(this.prefix.length);
+    return {
+      path: relative,
+      name: relative.substring(relative.lastIndexOf('/') + 1),
+      size: Number(xmlValue(element, 'Size') || 0),
+      contentType: contentTypeFor(relative),
+      lastModified: new Date(xmlValue(element, 'LastModified') || 0),
+      etag: unquote(xmlValue(element, 'ETag')),
+      versionId: xmlValue(element, 'VersionId'),
+      isDirectory: false,
+    };
+  }
+
+  private sessionToken(): string | undefined {
+    return this.config.credentials.customAuth?.sessionToken;
+  }
+
+  private scope(): { amzDate: string; scope: string } {
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    return { amzDate, scope: `${amzDate.substring(0, 8)}/${this.region}/s3/aws4_request` };
+  }
+
+  private signature(amzDate: string, scope: string, canonicalRequest: string): string {
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    let key: Buffer = Buffer.from(`AWS4${this.config.credentials.secretKey}`);
+    for (const part of scope.split('/')) {
+      key = hmac(key, part);
+    }
+    return hmac(key, stringToSign).toString('hex');
+  }
+}
+
+function directoryEntry(prefix: string): CloudFileMetadata {
+  const name = prefix.replace(/\/$/, '');
+  return {
+    path: prefix,
+    name: name.substring(name.lastIndexOf('/') + 1),
+    size: 0,
+    contentType: 'application/x-directory',
+    lastModified: new Date(0),
+    isDirectory: true,
+  };
+}
+
+/**
+ * Segments of a remote path; "." is dropped and ".." refused, as the URL
+ * parser would resolve them
+ */
+function keyParts(remotePath: string): string[] {
+  const parts = remotePath
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((part) => part && part !== '.');
+  if (parts.includes('..')) throw new Error(`Path leaves the bucket: ${remotePath}`);
+  return parts;
+}
+
+/**
+ * Region named in a provider host, e.g. s3.us-west-004.backblazeb2.com
+ */
+function regionFromHost(host: string): string | undefined {
+  const match =
+    host.match(/^s3[.-]([a-z0-9-]+)\.(?:amazonaws\.com|wasabisys\.com|backblazeb2\.com)$/) ||
+    host.match(/^([a-z0-9-]+)\.digitaloceanspaces\.com$/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * RFC 3986 encoding as SigV4 expects; "/" kept in paths
+ */
+function uriEncode(value: string, encodeSlash = true): string {
+  const encoded = encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return encodeSlash ? encoded : encoded.replace(/%2F/g, '/');
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map((name) => `${uriEncode(name)}=${uriEncode(query[name])}`)
+    .join('&');
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+function unquote(etag: string | null | undefined): string | undefined {
+  return etag ? etag.replace(/^(W\/)?"|"$/g, '') : undefined;
+}
+
+function xmlElements(xml: string, name: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`, 'g'))].map((m) => m[1]);
+}
+
+function xmlValue(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  return match ? xmlUnescape(match[1]) : undefined;
+}
+
+function xmlUnescape(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (entity[0] !== '#') return named[entity.toLowerCase()];
+    const code = entity[1] === 'x' || entity[1] === 'X'
+      ? parseInt(entity.substring(2), 16)
+      : parseInt(entity.substring(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function xmlEscape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Throw for an <Error> document sent with a success status
+ */
+function checkXml(xml: string, action: string): void {
+  if (!/<Error>/.test(xml)) return;
+  throw new Error(
+    `${action} failed: ${xmlValue(xml, 'Code') || 'error'} - ${xmlValue(xml, 'Message') || ''}`
+  );
+}
+
+/**
+ * Run tasks for 0..count-1, at most limit at a time, in order of index
+ * Once a task fails no new ones start; the first error is thrown after
+ * the running ones settle.
+ */
+async function mapConcurrently<T>(
+  count: number,
+  limit: number,
+  task: (index: number) => Promise<T>
+): Promise<T[]> {
+  const results: T[] = new Array(count);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (next < count && !failure) {
+      const index = next++;
+      try {
+        results[index] = await task(index);
+      } catch (error) {
+        failure = failure || { error };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, worker));
+  if (failure) throw failure.error;
+  return results;
+}
+
+async function withFile<T>(
+  filePath: string,
+  use: (file: fs.promises.FileHandle) => Promise<T>
+): Promise<T> {
+  const file = await fs.promises.open(filePath, 'r');
+  try {
+    return await use(file);
+  } finally {
+    await file.close();
+  }
+}
+
+for (const [provider, features] of Object.entries(PROVIDER_FEATURES)) {
+  if (features.s3Compatible) {
+    registerCloudProviderAdapter(
+      provider as CloudProvider,
+      (config) => new S3CompatibleAdapter(config)
+    );
+  }
+}
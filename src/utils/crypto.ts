@@ -12,6 +12,25 @@ export function hash(data: string): string {
   return crypto.createHash('sha256').update(data, 'utf8').digest('hex');
 }
 
+/**
+ * Hash raw bytes with SHA-256
+ */
+export function hashBytes(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Hash a byte stream with SHA-256, without holding it in memory
+ */
+export function hashStream(stream: NodeJS.ReadableStream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const digest = crypto.createHash('sha256');
+    stream.on('data', (chunk) => digest.update(chunk));
+    stream.on('error', reject);
+    stream.on('end', () => resolve(digest.digest('hex')));
+  });
+}
+
 /**
  * Derive deterministic celestial coordinate from content hash
  * Used for automatic coordinate assignment during content harvesting